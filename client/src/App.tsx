@@ -6,7 +6,10 @@ import AuthPage from "@/pages/auth-page";
 import UserSettings from "@/pages/user-settings";
 import UserProfile from "@/pages/user-profile";
 import Checkout from "@/pages/checkout";
+import InvitePage from "@/pages/invite";
+import AiTeamPage from "@/pages/ai-team";
 import { UserProvider } from "@/context/user-context";
+import { WorkspaceProvider } from "@/context/workspace-context";
 import LandingPage from "@/components/landing-page";
 import { AuthProvider } from "@/hooks/use-auth";
 import ProtectedRoute from "@/components/protected-route";
@@ -20,6 +23,8 @@ function Router() {
       <ProtectedRoute path="/settings" component={UserSettings} />
       <ProtectedRoute path="/profile" component={UserProfile} />
       <ProtectedRoute path="/checkout" component={Checkout} />
+      <ProtectedRoute path="/invite/:token" component={InvitePage} />
+      <ProtectedRoute path="/ai-team" component={AiTeamPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -29,8 +34,10 @@ function App() {
   return (
     <AuthProvider>
       <UserProvider>
-        <Router />
-        <Toaster />
+        <WorkspaceProvider>
+          <Router />
+          <Toaster />
+        </WorkspaceProvider>
       </UserProvider>
     </AuthProvider>
   );
@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAiChatStream } from "@/hooks/use-ai-chat-stream";
+import { Loader2, Send, Square, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import AiContextPicker, { type ContextNote } from "@/components/ai-context-picker";
+import AiProposals, { type Note } from "@/components/ai-proposals";
+
+interface AiTeamMember {
+  id: number;
+  name: string;
+  role: string;
+  model: string;
+  provider: string;
+  avatarColor: string | null;
+}
+
+interface AiChatMessage {
+  id: number;
+  content: string;
+  isUserMessage: boolean;
+  timestamp: string;
+}
+
+interface AiChatProps {
+  member: AiTeamMember;
+  noteId?: number; // set for a conversation about that note, which the member reads
+  onNoteChanged?: (note: Note) => void; // after the user approves a change the member proposed
+}
+
+const bubbleClasses = {
+  user: "ml-auto bg-amber-200 text-gray-900",
+  bot: "mr-auto bg-white text-gray-800 border",
+};
+
+const ChatBubble: React.FC<{ isUserMessage: boolean; children: React.ReactNode }> = ({ isUserMessage, children }) => (
+  <div className={`max-w-[80%] rounded-md px-3 py-2 text-sm whitespace-pre-wrap break-words ${bubbleClasses[isUserMessage ? "user" : "bot"]}`}>
+    {children}
+  </div>
+);
+
+// A conversation with one AI team member; replies appear as they're written.
+// Outside a note, the user can pick notes for the member to read. Changes
+// the member proposes to notes wait at the bottom for the user to approve.
+const AiChat: React.FC<AiChatProps> = ({ member, noteId, onNoteChanged }) => {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState("");
+  const [contextNotes, setContextNotes] = useState<ContextNote[]>([]);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const chatUrl = `/api/ai-team/chat/${member.id}`;
+
+  const { data: messages, isLoading } = useQuery<AiChatMessage[]>({
+    queryKey: [noteId === undefined ? chatUrl : `/api/notes/${noteId}/ai-chat?memberId=${member.id}`],
+    staleTime: 0,
+  });
+  const { isStreaming, pendingMessage, reply, error, send, stop } = useAiChatStream(member.id);
+
+  // Newest last
+  const history = messages ? [...messages].reverse() : [];
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages, pendingMessage, reply]);
+
+  const { mutate: clearHistory, isPending: isClearing } = useMutation({
+    mutationFn: () => apiRequest("DELETE", chatUrl),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [chatUrl] }),
+    onError: (error: Error) => {
+      toast({ title: "Couldn't clear the chat", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSend = () => {
+    const content = draft.trim();
+    if (!content || isStreaming) return;
+    setDraft("");
+    send(content, noteId === undefined ? { contextNoteIds: contextNotes.map(note => note.id) } : { noteId });
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex items-center justify-between border-b pb-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-800">{member.name}</h2>
+          <p className="text-xs text-muted-foreground">{member.role} · {member.model}</p>
+        </div>
+        {noteId === undefined && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => clearHistory()}
+            disabled={isClearing || isStreaming || history.length === 0}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto py-4 space-y-3">
+        {isLoading && (
+          <>
+            <Skeleton className="h-10 w-2/3" />
+            <Skeleton className="h-10 w-1/2 ml-auto" />
+          </>
+        )}
+        {!isLoading && history.length === 0 && !pendingMessage && (
+          <p className="text-sm text-center text-muted-foreground py-8">
+            {noteId === undefined ? `No messages yet. Ask ${member.name} something.` : `Ask ${member.name} about this note.`}
+          </p>
+        )}
+        {history.map(message => (
+          <ChatBubble key={message.id} isUserMessage={message.isUserMessage}>
+            {message.content}
+          </ChatBubble>
+        ))}
+        {pendingMessage && (
+          <>
+            <ChatBubble isUserMessage>{pendingMessage}</ChatBubble>
+            <ChatBubble isUserMessage={false}>
+              {reply || <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </ChatBubble>
+          </>
+        )}
+        <AiProposals memberId={member.id} onApplied={onNoteChanged} />
+        {error && <p className="text-xs text-center text-red-600">{error}</p>}
+        <div ref={bottomRef} />
+      </div>
+
+      {noteId === undefined && (
+        <div className="border-t py-2">
+          <AiContextPicker notes={contextNotes} onChange={setContextNotes} />
+        </div>
+      )}
+      <div className={`flex items-end gap-2 ${noteId === undefined ? "" : "border-t pt-3"}`}>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder={`Message ${member.name}...`}
+          rows={2}
+          className="resize-none"
+        />
+        {isStreaming ? (
+          <Button variant="outline" onClick={stop} title="Stop the reply">
+            <Square className="h-4 w-4 mr-1" />
+            Stop
+          </Button>
+        ) : (
+          <Button onClick={handleSend} disabled={!draft.trim()}>
+            <Send className="h-4 w-4 mr-1" />
+            Send
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AiChat;
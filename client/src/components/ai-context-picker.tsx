@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useDebounce } from "@/hooks/use-debounce";
+import { FileText, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+
+export interface ContextNote {
+  id: number;
+  title: string;
+}
+
+interface AiContextPickerProps {
+  notes: ContextNote[];
+  onChange: (notes: ContextNote[]) => void;
+  max?: number;
+}
+
+// Matches the server's limit on context notes per message
+const DEFAULT_MAX_NOTES = 10;
+
+// Notes to hand the AI team member along with each message
+const AiContextPicker: React.FC<AiContextPickerProps> = ({ notes, onChange, max = DEFAULT_MAX_NOTES }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const debouncedQuery = useDebounce(query.trim(), 300);
+
+  const { data: results, isFetching } = useQuery<ContextNote[]>({
+    queryKey: [`/api/notes/search?q=${encodeURIComponent(debouncedQuery)}&limit=20`],
+    enabled: open && debouncedQuery !== "",
+    staleTime: 0,
+  });
+  const choices = results?.filter(result => !notes.some(note => note.id === result.id)) ?? [];
+
+  const add = (note: ContextNote) => {
+    onChange([...notes, { id: note.id, title: note.title }]);
+    setQuery("");
+    setOpen(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {notes.map(note => (
+        <span key={note.id} className="flex items-center gap-1 rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+          <FileText className="h-3 w-3" />
+          <span className="max-w-[160px] truncate">{note.title || "Untitled"}</span>
+          <button
+            type="button"
+            onClick={() => onChange(notes.filter(other => other.id !== note.id))}
+            aria-label={`Stop using ${note.title || "Untitled"}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      {notes.length < max && (
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-muted-foreground">
+              <Plus className="h-3 w-3 mr-1" />
+              {notes.length ? "Add note" : "Add notes as context"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 p-0" align="start">
+            <Command shouldFilter={false}>
+              <CommandInput value={query} onValueChange={setQuery} placeholder="Search notes..." />
+              <CommandList>
+                <CommandEmpty>
+                  {debouncedQuery === "" ? "Type to find a note" : isFetching ? "Searching..." : "No notes found"}
+                </CommandEmpty>
+                {choices.map(note => (
+                  <CommandItem key={note.id} value={String(note.id)} onSelect={() => add(note)}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    <span className="truncate">{note.title || "Untitled"}</span>
+                  </CommandItem>
+                ))}
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
+
+export default AiContextPicker;
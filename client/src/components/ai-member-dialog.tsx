@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface AiProviderInfo {
+  id: string;
+  label: string;
+  configured: boolean;
+  models: string[];
+}
+
+interface AiMemberDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: (memberId: number) => void;
+}
+
+const AVATAR_COLORS = ["blue", "green", "pink", "purple", "orange", "yellow"] as const;
+
+const emptyForm = {
+  name: "",
+  role: "",
+  provider: "",
+  model: "",
+  avatarColor: "blue" as (typeof AVATAR_COLORS)[number],
+  systemPrompt: "",
+};
+
+// Adds a member to the AI team, on any provider the server has registered
+const AiMemberDialog: React.FC<AiMemberDialogProps> = ({ open, onOpenChange, onCreated }) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: providers } = useQuery<AiProviderInfo[]>({
+    queryKey: ["/api/ai-team/providers"],
+    enabled: open,
+  });
+  const provider = providers?.find(p => p.id === form.provider);
+
+  useEffect(() => {
+    if (open) setForm(emptyForm);
+  }, [open]);
+
+  const update = (changes: Partial<typeof emptyForm>) => setForm(current => ({ ...current, ...changes }));
+
+  // A new provider suggests its first model
+  const selectProvider = (id: string) => {
+    const selected = providers?.find(p => p.id === id);
+    update({ provider: id, model: selected?.models[0] ?? "" });
+  };
+
+  const { mutate: createMember, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/ai-team/members", {
+        ...form,
+        name: form.name.trim(),
+        role: form.role.trim(),
+        model: form.model.trim(),
+      });
+      return response.json() as Promise<{ id: number; name: string }>;
+    },
+    onSuccess: async (member) => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/ai-team/members"] });
+      onOpenChange(false);
+      onCreated?.(member.id);
+      toast({ title: `Added ${member.name} to the team` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to add team member",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = !!(form.name.trim() && form.role.trim() && form.provider && form.model.trim() && form.systemPrompt.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New team member</DialogTitle>
+          <DialogDescription>
+            Pick who answers: a hosted model, a model server of your own, or the offline echo for trying things out.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canSubmit) createMember();
+          }}
+          className="space-y-3"
+        >
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="ai-member-name">Name</Label>
+              <Input
+                id="ai-member-name"
+                value={form.name}
+                onChange={(e) => update({ name: e.target.value })}
+                placeholder="e.g. Ada"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ai-member-role">Role</Label>
+              <Input
+                id="ai-member-role"
+                value={form.role}
+                onChange={(e) => update({ role: e.target.value })}
+                placeholder="e.g. Editor"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Provider</Label>
+              <Select value={form.provider} onValueChange={selectProvider}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a provider" />
+                </SelectTrigger>
+                <SelectContent>
+                  {providers?.map(p => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.label}{p.configured ? "" : " (sample replies)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ai-member-model">Model</Label>
+              <Input
+                id="ai-member-model"
+                value={form.model}
+                onChange={(e) => update({ model: e.target.value })}
+                placeholder="e.g. llama3.1"
+                list="ai-member-models"
+              />
+              <datalist id="ai-member-models">
+                {provider?.models.map(model => <option key={model} value={model} />)}
+              </datalist>
+            </div>
+          </div>
+          {provider && !provider.configured && (
+            <p className="text-xs text-muted-foreground">
+              {provider.label} isn't set up on this server, so this member will give sample replies until it is.
+            </p>
+          )}
+
+          <div className="space-y-1">
+            <Label>Color</Label>
+            <Select value={form.avatarColor} onValueChange={(value) => update({ avatarColor: value as typeof form.avatarColor })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AVATAR_COLORS.map(color => (
+                  <SelectItem key={color} value={color} className="capitalize">{color}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="ai-member-prompt">Instructions</Label>
+            <Textarea
+              id="ai-member-prompt"
+              value={form.systemPrompt}
+              onChange={(e) => update({ systemPrompt: e.target.value })}
+              placeholder="How this member should behave, e.g. You are a careful editor who..."
+              rows={4}
+            />
+          </div>
+
+          <DialogFooter className="pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={isPending || !canSubmit}>
+              {isPending ? "Adding..." : "Add member"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AiMemberDialog;
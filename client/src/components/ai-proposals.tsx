@@ -0,0 +1,199 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Sparkles, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface NoteChange {
+  title?: string;
+  content?: string;
+  tags?: string[];
+  color?: string;
+  isPinned?: boolean;
+  isArchived?: boolean;
+}
+
+interface DiffLine {
+  type: "added" | "removed" | "unchanged";
+  content: string;
+}
+
+interface AiToolInvocation {
+  id: number;
+  aiTeamMemberId: number;
+  noteId: number | null;
+  tool: string;
+  status: string;
+  before: NoteChange | null;
+  after: NoteChange | null;
+  createdAt: string;
+  diff: DiffLine[] | null;
+}
+
+export interface Note {
+  id: number;
+  title: string;
+  content: string;
+  color: "green" | "yellow" | "pink" | "blue" | "purple" | "orange";
+  isPinned: boolean;
+  isArchived: boolean;
+  drawingData?: string | null;
+  emojis?: string | null;
+  tags?: string[] | null;
+  notebookId?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+}
+
+interface AiProposalsProps {
+  noteId?: number; // only changes to this note
+  memberId?: number; // only changes this member proposed
+  onApplied?: (note: Note) => void;
+  className?: string;
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  create_note: "New note",
+  append_to_note: "Add to the end",
+  replace_section: "Rewrite a section",
+  add_tags: "Add tags",
+  set_color: "Change color",
+  pin_note: "Pin or unpin",
+  archive_note: "Archive or unarchive",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  tags: "Tags",
+  color: "Color",
+  isPinned: "Pinned",
+  isArchived: "Archived",
+};
+
+const diffLineClasses = {
+  added: "bg-lime-100 text-lime-900",
+  removed: "bg-red-100 text-red-900 line-through",
+  unchanged: "text-gray-600",
+};
+
+const diffLinePrefix = {
+  added: "+",
+  removed: "-",
+  unchanged: " ",
+};
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.length ? value.map(tag => `#${tag}`).join(" ") : "none";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  return value ? String(value) : "none";
+}
+
+// One proposed change: what it would do, and buttons to apply or drop it
+const AiProposal: React.FC<{ proposal: AiToolInvocation; onApplied?: (note: Note) => void }> = ({ proposal, onApplied }) => {
+  const { toast } = useToast();
+  const after = proposal.after ?? {};
+  const before = proposal.before ?? {};
+  const isNewNote = proposal.noteId === null;
+  const fields = Object.keys(FIELD_LABELS).filter(key => key in after && !(isNewNote && key === "title"));
+
+  const refresh = () => Promise.all([
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/ai-team/tool-calls") }),
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/notes") }),
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] }),
+  ]);
+
+  const { mutate: approve, isPending: isApproving } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/ai-team/tool-calls/${proposal.id}/approve`);
+      return response.json();
+    },
+    onSuccess: ({ note }) => {
+      refresh();
+      onApplied?.(note);
+      toast({ title: isNewNote ? "Note created" : "Change applied" });
+    },
+    onError: (error: Error) => {
+      // A refused change is marked failed, so it drops out of the list
+      refresh();
+      toast({ title: "Couldn't apply the change", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const { mutate: reject, isPending: isRejecting } = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/ai-team/tool-calls/${proposal.id}/reject`),
+    onSuccess: () => refresh(),
+    onError: (error: Error) => {
+      toast({ title: "Couldn't reject the change", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="rounded-md border border-amber-300 bg-amber-50 p-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1 min-w-0">
+          <Sparkles className="h-4 w-4 shrink-0 text-amber-600" />
+          <span className="font-medium">{TOOL_LABELS[proposal.tool] ?? proposal.tool}:</span>
+          <span className="truncate">{(isNewNote ? after.title : before.title) || "Untitled"}</span>
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <Button size="sm" variant="outline" onClick={() => reject()} disabled={isApproving || isRejecting}>
+            <X className="h-4 w-4 mr-1" />
+            Reject
+          </Button>
+          <Button size="sm" onClick={() => approve()} disabled={isApproving || isRejecting}>
+            <Check className="h-4 w-4 mr-1" />
+            Approve
+          </Button>
+        </div>
+      </div>
+
+      {fields.map(key => (
+        <div key={key} className="mt-1 text-xs">
+          {FIELD_LABELS[key]}:{" "}
+          {!isNewNote && <><span className="line-through text-red-700">{formatValue(before[key as keyof NoteChange])}</span>{" → "}</>}
+          <span className="text-lime-700">{formatValue(after[key as keyof NoteChange])}</span>
+        </div>
+      ))}
+
+      {proposal.diff && (
+        <div className="mt-2 overflow-auto max-h-64 rounded border bg-white font-mono text-xs">
+          {proposal.diff.map((line, index) => (
+            <div key={index} className={`px-2 whitespace-pre-wrap ${diffLineClasses[line.type]}`}>
+              <span className="select-none mr-2">{diffLinePrefix[line.type]}</span>
+              {line.content || " "}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Changes AI team members have proposed and the user hasn't decided on yet.
+ * Nothing is shown when there are none.
+ */
+const AiProposals: React.FC<AiProposalsProps> = ({ noteId, memberId, onApplied, className }) => {
+  const params = new URLSearchParams({ status: "pending" });
+  if (noteId !== undefined) params.set("noteId", String(noteId));
+  if (memberId !== undefined) params.set("memberId", String(memberId));
+
+  const { data: proposals } = useQuery<AiToolInvocation[]>({
+    queryKey: [`/api/ai-team/tool-calls?${params}`],
+  });
+
+  if (!proposals?.length) return null;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {proposals.map(proposal => (
+        <AiProposal key={proposal.id} proposal={proposal} onApplied={onApplied} />
+      ))}
+    </div>
+  );
+};
+
+export default AiProposals;
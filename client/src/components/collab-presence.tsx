@@ -0,0 +1,31 @@
+import React from "react";
+import type { CollabPeer } from "@shared/collab";
+
+interface CollabPresenceProps {
+  isLive: boolean;
+  peers: CollabPeer[];
+}
+
+// Who else has the note open, one colored initial per user
+const CollabPresence: React.FC<CollabPresenceProps> = ({ isLive, peers }) => {
+  // Several tabs of the same user show once
+  const users = peers.filter((peer, i) => peers.findIndex(other => other.userId === peer.userId) === i);
+
+  return (
+    <div className="flex items-center gap-1" title={isLive ? "Changes are shared live" : "Not connected; changes are saved normally"}>
+      <span className={`h-2 w-2 rounded-full ${isLive ? "bg-green-500" : "bg-gray-400"}`} />
+      {users.map(peer => (
+        <span
+          key={peer.userId}
+          className="h-6 w-6 -ml-0.5 rounded-full border-2 border-white flex items-center justify-center text-xs font-medium text-white"
+          style={{ backgroundColor: peer.color }}
+          title={`${peer.username}${peer.canEdit ? " is editing" : " is viewing"}`}
+        >
+          {peer.username.charAt(0).toUpperCase()}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default CollabPresence;
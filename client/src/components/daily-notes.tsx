@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, startOfMonth, endOfMonth, subDays, addDays } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Skeleton } from "@/components/ui/skeleton";
+import NoteEditor from "@/components/note-editor";
+import {
+  type DailyNoteDay,
+  dailyDateToLocalDate,
+  localDateToDailyDate,
+  shiftDailyDate,
+} from "@shared/daily-notes";
+
+interface Note {
+  id: number;
+  title: string;
+  content: string;
+  color: "green" | "yellow" | "pink" | "blue" | "purple" | "orange";
+  isPinned: boolean;
+  isArchived: boolean;
+  dailyDate?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Refresh the calendar's day markers, whatever month they were loaded for
+const invalidateDailyNoteDays = () => {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/notes/daily?"),
+  });
+};
+
+// Journal mode: one note per day, opened (and created on first visit) by date
+const DailyNotes: React.FC = () => {
+  const { user } = useAuth();
+  const [date, setDate] = useState<string | null>(null); // null until today's date comes back
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const [month, setMonth] = useState(new Date());
+
+  // "Today" follows the user's time zone; adopt the browser's until one is chosen
+  const hasTimeZone = !user || !!user.timeZone;
+
+  const { mutate: saveTimeZone, isError: timeZoneFailed } = useMutation({
+    mutationFn: async (timeZone: string) => {
+      const response = await apiRequest("PATCH", "/api/user/settings", { timeZone });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  useEffect(() => {
+    if (!hasTimeZone) {
+      saveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+    }
+  }, [hasTimeZone]);
+
+  const noteUrl = `/api/notes/daily/${date ?? "today"}`;
+  const { data: note, isLoading, error } = useQuery<Note>({
+    queryKey: [noteUrl],
+    enabled: hasTimeZone || timeZoneFailed,
+  });
+
+  const currentDate = date ?? note?.dailyDate ?? null;
+
+  // Days are created on demand, so the calendar may have a new mark
+  useEffect(() => {
+    if (note) invalidateDailyNoteDays();
+  }, [note?.id]);
+
+  const visibleFrom = localDateToDailyDate(subDays(startOfMonth(month), 7));
+  const visibleTo = localDateToDailyDate(addDays(endOfMonth(month), 7));
+  const { data: days } = useQuery<DailyNoteDay[]>({
+    queryKey: [`/api/notes/daily?from=${visibleFrom}&to=${visibleTo}`],
+    enabled: calendarOpen,
+  });
+
+  const goTo = (nextDate: string | null) => {
+    setDate(nextDate);
+    setCalendarOpen(false);
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => currentDate && goTo(shiftDailyDate(currentDate, -1))}
+            disabled={!currentDate}
+            title="Previous day"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+
+          <Popover
+            open={calendarOpen}
+            onOpenChange={(open) => {
+              setCalendarOpen(open);
+              if (open && currentDate) setMonth(dailyDateToLocalDate(currentDate));
+            }}
+          >
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="min-w-[220px] justify-start" disabled={!currentDate}>
+                <CalendarDays className="h-4 w-4 mr-2" />
+                {currentDate ? format(dailyDateToLocalDate(currentDate), "EEEE, MMMM d, yyyy") : "Loading..."}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={currentDate ? dailyDateToLocalDate(currentDate) : undefined}
+                onSelect={(day) => day && goTo(localDateToDailyDate(day))}
+                month={month}
+                onMonthChange={setMonth}
+                modifiers={{ hasNote: (days ?? []).map(day => dailyDateToLocalDate(day.date)) }}
+                modifiersClassNames={{ hasNote: "font-bold underline decoration-amber-500 decoration-2 underline-offset-4" }}
+              />
+              <p className="px-3 pb-3 text-xs text-muted-foreground">Underlined days have a note.</p>
+            </PopoverContent>
+          </Popover>
+
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => currentDate && goTo(shiftDailyDate(currentDate, 1))}
+            disabled={!currentDate}
+            title="Next day"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <Button variant="outline" onClick={() => goTo(null)} disabled={date === null}>
+          Today
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-10 w-full" />
+          <Skeleton className="h-[40vh] w-full" />
+        </div>
+      ) : note ? (
+        <NoteEditor
+          key={note.id}
+          note={note}
+          onUpdate={(updatedNote: Note) => {
+            queryClient.setQueryData([noteUrl], updatedNote);
+            queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+            invalidateDailyNoteDays();
+          }}
+        />
+      ) : (
+        <div className="flex items-center justify-center py-8 text-gray-500">
+          {error ? (error as Error).message : <Loader2 className="h-6 w-6 animate-spin" />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DailyNotes;
@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { Book, Settings, User, Home, Package, CreditCard, LogOut } from "lucide-react";
+import { Book, Settings, User, Home, Package, CreditCard, LogOut, Bot } from "lucide-react";
 import { useUser } from "@/context/user-context";
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
@@ -12,6 +12,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
+import WorkspaceSwitcher from "@/components/workspace-switcher";
 import { useToast } from "@/hooks/use-toast";
 
 const Header: React.FC = () => {
@@ -67,6 +68,15 @@ const Header: React.FC = () => {
                 <span>Dashboard</span>
               </Button>
               
+              <Button 
+                variant="ghost" 
+                className="flex items-center" 
+                onClick={() => navigateTo("/ai-team")}
+              >
+                <Bot className="h-4 w-4 mr-2" />
+                <span>AI Team</span>
+              </Button>
+              
               <Button 
                 variant="ghost" 
                 className="flex items-center" 
@@ -78,6 +88,8 @@ const Header: React.FC = () => {
             </div>
           )}
           
+          {user && <WorkspaceSwitcher />}
+          
           {user && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -106,6 +118,10 @@ const Header: React.FC = () => {
                   <Home className="mr-2 h-4 w-4" />
                   <span>Dashboard</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => navigateTo("/ai-team")}>
+                  <Bot className="mr-2 h-4 w-4" />
+                  <span>AI Team</span>
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={() => navigateTo("/profile")}>
                   <User className="mr-2 h-4 w-4" />
                   <span>Profile</span>
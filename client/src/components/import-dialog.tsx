@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  IMPORT_FILE_EXTENSIONS,
+  IMPORT_FORMATS,
+  IMPORT_FORMAT_LABELS,
+  type ImportFormat,
+  type ImportJob,
+} from "@shared/import";
+
+const isFinished = (job?: ImportJob) => job?.status === "completed" || job?.status === "failed";
+
+// Uploads an export from another app and follows the import until it's done
+const ImportDialog: React.FC = () => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<ImportFormat | "auto">("auto");
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  const { mutate: startImport, isPending } = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", file!);
+      if (format !== "auto") formData.append("format", format);
+
+      // Multipart, so not through apiRequest
+      const response = await fetch("/api/import", { method: "POST", body: formData, credentials: "include" });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.message || response.statusText);
+      }
+      return body as ImportJob;
+    },
+    onSuccess: (job) => {
+      queryClient.setQueryData([`/api/import/${job.id}`], job);
+      setJobId(job.id);
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { data: job } = useQuery<ImportJob>({
+    queryKey: [`/api/import/${jobId}`],
+    enabled: !!jobId,
+    refetchInterval: (query) => (isFinished(query.state.data) ? false : 1000),
+  });
+
+  // New notes, tags and attachments are in once the job is over
+  useEffect(() => {
+    if (job?.status === "completed") {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    }
+  }, [job?.status]);
+
+  const reset = () => {
+    setFile(null);
+    setFormat("auto");
+    setJobId(null);
+  };
+
+  const progress = job && job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+
+  return (
+    <>
+      <Button variant="outline" className="w-full" onClick={() => setOpen(true)}>
+        <Upload className="h-4 w-4 mr-2" />
+        Import Notes
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(nextOpen) => {
+          setOpen(nextOpen);
+          if (!nextOpen && (!job || isFinished(job))) reset();
+        }}
+      >
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import notes</DialogTitle>
+            <DialogDescription>
+              Upload a ZIP of Markdown files or an Obsidian vault, a Google Keep Takeout archive, or an Evernote .enex file.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!jobId ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="import-file">File</Label>
+                <Input
+                  id="import-file"
+                  type="file"
+                  accept={IMPORT_FILE_EXTENSIONS.join(",")}
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-format">Format</Label>
+                <Select value={format} onValueChange={(value) => setFormat(value as ImportFormat | "auto")}>
+                  <SelectTrigger id="import-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Detect automatically</SelectItem>
+                    {IMPORT_FORMATS.map(importFormat => (
+                      <SelectItem key={importFormat} value={importFormat}>{IMPORT_FORMAT_LABELS[importFormat]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {job?.status === "failed" ? (
+                <p className="text-sm text-red-600">{job.error}</p>
+              ) : (
+                <>
+                  <Progress value={job?.status === "completed" ? 100 : progress} />
+                  <p className="text-sm text-gray-600">
+                    {job?.status === "completed"
+                      ? `Imported ${job.imported} of ${job.total} notes${job.format ? ` from ${IMPORT_FORMAT_LABELS[job.format]}` : ""}.`
+                      : `Importing... ${job?.processed ?? 0} of ${job?.total || "?"} notes`}
+                  </p>
+                </>
+              )}
+
+              {job && job.skipped.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Skipped ({job.skipped.length})</p>
+                  <ScrollArea className="h-40 rounded border p-2">
+                    <ul className="space-y-1 text-xs">
+                      {job.skipped.map((skip, index) => (
+                        <li key={index}>
+                          <span className="font-medium">{skip.source}</span>: {skip.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {!jobId ? (
+              <>
+                <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+                <Button onClick={() => startImport()} disabled={!file || isPending}>
+                  {isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                  Import
+                </Button>
+              </>
+            ) : (
+              <Button onClick={() => { setOpen(false); reset(); }} disabled={!isFinished(job)}>
+                Done
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ImportDialog;
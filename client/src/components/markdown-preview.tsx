@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from "react";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+
+interface MarkdownPreviewProps {
+  html: string; // sanitized output of renderMarkdown
+  className?: string;
+  onClick?: (e: React.MouseEvent) => void;
+}
+
+type Mermaid = typeof import("mermaid").default;
+
+// Mermaid is large, so it is only loaded once a note actually contains a diagram
+let mermaidPromise: Promise<Mermaid> | null = null;
+let diagramCount = 0;
+
+function loadMermaid(): Promise<Mermaid> {
+  if (!mermaidPromise) {
+    mermaidPromise = import("mermaid").then(({ default: mermaid }) => {
+      mermaid.initialize({ startOnLoad: false, securityLevel: "strict", theme: "neutral" });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+}
+
+// Render each diagram on its own so a syntax error only replaces that block
+async function renderDiagrams(container: HTMLElement) {
+  const blocks = Array.from(container.querySelectorAll<HTMLElement>("pre[data-mermaid]"));
+  if (blocks.length === 0) return;
+
+  const mermaid = await loadMermaid();
+
+  for (const block of blocks) {
+    const source = block.textContent || "";
+    const id = `mermaid-diagram-${++diagramCount}`;
+
+    try {
+      const { svg } = await mermaid.render(id, source);
+      if (!block.isConnected) continue;
+
+      const diagram = document.createElement("div");
+      diagram.className = "mermaid-diagram flex justify-center my-4";
+      diagram.innerHTML = svg;
+      block.replaceWith(diagram);
+    } catch (error) {
+      // Mermaid can leave its scratch element behind when rendering fails
+      document.getElementById(`d${id}`)?.remove();
+      if (!block.isConnected) continue;
+
+      const message = document.createElement("div");
+      message.className = "not-prose text-xs text-red-600 mb-1";
+      message.textContent = `Diagram error: ${(error as Error).message}`;
+      block.removeAttribute("data-mermaid");
+      block.before(message);
+    }
+  }
+}
+
+async function copyCode(button: HTMLElement) {
+  const code = button.parentElement?.querySelector("pre")?.textContent || "";
+
+  try {
+    await navigator.clipboard.writeText(code);
+    button.textContent = "Copied";
+  } catch (error) {
+    console.error("Error copying code:", error);
+    button.textContent = "Failed";
+  }
+
+  setTimeout(() => {
+    button.textContent = "Copy";
+  }, 2000);
+}
+
+const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({ html, className, onClick }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    renderDiagrams(containerRef.current).catch((error) => {
+      console.error("Error rendering diagrams:", error);
+    });
+  }, [html]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    const copyButton = (e.target as HTMLElement).closest<HTMLElement>("[data-copy-code]");
+    if (copyButton) {
+      e.preventDefault();
+      copyCode(copyButton);
+      return;
+    }
+
+    if (onClick) {
+      onClick(e);
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`markdown-preview ${className || ""}`}
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default MarkdownPreview;
@@ -0,0 +1,70 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bot, ChevronDown, ChevronRight } from "lucide-react";
+import AiChat from "@/components/ai-chat";
+import type { Note } from "@/components/ai-proposals";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface AiTeamMember {
+  id: number;
+  name: string;
+  role: string;
+  model: string;
+  provider: string;
+  avatarColor: string | null;
+  isActive: boolean | null;
+}
+
+interface NoteAiChatProps {
+  noteId: number;
+  onNoteChanged?: (note: Note) => void;
+}
+
+// "Ask the AI team" panel under a note: a conversation about the note with a
+// member of the user's choosing, who reads the note before answering
+const NoteAiChat: React.FC<NoteAiChatProps> = ({ noteId, onNoteChanged }) => {
+  const [open, setOpen] = useState(false);
+  const [memberId, setMemberId] = useState<number | null>(null);
+
+  const { data: members } = useQuery<AiTeamMember[]>({
+    queryKey: ["/api/ai-team/members"],
+    enabled: open,
+  });
+
+  const activeMembers = members?.filter(member => member.isActive !== false) ?? [];
+  const member = activeMembers.find(m => m.id === memberId) ?? activeMembers[0];
+
+  return (
+    <div className="mt-4">
+      <button
+        type="button"
+        className="text-sm font-medium text-gray-700 flex items-center gap-1"
+        onClick={() => setOpen(!open)}
+      >
+        {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <Bot className="h-4 w-4" />
+        Ask the AI team
+      </button>
+
+      {open && member && (
+        <div className="mt-2 space-y-2">
+          <Select value={String(member.id)} onValueChange={(value) => setMemberId(parseInt(value))}>
+            <SelectTrigger className="h-8 w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {activeMembers.map(m => (
+                <SelectItem key={m.id} value={String(m.id)}>{m.name} · {m.role}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="h-96 rounded-md border bg-white p-3">
+            <AiChat key={member.id} member={member} noteId={noteId} onNoteChanged={onNoteChanged} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NoteAiChat;
@@ -0,0 +1,66 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link2 } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface Note {
+  id: number;
+  title: string;
+  content: string;
+  color: "green" | "yellow" | "pink" | "blue" | "purple" | "orange";
+  isPinned: boolean;
+  isArchived: boolean;
+  drawingData?: string | null;
+  emojis?: string | null;
+  tags?: string[] | null;
+  notebookId?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+}
+
+interface NoteBacklinksProps {
+  noteId: number;
+  onOpen: (note: Note) => void;
+}
+
+// "Linked from" panel: the notes whose [[links]] point at this one
+const NoteBacklinks: React.FC<NoteBacklinksProps> = ({ noteId, onOpen }) => {
+  const { data: backlinks, isLoading } = useQuery<Note[]>({
+    queryKey: [`/api/notes/${noteId}/backlinks`],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-10 w-full mt-4" />;
+  }
+
+  if (!backlinks || backlinks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4">
+      <h3 className="text-sm font-medium text-gray-700 flex items-center gap-1 mb-2">
+        <Link2 className="h-4 w-4" />
+        Linked from
+      </h3>
+      <div className="space-y-1">
+        {backlinks.map((backlink) => (
+          <button
+            key={backlink.id}
+            className="w-full text-left p-2 rounded border text-sm hover:bg-gray-50"
+            onClick={() => onOpen(backlink)}
+          >
+            <div className="font-medium truncate">{backlink.title || "Untitled"}</div>
+            <div className="text-xs text-muted-foreground truncate">
+              {backlink.content.replace(/[#*_`>\[\]]/g, "").slice(0, 100)}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NoteBacklinks;
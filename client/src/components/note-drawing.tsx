@@ -0,0 +1,416 @@
+import React, { useState, useEffect, useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  PenTool, Highlighter, Eraser, Minus, Square, Circle, Undo2, Redo2, Trash2, Download, Brush,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  DRAWING_WIDTH,
+  DRAWING_HEIGHT,
+  type DrawingElement,
+  type StrokePoint,
+  createElementId,
+  serializeDrawing,
+  parseDrawing,
+  getStrokeOutline,
+  getStrokePath,
+  exportDrawingAsSvg,
+  exportDrawingAsPng,
+} from "@/lib/drawing";
+
+type DrawingTool = "pen" | "highlighter" | "eraser" | "line" | "rect" | "ellipse";
+
+interface Note {
+  id: number;
+  title: string;
+  content: string;
+  color: "green" | "yellow" | "pink" | "blue" | "purple" | "orange";
+  isPinned: boolean;
+  isArchived: boolean;
+  drawingData?: string | null;
+  emojis?: string | null;
+  tags?: string[] | null;
+  notebookId?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+}
+
+interface NoteDrawingProps {
+  noteId: number;
+  noteTitle: string;
+  drawingData: string;
+  onSaved?: (updatedNote: Note) => void;
+}
+
+const tools: { value: DrawingTool; label: string; icon: React.ElementType }[] = [
+  { value: "pen", label: "Pen", icon: PenTool },
+  { value: "highlighter", label: "Highlighter", icon: Highlighter },
+  { value: "eraser", label: "Eraser", icon: Eraser },
+  { value: "line", label: "Line", icon: Minus },
+  { value: "rect", label: "Rectangle", icon: Square },
+  { value: "ellipse", label: "Ellipse", icon: Circle },
+];
+
+const colors = ["#1f2937", "#dc2626", "#ea580c", "#ca8a04", "#16a34a", "#2563eb", "#9333ea"];
+
+// Mice report a fixed pressure of 0.5 (or 0 between clicks); only pens vary it
+function getPressure(e: React.PointerEvent | PointerEvent): number {
+  return e.pointerType === "pen" && e.pressure > 0 ? e.pressure : 0.5;
+}
+
+function buildElement(
+  tool: DrawingTool,
+  points: StrokePoint[],
+  color: string,
+  size: number,
+  id: string
+): DrawingElement {
+  const [startX, startY] = points[0];
+  const [endX, endY] = points[points.length - 1];
+  const outline = { stroke: color, strokeWidth: String(size), fill: "none" };
+
+  switch (tool) {
+    case "highlighter":
+      return {
+        id,
+        tag: "path",
+        attrs: {
+          d: getStrokePath(points),
+          fill: "none",
+          stroke: color,
+          strokeWidth: String(size * 4),
+          strokeLinecap: "round",
+          strokeLinejoin: "round",
+          opacity: "0.35",
+        },
+      };
+    case "line":
+      return {
+        id,
+        tag: "line",
+        attrs: { x1: String(startX), y1: String(startY), x2: String(endX), y2: String(endY), ...outline, strokeLinecap: "round" },
+      };
+    case "rect":
+      return {
+        id,
+        tag: "rect",
+        attrs: {
+          x: String(Math.min(startX, endX)),
+          y: String(Math.min(startY, endY)),
+          width: String(Math.abs(endX - startX)),
+          height: String(Math.abs(endY - startY)),
+          ...outline,
+          strokeLinejoin: "round",
+        },
+      };
+    case "ellipse":
+      return {
+        id,
+        tag: "ellipse",
+        attrs: {
+          cx: String((startX + endX) / 2),
+          cy: String((startY + endY) / 2),
+          rx: String(Math.abs(endX - startX) / 2),
+          ry: String(Math.abs(endY - startY) / 2),
+          ...outline,
+        },
+      };
+    default:
+      return { id, tag: "path", attrs: { d: getStrokeOutline(points, size), fill: color } };
+  }
+}
+
+const NoteDrawing: React.FC<NoteDrawingProps> = ({ noteId, noteTitle, drawingData, onSaved }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [tool, setTool] = useState<DrawingTool>("pen");
+  const [color, setColor] = useState(colors[0]);
+  const [size, setSize] = useState(4);
+  const [elements, setElements] = useState<DrawingElement[]>([]);
+  const [past, setPast] = useState<DrawingElement[][]>([]);
+  const [future, setFuture] = useState<DrawingElement[][]>([]);
+  const [draft, setDraft] = useState<DrawingElement | null>(null);
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointsRef = useRef<StrokePoint[]>([]);
+  const draftIdRef = useRef<string>("");
+  // Elements before the current eraser drag, so the whole drag undoes at once
+  const eraseStartRef = useRef<DrawingElement[] | null>(null);
+
+  // Start from the saved drawing every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setElements(parseDrawing(drawingData));
+      setPast([]);
+      setFuture([]);
+      setDraft(null);
+    }
+  }, [open, drawingData]);
+
+  const { mutate: saveDrawing, isPending: isSaving } = useMutation({
+    mutationFn: async (svg: string) => {
+      const response = await apiRequest("PATCH", `/api/notes/${noteId}/enhanced`, { drawingData: svg });
+      return response.json();
+    },
+    onSuccess: (updatedNote) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+
+      if (onSaved) {
+        onSaved(updatedNote);
+      }
+
+      toast({
+        title: "Drawing saved",
+        description: "Your sketch has been saved to the note.",
+      });
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save drawing",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const commit = (nextElements: DrawingElement[], previous: DrawingElement[] = elements) => {
+    setPast([...past, previous]);
+    setFuture([]);
+    setElements(nextElements);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setFuture([elements, ...future]);
+    setElements(past[past.length - 1]);
+    setPast(past.slice(0, -1));
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setPast([...past, elements]);
+    setElements(future[0]);
+    setFuture(future.slice(1));
+  };
+
+  const clear = () => {
+    if (elements.length > 0) commit([]);
+  };
+
+  const toDrawingPoint = (clientX: number, clientY: number, pressure: number): StrokePoint => {
+    const matrix = svgRef.current?.getScreenCTM()?.inverse();
+    if (!matrix) return [clientX, clientY, pressure];
+
+    const point = new DOMPoint(clientX, clientY).matrixTransform(matrix);
+    return [Math.round(point.x * 10) / 10, Math.round(point.y * 10) / 10, pressure];
+  };
+
+  const eraseAt = (clientX: number, clientY: number) => {
+    const hitIds = new Set(
+      document.elementsFromPoint(clientX, clientY)
+        .map(element => element.getAttribute("data-element-id"))
+        .filter((id): id is string => !!id)
+    );
+    if (hitIds.size === 0) return;
+
+    setElements(current => current.filter(element => !hitIds.has(element.id)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (tool === "eraser") {
+      eraseStartRef.current = elements;
+      eraseAt(e.clientX, e.clientY);
+      return;
+    }
+
+    pointsRef.current = [toDrawingPoint(e.clientX, e.clientY, getPressure(e))];
+    draftIdRef.current = createElementId();
+    setDraft(buildElement(tool, pointsRef.current, color, size, draftIdRef.current));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (tool === "eraser") {
+      if (eraseStartRef.current) eraseAt(e.clientX, e.clientY);
+      return;
+    }
+
+    if (!draft) return;
+
+    // Coalesced events keep fast strokes smooth
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const samples = events.length > 0 ? events : [e.nativeEvent];
+    const newPoints = samples.map(sample => toDrawingPoint(sample.clientX, sample.clientY, getPressure(sample)));
+
+    // Shapes only need their start and current corner
+    pointsRef.current = tool === "pen" || tool === "highlighter"
+      ? [...pointsRef.current, ...newPoints]
+      : [pointsRef.current[0], newPoints[newPoints.length - 1]];
+
+    setDraft(buildElement(tool, pointsRef.current, color, size, draftIdRef.current));
+  };
+
+  const handlePointerUp = () => {
+    if (tool === "eraser") {
+      const before = eraseStartRef.current;
+      eraseStartRef.current = null;
+      if (before && before.length !== elements.length) {
+        commit(elements, before);
+      }
+      return;
+    }
+
+    if (!draft) return;
+    commit([...elements, draft]);
+    setDraft(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+    e.preventDefault();
+    if (e.shiftKey) redo();
+    else undo();
+  };
+
+  const handleExportPng = () => {
+    exportDrawingAsPng(serializeDrawing(elements), noteTitle || "drawing").catch((error) => {
+      toast({
+        title: "Failed to export drawing",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    });
+  };
+
+  const renderedElements = draft ? [...elements, draft] : elements;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" title="Sketch">
+          <Brush className="h-4 w-4 mr-1" />
+          Sketch
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl" onKeyDown={handleKeyDown}>
+        <DialogHeader>
+          <DialogTitle>Sketch</DialogTitle>
+          <DialogDescription>
+            Draw with a mouse, finger or pen. Pen pressure changes the stroke width.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Tools */}
+        <div className="flex flex-wrap items-center gap-3">
+          <ToggleGroup
+            type="single"
+            value={tool}
+            onValueChange={(value) => value && setTool(value as DrawingTool)}
+          >
+            {tools.map(({ value, label, icon: Icon }) => (
+              <ToggleGroupItem key={value} value={value} title={label} aria-label={label}>
+                <Icon className="h-4 w-4" />
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          <div className="flex items-center gap-1">
+            {colors.map((swatch) => (
+              <button
+                key={swatch}
+                className={`h-6 w-6 rounded-full border-2 ${color === swatch ? 'border-gray-900' : 'border-transparent'}`}
+                style={{ backgroundColor: swatch }}
+                onClick={() => setColor(swatch)}
+                title={swatch}
+              />
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2 w-32">
+            <Slider
+              value={[size]}
+              min={1}
+              max={24}
+              step={1}
+              onValueChange={([value]) => setSize(value)}
+            />
+            <span className="text-xs text-muted-foreground w-6">{size}</span>
+          </div>
+
+          <div className="flex items-center gap-1 ml-auto">
+            <Button variant="ghost" size="icon" onClick={undo} disabled={past.length === 0} title="Undo">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={redo} disabled={future.length === 0} title="Redo">
+              <Redo2 className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={clear} disabled={elements.length === 0} title="Clear">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Canvas */}
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${DRAWING_WIDTH} ${DRAWING_HEIGHT}`}
+          className="w-full rounded border bg-white touch-none select-none"
+          style={{ cursor: tool === "eraser" ? "cell" : "crosshair" }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {renderedElements.map((element) =>
+            React.createElement(element.tag, {
+              key: element.id,
+              "data-element-id": element.id,
+              ...element.attrs,
+            })
+          )}
+        </svg>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportDrawingAsSvg(serializeDrawing(elements), noteTitle || "drawing")}
+              disabled={elements.length === 0}
+            >
+              <Download className="h-4 w-4 mr-1" />
+              SVG
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExportPng} disabled={elements.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              PNG
+            </Button>
+          </div>
+          <Button onClick={() => saveDrawing(serializeDrawing(elements))} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save drawing"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NoteDrawing;
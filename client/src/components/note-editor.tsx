@@ -1,13 +1,22 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Bold, Italic, Underline, Heading, List, ListOrdered, CheckSquare, Palette, Image, Link, Save, X, PlusCircle } from "lucide-react";
-import { useMarkdown } from "@/hooks/use-markdown";
+import { useMarkdown, type WikiLinkTarget } from "@/hooks/use-markdown";
+import { useNoteCollab } from "@/hooks/use-note-collab";
 import { StickyNote } from "@/components/ui/sticky-note";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import NoteHistory from "@/components/note-history";
+import NoteDrawing from "@/components/note-drawing";
+import TagInput from "@/components/tag-input";
+import MarkdownPreview from "@/components/markdown-preview";
+import CollabPresence from "@/components/collab-presence";
+import AiProposals from "@/components/ai-proposals";
+import RemoteCursors from "@/components/remote-cursors";
+import { drawingToDataUrl } from "@/lib/drawing";
 
 export type StickyNoteColor = "green" | "yellow" | "pink" | "blue" | "purple" | "orange";
 
@@ -18,6 +27,8 @@ interface Note {
   color: StickyNoteColor;
   isPinned: boolean;
   isArchived: boolean;
+  drawingData?: string | null;
+  tags?: string[] | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -25,49 +36,75 @@ interface Note {
 interface NoteEditorProps {
   note?: Note;
   onUpdate?: (updatedNote: Note) => void;
+  onOpenLinkedNote?: (link: WikiLinkTarget) => void;
 }
 
-const NoteEditor: React.FC<NoteEditorProps> = ({ note, onUpdate }) => {
+const NoteEditor: React.FC<NoteEditorProps> = ({ note, onUpdate, onOpenLinkedNote }) => {
   const { toast } = useToast();
   const [title, setTitle] = useState(note?.title || "New Note");
   const [content, setContent] = useState(note?.content || "");
   const [color, setColor] = useState<StickyNoteColor>(note?.color || "yellow");
+  const [drawingData, setDrawingData] = useState(note?.drawingData || "");
+  const [tags, setTags] = useState<string[]>(note?.tags || []);
   const [isPreviewMode, setIsPreviewMode] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const { renderMarkdown } = useMarkdown();
+  // Title that [[links]] from other notes used, and the title last saved,
+  // so a rename can offer to update those links
+  const [linkedTitle, setLinkedTitle] = useState(note?.title || "");
+  const [savedTitle, setSavedTitle] = useState(note?.title || "");
+  // Content as last loaded or saved, which edits since started from
+  const [savedContent, setSavedContent] = useState(note?.content || "");
+  const { renderMarkdown, toggleTaskAtLine, getTaskLineFromEvent, getWikiLinkFromEvent } = useMarkdown();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [editorScrollTop, setEditorScrollTop] = useState(0);
   
   // Using single note query only if we don't have a note passed as prop
   const { data: defaultNote, isLoading } = useQuery<Note>({
     queryKey: ["/api/notes"],
     enabled: !note, // Only run this query if no note is passed as prop
   });
+  
+  // Content is edited live with anyone else who has the note open. Once a
+  // session has started the server saves it, so saves below leave it out,
+  // even while reconnecting.
+  const collab = useNoteCollab(note?.id ?? defaultNote?.id, {
+    textareaRef,
+    savedContent,
+    onRemoteChange: setContent,
+  });
 
   // Update note content and properties
   const { mutate: saveNote } = useMutation({
-    mutationFn: async (noteData: { id?: number; title: string; content: string; color: StickyNoteColor }) => {
-      if (note?.id) {
-        // Update existing note
-        const contentResponse = await apiRequest("POST", "/api/notes", { content: noteData.content });
-        await contentResponse.json();
-        
-        const propsResponse = await apiRequest("PATCH", `/api/notes/${note.id}`, {
+    mutationFn: async (noteData: { id?: number; title: string; content?: string; color: StickyNoteColor; tags: string[] }) => {
+      if (noteData.id) {
+        // Update existing note; the content is merged with changes saved since it was loaded
+        const response = await apiRequest("PATCH", `/api/notes/${noteData.id}/enhanced`, {
           title: noteData.title,
-          color: noteData.color
+          content: noteData.content,
+          baseContent: noteData.content === undefined ? undefined : savedContent,
+          color: noteData.color,
+          tags: noteData.tags
         });
-        return propsResponse.json();
+        return response.json();
       } else {
         // Create new note
         const response = await apiRequest("POST", "/api/notes/new", {
           title: noteData.title,
           content: noteData.content,
-          color: noteData.color
+          color: noteData.color,
+          tags: noteData.tags
         });
         return response.json();
       }
     },
-    onSuccess: (updatedNote) => {
+    onSuccess: (updatedNote, noteData) => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      setSavedTitle(updatedNote.title || "");
+      if (noteData.content !== undefined) {
+        setSavedContent(noteData.content);
+      }
       
       if (onUpdate) {
         onUpdate(updatedNote);
@@ -90,11 +127,45 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onUpdate }) => {
     },
   });
 
+  // Point [[Old Title]] links in other notes at the new title
+  const { mutate: rewriteReferences, isPending: isRewriting } = useMutation({
+    mutationFn: async ({ id, fromTitle }: { id: number; fromTitle: string }) => {
+      const response = await apiRequest("POST", `/api/notes/${id}/rewrite-references`, { fromTitle });
+      return response.json();
+    },
+    onSuccess: (result: { updated: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+      setLinkedTitle(savedTitle);
+      
+      toast({
+        title: "Links updated",
+        description: result.updated === 1
+          ? "1 note now links to the new title."
+          : `${result.updated} notes now link to the new title.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update links",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
   useEffect(() => {
     if (defaultNote && !isLoading && !note) {
+      setLinkedTitle(defaultNote.title || "");
+      setSavedTitle(defaultNote.title || "");
       setTitle(defaultNote.title || "New Note");
-      setContent(defaultNote.content || "");
+      // The live copy is newer than the one just fetched
+      if (!collab.hasSession) {
+        setContent(defaultNote.content || "");
+        setSavedContent(defaultNote.content || "");
+      }
       setColor(defaultNote.color || "yellow");
+      setDrawingData(defaultNote.drawingData || "");
+      setTags(defaultNote.tags || []);
     }
   }, [defaultNote, isLoading, note]);
 
@@ -103,30 +174,38 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onUpdate }) => {
     if (!note) { // Only auto-save for the main editor
       const timer = setTimeout(() => {
         if (content && defaultNote && (
-          content !== defaultNote.content || 
+          (!collab.hasSession && content !== savedContent) || 
           title !== defaultNote.title || 
-          color !== defaultNote.color
+          color !== defaultNote.color ||
+          tags.join(",") !== (defaultNote.tags || []).join(",")
         )) {
           setIsSaving(true);
           saveNote({ 
             id: defaultNote.id, 
             title, 
-            content, 
-            color 
+            content: collab.hasSession ? undefined : content, 
+            color,
+            tags
           });
         }
       }, 2000);
 
       return () => clearTimeout(timer);
     }
-  }, [content, title, color, defaultNote, note, saveNote]);
+  }, [content, savedContent, title, color, tags, defaultNote, note, saveNote, collab.hasSession]);
+
+  // Local edits to the content, shared with the live session
+  const updateContent = (newContent: string) => {
+    setContent(newContent);
+    collab.change(newContent);
+  };
 
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setTitle(e.target.value);
   };
 
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    setContent(e.target.value);
+    updateContent(e.target.value);
   };
 
   const handleColorChange = (newColor: StickyNoteColor) => {
@@ -138,8 +217,43 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onUpdate }) => {
     saveNote({
       id: note?.id || defaultNote?.id,
       title,
-      content,
-      color
+      content: collab.hasSession ? undefined : content,
+      color,
+      tags
+    });
+  };
+
+  // Clicking a checklist item in the preview flips it in the source and saves;
+  // clicking a [[link]] hands it to the parent to open
+  const handlePreviewClick = (e: React.MouseEvent) => {
+    const wikiLink = getWikiLinkFromEvent(e);
+    if (wikiLink) {
+      e.preventDefault();
+      if (onOpenLinkedNote) {
+        onOpenLinkedNote(wikiLink);
+      }
+      return;
+    }
+    
+    const line = getTaskLineFromEvent(e);
+    if (line === null) return;
+    
+    // The re-render applies the new state; don't let the DOM toggle first
+    e.preventDefault();
+    
+    const newContent = toggleTaskAtLine(content, line);
+    if (newContent === content) return;
+    
+    updateContent(newContent);
+    if (collab.hasSession) return;
+    
+    setIsSaving(true);
+    saveNote({
+      id: note?.id || defaultNote?.id,
+      title,
+      content: newContent,
+      color,
+      tags
     });
   };
 
@@ -152,7 +266,7 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onUpdate }) => {
     const afterText = content.substring(end);
     
     const newText = beforeText + prefix + selectedText + suffix + afterText;
-    setContent(newText);
+    updateContent(newText);
     
     // Focus back on textarea after button click
     setTimeout(() => {
@@ -164,6 +278,46 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onUpdate }) => {
     }, 0);
   };
 
+  const handleRestore = (restoredNote: Note) => {
+    setTitle(restoredNote.title || "");
+    // A live session gets the restored content from the server like any other edit
+    if (!collab.hasSession) {
+      setContent(restoredNote.content || "");
+      setSavedContent(restoredNote.content || "");
+    }
+    
+    if (onUpdate) {
+      onUpdate(restoredNote);
+    }
+  };
+
+  // A change an AI team member proposed, approved by the user
+  const handleProposalApplied = (updatedNote: Note) => {
+    setTitle(updatedNote.title || "");
+    setSavedTitle(updatedNote.title || "");
+    setColor(updatedNote.color || "yellow");
+    setTags(updatedNote.tags || []);
+    if (!collab.hasSession) {
+      setContent(updatedNote.content || "");
+      setSavedContent(updatedNote.content || "");
+    }
+    
+    if (onUpdate) {
+      onUpdate(updatedNote);
+    }
+  };
+
+  const handleDrawingSaved = (updatedNote: Note) => {
+    setDrawingData(updatedNote.drawingData || "");
+    
+    if (onUpdate) {
+      onUpdate(updatedNote);
+    }
+  };
+
+  const historyNoteId = note?.id ?? defaultNote?.id;
+  const isRenamed = !!historyNoteId && !!linkedTitle.trim() && !!savedTitle.trim() && savedTitle !== linkedTitle;
+
   const renderColorSelection = () => (
     <Select 
       value={color} 
@@ -197,7 +351,19 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onUpdate }) => {
           className="font-semibold text-lg bg-transparent border-none shadow-none focus-visible:ring-0 p-0 h-auto"
         />
         <div className="flex items-center gap-2">
+          {historyNoteId && <CollabPresence isLive={collab.isLive} peers={collab.peers} />}
           {renderColorSelection()}
+          {historyNoteId && (
+            <NoteDrawing
+              noteId={historyNoteId}
+              noteTitle={title}
+              drawingData={drawingData}
+              onSaved={handleDrawingSaved}
+            />
+          )}
+          {historyNoteId && (
+            <NoteHistory noteId={historyNoteId} onRestore={handleRestore} />
+          )}
           {note && (
             <Button 
               variant="outline" 
@@ -216,6 +382,37 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onUpdate }) => {
         </div>
       </div>
       
+      {/* Tags */}
+      <div className="mb-3">
+        <TagInput value={tags} onChange={setTags} />
+      </div>
+      
+      {/* Changes AI team members proposed to this note, waiting for approval */}
+      {historyNoteId && (
+        <AiProposals noteId={historyNoteId} onApplied={handleProposalApplied} className="mb-3" />
+      )}
+      
+      {/* Offer to update [[links]] after a rename */}
+      {isRenamed && (
+        <div className="mb-3 flex items-center justify-between gap-2 rounded border border-amber-300 bg-amber-50 px-3 py-2 text-sm">
+          <span className="truncate">
+            Renamed from "{linkedTitle}". Update links in other notes?
+          </span>
+          <div className="flex items-center gap-2 shrink-0">
+            <Button
+              size="sm"
+              onClick={() => rewriteReferences({ id: historyNoteId!, fromTitle: linkedTitle })}
+              disabled={isRewriting}
+            >
+              {isRewriting ? "Updating..." : "Update links"}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setLinkedTitle(savedTitle)}>
+              Dismiss
+            </Button>
+          </div>
+        </div>
+      )}
+      
       {/* Note Toolbar */}
       <div className="mb-3">
         <StickyNote color="orange" className="p-2 flex flex-wrap items-center gap-1 transform -rotate-1">
@@ -244,7 +441,7 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onUpdate }) => {
             <button
               className="p-1.5 rounded hover:bg-amber-300/50 text-gray-800"
               title="Underline"
-              onClick={() => insertMarkdown("__", "__")}
+              onClick={() => insertMarkdown("<u>", "</u>")}
             >
               <Underline size={16} />
             </button>
@@ -320,23 +517,39 @@ const NoteEditor: React.FC<NoteEditorProps> = ({ note, onUpdate }) => {
         {/* Markdown Editor */}
         <div className={`md:w-1/2 w-full ${isPreviewMode ? 'hidden md:block' : 'block'}`}>
           <StickyNote color={color} className="h-full flex flex-col transform rotate-1 relative">
-            <textarea
-              id={note ? `editor-${note.id}` : "editor"}
-              className="w-full h-full p-4 bg-transparent resize-none focus:outline-none text-gray-800"
-              value={content}
-              onChange={handleTextChange}
-              placeholder="Start typing your magical notes here... ✨"
-              style={{ minHeight: isPreviewMode ? '0' : '300px' }}
-            />
+            <div className="relative flex-1">
+              <textarea
+                ref={textareaRef}
+                id={note ? `editor-${note.id}` : "editor"}
+                className="w-full h-full p-4 bg-transparent resize-none focus:outline-none text-gray-800"
+                value={content}
+                onChange={handleTextChange}
+                onSelect={(e) => collab.updateCursor(e.currentTarget.selectionStart, e.currentTarget.selectionEnd)}
+                onBlur={() => collab.updateCursor(null)}
+                onScroll={(e) => setEditorScrollTop(e.currentTarget.scrollTop)}
+                readOnly={collab.hasSession && !collab.canEdit}
+                placeholder="Start typing your magical notes here... ✨"
+                style={{ minHeight: isPreviewMode ? '0' : '300px' }}
+              />
+              <RemoteCursors content={content} cursors={collab.remoteCursors} scrollTop={editorScrollTop} />
+            </div>
           </StickyNote>
         </div>
 
         {/* Markdown Preview */}
         <div className={`md:w-1/2 w-full ${isPreviewMode ? 'block' : 'hidden md:block'}`}>
           <StickyNote color="blue" className="h-full p-4 overflow-auto transform -rotate-1 relative">
-            <div 
+            {drawingData && (
+              <img
+                src={drawingToDataUrl(drawingData)}
+                alt="Sketch"
+                className="w-full rounded bg-white/60 mb-3"
+              />
+            )}
+            <MarkdownPreview
               className="prose prose-sm md:prose max-w-none text-gray-800"
-              dangerouslySetInnerHTML={{ __html: renderMarkdown(content) }}
+              onClick={handlePreviewClick}
+              html={renderMarkdown(content, { interactiveTasks: true })}
             />
           </StickyNote>
         </div>
@@ -0,0 +1,43 @@
+import React from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface NoteExportMenuProps {
+  noteId: number;
+}
+
+const EXPORT_FORMATS = [
+  { format: "md", label: "Markdown (.md)" },
+  { format: "html", label: "Web page (.html)" },
+  { format: "pdf", label: "PDF (.pdf)" },
+];
+
+// Download a note in one of the export formats
+const NoteExportMenu: React.FC<NoteExportMenuProps> = ({ noteId }) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" title="Export">
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={`/api/notes/${noteId}/export?format=${format}`} download>
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NoteExportMenu;
@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { History, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from "@/components/ui/drawer";
+
+interface NoteRevision {
+  id: number;
+  noteId: number;
+  title: string;
+  content: string;
+  createdAt: string;
+}
+
+interface DiffLine {
+  type: "added" | "removed" | "unchanged";
+  content: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+interface RevisionDiff {
+  from: NoteRevision;
+  to: NoteRevision;
+  titleChanged: boolean;
+  lines: DiffLine[];
+}
+
+interface Note {
+  id: number;
+  title: string;
+  content: string;
+  color: "green" | "yellow" | "pink" | "blue" | "purple" | "orange";
+  isPinned: boolean;
+  isArchived: boolean;
+  drawingData?: string | null;
+  emojis?: string | null;
+  tags?: string[] | null;
+  notebookId?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+}
+
+interface NoteHistoryProps {
+  noteId: number;
+  onRestore?: (restoredNote: Note) => void;
+}
+
+const diffLineClasses = {
+  added: "bg-lime-100 text-lime-900",
+  removed: "bg-red-100 text-red-900 line-through",
+  unchanged: "text-gray-600",
+};
+
+const diffLinePrefix = {
+  added: "+",
+  removed: "-",
+  unchanged: " ",
+};
+
+const NoteHistory: React.FC<NoteHistoryProps> = ({ noteId, onRestore }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareId, setCompareId] = useState<number | null>(null);
+
+  const { data: revisions, isLoading } = useQuery<NoteRevision[]>({
+    queryKey: [`/api/notes/${noteId}/revisions`],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  // Default to comparing the previous revision against the latest one
+  useEffect(() => {
+    if (!revisions || revisions.length === 0) return;
+    if (compareId === null || !revisions.some(r => r.id === compareId)) {
+      setCompareId(revisions[0].id);
+    }
+    if (selectedId === null || !revisions.some(r => r.id === selectedId)) {
+      setSelectedId((revisions[1] ?? revisions[0]).id);
+    }
+  }, [revisions, selectedId, compareId]);
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<RevisionDiff>({
+    queryKey: [`/api/notes/${noteId}/revisions/diff?from=${selectedId}&to=${compareId}`],
+    enabled: open && selectedId !== null && compareId !== null,
+  });
+
+  const { mutate: restoreRevision, isPending: isRestoring } = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const response = await apiRequest("POST", `/api/notes/${noteId}/revisions/${revisionId}/restore`);
+      return response.json();
+    },
+    onSuccess: (restoredNote) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/notes/${noteId}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+
+      if (onRestore) {
+        onRestore(restoredNote);
+      }
+
+      toast({
+        title: "Revision restored",
+        description: "Your note has been restored to the selected version.",
+      });
+      setOpen(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore revision",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getDisplayDate = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  };
+
+  return (
+    <Drawer open={open} onOpenChange={setOpen}>
+      <DrawerTrigger asChild>
+        <Button variant="outline" size="sm" title="Version history">
+          <History className="h-4 w-4 mr-1" />
+          History
+        </Button>
+      </DrawerTrigger>
+      <DrawerContent className="max-h-[85vh]">
+        <DrawerHeader>
+          <DrawerTitle>Version history</DrawerTitle>
+          <DrawerDescription>
+            Every save is kept. Pick a version to see what changed and restore it.
+          </DrawerDescription>
+        </DrawerHeader>
+
+        <div className="flex flex-col md:flex-row gap-4 px-4 pb-4 overflow-hidden">
+          {/* Revision list */}
+          <div className="md:w-1/3 overflow-y-auto max-h-[60vh] space-y-1">
+            {isLoading ? (
+              [1, 2, 3].map((i) => <Skeleton key={i} className="h-12 w-full" />)
+            ) : revisions && revisions.length > 0 ? (
+              revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  className={`w-full text-left p-2 rounded border text-sm ${
+                    revision.id === selectedId ? 'bg-amber-100 border-amber-300' : 'hover:bg-gray-50'
+                  }`}
+                  onClick={() => setSelectedId(revision.id)}
+                >
+                  <div className="font-medium truncate">{revision.title || "Untitled"}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {getDisplayDate(revision.createdAt)}
+                    {index === 0 && " · current"}
+                  </div>
+                </button>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">No saved versions yet.</p>
+            )}
+          </div>
+
+          {/* Diff view */}
+          <div className="md:w-2/3 flex flex-col overflow-hidden">
+            {revisions && revisions.length > 0 && (
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Compare with</span>
+                  <Select
+                    value={compareId !== null ? String(compareId) : undefined}
+                    onValueChange={(value) => setCompareId(parseInt(value))}
+                  >
+                    <SelectTrigger className="w-[220px]">
+                      <SelectValue placeholder="Select a version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {revisions.map((revision, index) => (
+                        <SelectItem key={revision.id} value={String(revision.id)}>
+                          {getDisplayDate(revision.createdAt)}{index === 0 ? " (current)" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => selectedId !== null && restoreRevision(selectedId)}
+                  disabled={selectedId === null || isRestoring || selectedId === revisions[0].id}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  {isRestoring ? "Restoring..." : "Restore this version"}
+                </Button>
+              </div>
+            )}
+
+            <div className="overflow-auto max-h-[55vh] rounded border bg-white font-mono text-xs">
+              {isDiffLoading ? (
+                <Skeleton className="h-32 w-full" />
+              ) : diff ? (
+                <>
+                  {diff.titleChanged && (
+                    <div className="p-2 border-b text-sm">
+                      Title: <span className="line-through text-red-700">{diff.from.title}</span>
+                      {" → "}
+                      <span className="text-lime-700">{diff.to.title}</span>
+                    </div>
+                  )}
+                  {diff.lines.map((line, index) => (
+                    <div key={index} className={`px-2 whitespace-pre-wrap ${diffLineClasses[line.type]}`}>
+                      <span className="select-none mr-2">{diffLinePrefix[line.type]}</span>
+                      {line.content || " "}
+                    </div>
+                  ))}
+                </>
+              ) : (
+                <p className="p-2 text-muted-foreground">Select a version to see its changes.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+};
+
+export default NoteHistory;
@@ -0,0 +1,148 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Copy, FolderInput } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { buildNotebookTree, flattenNotebookTree } from "@shared/notebooks";
+
+interface Notebook {
+  id: number;
+  parentId: number | null;
+  name: string;
+}
+
+interface Note {
+  id: number;
+  title: string;
+  content: string;
+  color: "green" | "yellow" | "pink" | "blue" | "purple" | "orange";
+  isPinned: boolean;
+  isArchived: boolean;
+  drawingData?: string | null;
+  emojis?: string | null;
+  tags?: string[] | null;
+  notebookId?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+}
+
+interface NoteNotebookMenuProps {
+  noteId: number;
+  notebookId?: number | null;
+  onUpdate?: (updatedNote: Note) => void;
+}
+
+const invalidateNoteQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/notebooks"] });
+};
+
+// Move a note between notebooks, or copy it into its current one
+const NoteNotebookMenu: React.FC<NoteNotebookMenuProps> = ({ noteId, notebookId = null, onUpdate }) => {
+  const { toast } = useToast();
+
+  const { data: notebooks } = useQuery<Notebook[]>({
+    queryKey: ["/api/notebooks"],
+  });
+
+  const targets = React.useMemo(() => flattenNotebookTree(buildNotebookTree(notebooks ?? [])), [notebooks]);
+
+  const { mutate: moveNote } = useMutation({
+    mutationFn: async (targetId: number | null) => {
+      const response = await apiRequest("POST", `/api/notes/${noteId}/move`, { notebookId: targetId });
+      return response.json();
+    },
+    onSuccess: (updatedNote) => {
+      invalidateNoteQueries();
+      if (onUpdate) {
+        onUpdate(updatedNote);
+      }
+
+      const target = notebooks?.find(notebook => notebook.id === updatedNote.notebookId);
+      toast({
+        title: "Note moved",
+        description: target ? `Moved to "${target.name}".` : "Moved out of its notebook.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to move note",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate: copyNote } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/notes/${noteId}/copy`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateNoteQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      toast({
+        title: "Note copied",
+        description: "The copy is next to the original.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to copy note",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={(e) => e.stopPropagation()}
+          title="Move or copy"
+        >
+          <FolderInput className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuItem onClick={() => copyNote()}>
+          <Copy className="h-4 w-4 mr-2" />
+          Make a copy
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Move to</DropdownMenuLabel>
+        <DropdownMenuItem disabled={notebookId === null} onClick={() => moveNote(null)}>
+          <span className="flex-1">No notebook</span>
+          {notebookId === null && <Check className="h-4 w-4 ml-2" />}
+        </DropdownMenuItem>
+        {targets.map(target => (
+          <DropdownMenuItem
+            key={target.id}
+            disabled={target.id === notebookId}
+            onClick={() => moveNote(target.id)}
+            style={{ paddingLeft: 8 + target.depth * 12 }}
+          >
+            <span className="flex-1 truncate">{target.name}</span>
+            {target.id === notebookId && <Check className="h-4 w-4 ml-2" />}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NoteNotebookMenu;
@@ -0,0 +1,402 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/context/workspace-context";
+import {
+  BookOpen,
+  CalendarDays,
+  ChevronRight,
+  FolderInput,
+  Inbox,
+  Library,
+  MoreHorizontal,
+  Notebook as NotebookIcon,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+  SidebarMenuSub,
+} from "@/components/ui/sidebar";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  type NotebookDeleteMode,
+  type NotebookTreeNode,
+  buildNotebookTree,
+  flattenNotebookTree,
+  getNotebookSubtreeIds,
+} from "@shared/notebooks";
+
+interface Notebook {
+  id: number;
+  parentId: number | null;
+  name: string;
+  noteCount: number;
+}
+
+// null shows every note, "none" the notes outside all notebooks
+export type NotebookSelection = number | "none" | null;
+
+interface NotebookSidebarProps {
+  selected: NotebookSelection;
+  onSelect: (selection: NotebookSelection) => void;
+  onOpenToday: () => void; // opens today's daily note
+}
+
+// The name dialog either creates a notebook (under parentId) or renames one
+type NameDialogState =
+  | { mode: "create"; parentId: number | null }
+  | { mode: "rename"; notebook: Notebook };
+
+const invalidateNotebookQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/notebooks"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+};
+
+const NotebookSidebar: React.FC<NotebookSidebarProps> = ({ selected, onSelect, onOpenToday }) => {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const canEdit = can("edit");
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [name, setName] = useState("");
+  const [deleting, setDeleting] = useState<Notebook | null>(null);
+
+  const { data: notebooks, isLoading } = useQuery<Notebook[]>({
+    queryKey: ["/api/notebooks"],
+  });
+
+  const tree = React.useMemo(() => buildNotebookTree(notebooks ?? []), [notebooks]);
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: createNotebook, isPending: isCreating } = useMutation({
+    mutationFn: async ({ name, parentId }: { name: string; parentId: number | null }) => {
+      const response = await apiRequest("POST", "/api/notebooks", { name, parentId });
+      return response.json();
+    },
+    onSuccess: (notebook: Notebook) => {
+      invalidateNotebookQueries();
+      if (notebook.parentId !== null) {
+        setExpanded(new Set(expanded).add(notebook.parentId));
+      }
+      setNameDialog(null);
+      onSelect(notebook.id);
+    },
+    onError: showError("Failed to create notebook"),
+  });
+
+  const { mutate: updateNotebook, isPending: isUpdating } = useMutation({
+    mutationFn: async ({ id, props }: { id: number; props: { name?: string; parentId?: number | null } }) => {
+      const response = await apiRequest("PATCH", `/api/notebooks/${id}`, props);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateNotebookQueries();
+      setNameDialog(null);
+    },
+    onError: showError("Failed to update notebook"),
+  });
+
+  const { mutate: deleteNotebook } = useMutation({
+    mutationFn: async ({ notebook, mode }: { notebook: Notebook; mode: NotebookDeleteMode }) => {
+      const response = await apiRequest("DELETE", `/api/notebooks/${notebook.id}?mode=${mode}`);
+      return response.json();
+    },
+    onSuccess: (result: { updated: number }, { notebook, mode }) => {
+      invalidateNotebookQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/trash"] });
+      if (typeof selected === "number" && getNotebookSubtreeIds(notebooks ?? [], notebook.id).has(selected)) {
+        onSelect(null);
+      }
+      setDeleting(null);
+
+      const notes = `${result.updated} note${result.updated === 1 ? "" : "s"}`;
+      toast({
+        title: "Notebook deleted",
+        description: mode === "trash" ? `Moved ${notes} to the trash.` : `Moved ${notes} up a level.`,
+      });
+    },
+    onError: showError("Failed to delete notebook"),
+  });
+
+  const toggleExpanded = (id: number, open: boolean) => {
+    const next = new Set(expanded);
+    if (open) next.add(id);
+    else next.delete(id);
+    setExpanded(next);
+  };
+
+  const openNameDialog = (state: NameDialogState) => {
+    setNameDialog(state);
+    setName(state.mode === "rename" ? state.notebook.name : "");
+  };
+
+  const submitName = () => {
+    const trimmed = name.trim();
+    if (!nameDialog || !trimmed) return;
+
+    if (nameDialog.mode === "create") {
+      createNotebook({ name: trimmed, parentId: nameDialog.parentId });
+    } else if (trimmed !== nameDialog.notebook.name) {
+      updateNotebook({ id: nameDialog.notebook.id, props: { name: trimmed } });
+    } else {
+      setNameDialog(null);
+    }
+  };
+
+  // Notebooks a notebook can be moved under: anything outside its own subtree
+  const getMoveTargets = (notebook: Notebook) => {
+    const subtree = getNotebookSubtreeIds(notebooks ?? [], notebook.id);
+    return flattenNotebookTree(tree).filter(target => !subtree.has(target.id));
+  };
+
+  const renderNode = (node: NotebookTreeNode<Notebook>): React.ReactNode => {
+    const isSelected = selected === node.id;
+    // Keep the path to the selected notebook open
+    const containsSelection = typeof selected === "number" && selected !== node.id &&
+      getNotebookSubtreeIds(notebooks ?? [], node.id).has(selected);
+    const isOpen = expanded.has(node.id) || containsSelection;
+
+    return (
+      <Collapsible key={node.id} asChild open={isOpen} onOpenChange={(open) => toggleExpanded(node.id, open)}>
+        <SidebarMenuItem>
+          <SidebarMenuButton isActive={isSelected} className="pl-7" onClick={() => onSelect(node.id)} title={node.name}>
+            <NotebookIcon />
+            <span className="flex-1 truncate">{node.name}</span>
+            <span className="text-xs text-muted-foreground">{node.noteCount}</span>
+          </SidebarMenuButton>
+
+          {node.children.length > 0 && (
+            <CollapsibleTrigger asChild>
+              <SidebarMenuAction className="left-1 right-auto" title={isOpen ? "Collapse" : "Expand"}>
+                <ChevronRight className={`transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+              </SidebarMenuAction>
+            </CollapsibleTrigger>
+          )}
+
+          {canEdit && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <SidebarMenuAction showOnHover title="Notebook actions">
+                  <MoreHorizontal />
+                </SidebarMenuAction>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent side="right" align="start">
+                <DropdownMenuItem onClick={() => openNameDialog({ mode: "create", parentId: node.id })}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New notebook inside
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => openNameDialog({ mode: "rename", notebook: node })}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <FolderInput className="h-4 w-4 mr-2" />
+                    Move to
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                    <DropdownMenuItem
+                      disabled={node.parentId === null}
+                      onClick={() => updateNotebook({ id: node.id, props: { parentId: null } })}
+                    >
+                      Top level
+                    </DropdownMenuItem>
+                    {getMoveTargets(node).map(target => (
+                      <DropdownMenuItem
+                        key={target.id}
+                        disabled={target.id === node.parentId}
+                        onClick={() => updateNotebook({ id: node.id, props: { parentId: target.id } })}
+                        style={{ paddingLeft: 8 + target.depth * 12 }}
+                      >
+                        {target.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => setDeleting(node)} className="text-red-600">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          {node.children.length > 0 && (
+            <CollapsibleContent>
+              <SidebarMenuSub className="mr-0 pr-0">
+                {node.children.map(renderNode)}
+              </SidebarMenuSub>
+            </CollapsibleContent>
+          )}
+        </SidebarMenuItem>
+      </Collapsible>
+    );
+  };
+
+  const parentName = deleting?.parentId != null
+    ? notebooks?.find(notebook => notebook.id === deleting.parentId)?.name
+    : undefined;
+
+  return (
+    <Sidebar>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={onOpenToday}>
+                <CalendarDays />
+                <span>Today</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton isActive={selected === null} onClick={() => onSelect(null)}>
+                <Library />
+                <span>All notes</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton isActive={selected === "none"} onClick={() => onSelect("none")}>
+                <Inbox />
+                <span>Not in a notebook</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </SidebarMenu>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>
+            <BookOpen className="mr-2" />
+            Notebooks
+          </SidebarGroupLabel>
+          {canEdit && (
+            <SidebarGroupAction title="New notebook" onClick={() => openNameDialog({ mode: "create", parentId: null })}>
+              <Plus />
+            </SidebarGroupAction>
+          )}
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {isLoading ? (
+                [1, 2, 3].map((i) => <SidebarMenuSkeleton key={i} />)
+              ) : tree.length > 0 ? (
+                tree.map(renderNode)
+              ) : (
+                <p className="px-2 text-xs text-muted-foreground">
+                  {canEdit ? "No notebooks yet. Use + to create one." : "No notebooks yet."}
+                </p>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      {/* Create / rename */}
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{nameDialog?.mode === "rename" ? "Rename notebook" : "New notebook"}</DialogTitle>
+            {nameDialog?.mode === "create" && nameDialog.parentId !== null && (
+              <DialogDescription>
+                Inside {notebooks?.find(notebook => notebook.id === nameDialog.parentId)?.name}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submitName()}
+            placeholder="Notebook name"
+            maxLength={100}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>Cancel</Button>
+            <Button onClick={submitName} disabled={isCreating || isUpdating || !name.trim()}>
+              {nameDialog?.mode === "rename" ? "Rename" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete: keep the notes by moving them up, or trash them */}
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Choose what happens to its notes and the notebooks inside it. Moving them keeps everything
+              {parentName ? ` in "${parentName}"` : " at the top level"}; trashing deletes the nested
+              notebooks too and moves every note in them to the trash.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button
+              variant="outline"
+              onClick={() => deleting && deleteNotebook({ notebook: deleting, mode: "move" })}
+            >
+              Move notes to {parentName ? "parent" : "top level"}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleting && deleteNotebook({ notebook: deleting, mode: "trash" })}
+            >
+              Trash notes
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
+
+export default NotebookSidebar;
@@ -1,8 +1,9 @@
-import React, { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import React, { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Search, Filter, Pin, Archive, Trash, Edit, ArchiveRestore } from "lucide-react";
+import { useWorkspace } from "@/context/workspace-context";
+import { Plus, Search, Filter, Pin, Archive, Trash, Edit, ArchiveRestore, Undo2, X } from "lucide-react";
 import { StickyNote } from "@/components/ui/sticky-note";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,8 +11,22 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
-import { useMarkdown } from "@/hooks/use-markdown";
+import { Progress } from "@/components/ui/progress";
+import { useMarkdown, type WikiLinkTarget } from "@/hooks/use-markdown";
+import { useDebounce } from "@/hooks/use-debounce";
 import NoteEditor from "@/components/note-editor";
+import MarkdownPreview from "@/components/markdown-preview";
+import NoteBacklinks from "@/components/note-backlinks";
+import NoteAiChat from "@/components/note-ai-chat";
+import ReactionBar from "@/components/reaction-bar";
+import TagBrowser from "@/components/tag-browser";
+import NoteNotebookMenu from "@/components/note-notebook-menu";
+import TemplatePicker from "@/components/template-picker";
+import SaveTemplateButton from "@/components/save-template-button";
+import NoteExportMenu from "@/components/note-export-menu";
+import ShareNoteButton from "@/components/share-note-button";
+import type { NotebookSelection } from "@/components/notebook-sidebar";
+import { drawingToDataUrl } from "@/lib/drawing";
 
 type StickyNoteColor = "green" | "yellow" | "pink" | "blue" | "purple" | "orange";
 
@@ -22,22 +37,101 @@ interface Note {
   color: StickyNoteColor;
   isPinned: boolean;
   isArchived: boolean;
+  drawingData?: string | null;
+  emojis?: string | null;
+  tags?: string[] | null;
+  notebookId?: number | null;
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string | null;
 }
 
-const NotesGrid: React.FC = () => {
+type NoteFilter = "all" | "pinned" | "archived" | "trash";
+type NoteSort = "pinned" | "updatedAt" | "createdAt" | "title";
+
+interface NotePage {
+  notes: Note[];
+  nextCursor: string | null;
+}
+
+const PAGE_SIZE = 30;
+
+// Search results carry the rank and server-escaped HTML highlights
+interface NoteSearchResult extends Note {
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+interface NotesGridProps {
+  notebook?: NotebookSelection; // the notebook picked in the sidebar
+}
+
+const NotesGrid: React.FC<NotesGridProps> = ({ notebook = null }) => {
   const { toast } = useToast();
-  const { renderMarkdown } = useMarkdown();
-  const [filter, setFilter] = useState<"all" | "pinned" | "archived">("all");
+  // Viewers and commenters get the notes without the controls that change them
+  const { can } = useWorkspace();
+  const canEdit = can("edit");
+  const { renderMarkdown, getTaskProgress, toggleTaskAtLine, getTaskLineFromEvent, getWikiLinkFromEvent } = useMarkdown();
+  const [filter, setFilter] = useState<NoteFilter>("all");
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedNote, setSelectedNote] = useState<Note | null>(null);
   const [editMode, setEditMode] = useState(false);
   const [colorFilter, setColorFilter] = useState<StickyNoteColor | "all">("all");
+  const [sortBy, setSortBy] = useState<NoteSort>("pinned");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Tab, color, tag, notebook and sort are applied by the server
+  const listParams = React.useMemo(() => {
+    const params = new URLSearchParams({ sort: sortBy, limit: String(PAGE_SIZE) });
+    params.set("archived", filter === "archived" ? "true" : "false");
+    if (filter === "pinned") params.set("pinned", "true");
+    if (colorFilter !== "all") params.set("color", colorFilter);
+    if (tagFilter) params.set("tag", tagFilter);
+    if (notebook !== null) params.set("notebookId", String(notebook));
+    return params.toString();
+  }, [filter, sortBy, colorFilter, tagFilter, notebook]);
 
-  // Fetch all notes
-  const { data: notes, isLoading } = useQuery<Note[]>({
-    queryKey: ["/api/notes/all"],
+  // Fetch notes a page at a time; the key starts with "/api/notes/all" so
+  // existing invalidations of that key refresh every loaded page
+  const {
+    data: notePages,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/notes/all", listParams],
+    queryFn: async ({ pageParam }): Promise<NotePage> => {
+      const cursorParam = pageParam ? `&cursor=${encodeURIComponent(pageParam)}` : "";
+      const response = await apiRequest("GET", `/api/notes/all?${listParams}${cursorParam}`);
+      return response.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: filter !== "trash",
+    placeholderData: keepPreviousData,
+  });
+
+  const notes = React.useMemo(() => notePages?.pages.flatMap(page => page.notes), [notePages]);
+
+  // Server-side search, debounced so we don't query on every keystroke.
+  // The trash isn't indexed, so it keeps filtering locally.
+  const debouncedSearch = useDebounce(searchQuery.trim(), 300);
+  const isServerSearch = debouncedSearch !== "" && filter !== "trash";
+  // The selected tag narrows the search too
+  const serverSearchQuery = tagFilter ? `${debouncedSearch} tag:"${tagFilter}"` : debouncedSearch;
+  const { data: searchResults, isFetching: isSearching } = useQuery<NoteSearchResult[]>({
+    queryKey: [`/api/notes/search?q=${encodeURIComponent(serverSearchQuery)}`],
+    enabled: isServerSearch,
+    staleTime: 0,
+  });
+
+  // Fetch trashed notes only when the trash is open
+  const { data: trashedNotes, isLoading: isTrashLoading } = useQuery<Note[]>({
+    queryKey: ["/api/notes/trash"],
+    enabled: filter === "trash",
   });
 
   // Create new note
@@ -47,11 +141,14 @@ const NotesGrid: React.FC = () => {
         title: "New Note",
         content: "# New Note\n\nStart typing here...",
         color: getRandomColor(),
+        // New notes go into the open notebook
+        notebookId: typeof notebook === "number" ? notebook : null,
       });
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notebooks"] });
       toast({
         title: "Note created",
         description: "Your new note has been created successfully.",
@@ -84,6 +181,78 @@ const NotesGrid: React.FC = () => {
     },
   });
 
+  // Move a note to the trash
+  const { mutate: deleteNote } = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/notes/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notebooks"] });
+      setSelectedNote(null);
+      toast({
+        title: "Note moved to trash",
+        description: "You can restore it from the Trash tab.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete note",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Restore a note from the trash
+  const { mutate: restoreNote } = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/notes/${id}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notebooks"] });
+      setSelectedNote(null);
+      toast({
+        title: "Note restored",
+        description: "Your note is back in your notebook.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to restore note",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Save a checklist toggle made in the note view
+  const { mutate: saveNoteContent } = useMutation({
+    mutationFn: async ({ id, content, baseContent }: { id: number; content: string; baseContent: string }) => {
+      // Merged with whatever else changed in the note since it was loaded
+      const response = await apiRequest("PATCH", `/api/notes/${id}/enhanced`, { content, baseContent });
+      return response.json();
+    },
+    onSuccess: (updatedNote: Note) => {
+      setSelectedNote(current => current && current.id === updatedNote.id ? updatedNote : current);
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update checklist",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const getRandomColor = (): StickyNoteColor => {
     const colors: StickyNoteColor[] = ["yellow", "green", "pink", "blue", "purple", "orange"];
     return colors[Math.floor(Math.random() * colors.length)];
@@ -124,13 +293,87 @@ const NotesGrid: React.FC = () => {
     setSelectedNote(null);
   };
 
-  // Filter and search notes
-  const filteredNotes = React.useMemo(() => {
-    if (!notes) return [];
+  // Follow a [[link]] by opening the note it points at
+  const openLinkedNote = async (link: WikiLinkTarget) => {
+    try {
+      const url = link.noteId !== undefined
+        ? `/api/notes/${link.noteId}`
+        : `/api/notes/lookup?title=${encodeURIComponent(link.title || "")}`;
+      const response = await apiRequest("GET", url);
+      const linkedNote: Note = await response.json();
+      
+      if (linkedNote.deletedAt) {
+        toast({
+          title: "Note is in the trash",
+          description: "Restore it from the trash to open it.",
+        });
+        return;
+      }
+      
+      openNoteView(linkedNote);
+    } catch (error) {
+      toast({
+        title: "Linked note not found",
+        description: link.title
+          ? `There is no note titled "${link.title}".`
+          : "The note may have been deleted.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Clicking a checklist item in the note view flips it in the source and saves;
+  // clicking a [[link]] opens the linked note
+  const handleViewClick = (e: React.MouseEvent) => {
+    const wikiLink = getWikiLinkFromEvent(e);
+    if (wikiLink) {
+      e.preventDefault();
+      openLinkedNote(wikiLink);
+      return;
+    }
+    
+    const line = getTaskLineFromEvent(e);
+    if (!selectedNote || line === null) return;
+    
+    // The re-render applies the new state; don't let the DOM toggle first
+    e.preventDefault();
+    if (!canEdit) return;
+    
+    const content = toggleTaskAtLine(selectedNote.content, line);
+    if (content === selectedNote.content) return;
+    
+    setSelectedNote({ ...selectedNote, content });
+    saveNoteContent({ id: selectedNote.id, content, baseContent: selectedNote.content });
+  };
+
+  // Load the next page when the bottom of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
     
-    return notes.filter(note => {
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "200px" });
+    
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Filter and search notes. The paginated list comes back filtered and
+  // sorted; search results and the trash are filtered here and keep the
+  // server's order (rank / deletion time).
+  const filteredNotes = React.useMemo<Note[]>(() => {
+    if (filter !== "trash" && !isServerSearch) return notes ?? [];
+    
+    const sourceNotes = filter === "trash" ? trashedNotes : searchResults;
+    if (!sourceNotes) return [];
+    
+    return sourceNotes.filter(note => {
       // Filter by tab
       const matchesFilter = 
+        filter === "trash" ||
         (filter === "all" && !note.isArchived) ||
         (filter === "pinned" && note.isPinned && !note.isArchived) ||
         (filter === "archived" && note.isArchived);
@@ -138,30 +381,22 @@ const NotesGrid: React.FC = () => {
       // Filter by color
       const matchesColor = colorFilter === "all" || note.color === colorFilter;
       
-      // Filter by search
+      // Filter search results by the open notebook (the list is filtered by the server)
+      const matchesNotebook =
+        filter === "trash" ||
+        notebook === null ||
+        (notebook === "none" ? !note.notebookId : note.notebookId === notebook);
+      
+      // Filter by search (server results already match)
       const matchesSearch = 
+        isServerSearch ||
         searchQuery === "" || 
         note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
         note.content.toLowerCase().includes(searchQuery.toLowerCase());
       
-      return matchesFilter && matchesColor && matchesSearch;
-    });
-  }, [notes, filter, colorFilter, searchQuery]);
-
-  // Sort notes - pinned first, then by updatedAt
-  const sortedNotes = React.useMemo(() => {
-    if (!filteredNotes) return [];
-    
-    return [...filteredNotes].sort((a, b) => {
-      // Always sort pinned notes first (when not in archived view)
-      if (filter !== "archived" && a.isPinned !== b.isPinned) {
-        return a.isPinned ? -1 : 1;
-      }
-      
-      // Then sort by date, newest first
-      return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+      return matchesFilter && matchesColor && matchesNotebook && matchesSearch;
     });
-  }, [filteredNotes, filter]);
+  }, [notes, trashedNotes, searchResults, isServerSearch, filter, colorFilter, notebook, searchQuery]);
 
   // Get display date
   const getDisplayDate = (dateStr: string) => {
@@ -169,13 +404,23 @@ const NotesGrid: React.FC = () => {
     return date.toLocaleDateString() + " " + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  // Checklist progress for each card
+  const taskProgress = React.useMemo(() => {
+    return new Map(filteredNotes.map(note => [note.id, getTaskProgress(note.content)]));
+  }, [filteredNotes, getTaskProgress]);
+
+  // Highlighted search snippet for a note, if it came from a server search
+  const getSearchHighlight = (note: Note) => {
+    return isServerSearch && "snippet" in note ? (note as NoteSearchResult) : null;
+  };
+
   // Truncate content for preview
   const truncateContent = (content: string, maxLength = 120) => {
     if (content.length <= maxLength) return content;
     return content.substring(0, maxLength) + "...";
   };
 
-  if (isLoading) {
+  if (isLoading || (filter === "trash" && isTrashLoading)) {
     return (
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
         {[1, 2, 3, 4, 5, 6].map((i) => (
@@ -190,14 +435,23 @@ const NotesGrid: React.FC = () => {
       {/* Toolbar */}
       <div className="flex flex-col sm:flex-row gap-3 justify-between items-start sm:items-center">
         <div className="flex gap-2">
-          <Button 
-            onClick={() => createNote()} 
-            className="flex items-center gap-1"
-            variant="outline"
-          >
-            <Plus size={16} />
-            <span>New Note</span>
-          </Button>
+          {canEdit && (
+            <>
+              <Button 
+                onClick={() => createNote()} 
+                className="flex items-center gap-1"
+                variant="outline"
+              >
+                <Plus size={16} />
+                <span>New Note</span>
+              </Button>
+              
+              <TemplatePicker
+                notebookId={typeof notebook === "number" ? notebook : null}
+                onCreated={openNoteEditor}
+              />
+            </>
+          )}
           
           <Select 
             value={colorFilter} 
@@ -216,11 +470,24 @@ const NotesGrid: React.FC = () => {
               <SelectItem value="orange">Orange</SelectItem>
             </SelectContent>
           </Select>
+          
+          <Select value={sortBy} onValueChange={(value) => setSortBy(value as NoteSort)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pinned">Pinned first</SelectItem>
+              <SelectItem value="updatedAt">Last updated</SelectItem>
+              <SelectItem value="createdAt">Date created</SelectItem>
+              <SelectItem value="title">Title</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
         
         <div className="w-full sm:w-auto relative">
-          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Search className={`absolute left-2 top-2.5 h-4 w-4 text-muted-foreground ${isSearching ? 'animate-pulse' : ''}`} />
           <Input
+            title="Search supports tag:, color:, pinned:, before: and after: filters"
             placeholder="Search notes..."
             className="pl-8 w-full sm:w-[250px]"
             value={searchQuery}
@@ -230,96 +497,208 @@ const NotesGrid: React.FC = () => {
       </div>
 
       {/* Tabs */}
-      <Tabs defaultValue="all" value={filter} onValueChange={(value) => setFilter(value as "all" | "pinned" | "archived")}>
-        <TabsList className="grid w-full grid-cols-3 mb-4">
+      <Tabs defaultValue="all" value={filter} onValueChange={(value) => setFilter(value as NoteFilter)}>
+        <TabsList className="grid w-full grid-cols-4 mb-4">
           <TabsTrigger value="all">All Notes</TabsTrigger>
           <TabsTrigger value="pinned">Pinned</TabsTrigger>
           <TabsTrigger value="archived">Archived</TabsTrigger>
+          <TabsTrigger value="trash">Trash</TabsTrigger>
         </TabsList>
       </Tabs>
 
-      {/* Notes Grid */}
-      {sortedNotes.length > 0 ? (
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-          {sortedNotes.map((note) => (
-            <StickyNote
-              key={note.id}
-              color={note.color}
-              pinned={note.isPinned}
-              className="h-[200px] cursor-pointer relative group overflow-hidden"
-              onClick={() => openNoteView(note)}
-            >
-              {/* Note title */}
-              <h3 className="text-lg font-semibold mb-1 truncate">{note.title}</h3>
+      {filter === "trash" && (
+        <p className="text-sm text-muted-foreground -mt-2">
+          Notes in the trash are permanently deleted, along with their attachments, after the retention period.
+        </p>
+      )}
+
+      <div className="flex gap-6">
+        {/* Tag browser */}
+        {filter !== "trash" && (
+          <aside className="hidden md:block w-52 shrink-0">
+            <TagBrowser selectedTag={tagFilter} onSelectTag={setTagFilter} />
+          </aside>
+        )}
+
+        <div className="flex-1 min-w-0 flex flex-col space-y-4">
+          {tagFilter && filter !== "trash" && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Tagged</span>
+              <span className="inline-flex items-center gap-1 rounded-full bg-amber-200/70 px-2 py-0.5">
+                #{tagFilter}
+                <button onClick={() => setTagFilter(null)} title="Clear tag filter">
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            </div>
+          )}
+          
+          {/* Notes Grid */}
+          {filteredNotes.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {filteredNotes.map((note) => (
+                <StickyNote
+                  key={note.id}
+                  color={note.color}
+                  pinned={note.isPinned}
+                  className="h-[200px] cursor-pointer relative group overflow-hidden"
+                  onClick={() => openNoteView(note)}
+                >
+                  {getSearchHighlight(note) ? (
+                    <>
+                      {/* Highlighted title and snippet from the search */}
+                      <h3
+                        className="text-lg font-semibold mb-1 truncate [&_mark]:bg-yellow-300"
+                        dangerouslySetInnerHTML={{ __html: getSearchHighlight(note)!.titleHighlight }}
+                      />
+                      <div
+                        className="text-sm h-[100px] overflow-hidden mb-2 whitespace-pre-line [&_mark]:bg-yellow-300"
+                        dangerouslySetInnerHTML={{ __html: getSearchHighlight(note)!.snippet }}
+                      />
+                    </>
+                  ) : (
+                    <>
+                      {/* Note title */}
+                      <h3 className="text-lg font-semibold mb-1 truncate">{note.title}</h3>
+                  
+                      {/* Note content preview */}
+                      <div className="prose prose-sm max-w-none h-[100px] overflow-hidden mb-2">
+                        {note.drawingData && (
+                          <img
+                            src={drawingToDataUrl(note.drawingData)}
+                            alt="Sketch"
+                            className="float-right w-20 h-[60px] object-contain ml-2 my-0 rounded bg-white/60"
+                          />
+                        )}
+                        <div 
+                          dangerouslySetInnerHTML={{ 
+                            __html: renderMarkdown(truncateContent(note.content)) 
+                          }}
+                        />
+                      </div>
+                    </>
+                  )}
               
-              {/* Note content preview */}
-              <div className="prose prose-sm max-w-none h-[100px] overflow-hidden mb-2">
-                <div 
-                  dangerouslySetInnerHTML={{ 
-                    __html: renderMarkdown(truncateContent(note.content)) 
-                  }}
-                />
-              </div>
+                  {/* Reactions */}
+                  {filter !== "trash" && (
+                    <div className="absolute bottom-7 left-2 right-2">
+                      <ReactionBar noteId={note.id} emojis={note.emojis} compact readOnly={!can("comment")} />
+                    </div>
+                  )}
               
-              {/* Note info footer */}
-              <div className="text-xs text-gray-600 absolute bottom-2 left-2 right-2">
-                {getDisplayDate(note.updatedAt)}
-              </div>
+                  {/* Note info footer */}
+                  <div className="text-xs text-gray-600 absolute bottom-2 left-2 right-2 flex items-center justify-between gap-2">
+                    <span>{getDisplayDate(note.updatedAt)}</span>
+                    {(taskProgress.get(note.id)?.total ?? 0) > 0 && (
+                      <div className="flex items-center gap-1.5" title="Checklist progress">
+                        <Progress
+                          value={(taskProgress.get(note.id)!.done / taskProgress.get(note.id)!.total) * 100}
+                          className="h-1.5 w-12 bg-white/60"
+                        />
+                        <span>{taskProgress.get(note.id)!.done}/{taskProgress.get(note.id)!.total} done</span>
+                      </div>
+                    )}
+                  </div>
               
-              {/* Action buttons */}
-              <div className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity flex space-x-1">
-                <Button 
-                  variant="ghost" 
-                  size="icon" 
-                  className="h-7 w-7" 
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    togglePin(note);
-                  }}
-                  title={note.isPinned ? "Unpin" : "Pin"}
-                >
-                  <Pin className={`h-4 w-4 ${note.isPinned ? 'fill-current' : ''}`} />
-                </Button>
+                  {/* Action buttons */}
+                  {!canEdit ? null : filter === "trash" ? (
+                    <div className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity flex space-x-1">
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="h-7 w-7" 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          restoreNote(note.id);
+                        }}
+                        title="Restore from trash"
+                      >
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="absolute top-1 right-1 opacity-0 group-hover:opacity-100 transition-opacity flex space-x-1">
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="h-7 w-7" 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          togglePin(note);
+                        }}
+                        title={note.isPinned ? "Unpin" : "Pin"}
+                      >
+                        <Pin className={`h-4 w-4 ${note.isPinned ? 'fill-current' : ''}`} />
+                      </Button>
                 
-                <Button 
-                  variant="ghost" 
-                  size="icon" 
-                  className="h-7 w-7" 
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    openNoteEditor(note);
-                  }}
-                  title="Edit"
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="h-7 w-7" 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openNoteEditor(note);
+                        }}
+                        title="Edit"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
                 
-                <Button 
-                  variant="ghost" 
-                  size="icon" 
-                  className="h-7 w-7" 
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    toggleArchive(note);
-                  }}
-                  title={note.isArchived ? "Restore" : "Archive"}
-                >
-                  {note.isArchived ? (
-                    <ArchiveRestore className="h-4 w-4" />
-                  ) : (
-                    <Archive className="h-4 w-4" />
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="h-7 w-7" 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          toggleArchive(note);
+                        }}
+                        title={note.isArchived ? "Restore" : "Archive"}
+                      >
+                        {note.isArchived ? (
+                          <ArchiveRestore className="h-4 w-4" />
+                        ) : (
+                          <Archive className="h-4 w-4" />
+                        )}
+                      </Button>
+                
+                      <NoteNotebookMenu noteId={note.id} notebookId={note.notebookId} />
+                
+                      <Button 
+                        variant="ghost" 
+                        size="icon" 
+                        className="h-7 w-7" 
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteNote(note.id);
+                        }}
+                        title="Move to trash"
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </div>
                   )}
-                </Button>
-              </div>
-            </StickyNote>
-          ))}
-        </div>
-      ) : (
-        <div className="text-center py-8">
-          <p className="text-gray-500 mb-4">No notes found</p>
-          <Button onClick={() => createNote()}>Create Your First Note</Button>
+                </StickyNote>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <p className="text-gray-500 mb-4">{filter === "trash" ? "The trash is empty" : "No notes found"}</p>
+              {filter !== "trash" && canEdit && (
+                <Button onClick={() => createNote()}>Create Your First Note</Button>
+              )}
+            </div>
+          )}
+
+          {/* Infinite scroll sentinel for the paginated list */}
+          {filter !== "trash" && !isServerSearch && hasNextPage && (
+            <div ref={loadMoreRef} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {isFetchingNextPage && [1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-48 w-full rounded-lg" />
+              ))}
+            </div>
+          )}
         </div>
-      )}
+      </div>
 
       {/* Note Editor/Viewer Sheet */}
       {selectedNote && (
@@ -361,6 +740,22 @@ const NotesGrid: React.FC = () => {
                     </Button>
                   </div>
                 </div>
+              ) : selectedNote.deletedAt || !canEdit ? (
+                <div className="flex justify-between items-center mb-4">
+                  <SheetTitle>{selectedNote.title}</SheetTitle>
+                  {selectedNote.deletedAt ? (
+                    <Button
+                      variant="outline"
+                      onClick={() => restoreNote(selectedNote.id)}
+                      disabled={!canEdit}
+                    >
+                      <Undo2 className="h-4 w-4 mr-2" />
+                      Restore
+                    </Button>
+                  ) : (
+                    <NoteExportMenu noteId={selectedNote.id} />
+                  )}
+                </div>
               ) : (
                 <div className="flex justify-between items-center mb-4">
                   <SheetTitle>{selectedNote.title}</SheetTitle>
@@ -380,6 +775,12 @@ const NotesGrid: React.FC = () => {
                       {selectedNote.isPinned ? "Pinned" : "Pin"}
                     </Button>
                     
+                    <SaveTemplateButton noteId={selectedNote.id} noteTitle={selectedNote.title} />
+                    
+                    <NoteExportMenu noteId={selectedNote.id} />
+                    
+                    <ShareNoteButton noteId={selectedNote.id} />
+                    
                     <Button
                       variant="outline"
                       onClick={() => toggleArchive(selectedNote)}
@@ -396,6 +797,14 @@ const NotesGrid: React.FC = () => {
                         </>
                       )}
                     </Button>
+                    
+                    <Button
+                      variant="outline"
+                      onClick={() => deleteNote(selectedNote.id)}
+                      title="Move to trash"
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
                   </div>
                 </div>
               )}
@@ -409,12 +818,58 @@ const NotesGrid: React.FC = () => {
                     setSelectedNote(updatedNote);
                     queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
                   }}
+                  onOpenLinkedNote={openLinkedNote}
                 />
               ) : (
                 <div className="overflow-y-auto h-full p-1">
                   <StickyNote color={selectedNote.color} className="prose prose-sm md:prose max-w-none p-4 min-h-[300px]">
-                    <div dangerouslySetInnerHTML={{ __html: renderMarkdown(selectedNote.content) }} />
+                    {selectedNote.drawingData && (
+                      <img
+                        src={drawingToDataUrl(selectedNote.drawingData)}
+                        alt="Sketch"
+                        className="w-full rounded bg-white/60"
+                      />
+                    )}
+                    <MarkdownPreview
+                      onClick={handleViewClick}
+                      html={renderMarkdown(selectedNote.content, { interactiveTasks: true })}
+                    />
                   </StickyNote>
+                  {selectedNote.tags && selectedNote.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-3">
+                      {selectedNote.tags.map((tag) => (
+                        <button
+                          key={tag}
+                          className="rounded-full bg-amber-200/70 px-2 py-0.5 text-xs text-gray-800 hover:bg-amber-300"
+                          onClick={() => {
+                            setTagFilter(tag);
+                            closeNote();
+                          }}
+                          title={`Show notes tagged #${tag}`}
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="mt-3">
+                    <ReactionBar
+                      noteId={selectedNote.id}
+                      emojis={selectedNote.emojis}
+                      readOnly={!can("comment")}
+                      onUpdate={(updatedNote: Note) => setSelectedNote(updatedNote)}
+                    />
+                  </div>
+                  <NoteBacklinks noteId={selectedNote.id} onOpen={openNoteView} />
+                  {!selectedNote.deletedAt && (
+                    <NoteAiChat
+                      key={selectedNote.id}
+                      noteId={selectedNote.id}
+                      onNoteChanged={(note: Note) => {
+                        if (note.id === selectedNote.id) setSelectedNote(note);
+                      }}
+                    />
+                  )}
                   <div className="text-xs text-muted-foreground mt-4">
                     Last updated: {getDisplayDate(selectedNote.updatedAt)}
                   </div>
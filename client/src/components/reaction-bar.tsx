@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { SmilePlus } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { parseNoteReactions } from "@shared/reactions";
+
+interface Note {
+  id: number;
+  title: string;
+  content: string;
+  color: "green" | "yellow" | "pink" | "blue" | "purple" | "orange";
+  isPinned: boolean;
+  isArchived: boolean;
+  drawingData?: string | null;
+  emojis?: string | null;
+  tags?: string[] | null;
+  notebookId?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+}
+
+interface ReactionBarProps {
+  noteId: number;
+  emojis?: string | null; // the note's stored reactions JSON
+  compact?: boolean; // smaller chips for note cards
+  readOnly?: boolean; // show the reactions without letting the user react
+  onUpdate?: (updatedNote: Note) => void;
+}
+
+const quickReactions = ["👍", "❤️", "🎉", "😂", "😮", "😢", "🔥", "✅", "👀", "🙏"];
+
+const ReactionBar: React.FC<ReactionBarProps> = ({ noteId, emojis, compact = false, readOnly = false, onUpdate }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const reactions = Object.entries(parseNoteReactions(emojis)).filter(([, userIds]) => userIds.length > 0);
+
+  const { mutate: toggleReaction, isPending } = useMutation({
+    mutationFn: async ({ emoji, remove }: { emoji: string; remove: boolean }) => {
+      const response = await apiRequest(
+        remove ? "DELETE" : "POST",
+        `/api/notes/${noteId}/reactions/${encodeURIComponent(emoji)}`
+      );
+      return response.json();
+    },
+    onSuccess: (updatedNote) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+
+      if (onUpdate) {
+        onUpdate(updatedNote);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update reaction",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasReacted = (userIds: number[]) => !!user && userIds.includes(user.id);
+
+  const react = (emoji: string) => {
+    const userIds = parseNoteReactions(emojis)[emoji] ?? [];
+    toggleReaction({ emoji, remove: hasReacted(userIds) });
+    setPickerOpen(false);
+  };
+
+  const chipSize = compact ? "text-xs px-1.5 py-0" : "text-sm px-2 py-0.5";
+
+  return (
+    // Clicks here shouldn't open the note when the bar sits on a card
+    <div className="flex flex-wrap items-center gap-1" onClick={(e) => e.stopPropagation()}>
+      {reactions.map(([emoji, userIds]) => (
+        <button
+          key={emoji}
+          className={`rounded-full border ${chipSize} ${
+            hasReacted(userIds) ? 'bg-amber-200/80 border-amber-400' : 'bg-white/60 border-transparent hover:border-gray-300'
+          }`}
+          onClick={() => react(emoji)}
+          disabled={isPending || readOnly}
+          title={readOnly ? undefined : hasReacted(userIds) ? "Remove your reaction" : "React"}
+        >
+          {emoji} {userIds.length}
+        </button>
+      ))}
+
+      {!readOnly && (
+        <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+          <PopoverTrigger asChild>
+            <button
+              className={`rounded-full text-gray-600 hover:bg-white/60 ${compact ? 'p-0.5' : 'p-1'}`}
+              title="Add reaction"
+              disabled={isPending}
+            >
+              <SmilePlus className={compact ? "h-3.5 w-3.5" : "h-4 w-4"} />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-2" onClick={(e) => e.stopPropagation()}>
+            <div className="grid grid-cols-5 gap-1">
+              {quickReactions.map((emoji) => (
+                <button
+                  key={emoji}
+                  className="text-xl rounded p-1 hover:bg-gray-100"
+                  onClick={() => react(emoji)}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
+
+export default ReactionBar;
@@ -0,0 +1,49 @@
+import React from "react";
+import type { RemoteCursor } from "@/hooks/use-note-collab";
+
+interface RemoteCursorsProps {
+  content: string;
+  cursors: RemoteCursor[];
+  scrollTop: number;
+}
+
+// Other people's carets, drawn over the editor's textarea. The text is laid
+// out again underneath, invisibly and with the textarea's padding and
+// wrapping, so each caret lands where its character is.
+const RemoteCursors: React.FC<RemoteCursorsProps> = ({ content, cursors, scrollTop }) => {
+  if (cursors.length === 0) return null;
+
+  const sorted = [...cursors].sort((a, b) => a.position - b.position);
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+
+  for (const { peer, position } of sorted) {
+    parts.push(content.slice(offset, position));
+    parts.push(
+      <span key={peer.sessionId} className="relative">
+        <span className="absolute top-0 bottom-0 -left-px w-0.5" style={{ backgroundColor: peer.color }} />
+        <span
+          className="absolute -top-4 left-0 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+          style={{ backgroundColor: peer.color }}
+        >
+          {peer.username}
+        </span>
+      </span>
+    );
+    offset = Math.max(offset, position);
+  }
+  parts.push(content.slice(offset));
+
+  return (
+    <div className="absolute inset-0 overflow-hidden pointer-events-none" aria-hidden>
+      <div
+        className="p-4 whitespace-pre-wrap break-words text-transparent"
+        style={{ transform: `translateY(${-scrollTop}px)` }}
+      >
+        {parts}
+      </div>
+    </div>
+  );
+};
+
+export default RemoteCursors;
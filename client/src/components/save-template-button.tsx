@@ -0,0 +1,91 @@
+import React, { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { LayoutTemplate } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface SaveTemplateButtonProps {
+  noteId: number;
+  noteTitle?: string;
+}
+
+// Saves a note as a template for new notes
+const SaveTemplateButton: React.FC<SaveTemplateButtonProps> = ({ noteId, noteTitle }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const { mutate: saveTemplate, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/templates", { name: name.trim(), noteId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      setOpen(false);
+      toast({
+        title: "Template saved",
+        description: `"${name.trim()}" is now available for new notes.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save template",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => {
+          setName(noteTitle || "");
+          setOpen(true);
+        }}
+        title="Save as template"
+      >
+        <LayoutTemplate className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save as template</DialogTitle>
+            <DialogDescription>
+              {"Placeholders like {{date}}, {{user.username}} or {{prompt:Client name}} in the note are filled in each time it's used."}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && name.trim() && saveTemplate()}
+            placeholder="Template name"
+            maxLength={100}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveTemplate()} disabled={isPending || !name.trim()}>
+              {isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SaveTemplateButton;
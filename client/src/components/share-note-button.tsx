@@ -0,0 +1,167 @@
+import React, { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ShareNoteButtonProps {
+  noteId: number;
+}
+
+interface NoteShare {
+  id: number;
+  url: string;
+  expiresAt: string | null;
+  hasPassword: boolean;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never" },
+  { value: "1", label: "In 1 day" },
+  { value: "7", label: "In 7 days" },
+  { value: "30", label: "In 30 days" },
+];
+
+// Creates a public read-only link to a note
+const ShareNoteButton: React.FC<ShareNoteButtonProps> = ({ noteId }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [expiry, setExpiry] = useState("never");
+  const [password, setPassword] = useState("");
+  const [share, setShare] = useState<NoteShare | null>(null);
+
+  const { mutate: createShare, isPending } = useMutation({
+    mutationFn: async () => {
+      const expiresAt = expiry === "never"
+        ? null
+        : new Date(Date.now() + parseInt(expiry) * 24 * 60 * 60 * 1000).toISOString();
+      const response = await apiRequest("POST", `/api/notes/${noteId}/share`, {
+        expiresAt,
+        password: password || null,
+      });
+      return response.json() as Promise<NoteShare>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shares"] });
+      setShare(created);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create link",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async () => {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(share.url);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({ title: "Couldn't copy the link", variant: "destructive" });
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => {
+          setExpiry("never");
+          setPassword("");
+          setShare(null);
+          setOpen(true);
+        }}
+        title="Share"
+      >
+        <Share2 className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Share note</DialogTitle>
+            <DialogDescription>
+              Anyone with the link can read the note and its attachments, without signing in. You can revoke links from the Shared tab of your profile.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!share ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="share-expiry">Link expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger id="share-expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="share-password">Password (optional)</Label>
+                <Input
+                  id="share-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="At least 4 characters"
+                  autoComplete="new-password"
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="share-url">Link</Label>
+              <div className="flex gap-2">
+                <Input id="share-url" value={share.url} readOnly onFocus={(e) => e.target.select()} />
+                <Button variant="outline" onClick={copyLink} title="Copy link">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                {share.expiresAt ? `Expires ${new Date(share.expiresAt).toLocaleString()}` : "Never expires"}
+                {share.hasPassword ? " · Password protected" : ""}
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            {!share ? (
+              <>
+                <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+                <Button
+                  onClick={() => createShare()}
+                  disabled={isPending || (password.length > 0 && password.length < 4)}
+                >
+                  {isPending ? "Creating..." : "Create link"}
+                </Button>
+              </>
+            ) : (
+              <Button onClick={() => setOpen(false)}>Done</Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ShareNoteButton;
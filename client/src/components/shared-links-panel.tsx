@@ -0,0 +1,126 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Eye, Link2, Loader2, Lock, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+interface NoteShare {
+  id: number;
+  noteId: number;
+  noteTitle: string;
+  url: string;
+  expiresAt: string | null;
+  hasPassword: boolean;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+const isExpired = (share: NoteShare) => !!share.expiresAt && new Date(share.expiresAt).getTime() <= Date.now();
+
+// The user's public note links, with their view counts
+const SharedLinksPanel: React.FC = () => {
+  const { toast } = useToast();
+
+  const { data: shares = [], isLoading } = useQuery<NoteShare[]>({
+    queryKey: ["/api/shares"],
+  });
+
+  const { mutate: revokeShare, isPending: isRevoking } = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/shares/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shares"] });
+      toast({ title: "Link revoked" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to revoke link",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied" });
+    } catch {
+      toast({ title: "Couldn't copy the link", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (shares.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Link2 className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+        <h3 className="text-lg font-medium mb-2">No Shared Links</h3>
+        <p className="text-gray-500">
+          Use the share button on a note to create a public read-only link.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {shares.map(share => (
+        <div key={share.id} className="bg-white rounded-lg p-4 border flex items-start justify-between gap-4">
+          <div className="min-w-0 space-y-1">
+            <div className="flex items-center gap-2">
+              <h3 className="font-medium truncate">{share.noteTitle}</h3>
+              {share.hasPassword && (
+                <Badge variant="outline" className="shrink-0">
+                  <Lock className="h-3 w-3 mr-1" />
+                  Password
+                </Badge>
+              )}
+              {isExpired(share) && (
+                <Badge variant="outline" className="shrink-0 text-red-600">Expired</Badge>
+              )}
+            </div>
+            <p className="text-xs text-gray-500 truncate">{share.url}</p>
+            <p className="text-sm text-gray-500 flex items-center gap-1">
+              <Eye className="h-3 w-3" />
+              {share.viewCount} {share.viewCount === 1 ? "view" : "views"}
+              {share.lastViewedAt ? ` · last ${new Date(share.lastViewedAt).toLocaleString()}` : ""}
+              {" · "}
+              {share.expiresAt
+                ? `${isExpired(share) ? "expired" : "expires"} ${new Date(share.expiresAt).toLocaleDateString()}`
+                : "never expires"}
+            </p>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <Button variant="outline" size="sm" onClick={() => copyLink(share.url)} title="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => revokeShare(share.id)}
+              disabled={isRevoking}
+              title="Revoke link"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Revoke
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SharedLinksPanel;
@@ -0,0 +1,283 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/context/workspace-context";
+import { ChevronRight, Hash, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { TAG_SEPARATOR, normalizeTag, type TagCount } from "@shared/tags";
+
+interface TagBrowserProps {
+  selectedTag: string | null;
+  onSelectTag: (tag: string | null) => void;
+}
+
+interface TagNode {
+  tag: string; // full path, e.g. "work/clienta"
+  name: string; // last level, e.g. "clienta"
+  count: number;
+  children: TagNode[];
+}
+
+// Tag counts come back sorted with every parent listed, so each tag's
+// parent is already in the tree when the tag is reached
+function buildTagTree(tags: TagCount[]): TagNode[] {
+  const roots: TagNode[] = [];
+  const nodes = new Map<string, TagNode>();
+
+  for (const { tag, count } of tags) {
+    const separatorIndex = tag.lastIndexOf(TAG_SEPARATOR);
+    const node: TagNode = { tag, name: tag.slice(separatorIndex + 1), count, children: [] };
+    nodes.set(tag, node);
+
+    const parent = separatorIndex === -1 ? undefined : nodes.get(tag.slice(0, separatorIndex));
+    (parent ? parent.children : roots).push(node);
+  }
+
+  return roots;
+}
+
+const invalidateTagQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+};
+
+const TagBrowser: React.FC<TagBrowserProps> = ({ selectedTag, onSelectTag }) => {
+  const { toast } = useToast();
+  const { can } = useWorkspace();
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  const { data: tags, isLoading } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const { mutate: renameTag, isPending: isRenaming } = useMutation({
+    mutationFn: async ({ from, to }: { from: string; to: string }) => {
+      const response = await apiRequest("POST", "/api/tags/rename", { from, to });
+      return response.json();
+    },
+    onSuccess: (result: { updated: number }, { from, to }) => {
+      invalidateTagQueries();
+      if (selectedTag && (selectedTag === from || selectedTag.startsWith(from + TAG_SEPARATOR))) {
+        onSelectTag(to + selectedTag.slice(from.length));
+      }
+      setRenaming(null);
+
+      toast({
+        title: "Tag renamed",
+        description: `Updated ${result.updated} note${result.updated === 1 ? "" : "s"}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to rename tag",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate: deleteTag } = useMutation({
+    mutationFn: async (tag: string) => {
+      const response = await apiRequest("DELETE", `/api/tags/${encodeURIComponent(tag)}`);
+      return response.json();
+    },
+    onSuccess: (result: { updated: number }, tag) => {
+      invalidateTagQueries();
+      if (selectedTag && (selectedTag === tag || selectedTag.startsWith(tag + TAG_SEPARATOR))) {
+        onSelectTag(null);
+      }
+
+      toast({
+        title: "Tag deleted",
+        description: `Removed from ${result.updated} note${result.updated === 1 ? "" : "s"}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete tag",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleExpanded = (tag: string) => {
+    const next = new Set(expanded);
+    if (next.has(tag)) next.delete(tag);
+    else next.add(tag);
+    setExpanded(next);
+  };
+
+  const startRename = (tag: string) => {
+    setRenaming(tag);
+    setNewName(tag);
+  };
+
+  const submitRename = () => {
+    const to = normalizeTag(newName);
+    if (renaming && to && to !== renaming) {
+      renameTag({ from: renaming, to });
+    }
+  };
+
+  const renameTarget = normalizeTag(newName);
+  const isMerge = !!renaming && renameTarget !== renaming && !!tags?.some(({ tag }) => tag === renameTarget);
+
+  const renderNode = (node: TagNode, depth: number): React.ReactNode => {
+    const isExpanded = expanded.has(node.tag) || (!!selectedTag && selectedTag.startsWith(node.tag + TAG_SEPARATOR));
+
+    return (
+      <li key={node.tag}>
+        <div
+          className={`group flex items-center rounded text-sm ${
+            selectedTag === node.tag ? 'bg-amber-100 font-medium' : 'hover:bg-gray-100'
+          }`}
+          style={{ paddingLeft: depth * 12 }}
+        >
+          {node.children.length > 0 ? (
+            <button
+              className="p-1 text-gray-500"
+              onClick={() => toggleExpanded(node.tag)}
+              title={isExpanded ? "Collapse" : "Expand"}
+            >
+              <ChevronRight className={`h-3 w-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+            </button>
+          ) : (
+            <span className="w-5" />
+          )}
+          <button
+            className="flex flex-1 items-center justify-between gap-1 truncate py-1 pr-1 text-left"
+            onClick={() => onSelectTag(selectedTag === node.tag ? null : node.tag)}
+            title={node.tag}
+          >
+            <span className="truncate">{node.name}</span>
+            <span className="text-xs text-muted-foreground">{node.count}</span>
+          </button>
+          {can("edit") && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className="p-1 text-gray-500 opacity-0 group-hover:opacity-100" title="Tag actions">
+                  <MoreHorizontal className="h-3 w-3" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => startRename(node.tag)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Rename or merge
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setDeleting(node.tag)} className="text-red-600">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+        {isExpanded && node.children.length > 0 && (
+          <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-1 text-sm font-semibold text-gray-700">
+          <Hash className="h-4 w-4" />
+          Tags
+        </h3>
+        {selectedTag && (
+          <button className="text-xs text-muted-foreground hover:underline" onClick={() => onSelectTag(null)}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        [1, 2, 3].map((i) => <Skeleton key={i} className="h-6 w-full" />)
+      ) : tags && tags.length > 0 ? (
+        <ul>{buildTagTree(tags).map(node => renderNode(node, 0))}</ul>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          No tags yet. Add them while editing a note; use "/" to nest them.
+        </p>
+      )}
+
+      {/* Rename / merge */}
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rename tag</DialogTitle>
+            <DialogDescription>
+              Nested tags move along with it. Renaming to a tag that already exists merges the two.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submitRename()}
+            autoFocus
+          />
+          {isMerge && (
+            <p className="text-xs text-amber-700">#{renaming} will be merged into #{renameTarget}.</p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>Cancel</Button>
+            <Button onClick={submitRename} disabled={isRenaming || !renameTarget || renameTarget === renaming}>
+              {isRenaming ? "Saving..." : isMerge ? "Merge" : "Rename"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete #{deleting}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The tag and any tags nested under it are removed from all your notes. The notes themselves are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && deleteTag(deleting)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TagBrowser;
@@ -0,0 +1,122 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { normalizeTag, type TagCount } from "@shared/tags";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Tag chips plus a text field that autocompletes from the user's existing tags.
+// Enter or comma adds a tag; use "/" for nested tags (work/clienta).
+const TagInput: React.FC<TagInputProps> = ({ value, onChange }) => {
+  const [input, setInput] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const { data: existingTags } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const query = normalizeTag(input);
+  const suggestions = (existingTags ?? [])
+    .filter(({ tag }) => !value.includes(tag) && (!query || tag.includes(query)))
+    .sort((a, b) => {
+      // Prefix matches first, then the most used tags
+      const aPrefix = a.tag.startsWith(query) ? 0 : 1;
+      const bPrefix = b.tag.startsWith(query) ? 0 : 1;
+      return aPrefix - bPrefix || b.count - a.count;
+    })
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (normalized && !value.includes(normalized)) {
+      onChange([...value, normalized]);
+    }
+    setInput("");
+    setHighlighted(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter(current => current !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      const suggestion = suggestions[highlighted];
+      // Enter picks the highlighted suggestion; a comma keeps exactly what was typed
+      addTag(e.key === "Enter" && input && suggestion ? suggestion.tag : input);
+    } else if (e.key === "Backspace" && !input && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted(Math.min(highlighted + 1, suggestions.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted(Math.max(highlighted - 1, 0));
+    } else if (e.key === "Escape") {
+      setInput("");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-0.5 rounded-full bg-amber-200/70 px-2 py-0.5 text-xs text-gray-800"
+          >
+            #{tag}
+            <button
+              className="rounded-full hover:bg-amber-300"
+              onClick={() => removeTag(tag)}
+              title={`Remove ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          placeholder={value.length === 0 ? "Add tags..." : ""}
+          className="min-w-[100px] flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+
+      {isFocused && suggestions.length > 0 && (
+        <ul className="absolute z-50 mt-1 w-64 rounded-md border bg-white py-1 text-sm shadow-md">
+          {suggestions.map(({ tag, count }, index) => (
+            <li key={tag}>
+              <button
+                className={`flex w-full justify-between px-3 py-1 text-left ${
+                  index === highlighted ? 'bg-amber-100' : 'hover:bg-gray-50'
+                }`}
+                // Keep focus in the input so the list stays open for the click
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+              >
+                <span className="truncate">#{tag}</span>
+                <span className="text-xs text-muted-foreground">{count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,204 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { LayoutTemplate, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface NoteTemplate {
+  id: string | number; // built-ins go by name, the user's own by id
+  name: string;
+  builtIn: boolean;
+  prompts: string[];
+}
+
+interface Note {
+  id: number;
+  title: string;
+  content: string;
+  color: "green" | "yellow" | "pink" | "blue" | "purple" | "orange";
+  isPinned: boolean;
+  isArchived: boolean;
+  drawingData?: string | null;
+  emojis?: string | null;
+  tags?: string[] | null;
+  notebookId?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  deletedAt?: string | null;
+}
+
+interface TemplatePickerProps {
+  notebookId?: number | null; // where new notes go
+  onCreated?: (note: Note) => void;
+}
+
+// Creates notes from templates. Templates with {{prompt:...}} placeholders
+// ask for the values first.
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ notebookId = null, onCreated }) => {
+  const { toast } = useToast();
+  const [prompting, setPrompting] = useState<NoteTemplate | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+
+  const { data: templates } = useQuery<NoteTemplate[]>({
+    queryKey: ["/api/templates"],
+  });
+
+  const builtInTemplates = templates?.filter(template => template.builtIn) ?? [];
+  const userTemplates = templates?.filter(template => !template.builtIn) ?? [];
+
+  const { mutate: createFromTemplate, isPending: isCreating } = useMutation({
+    mutationFn: async ({ template, prompts }: { template: NoteTemplate; prompts: Record<string, string> }) => {
+      const response = await apiRequest("POST", `/api/notes/new?templateId=${encodeURIComponent(template.id)}`, {
+        prompts,
+        // {{date}} and {{time}} should match the user's clock, not the server's
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        notebookId,
+      });
+      return response.json();
+    },
+    onSuccess: (note) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notebooks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      setPrompting(null);
+
+      if (onCreated) {
+        onCreated(note);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create note",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { mutate: deleteTemplate } = useMutation({
+    mutationFn: async (template: NoteTemplate) => {
+      await apiRequest("DELETE", `/api/templates/${template.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/templates"] });
+      toast({
+        title: "Template deleted",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to delete template",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pickTemplate = (template: NoteTemplate) => {
+    if (template.prompts.length > 0) {
+      setAnswers({});
+      setPrompting(template);
+    } else {
+      createFromTemplate({ template, prompts: {} });
+    }
+  };
+
+  const renderItem = (template: NoteTemplate) => (
+    <DropdownMenuItem key={template.id} onClick={() => pickTemplate(template)} className="group">
+      <span className="flex-1 truncate">{template.name}</span>
+      {!template.builtIn && (
+        <button
+          className="ml-2 rounded p-0.5 text-gray-500 opacity-0 hover:text-red-600 group-hover:opacity-100"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            deleteTemplate(template);
+          }}
+          title="Delete template"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon" title="New note from template" disabled={isCreating}>
+            <LayoutTemplate size={16} />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>New from template</DropdownMenuLabel>
+          {builtInTemplates.map(renderItem)}
+          {userTemplates.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Your templates</DropdownMenuLabel>
+              {userTemplates.map(renderItem)}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Values for the {{prompt:...}} placeholders */}
+      <Dialog open={prompting !== null} onOpenChange={(open) => !open && setPrompting(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{prompting?.name}</DialogTitle>
+            <DialogDescription>Fill in the blanks for the new note.</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (prompting) createFromTemplate({ template: prompting, prompts: answers });
+            }}
+          >
+            {prompting?.prompts.map((label, index) => (
+              <div key={label} className="space-y-1">
+                <Label htmlFor={`template-prompt-${index}`}>{label}</Label>
+                <Input
+                  id={`template-prompt-${index}`}
+                  value={answers[label] ?? ""}
+                  onChange={(e) => setAnswers({ ...answers, [label]: e.target.value })}
+                  maxLength={1000}
+                  autoFocus={index === 0}
+                />
+              </div>
+            ))}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setPrompting(null)}>Cancel</Button>
+              <Button type="submit" disabled={isCreating}>
+                {isCreating ? "Creating..." : "Create note"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default TemplatePicker;
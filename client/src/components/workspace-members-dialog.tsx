@@ -0,0 +1,335 @@
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useWorkspace } from "@/context/workspace-context";
+import { Copy, Link2, LogOut, Trash2, UserMinus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  INVITABLE_ROLES,
+  WORKSPACE_ROLES,
+  WORKSPACE_ROLE_LABELS,
+  hasWorkspacePermission,
+  type WorkspaceRole,
+} from "@shared/workspaces";
+
+interface WorkspaceMembersDialogProps {
+  workspace: { id: number; name: string; role: WorkspaceRole };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface WorkspaceMember {
+  id: number;
+  userId: number;
+  username: string;
+  email: string | null;
+  role: WorkspaceRole;
+}
+
+interface WorkspaceInvitation {
+  id: number;
+  role: WorkspaceRole;
+  url: string;
+  expiresAt: string;
+}
+
+// Members, invitations and settings of the active workspace. Only owners can
+// change anything but their own membership.
+const WorkspaceMembersDialog: React.FC<WorkspaceMembersDialogProps> = ({ workspace, open, onOpenChange }) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { switchWorkspace } = useWorkspace();
+  const canManage = hasWorkspacePermission(workspace.role, "manage");
+  const [name, setName] = useState(workspace.name);
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>("editor");
+  const [confirming, setConfirming] = useState<"leave" | "delete" | null>(null);
+
+  useEffect(() => {
+    if (open) setName(workspace.name);
+  }, [open, workspace.name]);
+
+  const membersUrl = `/api/workspaces/${workspace.id}/members`;
+  const invitationsUrl = `/api/workspaces/${workspace.id}/invitations`;
+
+  const { data: members = [] } = useQuery<WorkspaceMember[]>({
+    queryKey: [membersUrl],
+    enabled: open,
+  });
+
+  const { data: invitations = [] } = useQuery<WorkspaceInvitation[]>({
+    queryKey: [invitationsUrl],
+    enabled: open && canManage,
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const { mutate: rename, isPending: isRenaming } = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/workspaces/${workspace.id}`, { name: name.trim() });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      toast({ title: "Workspace renamed" });
+    },
+    onError: showError("Failed to rename workspace"),
+  });
+
+  const { mutate: changeRole } = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: WorkspaceRole }) => {
+      await apiRequest("PATCH", `${membersUrl}/${userId}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [membersUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+    },
+    onError: showError("Failed to change role"),
+  });
+
+  const { mutate: removeMember } = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `${membersUrl}/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [membersUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+    },
+    onError: showError("Failed to remove member"),
+  });
+
+  const { mutate: createInvitation, isPending: isInviting } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", invitationsUrl, { role: inviteRole });
+      return response.json() as Promise<WorkspaceInvitation>;
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: [invitationsUrl] });
+      copyLink(invitation.url);
+    },
+    onError: showError("Failed to create invitation"),
+  });
+
+  const { mutate: deleteInvitation } = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${invitationsUrl}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [invitationsUrl] });
+    },
+    onError: showError("Failed to withdraw invitation"),
+  });
+
+  // Leaving and deleting both take the user back to their own notes
+  const { mutate: leaveOrDelete, isPending: isLeaving } = useMutation({
+    mutationFn: async (action: "leave" | "delete") => {
+      await apiRequest("DELETE", action === "leave" ? `${membersUrl}/${user!.id}` : `/api/workspaces/${workspace.id}`);
+      return action;
+    },
+    onSuccess: (action) => {
+      setConfirming(null);
+      onOpenChange(false);
+      switchWorkspace(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      toast({ title: action === "leave" ? `You left ${workspace.name}` : `Deleted ${workspace.name}` });
+    },
+    onError: (error) => {
+      setConfirming(null);
+      showError("Failed to update workspace")(error as Error);
+    },
+  });
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Invitation link copied" });
+    } catch {
+      toast({ title: "Couldn't copy the link", variant: "destructive" });
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{workspace.name}</DialogTitle>
+            <DialogDescription>
+              Your role: {WORKSPACE_ROLE_LABELS[workspace.role]}
+            </DialogDescription>
+          </DialogHeader>
+
+          {canManage && (
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (name.trim() && name.trim() !== workspace.name) rename();
+              }}
+            >
+              <Label htmlFor="workspace-rename">Name</Label>
+              <div className="flex gap-2">
+                <Input id="workspace-rename" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+                <Button type="submit" variant="outline" disabled={isRenaming || !name.trim() || name.trim() === workspace.name}>
+                  Rename
+                </Button>
+              </div>
+            </form>
+          )}
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Members</h3>
+            {members.map(member => (
+              <div key={member.id} className="flex items-center justify-between gap-2 rounded border p-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {member.username}
+                    {member.userId === user?.id ? " (you)" : ""}
+                  </p>
+                  {member.email && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {canManage ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) => changeRole({ userId: member.userId, role: role as WorkspaceRole })}
+                    >
+                      <SelectTrigger className="w-[120px] h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WORKSPACE_ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-xs text-gray-500">{WORKSPACE_ROLE_LABELS[member.role]}</span>
+                  )}
+                  {canManage && member.userId !== user?.id && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => removeMember(member.userId)}
+                      title="Remove from workspace"
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {canManage && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Invite people</h3>
+              <p className="text-xs text-gray-500">
+                Anyone signed in who opens the link joins with the chosen role. Each link works once and expires after 7 days.
+              </p>
+              <div className="flex gap-2">
+                <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as WorkspaceRole)}>
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INVITABLE_ROLES.map(role => (
+                      <SelectItem key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={() => createInvitation()} disabled={isInviting}>
+                  <Link2 className="h-4 w-4 mr-2" />
+                  {isInviting ? "Creating..." : "Create link"}
+                </Button>
+              </div>
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center justify-between gap-2 rounded border p-2">
+                  <div className="min-w-0">
+                    <p className="text-sm">{WORKSPACE_ROLE_LABELS[invitation.role]}</p>
+                    <p className="text-xs text-gray-500">
+                      Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyLink(invitation.url)} title="Copy link">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => deleteInvitation(invitation.id)}
+                      title="Withdraw invitation"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between gap-2 border-t pt-4">
+            <Button variant="outline" onClick={() => setConfirming("leave")}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Leave workspace
+            </Button>
+            {canManage && (
+              <Button variant="destructive" onClick={() => setConfirming("delete")}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete workspace
+              </Button>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirming !== null} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming === "delete" ? `Delete ${workspace.name}?` : `Leave ${workspace.name}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming === "delete"
+                ? "All of its notes and notebooks are deleted for every member. This can't be undone."
+                : "You'll need a new invitation to join again."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction disabled={isLeaving} onClick={() => confirming && leaveOrDelete(confirming)}>
+              {confirming === "delete" ? "Delete" : "Leave"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default WorkspaceMembersDialog;
@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/context/workspace-context";
+import { Check, ChevronDown, Plus, Settings, User, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import WorkspaceMembersDialog from "@/components/workspace-members-dialog";
+import { WORKSPACE_ROLE_LABELS } from "@shared/workspaces";
+
+// Switches between the user's own notes and the workspaces they belong to
+const WorkspaceSwitcher: React.FC = () => {
+  const { toast } = useToast();
+  const { workspaces, activeWorkspace, switchWorkspace } = useWorkspace();
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [isManaging, setIsManaging] = useState(false);
+
+  const { mutate: createWorkspace, isPending } = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/workspaces", { name });
+      return response.json() as Promise<{ id: number; name: string }>;
+    },
+    onSuccess: async (workspace) => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      switchWorkspace(workspace.id);
+      setIsCreating(false);
+      toast({ title: `Created ${workspace.name}` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create workspace",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className="flex items-center max-w-[220px]" title="Switch workspace">
+            {activeWorkspace ? <Users className="h-4 w-4 mr-2 shrink-0" /> : <User className="h-4 w-4 mr-2 shrink-0" />}
+            <span className="truncate">{activeWorkspace ? activeWorkspace.name : "Personal"}</span>
+            <ChevronDown className="h-4 w-4 ml-1 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-60">
+          <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => switchWorkspace(null)}>
+            <User className="mr-2 h-4 w-4" />
+            <span className="flex-1">Personal</span>
+            {!activeWorkspace && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+          {workspaces.map(workspace => (
+            <DropdownMenuItem key={workspace.id} onClick={() => switchWorkspace(workspace.id)}>
+              <Users className="mr-2 h-4 w-4 shrink-0" />
+              <span className="flex-1 truncate">{workspace.name}</span>
+              <span className="text-xs text-muted-foreground ml-2">{WORKSPACE_ROLE_LABELS[workspace.role]}</span>
+              {activeWorkspace?.id === workspace.id && <Check className="h-4 w-4 ml-1" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => {
+              setNewName("");
+              setIsCreating(true);
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            <span>New workspace...</span>
+          </DropdownMenuItem>
+          {activeWorkspace && (
+            <DropdownMenuItem onClick={() => setIsManaging(true)}>
+              <Settings className="mr-2 h-4 w-4" />
+              <span>Members and settings...</span>
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New workspace</DialogTitle>
+            <DialogDescription>
+              A workspace keeps notes and notebooks you share with other people. You can invite them once it's created.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newName.trim()) createWorkspace(newName.trim());
+            }}
+            className="space-y-2"
+          >
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g. Book club"
+              maxLength={100}
+              autoFocus
+            />
+            <DialogFooter className="pt-2">
+              <Button type="button" variant="outline" onClick={() => setIsCreating(false)}>Cancel</Button>
+              <Button type="submit" disabled={isPending || !newName.trim()}>
+                {isPending ? "Creating..." : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {activeWorkspace && (
+        <WorkspaceMembersDialog workspace={activeWorkspace} open={isManaging} onOpenChange={setIsManaging} />
+      )}
+    </>
+  );
+};
+
+export default WorkspaceSwitcher;
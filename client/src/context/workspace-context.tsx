@@ -0,0 +1,77 @@
+import React, { createContext, useContext, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { getActiveWorkspaceId, queryClient, setActiveWorkspaceId } from "@/lib/queryClient";
+import { hasWorkspacePermission, type WorkspacePermission, type WorkspaceRole } from "@shared/workspaces";
+
+type Workspace = {
+  id: number;
+  name: string;
+  createdBy: number;
+  role: WorkspaceRole;
+  memberCount: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type WorkspaceContextType = {
+  workspaces: Workspace[];
+  activeWorkspace: Workspace | null; // null while showing the user's own notes
+  role: WorkspaceRole;
+  can: (permission: WorkspacePermission) => boolean;
+  switchWorkspace: (workspaceId: number | null) => void;
+};
+
+// Queries whose results depend on the active workspace
+const WORKSPACE_QUERY_PREFIXES = ["/api/notes", "/api/tags", "/api/notebooks"];
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [activeWorkspaceId, setActiveWorkspaceIdState] = useState<number | null>(getActiveWorkspaceId);
+
+  const { data: workspaces = [], isSuccess } = useQuery<Workspace[]>({
+    queryKey: ["/api/workspaces"],
+    enabled: !!user,
+  });
+
+  const switchWorkspace = (workspaceId: number | null) => {
+    setActiveWorkspaceId(workspaceId);
+    setActiveWorkspaceIdState(workspaceId);
+    queryClient.resetQueries({
+      predicate: (query) => {
+        const key = query.queryKey[0];
+        return typeof key === "string" && WORKSPACE_QUERY_PREFIXES.some(prefix => key.startsWith(prefix));
+      },
+    });
+  };
+
+  // Back to the user's own notes if they've left (or lost) the remembered workspace
+  useEffect(() => {
+    if (isSuccess && activeWorkspaceId !== null && !workspaces.some(w => w.id === activeWorkspaceId)) {
+      switchWorkspace(null);
+    }
+  }, [isSuccess, workspaces, activeWorkspaceId]);
+
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId) ?? null;
+  const role: WorkspaceRole = activeWorkspace?.role ?? "owner";
+
+  const value: WorkspaceContextType = {
+    workspaces,
+    activeWorkspace,
+    role,
+    can: (permission) => hasWorkspacePermission(role, permission),
+    switchWorkspace,
+  };
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+};
+
+export const useWorkspace = (): WorkspaceContextType => {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error("useWorkspace must be used within a WorkspaceProvider");
+  }
+  return context;
+};
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { queryClient, workspaceHeaders } from "@/lib/queryClient";
+
+// The server saves a stopped reply once it notices the connection has closed
+const STOPPED_REPLY_SAVE_DELAY_MS = 500;
+
+interface SendOptions {
+  noteId?: number; // the note the conversation is about
+  contextNoteIds?: number[]; // more notes for the member to read
+}
+
+interface AiChatMessage {
+  id: number;
+  content: string;
+  isUserMessage: boolean;
+  timestamp: string;
+}
+
+interface AiToolInvocation {
+  id: number;
+  noteId: number | null;
+  tool: string;
+  status: string;
+}
+
+// What the server sends while a reply is written, by event name
+type StreamEvent =
+  | { event: "user" | "done"; data: AiChatMessage }
+  | { event: "token"; data: { text: string } }
+  | { event: "error"; data: { message: string } }
+  | { event: "tool"; data: AiToolInvocation };
+
+// Splits Server-Sent Events text into complete events, returning what's left over
+function parseEvents(buffer: string): { events: StreamEvent[]; rest: string } {
+  const blocks = buffer.split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events: StreamEvent[] = [];
+
+  for (const block of blocks) {
+    let event = "message";
+    let data = "";
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event: ")) event = line.slice(7);
+      else if (line.startsWith("data: ")) data += line.slice(6);
+    }
+    if (data) events.push({ event, data: JSON.parse(data) } as StreamEvent);
+  }
+  return { events, rest };
+}
+
+/**
+ * Sends chat messages to an AI team member and follows the reply as it's
+ * written. `reply` holds the text so far while `isStreaming`; once the reply
+ * ends (or is stopped) it's saved and the chat history is refetched. Changes
+ * the member proposes along the way are refetched as they come in.
+ */
+export function useAiChatStream(memberId: number | undefined) {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Leaving the chat stops the reply
+  useEffect(() => () => abortRef.current?.abort(), [memberId]);
+
+  const send = useCallback(async (content: string, { noteId, contextNoteIds }: SendOptions = {}) => {
+    if (!memberId || abortRef.current) return;
+
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    setIsStreaming(true);
+    setPendingMessage(content);
+    setReply("");
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/ai-team/chat/${memberId}/stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...workspaceHeaders() },
+        body: JSON.stringify({ content, noteId, contextNoteIds }),
+        credentials: "include",
+        signal: abortController.signal,
+      });
+      if (!res.ok || !res.body) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const parsed = parseEvents(buffer + decoder.decode(value, { stream: true }));
+        buffer = parsed.rest;
+        for (const streamEvent of parsed.events) {
+          if (streamEvent.event === "token") setReply(current => current + streamEvent.data.text);
+          else if (streamEvent.event === "error") setError(streamEvent.data.message);
+          // The member proposed a change (or searched); show it for review right away
+          else if (streamEvent.event === "tool") queryClient.invalidateQueries({
+            predicate: (query) => String(query.queryKey[0]).startsWith("/api/ai-team/tool-calls"),
+          });
+        }
+      }
+    } catch (err) {
+      if (!abortController.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Failed to send message");
+      }
+    } finally {
+      abortRef.current = null;
+      if (abortController.signal.aborted) {
+        await new Promise(resolve => setTimeout(resolve, STOPPED_REPLY_SAVE_DELAY_MS));
+      }
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: [`/api/ai-team/chat/${memberId}`] }),
+        noteId !== undefined && queryClient.invalidateQueries({
+          predicate: (query) => String(query.queryKey[0]).startsWith(`/api/notes/${noteId}/ai-chat`),
+        }),
+      ]);
+      setIsStreaming(false);
+      setPendingMessage(null);
+      setReply("");
+    }
+  }, [memberId]);
+
+  /**
+   * Stop the reply where it is; what's been written so far is kept
+   */
+  const stop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  return { isStreaming, pendingMessage, reply, error, send, stop };
+}
@@ -25,6 +25,8 @@ interface User {
   createdAt: string;
   stripeCustomerId: string | null;
   stripeSubscriptionId: string | null;
+  timeZone?: string | null;
+  dailyNoteTemplate?: string | null;
   userPackage?: UserPackage | null;
 }
 
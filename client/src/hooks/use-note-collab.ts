@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  COLLAB_CLOSE_NO_ACCESS,
+  COLLAB_PATH_PREFIX,
+  CollabDocument,
+  mergeText,
+  type CollabClientMessage,
+  type CollabOp,
+  type CollabCursor,
+  type CollabPeer,
+  type CollabServerMessage,
+} from "@shared/collab";
+
+const MAX_RECONNECT_DELAY_MS = 10000;
+
+export interface RemoteCursor {
+  peer: CollabPeer;
+  position: number;
+}
+
+interface NoteCollabOptions {
+  textareaRef: React.RefObject<HTMLTextAreaElement>;
+  // The note's text as last saved, which edits made before connecting started from
+  savedContent: string;
+  // Called with the whole text whenever someone else changes it
+  onRemoteChange: (content: string) => void;
+}
+
+/**
+ * Joins the live editing session of a note. Edits go through `change` and
+ * are merged with everyone else's. Once the session has started
+ * (`hasSession`) the server saves the text, so the editor shouldn't, even
+ * while the connection is down: edits made then are kept in the shared
+ * document and carried over when it's back. Edits made before connecting
+ * for the first time are merged in line by line.
+ */
+export function useNoteCollab(noteId: number | undefined, { textareaRef, savedContent, onRemoteChange }: NoteCollabOptions) {
+  const [isLive, setIsLive] = useState(false);
+  const [hasSession, setHasSession] = useState(false);
+  const [canEdit, setCanEdit] = useState(true);
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+  const socketRef = useRef<WebSocket | null>(null);
+  // The shared document; kept while the connection is down, with edits made meanwhile
+  const docRef = useRef<CollabDocument | null>(null);
+  // The text as edited before the first connection, if it was
+  const offlineTextRef = useRef<string | null>(null);
+  // The text when the connection went down, to merge from if the session can't be picked up
+  const disconnectedTextRef = useRef("");
+  const savedContentRef = useRef(savedContent);
+  savedContentRef.current = savedContent;
+  const lastCursorRef = useRef("");
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  onRemoteChangeRef.current = onRemoteChange;
+
+  const send = (message: CollabClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  // Apply a change to the shared text, keeping the local caret on the same characters
+  const applyRemote = (update: (doc: CollabDocument) => void) => {
+    const doc = docRef.current!;
+    const textarea = textareaRef.current;
+    const anchor = textarea ? doc.idAt(textarea.selectionStart) : null;
+    const head = textarea ? doc.idAt(textarea.selectionEnd) : null;
+
+    update(doc);
+    onRemoteChangeRef.current(doc.getText());
+
+    if (textarea && document.activeElement === textarea) {
+      const start = anchor ? doc.positionOf(anchor) : 0;
+      const end = head ? doc.positionOf(head) : 0;
+      requestAnimationFrame(() => textarea.setSelectionRange(start, end));
+    }
+  };
+
+  useEffect(() => {
+    if (!noteId) return;
+
+    let closed = false;
+    let attempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    docRef.current = null;
+    offlineTextRef.current = null;
+    setHasSession(false);
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}${COLLAB_PATH_PREFIX}${noteId}`);
+      socketRef.current = socket;
+
+      socket.onmessage = (event) => {
+        const message: CollabServerMessage = JSON.parse(event.data);
+
+        switch (message.type) {
+          case "init": {
+            attempts = 0;
+            const doc = new CollabDocument(message.sessionId, message.state);
+            const previous = docRef.current;
+            docRef.current = doc;
+
+            // Put back what was typed while disconnected, on top of what others did meanwhile
+            if (message.canEdit) {
+              let ops: CollabOp[] = [];
+              if (previous) {
+                ops = doc.rebase(previous) ??
+                  doc.replaceLines(mergeText(disconnectedTextRef.current, previous.getText(), doc.getText()));
+              } else if (offlineTextRef.current !== null) {
+                ops = doc.replaceLines(mergeText(savedContentRef.current, offlineTextRef.current, doc.getText()));
+              }
+              if (ops.length) send({ type: "ops", ops });
+            }
+            offlineTextRef.current = null;
+            lastCursorRef.current = "";
+            onRemoteChangeRef.current(doc.getText());
+
+            setCanEdit(message.canEdit);
+            setPeers(message.peers.filter(peer => peer.sessionId !== message.sessionId));
+            setIsLive(true);
+            setHasSession(true);
+            break;
+          }
+          case "ops":
+            if (docRef.current) applyRemote(doc => doc.applyOps(message.ops));
+            break;
+          case "presence":
+            setPeers(message.peers.filter(peer => peer.sessionId !== docRef.current?.site));
+            break;
+          case "cursor":
+            setPeers(current => current.map(peer =>
+              peer.sessionId === message.sessionId ? { ...peer, cursor: message.cursor } : peer
+            ));
+            break;
+          case "access":
+            setCanEdit(message.canEdit);
+            break;
+          case "error":
+            console.error("Live editing error:", message.message);
+            break;
+        }
+      };
+
+      socket.onclose = (event) => {
+        if (socketRef.current === socket) socketRef.current = null;
+        disconnectedTextRef.current = docRef.current?.getText() ?? "";
+        setIsLive(false);
+        setPeers([]);
+        // The user lost access to the note, so reconnecting would be refused;
+        // the editor is left to save on its own again
+        if (event.code === COLLAB_CLOSE_NO_ACCESS) {
+          docRef.current = null;
+          setHasSession(false);
+        }
+        if (closed || event.code === COLLAB_CLOSE_NO_ACCESS) return;
+
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      setIsLive(false);
+      setPeers([]);
+    };
+  }, [noteId]);
+
+  /**
+   * A local edit: the textarea's new value
+   */
+  const change = useCallback((content: string) => {
+    const doc = docRef.current;
+    if (!doc) {
+      offlineTextRef.current = content;
+      return;
+    }
+
+    // While disconnected the operations only go into the document, to be sent on reconnecting
+    const ops = doc.replaceText(content);
+    if (ops.length) send({ type: "ops", ops });
+  }, []);
+
+  /**
+   * Tell the others where the local caret or selection is
+   */
+  const updateCursor = useCallback((start: number | null, end: number | null = start) => {
+    const doc = docRef.current;
+    if (!doc) return;
+
+    const cursor: CollabCursor | null = start === null ? null : { anchor: doc.idAt(start), head: doc.idAt(end ?? start) };
+    const key = JSON.stringify(cursor);
+    if (key === lastCursorRef.current) return;
+
+    lastCursorRef.current = key;
+    send({ type: "cursor", cursor });
+  }, []);
+
+  const remoteCursors: RemoteCursor[] = [];
+  if (docRef.current) {
+    for (const peer of peers) {
+      if (peer.cursor) {
+        remoteCursors.push({ peer, position: docRef.current.positionOf(peer.cursor.head) });
+      }
+    }
+  }
+
+  return { isLive, hasSession, canEdit, peers, remoteCursors, change, updateCursor };
+}
@@ -0,0 +1,210 @@
+// Drawings are stored in notes.drawingData as a standalone SVG document.
+// Each stroke or shape is one SVG element; only the tags and attributes
+// below are read back, so a stored drawing can't smuggle in scripts.
+
+export const DRAWING_WIDTH = 800;
+export const DRAWING_HEIGHT = 600;
+
+const ELEMENT_TAGS = ["path", "line", "rect", "ellipse"] as const;
+export type DrawingElementTag = typeof ELEMENT_TAGS[number];
+
+// React prop name -> SVG attribute name
+const ELEMENT_ATTRIBUTES: Record<string, string> = {
+  d: "d",
+  x: "x",
+  y: "y",
+  width: "width",
+  height: "height",
+  x1: "x1",
+  y1: "y1",
+  x2: "x2",
+  y2: "y2",
+  cx: "cx",
+  cy: "cy",
+  rx: "rx",
+  ry: "ry",
+  fill: "fill",
+  stroke: "stroke",
+  strokeWidth: "stroke-width",
+  strokeLinecap: "stroke-linecap",
+  strokeLinejoin: "stroke-linejoin",
+  opacity: "opacity",
+};
+
+export interface DrawingElement {
+  id: string;
+  tag: DrawingElementTag;
+  attrs: Record<string, string>; // keyed by React prop name
+}
+
+// [x, y, pressure]
+export type StrokePoint = [number, number, number];
+
+let elementCount = 0;
+
+export function createElementId(): string {
+  return `el-${Date.now().toString(36)}-${++elementCount}`;
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Serialize drawing elements to the SVG document stored on the note.
+ * An empty drawing is stored as an empty string.
+ */
+export function serializeDrawing(elements: DrawingElement[]): string {
+  if (elements.length === 0) return "";
+
+  const body = elements.map((element) => {
+    const attrs = Object.entries(element.attrs)
+      .filter(([name]) => name in ELEMENT_ATTRIBUTES)
+      .map(([name, value]) => `${ELEMENT_ATTRIBUTES[name]}="${escapeAttribute(value)}"`)
+      .join(" ");
+    return `<${element.tag} ${attrs}/>`;
+  }).join("");
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${DRAWING_WIDTH} ${DRAWING_HEIGHT}" width="${DRAWING_WIDTH}" height="${DRAWING_HEIGHT}">${body}</svg>`;
+}
+
+/**
+ * Read drawing elements back out of stored SVG. Unknown tags and
+ * attributes are dropped.
+ */
+export function parseDrawing(svg: string | null | undefined): DrawingElement[] {
+  if (!svg) return [];
+
+  const doc = new DOMParser().parseFromString(svg, "image/svg+xml");
+  const root = doc.documentElement;
+  if (root.nodeName !== "svg") return [];
+
+  const attributeNames = Object.entries(ELEMENT_ATTRIBUTES);
+  const elements: DrawingElement[] = [];
+
+  for (const node of Array.from(root.children)) {
+    const tag = node.tagName as DrawingElementTag;
+    if (!ELEMENT_TAGS.includes(tag)) continue;
+
+    const attrs: Record<string, string> = {};
+    for (const [propName, attributeName] of attributeNames) {
+      const value = node.getAttribute(attributeName);
+      if (value !== null) attrs[propName] = value;
+    }
+
+    elements.push({ id: createElementId(), tag, attrs });
+  }
+
+  return elements;
+}
+
+/**
+ * Data URL for showing a stored drawing in an <img>. Browsers never run
+ * scripts in SVG loaded this way.
+ */
+export function drawingToDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+/**
+ * Outline of a pressure-sensitive stroke as a filled path. The stroke is
+ * widest where the pen pressed hardest.
+ */
+export function getStrokeOutline(points: StrokePoint[], size: number): string {
+  if (points.length === 0) return "";
+
+  const widthAt = (pressure: number) => Math.max(size * (0.3 + pressure * 0.9), 0.5) / 2;
+
+  // A tap is drawn as a dot
+  if (points.length === 1) {
+    const [x, y, pressure] = points[0];
+    const r = widthAt(pressure);
+    return `M ${round(x - r)} ${round(y)} a ${round(r)} ${round(r)} 0 1 0 ${round(r * 2)} 0 a ${round(r)} ${round(r)} 0 1 0 ${round(-r * 2)} 0 Z`;
+  }
+
+  const left: string[] = [];
+  const right: string[] = [];
+
+  points.forEach(([x, y, pressure], i) => {
+    const [prevX, prevY] = points[Math.max(i - 1, 0)];
+    const [nextX, nextY] = points[Math.min(i + 1, points.length - 1)];
+
+    // Offset along the normal of the local direction of travel
+    const dx = nextX - prevX;
+    const dy = nextY - prevY;
+    const length = Math.hypot(dx, dy) || 1;
+    const nx = -dy / length;
+    const ny = dx / length;
+    const width = widthAt(pressure);
+
+    left.push(`${round(x + nx * width)} ${round(y + ny * width)}`);
+    right.push(`${round(x - nx * width)} ${round(y - ny * width)}`);
+  });
+
+  return `M ${left[0]} L ${left.slice(1).join(" L ")} L ${right.reverse().join(" L ")} Z`;
+}
+
+/**
+ * Centre line of a stroke, used for the constant-width highlighter
+ */
+export function getStrokePath(points: StrokePoint[]): string {
+  if (points.length === 0) return "";
+  const [first, ...rest] = points;
+  const segments = rest.length > 0 ? rest : [first];
+  return `M ${round(first[0])} ${round(first[1])} L ${segments.map(([x, y]) => `${round(x)} ${round(y)}`).join(" L ")}`;
+}
+
+function download(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function exportDrawingAsSvg(svg: string, filename: string) {
+  download(new Blob([svg], { type: "image/svg+xml" }), `${filename}.svg`);
+}
+
+// Rasterize through an <img> so the PNG matches what the note shows
+export function exportDrawingAsPng(svg: string, filename: string, background: string = "#ffffff"): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = DRAWING_WIDTH;
+      canvas.height = DRAWING_HEIGHT;
+
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not supported"));
+        return;
+      }
+
+      context.fillStyle = background;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+      canvas.toBlob((blob) => {
+        if (!blob) {
+          reject(new Error("Failed to create PNG"));
+          return;
+        }
+        download(blob, `${filename}.png`);
+        resolve();
+      }, "image/png");
+    };
+    image.onerror = () => reject(new Error("Failed to load drawing"));
+    image.src = drawingToDataUrl(svg);
+  });
+}
@@ -1,4 +1,33 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { WORKSPACE_HEADER } from "@shared/workspaces";
+
+const WORKSPACE_STORAGE_KEY = "magicnotebook.workspaceId";
+
+function readStoredWorkspaceId(): number | null {
+  const stored = parseInt(localStorage.getItem(WORKSPACE_STORAGE_KEY) ?? "");
+  return isNaN(stored) ? null : stored;
+}
+
+// The workspace the app is showing (null for the user's own notes). It goes
+// out with every request, and is remembered for the next visit.
+let activeWorkspaceId: number | null = readStoredWorkspaceId();
+
+export function getActiveWorkspaceId(): number | null {
+  return activeWorkspaceId;
+}
+
+export function setActiveWorkspaceId(workspaceId: number | null) {
+  activeWorkspaceId = workspaceId;
+  if (workspaceId === null) {
+    localStorage.removeItem(WORKSPACE_STORAGE_KEY);
+  } else {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, String(workspaceId));
+  }
+}
+
+export function workspaceHeaders(): Record<string, string> {
+  return activeWorkspaceId === null ? {} : { [WORKSPACE_HEADER]: String(activeWorkspaceId) };
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -14,7 +43,7 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { "Content-Type": "application/json", ...workspaceHeaders() } : workspaceHeaders(),
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +59,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey[0] as string, {
+      headers: workspaceHeaders(),
       credentials: "include",
     });
 
@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bot, Loader2, Plus } from "lucide-react";
+import Header from "@/components/header";
+import AiChat from "@/components/ai-chat";
+import AiMemberDialog from "@/components/ai-member-dialog";
+import { Button } from "@/components/ui/button";
+import { StickyNote } from "@/components/ui/sticky-note";
+
+interface AiTeamMember {
+  id: number;
+  name: string;
+  role: string;
+  model: string;
+  provider: string;
+  avatarColor: "blue" | "green" | "pink" | "purple" | "orange" | "yellow" | null;
+  isActive: boolean | null;
+}
+
+// The user's AI team: pick a member on the left, chat on the right
+const AiTeamPage: React.FC = () => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const { data: members, isLoading } = useQuery<AiTeamMember[]>({
+    queryKey: ["/api/ai-team/members"],
+  });
+
+  const activeMembers = members?.filter(member => member.isActive !== false) ?? [];
+  const selected = activeMembers.find(member => member.id === selectedId) ?? activeMembers[0];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <main className="container mx-auto px-3 sm:px-4 md:px-6 py-4 md:py-6 max-w-screen-xl">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-6">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h1 className="flex items-center text-xl font-semibold text-gray-800">
+                  <Bot className="h-5 w-5 mr-2" />
+                  AI Team
+                </h1>
+                <Button variant="ghost" size="sm" onClick={() => setIsAdding(true)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  New
+                </Button>
+              </div>
+              {activeMembers.map(member => (
+                <StickyNote
+                  key={member.id}
+                  color={member.avatarColor ?? "blue"}
+                  className={`p-3 cursor-pointer ${member.id === selected?.id ? "ring-2 ring-gray-700" : ""}`}
+                  onClick={() => setSelectedId(member.id)}
+                >
+                  <p className="font-medium text-gray-800">{member.name}</p>
+                  <p className="text-xs text-gray-600">{member.role}</p>
+                </StickyNote>
+              ))}
+            </div>
+
+            <div className="bg-white rounded-md shadow-sm p-4 h-[calc(100vh-10rem)]">
+              {selected ? (
+                <AiChat key={selected.id} member={selected} />
+              ) : (
+                <p className="text-sm text-center text-muted-foreground py-8">No AI team members yet.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+
+      <AiMemberDialog open={isAdding} onOpenChange={setIsAdding} onCreated={setSelectedId} />
+    </div>
+  );
+};
+
+export default AiTeamPage;
@@ -0,0 +1,103 @@
+import React from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/context/workspace-context";
+import { AlertCircle, Loader2, Users } from "lucide-react";
+import Header from "@/components/header";
+import { Button } from "@/components/ui/button";
+import { StickyNote } from "@/components/ui/sticky-note";
+import { WORKSPACE_ROLE_LABELS, type WorkspaceRole } from "@shared/workspaces";
+
+interface InvitationPreview {
+  workspace: { id: number; name: string };
+  role: WorkspaceRole;
+  invitedBy: string | null;
+  expiresAt: string;
+  memberRole: WorkspaceRole | null; // set if the user already belongs to the workspace
+}
+
+// Where workspace invitation links land: shows what the link is for, then joins
+const InvitePage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { switchWorkspace } = useWorkspace();
+
+  const invitationUrl = `/api/invitations/${encodeURIComponent(token)}`;
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationPreview>({
+    queryKey: [invitationUrl],
+    retry: false,
+  });
+
+  const openWorkspace = (workspaceId: number) => {
+    switchWorkspace(workspaceId);
+    setLocation("/app");
+  };
+
+  const { mutate: accept, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${invitationUrl}/accept`);
+      return response.json() as Promise<{ id: number; name: string }>;
+    },
+    onSuccess: async (workspace) => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/workspaces"] });
+      toast({ title: `You joined ${workspace.name}` });
+      openWorkspace(workspace.id);
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't join the workspace",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="container mx-auto px-4 py-12 max-w-md">
+        <StickyNote color="blue" className="p-6 transform -rotate-1">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            </div>
+          ) : error || !invitation ? (
+            <div className="text-center space-y-3">
+              <AlertCircle className="h-10 w-10 mx-auto text-red-500" />
+              <h1 className="text-xl font-semibold">Invitation unavailable</h1>
+              <p className="text-sm text-gray-600">It may have expired or already been used. Ask for a new link.</p>
+              <Button variant="outline" onClick={() => setLocation("/app")}>Go to your notes</Button>
+            </div>
+          ) : (
+            <div className="text-center space-y-3">
+              <Users className="h-10 w-10 mx-auto text-gray-700" />
+              <h1 className="text-xl font-semibold">Join {invitation.workspace.name}</h1>
+              <p className="text-sm text-gray-600">
+                {invitation.invitedBy ? `${invitation.invitedBy} invited you` : "You're invited"} as{" "}
+                {WORKSPACE_ROLE_LABELS[invitation.role].toLowerCase()}.
+              </p>
+              {invitation.memberRole ? (
+                <>
+                  <p className="text-sm text-gray-600">
+                    You're already a member ({WORKSPACE_ROLE_LABELS[invitation.memberRole].toLowerCase()}).
+                  </p>
+                  <Button onClick={() => openWorkspace(invitation.workspace.id)}>Open workspace</Button>
+                </>
+              ) : (
+                <Button onClick={() => accept()} disabled={isPending}>
+                  {isPending ? "Joining..." : "Join workspace"}
+                </Button>
+              )}
+            </div>
+          )}
+        </StickyNote>
+      </div>
+    </div>
+  );
+};
+
+export default InvitePage;
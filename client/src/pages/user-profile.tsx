@@ -26,6 +26,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Loader2, Save, UserCircle, CreditCard, ShieldCheck, Trash2 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
+import SharedLinksPanel from "@/components/shared-links-panel";
 
 // Profile form schema
 const profileSchema = z.object({
@@ -193,6 +194,7 @@ const UserProfile: React.FC = () => {
                   <TabsTrigger value="profile">Profile</TabsTrigger>
                   <TabsTrigger value="subscription">Subscription</TabsTrigger>
                   <TabsTrigger value="security">Security</TabsTrigger>
+                  <TabsTrigger value="shared">Shared</TabsTrigger>
                 </TabsList>
                 
                 <TabsContent value="profile">
@@ -464,6 +466,13 @@ const UserProfile: React.FC = () => {
                     </div>
                   </StickyNote>
                 </TabsContent>
+                
+                <TabsContent value="shared">
+                  <StickyNote color="blue" className="p-6 transform -rotate-1">
+                    <h2 className="text-xl font-semibold mb-6">Shared Links</h2>
+                    <SharedLinksPanel />
+                  </StickyNote>
+                </TabsContent>
               </Tabs>
             </div>
           </div>
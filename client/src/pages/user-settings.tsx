@@ -2,14 +2,17 @@ import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { queryClient } from '@/lib/queryClient';
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
 import { StickyNote } from '@/components/ui/sticky-note';
+import ImportDialog from '@/components/import-dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Loader2, User, CreditCard, KeyRound, LogOut } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, User, CreditCard, KeyRound, LogOut, CalendarDays, Download } from 'lucide-react';
 import { useLocation } from 'wouter';
 
 // Form validation schema
@@ -19,11 +22,26 @@ const profileSchema = z.object({
 
 type ProfileFormData = z.infer<typeof profileSchema>;
 
+interface NoteTemplate {
+  id: string | number;
+  name: string;
+}
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const timeZones = Intl.supportedValuesOf('timeZone');
+
 const UserSettings = () => {
   const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const { user, isLoading, logout } = useAuth();
+  const [timeZone, setTimeZone] = useState('');
+  const [dailyNoteTemplate, setDailyNoteTemplate] = useState('daily-log');
+  const [isSavingJournal, setIsSavingJournal] = useState(false);
+
+  const { data: templates } = useQuery<NoteTemplate[]>({
+    queryKey: ['/api/templates'],
+  });
 
   const profileForm = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
@@ -38,9 +56,34 @@ const UserSettings = () => {
       profileForm.reset({
         email: user.email || '',
       });
+      setTimeZone(user.timeZone || browserTimeZone);
+      setDailyNoteTemplate(user.dailyNoteTemplate || 'daily-log');
     }
   }, [user, profileForm]);
 
+  const handleJournalSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingJournal(true);
+    try {
+      await apiRequest('PATCH', '/api/user/settings', { timeZone, dailyNoteTemplate });
+      
+      toast({
+        title: 'Journal settings saved',
+        description: 'New daily notes will use these settings',
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ['/api/user'] });
+    } catch (error) {
+      toast({
+        title: 'Update failed',
+        description: error instanceof Error ? error.message : 'An error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingJournal(false);
+    }
+  };
+
   const handleProfileSubmit = async (data: ProfileFormData) => {
     setIsSaving(true);
     try {
@@ -166,6 +209,77 @@ const UserSettings = () => {
         </StickyNote>
       </div>
       
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <StickyNote color="green" className="p-6 transform -rotate-1">
+          <div className="flex items-center space-x-3 mb-4">
+            <CalendarDays className="h-5 w-5" />
+            <h2 className="text-xl font-semibold">Journal</h2>
+          </div>
+          
+          <form onSubmit={handleJournalSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="timeZone">Time zone</Label>
+              <Input
+                id="timeZone"
+                list="time-zones"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                className="bg-white/70"
+              />
+              <datalist id="time-zones">
+                {timeZones.map(zone => <option key={zone} value={zone} />)}
+              </datalist>
+              <p className="text-xs text-gray-500">Decides when a new day (and a new daily note) starts</p>
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="dailyNoteTemplate">Daily note template</Label>
+              <Select value={dailyNoteTemplate} onValueChange={setDailyNoteTemplate}>
+                <SelectTrigger id="dailyNoteTemplate" className="bg-white/70">
+                  <SelectValue placeholder="Daily log" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates?.map(template => (
+                    <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <Button
+              type="submit"
+              className="bg-amber-500 hover:bg-amber-600"
+              disabled={isSavingJournal || !timeZone}
+            >
+              {isSavingJournal ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Save Journal Settings
+            </Button>
+          </form>
+        </StickyNote>
+        
+        <StickyNote color="purple" className="p-6 transform rotate-1">
+          <div className="flex items-center space-x-3 mb-4">
+            <Download className="h-5 w-5" />
+            <h2 className="text-xl font-semibold">Your Data</h2>
+          </div>
+          
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Download all your notes as Markdown files, with their attachments and drawings, in one ZIP archive, or bring in notes from Evernote, Google Keep, Obsidian or other Markdown apps.
+            </p>
+            
+            <Button asChild variant="outline" className="w-full">
+              <a href="/api/export" download>
+                <Download className="h-4 w-4 mr-2" />
+                Export All Notes
+              </a>
+            </Button>
+            
+            <ImportDialog />
+          </div>
+        </StickyNote>
+      </div>
+      
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <StickyNote color="pink" className="p-6 transform rotate-1">
           <div className="flex items-center space-x-3 mb-4">
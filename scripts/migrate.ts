@@ -1,5 +1,7 @@
 import { db } from '../server/db';
 import { sql } from 'drizzle-orm';
+import { notes, noteLinks } from '../shared/schema';
+import { extractWikiLinks } from '../shared/markdown';
 
 // Check if required environment variables are set
 if (!process.env.DATABASE_URL) {
@@ -11,6 +13,60 @@ console.log('Running database migrations...');
 
 async function runMigrations() {
   try {
+    // note_embeddings stores vectors, so pgvector has to be there before db:push
+    console.log('Enabling pgvector extension...');
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS vector`);
+    // Semantic search needs iterative index scans, new in pgvector 0.8
+    await db.execute(sql`ALTER EXTENSION vector UPDATE`);
+    const vectorVersion = await db.execute(sql`
+      SELECT extversion FROM pg_extension WHERE extname='vector'
+    `);
+    const [major = 0, minor = 0] = String(vectorVersion.rows[0]?.extversion ?? "").split('.').map(Number);
+    if (major === 0 && minor < 8) {
+      throw new Error(`pgvector ${vectorVersion.rows[0]?.extversion ?? "(missing)"} is installed; semantic search needs 0.8 or later`);
+    }
+    console.log(`pgvector ${vectorVersion.rows[0].extversion} enabled`);
+    
+    // Note search indexes this function's result (notes_search_idx), so it
+    // too has to be there before db:push. array_to_string isn't immutable on
+    // its own, which is why the expression is wrapped in a function.
+    console.log('Creating note search function...');
+    await db.execute(sql`
+      CREATE OR REPLACE FUNCTION note_search_vector(title TEXT, tags TEXT[], content TEXT)
+      RETURNS tsvector LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+        SELECT setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+          setweight(to_tsvector('english', coalesce(array_to_string(tags, ' '), '')), 'B') ||
+          setweight(to_tsvector('english', coalesce(content, '')), 'C')
+      $$
+    `);
+    
+    // Reacting to a note reads its stored reactions through this function.
+    // Like parseNoteReactions, it treats anything that isn't an object of
+    // emoji to user id arrays (malformed JSON included) as no reactions.
+    console.log('Creating note reactions function...');
+    await db.execute(sql`
+      CREATE OR REPLACE FUNCTION note_reactions(emojis TEXT)
+      RETURNS jsonb LANGUAGE plpgsql IMMUTABLE PARALLEL SAFE AS $$
+      DECLARE
+        parsed jsonb;
+      BEGIN
+        parsed := emojis::jsonb;
+        IF jsonb_typeof(parsed) IS DISTINCT FROM 'object' OR EXISTS (
+          SELECT 1 FROM jsonb_each(parsed) AS reaction(emoji, user_ids)
+          WHERE jsonb_typeof(user_ids) <> 'array' OR EXISTS (
+            SELECT 1 FROM jsonb_array_elements(user_ids) AS reacted(user_id)
+            WHERE jsonb_typeof(user_id) <> 'number' OR (user_id #>> '{}')::numeric % 1 <> 0
+          )
+        ) THEN
+          RETURN '{}'::jsonb;
+        END IF;
+        RETURN parsed;
+      EXCEPTION WHEN invalid_text_representation THEN
+        RETURN '{}'::jsonb;
+      END
+      $$
+    `);
+    
     // Add email column if it doesn't exist
     const emailExists = await db.execute(sql`
       SELECT column_name 
@@ -105,6 +161,182 @@ async function runMigrations() {
       console.log('New note columns already exist');
     }
     
+    // Check if deleted_at column exists (trash support)
+    const deletedAtExists = await db.execute(sql`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name='notes' AND column_name='deleted_at'
+    `);
+    
+    if (deletedAtExists.rows.length === 0) {
+      console.log('Adding deleted_at column to notes table...');
+      await db.execute(sql`
+        ALTER TABLE notes ADD COLUMN deleted_at TEXT DEFAULT NULL
+      `);
+      console.log('deleted_at column added successfully');
+    } else {
+      console.log('deleted_at column already exists');
+    }
+    
+    // Check if notebook_id column exists (notebooks support)
+    const notebookIdExists = await db.execute(sql`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name='notes' AND column_name='notebook_id'
+    `);
+    
+    if (notebookIdExists.rows.length === 0) {
+      console.log('Adding notebook_id column to notes table...');
+      await db.execute(sql`
+        ALTER TABLE notes ADD COLUMN notebook_id INTEGER DEFAULT NULL
+      `);
+      console.log('notebook_id column added successfully');
+    } else {
+      console.log('notebook_id column already exists');
+    }
+    
+    // Check if daily_date column exists (daily notes support)
+    const dailyDateExists = await db.execute(sql`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name='notes' AND column_name='daily_date'
+    `);
+    
+    if (dailyDateExists.rows.length === 0) {
+      console.log('Adding daily_date column to notes table...');
+      await db.execute(sql`
+        ALTER TABLE notes ADD COLUMN daily_date TEXT DEFAULT NULL;
+        CREATE UNIQUE INDEX IF NOT EXISTS notes_user_daily_date_idx ON notes (user_id, daily_date);
+      `);
+      console.log('daily_date column added successfully');
+    } else {
+      console.log('daily_date column already exists');
+    }
+    
+    // Check if the daily note settings columns exist on users
+    const timeZoneExists = await db.execute(sql`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name='users' AND column_name='time_zone'
+    `);
+    
+    if (timeZoneExists.rows.length === 0) {
+      console.log('Adding daily note settings columns to users table...');
+      await db.execute(sql`
+        ALTER TABLE users ADD COLUMN time_zone TEXT DEFAULT NULL;
+        ALTER TABLE users ADD COLUMN daily_note_template TEXT DEFAULT NULL;
+      `);
+      console.log('Daily note settings columns added successfully');
+    } else {
+      console.log('Daily note settings columns already exist');
+    }
+    
+    // Check if workspace_id columns exist (workspaces support)
+    const noteWorkspaceIdExists = await db.execute(sql`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name='notes' AND column_name='workspace_id'
+    `);
+    
+    if (noteWorkspaceIdExists.rows.length === 0) {
+      console.log('Adding workspace_id column to notes table...');
+      await db.execute(sql`
+        ALTER TABLE notes ADD COLUMN workspace_id INTEGER DEFAULT NULL
+      `);
+      console.log('notes.workspace_id column added successfully');
+    } else {
+      console.log('notes.workspace_id column already exists');
+    }
+    
+    const notebookColumns = await db.execute(sql`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name='notebooks'
+    `);
+    
+    if (notebookColumns.rows.length === 0) {
+      console.log('notebooks table does not exist yet, run db:push first');
+    } else if (!notebookColumns.rows.some(row => row.column_name === 'workspace_id')) {
+      console.log('Adding workspace_id column to notebooks table...');
+      await db.execute(sql`
+        ALTER TABLE notebooks ADD COLUMN workspace_id INTEGER DEFAULT NULL
+      `);
+      console.log('notebooks.workspace_id column added successfully');
+    } else {
+      console.log('notebooks.workspace_id column already exists');
+    }
+    
+    // Check if note_revisions has started_at (revision merge window)
+    const revisionColumns = await db.execute(sql`
+      SELECT column_name 
+      FROM information_schema.columns 
+      WHERE table_name='note_revisions'
+    `);
+    
+    if (revisionColumns.rows.length === 0) {
+      console.log('note_revisions table does not exist yet, run db:push first');
+    } else if (!revisionColumns.rows.some(row => row.column_name === 'started_at')) {
+      console.log('Adding started_at column to note_revisions table...');
+      await db.execute(sql`
+        ALTER TABLE note_revisions ADD COLUMN started_at TEXT DEFAULT NULL
+      `);
+      console.log('started_at column added successfully');
+    } else {
+      console.log('started_at column already exists');
+    }
+    
+    // Index note search for databases whose notes table predates it
+    const notesTableExists = await db.execute(sql`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name='notes'
+    `);
+    
+    if (notesTableExists.rows.length > 0) {
+      console.log('Creating note search index...');
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS notes_search_idx ON notes USING gin (note_search_vector(title, tags, content))
+      `);
+    }
+    
+    // Backfill note links for notes saved before [[links]] were tracked
+    const noteLinksTableExists = await db.execute(sql`
+      SELECT table_name 
+      FROM information_schema.tables 
+      WHERE table_name='note_links'
+    `);
+    
+    if (noteLinksTableExists.rows.length === 0) {
+      console.log('note_links table does not exist yet, run db:push first');
+    } else {
+      const existingLinks = await db.execute(sql`SELECT id FROM note_links LIMIT 1`);
+      
+      if (existingLinks.rows.length === 0) {
+        console.log('Backfilling note links...');
+        const allNotes = await db.select().from(notes);
+        let linkCount = 0;
+        
+        for (const note of allNotes) {
+          const links = extractWikiLinks(note.content);
+          if (links.length === 0) continue;
+          
+          await db.insert(noteLinks).values(
+            links.map(link => ({
+              userId: note.userId,
+              sourceNoteId: note.id,
+              targetNoteId: link.targetNoteId,
+              targetTitle: link.targetTitle
+            }))
+          );
+          linkCount += links.length;
+        }
+        
+        console.log(`Backfilled ${linkCount} note links`);
+      } else {
+        console.log('Note links already populated');
+      }
+    }
+    
     console.log('All migrations completed successfully');
   } catch (error) {
     console.error('Migration failed:', error);
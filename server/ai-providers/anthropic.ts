@@ -0,0 +1,126 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { AiChatRequest, AiProvider, AiToolCall } from "./types";
+
+export class AnthropicProvider implements AiProvider {
+  readonly id = "anthropic";
+  readonly label = "Anthropic";
+  readonly remote = true;
+  // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
+  readonly models = ["claude-3-7-sonnet-20250219", "claude-3-5-haiku-20241022"];
+  private client: Anthropic | null = null;
+
+  constructor(apiKey?: string) {
+    if (apiKey) {
+      this.client = new Anthropic({ apiKey });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async generate({ member, systemPrompt, prompt, history, maxTokens }: AiChatRequest): Promise<string> {
+    if (!this.client) throw new Error("Anthropic client is not initialized");
+
+    try {
+      const response = await this.client.messages.create({
+        model: member.model,
+        system: systemPrompt,
+        messages: toMessages(prompt, history),
+        max_tokens: maxTokens,
+        temperature: 0.7,
+      });
+
+      // Extract text from content
+      let responseText = "I don't have a response for that.";
+      if (response.content && response.content.length > 0) {
+        const firstContent = response.content[0];
+        if ('text' in firstContent) {
+          responseText = firstContent.text;
+        }
+      }
+
+      return responseText;
+    } catch (error: any) {
+      console.error("Anthropic API error:", error);
+      throw new Error(`Error generating response: ${error.message}`);
+    }
+  }
+
+  async *stream({ member, systemPrompt, prompt, history, maxTokens, signal, tools, toolRounds }: AiChatRequest): AsyncGenerator<string, AiToolCall[]> {
+    if (!this.client) throw new Error("Anthropic client is not initialized");
+
+    try {
+      const stream = await this.client.messages.create({
+        model: member.model,
+        system: systemPrompt,
+        messages: toMessages(prompt, history, toolRounds),
+        max_tokens: maxTokens,
+        temperature: 0.7,
+        stream: true,
+        ...(tools?.length ? {
+          tools: tools.map((tool): Anthropic.Tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters,
+          })),
+        } : {}),
+      }, { signal });
+
+      // A tool call's input streams in as JSON text, in the block it started
+      const calls = new Map<number, { id: string; name: string; json: string }>();
+      for await (const event of stream) {
+        if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+          calls.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: "" });
+        } else if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          yield event.delta.text;
+        } else if (event.type === "content_block_delta" && event.delta.type === "input_json_delta") {
+          const call = calls.get(event.index);
+          if (call) call.json += event.delta.partial_json;
+        }
+      }
+
+      return Array.from(calls.values()).map(call => ({ id: call.id, name: call.name, input: parseToolInput(call.json) }));
+    } catch (error: any) {
+      if (signal?.aborted) return [];
+      console.error("Anthropic API error:", error);
+      throw new Error(`Error generating response: ${error.message}`);
+    }
+  }
+}
+
+function toMessages(prompt: string, history: AiChatRequest["history"], toolRounds: AiChatRequest["toolRounds"] = []): Anthropic.MessageParam[] {
+  return [
+    ...history.map((msg): Anthropic.MessageParam => ({
+      role: msg.isUserMessage ? "user" : "assistant",
+      content: msg.content
+    })),
+    { role: "user", content: prompt },
+    ...toolRounds.flatMap((round): Anthropic.MessageParam[] => [
+      {
+        role: "assistant",
+        content: [
+          ...(round.text ? [{ type: "text" as const, text: round.text }] : []),
+          ...round.calls.map(call => ({ type: "tool_use" as const, id: call.id, name: call.name, input: call.input ?? {} })),
+        ],
+      },
+      {
+        role: "user",
+        content: round.calls.map((call, i) => ({
+          type: "tool_result" as const,
+          tool_use_id: call.id,
+          content: round.results[i].content,
+          is_error: round.results[i].isError,
+        })),
+      },
+    ]),
+  ];
+}
+
+function parseToolInput(json: string): unknown {
+  try {
+    return JSON.parse(json || "{}");
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,67 @@
+import { AnthropicProvider } from "./anthropic";
+import { ScriptedProvider } from "./offline";
+import { OpenAiProvider } from "./openai";
+import type { AiProvider, AiProviderInfo } from "./types";
+
+export type { AiChatRequest, AiProvider, AiProviderInfo, AiTool, AiToolCall, AiToolResult, AiToolRound, ChatHistory } from "./types";
+export { MockProvider, ScriptedProvider } from "./offline";
+export { OpenAiProvider } from "./openai";
+export { AnthropicProvider } from "./anthropic";
+
+/**
+ * The providers AI team members can use, by id
+ */
+export class AiProviderRegistry {
+  private providers = new Map<string, AiProvider>();
+
+  register(provider: AiProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): AiProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  list(): AiProviderInfo[] {
+    return Array.from(this.providers.values()).map(provider => ({
+      id: provider.id,
+      label: provider.label,
+      configured: provider.isConfigured(),
+      models: provider.models,
+    }));
+  }
+}
+
+/**
+ * The built-in providers, configured from the environment. A self-hosted
+ * model server is set up with OPENAI_COMPATIBLE_BASE_URL (for Ollama,
+ * http://localhost:11434/v1), plus OPENAI_COMPATIBLE_API_KEY if it wants one
+ * and OPENAI_COMPATIBLE_MODELS, a comma-separated list to suggest.
+ */
+export function createDefaultRegistry(env: NodeJS.ProcessEnv = process.env): AiProviderRegistry {
+  const registry = new AiProviderRegistry();
+
+  registry.register(new OpenAiProvider({
+    id: "openai",
+    label: "OpenAI",
+    apiKey: env.OPENAI_API_KEY,
+    // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
+    models: ["gpt-4o", "gpt-4o-mini"],
+  }));
+  registry.register(new AnthropicProvider(env.ANTHROPIC_API_KEY));
+  registry.register(new OpenAiProvider({
+    id: "openai-compatible",
+    label: "Self-hosted (OpenAI-compatible)",
+    // Left unconfigured without a server, rather than falling through to OpenAI
+    apiKey: env.OPENAI_COMPATIBLE_BASE_URL ? env.OPENAI_COMPATIBLE_API_KEY : undefined,
+    baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+    models: (env.OPENAI_COMPATIBLE_MODELS ?? "").split(",").map(model => model.trim()).filter(Boolean),
+  }));
+  registry.register(new ScriptedProvider("echo", "Echo (offline)"));
+
+  return registry;
+}
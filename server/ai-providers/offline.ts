@@ -0,0 +1,98 @@
+import type { AiChatRequest, AiProvider } from "./types";
+
+const TOKEN_DELAY_MS = 40;
+
+// Mock data for demonstration purposes (when API keys aren't available)
+const MOCK_RESPONSES: Record<string, string[]> = {
+  "claude-3-7-sonnet-20250219": [
+    "I'd be happy to help you brainstorm ideas for your project. Let's approach this creatively!",
+    "Based on my analysis of the information you've provided, I have a few suggestions to consider.",
+    "That's an interesting perspective! Here's how I would think about this problem...",
+    "Looking at the context you've provided, here are some key insights that might be helpful.",
+    "I understand your concern. Let me offer some creative solutions that might address this challenge."
+  ],
+  "gpt-4o": [
+    "I've analyzed your code and found several optimization opportunities that could improve performance.",
+    "Here's a detailed breakdown of the technical process you asked about, with key considerations highlighted.",
+    "Based on the specifications you provided, I've created a solution that meets all the requirements while maintaining efficiency.",
+    "Let me explain this complex concept in more straightforward terms to make it easier to understand.",
+    "I've identified a potential issue in your approach. Here's a more robust alternative that addresses the edge cases."
+  ]
+};
+
+// Resolves after ms, or straight away once the signal aborts
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+// A ready-made reply, a word at a time, the way a model would stream it
+async function* streamWords(text: string, signal?: AbortSignal): AsyncGenerator<string> {
+  for (const word of text.split(/(?= )/)) {
+    await delay(TOKEN_DELAY_MS, signal);
+    if (signal?.aborted) return;
+    yield word;
+  }
+}
+
+/**
+ * Canned replies for members whose provider can't be reached (no API key,
+ * or real APIs turned off). Not registered; the service falls back to it.
+ */
+export class MockProvider implements AiProvider {
+  readonly id = "mock";
+  readonly label = "Sample replies";
+  readonly remote = false;
+  readonly models = Object.keys(MOCK_RESPONSES);
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate({ member }: AiChatRequest): Promise<string> {
+    const availableResponses = MOCK_RESPONSES[member.model] || MOCK_RESPONSES["gpt-4o"];
+    const randomIndex = Math.floor(Math.random() * availableResponses.length);
+    return availableResponses[randomIndex];
+  }
+
+  async *stream(request: AiChatRequest): AsyncGenerator<string> {
+    yield* streamWords(await this.generate(request), request.signal);
+  }
+}
+
+/**
+ * Deterministic replies with no model behind them, for trying things out
+ * offline and for tests. With a script it answers with each line in turn
+ * (counting the member's earlier replies); without one it echoes the prompt.
+ */
+export class ScriptedProvider implements AiProvider {
+  readonly remote = false;
+  readonly models = ["echo"];
+
+  constructor(
+    readonly id: string,
+    readonly label: string,
+    private script: string[] = []
+  ) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate({ prompt, history }: AiChatRequest): Promise<string> {
+    if (this.script.length === 0) {
+      return `You said: ${prompt}`;
+    }
+    const replies = history.filter(msg => !msg.isUserMessage).length;
+    return this.script[replies % this.script.length];
+  }
+
+  async *stream(request: AiChatRequest): AsyncGenerator<string> {
+    yield* streamWords(await this.generate(request), request.signal);
+  }
+}
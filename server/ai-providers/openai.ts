@@ -0,0 +1,131 @@
+import OpenAI from "openai";
+import type { AiChatRequest, AiProvider, AiToolCall } from "./types";
+
+interface OpenAiProviderOptions {
+  id: string;
+  label: string;
+  apiKey?: string;
+  baseURL?: string; // any server speaking the OpenAI chat completions API
+  models: string[];
+}
+
+/**
+ * OpenAI, or any OpenAI-compatible server (Ollama, llama.cpp, vLLM...) when
+ * given a base URL
+ */
+export class OpenAiProvider implements AiProvider {
+  readonly id: string;
+  readonly label: string;
+  readonly remote = true;
+  readonly models: string[];
+  private client: OpenAI | null = null;
+
+  constructor({ id, label, apiKey, baseURL, models }: OpenAiProviderOptions) {
+    this.id = id;
+    this.label = label;
+    this.models = models;
+
+    // Self-hosted servers usually don't check the key, but the client wants one
+    if (apiKey || baseURL) {
+      this.client = new OpenAI({ apiKey: apiKey || "not-needed", baseURL });
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  async generate({ member, systemPrompt, prompt, history, maxTokens }: AiChatRequest): Promise<string> {
+    if (!this.client) throw new Error(`${this.label} client is not initialized`);
+
+    try {
+      const response = await this.client.chat.completions.create({
+        model: member.model,
+        messages: toMessages({ systemPrompt, prompt, history }),
+        temperature: 0.7,
+        max_tokens: maxTokens,
+      });
+
+      return response.choices[0].message.content || "I don't have a response for that.";
+    } catch (error: any) {
+      console.error(`${this.label} API error:`, error);
+      throw new Error(`Error generating response: ${error.message}`);
+    }
+  }
+
+  async *stream({ member, systemPrompt, prompt, history, maxTokens, signal, tools, toolRounds }: AiChatRequest): AsyncGenerator<string, AiToolCall[]> {
+    if (!this.client) throw new Error(`${this.label} client is not initialized`);
+
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: member.model,
+        messages: toMessages({ systemPrompt, prompt, history, toolRounds }),
+        temperature: 0.7,
+        max_tokens: maxTokens,
+        stream: true,
+        // Some compatible servers reject an empty list
+        ...(tools?.length ? {
+          tools: tools.map((tool): OpenAI.ChatCompletionTool => ({
+            type: "function",
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          })),
+        } : {}),
+      }, { signal });
+
+      // Tool calls arrive in pieces too, keyed by their position
+      const calls: { id: string; name: string; arguments: string }[] = [];
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        if (delta?.content) yield delta.content;
+
+        for (const part of delta?.tool_calls ?? []) {
+          const call = calls[part.index] ??= { id: "", name: "", arguments: "" };
+          if (part.id) call.id = part.id;
+          if (part.function?.name) call.name += part.function.name;
+          if (part.function?.arguments) call.arguments += part.function.arguments;
+        }
+      }
+
+      return calls.filter(Boolean).map(call => ({ id: call.id, name: call.name, input: parseToolInput(call.arguments) }));
+    } catch (error: any) {
+      if (signal?.aborted) return [];
+      console.error(`${this.label} API error:`, error);
+      throw new Error(`Error generating response: ${error.message}`);
+    }
+  }
+}
+
+function toMessages({ systemPrompt, prompt, history, toolRounds = [] }: Pick<AiChatRequest, "systemPrompt" | "prompt" | "history" | "toolRounds">): OpenAI.ChatCompletionMessageParam[] {
+  return [
+    { role: "system", content: systemPrompt },
+    ...history.map((msg): OpenAI.ChatCompletionMessageParam => ({
+      role: msg.isUserMessage ? "user" : "assistant",
+      content: msg.content
+    })),
+    { role: "user", content: prompt },
+    ...toolRounds.flatMap((round): OpenAI.ChatCompletionMessageParam[] => [
+      {
+        role: "assistant",
+        content: round.text || null,
+        tool_calls: round.calls.map(call => ({
+          id: call.id,
+          type: "function" as const,
+          function: { name: call.name, arguments: JSON.stringify(call.input ?? {}) },
+        })),
+      },
+      ...round.calls.map((call, i): OpenAI.ChatCompletionMessageParam => ({
+        role: "tool",
+        tool_call_id: call.id,
+        content: round.results[i].content,
+      })),
+    ]),
+  ];
+}
+
+function parseToolInput(json: string): unknown {
+  try {
+    return JSON.parse(json || "{}");
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,65 @@
+import type { AiTeamMember } from "@shared/schema";
+
+export type ChatHistory = { content: string, isUserMessage: boolean }[];
+
+// Something a member can do besides reply, described for the model
+export interface AiTool {
+  name: string;
+  description: string;
+  parameters: { type: "object"; properties: Record<string, unknown>; required?: string[] }; // JSON Schema
+}
+
+export interface AiToolCall {
+  id: string; // the provider's, to match up the result
+  name: string;
+  input: unknown; // undefined when the model's arguments weren't valid JSON
+}
+
+export interface AiToolResult {
+  content: string;
+  isError?: boolean;
+}
+
+// Within one reply: what the member said, the tools it called, and what they returned
+export interface AiToolRound {
+  text: string;
+  calls: AiToolCall[];
+  results: AiToolResult[]; // one per call, in order
+}
+
+// One turn of a conversation with an AI team member
+export interface AiChatRequest {
+  member: AiTeamMember;
+  systemPrompt: string; // the member's own, plus any notes the user is asking about
+  prompt: string;
+  history: ChatHistory;
+  maxTokens: number;
+  signal?: AbortSignal;
+  tools?: AiTool[];
+  toolRounds?: AiToolRound[]; // earlier rounds of this reply, when it uses tools
+}
+
+// What the member editor shows about a provider
+export interface AiProviderInfo {
+  id: string;
+  label: string;
+  configured: boolean; // false when its key or server address is missing; members get sample replies
+  models: string[]; // suggestions; any model name the backend accepts will do
+}
+
+/**
+ * A backend AI team members can be pointed at, by id in `aiTeamMembers.provider`
+ */
+export interface AiProvider {
+  readonly id: string;
+  readonly label: string;
+  // Calls out to a model server, so it stands down when real APIs are off
+  readonly remote: boolean;
+  readonly models: string[];
+
+  isConfigured(): boolean;
+  generate(request: AiChatRequest): Promise<string>;
+  // Yields the reply piece by piece; aborting the request's signal ends it quietly.
+  // Returns the tools the model called, if it was given any and wants results.
+  stream(request: AiChatRequest): AsyncGenerator<string, AiToolCall[] | void>;
+}
@@ -1,154 +1,189 @@
-import OpenAI from "openai";
-import Anthropic from "@anthropic-ai/sdk";
 import { AiTeamMember } from "@shared/schema";
+import type { NoteScope } from "@shared/workspaces";
+import type { NoteChunkMatch } from "./storage";
+import {
+  createDefaultRegistry,
+  MockProvider,
+  type AiProvider,
+  type AiProviderInfo,
+  type AiProviderRegistry,
+  type AiTool,
+  type AiToolCall,
+  type AiToolResult,
+  type AiToolRound,
+  type ChatHistory,
+} from "./ai-providers";
 
-// Mock data for demonstration purposes (when API keys aren't available)
-const MOCK_RESPONSES: Record<string, string[]> = {
-  "claude-3-7-sonnet-20250219": [
-    "I'd be happy to help you brainstorm ideas for your project. Let's approach this creatively!",
-    "Based on my analysis of the information you've provided, I have a few suggestions to consider.",
-    "That's an interesting perspective! Here's how I would think about this problem...",
-    "Looking at the context you've provided, here are some key insights that might be helpful.",
-    "I understand your concern. Let me offer some creative solutions that might address this challenge."
-  ],
-  "gpt-4o": [
-    "I've analyzed your code and found several optimization opportunities that could improve performance.",
-    "Here's a detailed breakdown of the technical process you asked about, with key considerations highlighted.",
-    "Based on the specifications you provided, I've created a solution that meets all the requirements while maintaining efficiency.",
-    "Let me explain this complex concept in more straightforward terms to make it easier to understand.",
-    "I've identified a potential issue in your approach. Here's a more robust alternative that addresses the edge cases."
-  ]
-};
+/**
+ * Finds passages in the user's notes that bear on a message
+ */
+export interface NoteRetriever {
+  findChunks(scope: NoteScope, query: string, limit: number): Promise<NoteChunkMatch[]>;
+}
+
+/**
+ * Tools a member may call while writing a streamed reply, and how to run them
+ */
+export interface AiToolbox {
+  tools: AiTool[];
+  run(call: AiToolCall): Promise<AiToolResult>;
+}
 
 interface AiServiceOptions {
   useRealApi: boolean;
+  providers?: AiProviderRegistry;
+  retriever?: NoteRetriever;
 }
 
+// What the member gets to read along with the message
+interface ContextOptions {
+  noteContext?: string; // from buildNoteContext
+  scope?: NoteScope; // where to look for relevant passages
+  excludeNoteIds?: number[]; // notes already in noteContext
+}
+
+interface StreamOptions extends ContextOptions {
+  signal?: AbortSignal;
+  toolbox?: AiToolbox;
+}
+
+const MAX_TOKENS = 800;
+// Streamed replies show up as they're written, so they can afford to be longer
+const STREAM_MAX_TOKENS = 4096;
+// Passages retrieved for each message, and how close they must be to count
+const RETRIEVED_CHUNKS = 4;
+const MIN_RETRIEVAL_SIMILARITY = 0.25;
+// Times a member may call tools and read the results before it has to stop
+const MAX_TOOL_ROUNDS = 5;
+
 export class AiService {
-  private openai: OpenAI | null = null;
-  private anthropic: Anthropic | null = null;
+  private providers: AiProviderRegistry;
+  private retriever: NoteRetriever | null;
+  private mock = new MockProvider();
   private useRealApi: boolean;
-  
+
   constructor(options: AiServiceOptions = { useRealApi: false }) {
     this.useRealApi = options.useRealApi;
-    
-    // Initialize API clients if keys are available and we're using real APIs
-    if (this.useRealApi) {
-      if (process.env.OPENAI_API_KEY) {
-        this.openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      }
-      
-      if (process.env.ANTHROPIC_API_KEY) {
-        this.anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-      }
-    }
+    this.providers = options.providers ?? createDefaultRegistry();
+    this.retriever = options.retriever ?? null;
   }
-  
+
   public async generateResponse(
     aiTeamMember: AiTeamMember,
     userPrompt: string,
-    chatHistory: { content: string, isUserMessage: boolean }[] = []
+    chatHistory: ChatHistory = [],
+    context: ContextOptions = {}
   ): Promise<string> {
-    // If we're not using real APIs or the API client is not available, return mock data
-    if (!this.useRealApi || 
-        (aiTeamMember.provider === "openai" && !this.openai) ||
-        (aiTeamMember.provider === "anthropic" && !this.anthropic)) {
-      return this.generateMockResponse(aiTeamMember.model);
-    }
-    
-    if (aiTeamMember.provider === "openai" && this.openai) {
-      return this.generateOpenAiResponse(aiTeamMember, userPrompt, chatHistory);
-    } else if (aiTeamMember.provider === "anthropic" && this.anthropic) {
-      return this.generateAnthropicResponse(aiTeamMember, userPrompt, chatHistory);
-    } else {
-      throw new Error(`Unsupported AI provider: ${aiTeamMember.provider}`);
-    }
+    return this.getProvider(aiTeamMember).generate({
+      member: aiTeamMember,
+      systemPrompt: await this.buildSystemPrompt(aiTeamMember, userPrompt, context),
+      prompt: userPrompt,
+      history: chatHistory,
+      maxTokens: MAX_TOKENS,
+    });
   }
-  
-  private async generateOpenAiResponse(
+
+  /**
+   * Like generateResponse, but yields the reply piece by piece as the model
+   * writes it. Aborting the signal stops the model and ends the stream.
+   * With a toolbox, the member's tool calls are run and it carries on with
+   * their results, for up to MAX_TOOL_ROUNDS rounds.
+   */
+  public async *streamResponse(
     aiTeamMember: AiTeamMember,
     userPrompt: string,
-    chatHistory: { content: string, isUserMessage: boolean }[] = []
-  ): Promise<string> {
-    if (!this.openai) throw new Error("OpenAI client is not initialized");
-    
-    // Convert chat history to OpenAI message format
-    const messages = [
-      { role: "system", content: aiTeamMember.systemPrompt },
-      ...chatHistory.map(msg => ({
-        role: msg.isUserMessage ? "user" : "assistant",
-        content: msg.content
-      })),
-      { role: "user", content: userPrompt }
-    ];
-    
-    try {
-      // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
-      const response = await this.openai.chat.completions.create({
-        model: aiTeamMember.model,
-        messages: messages as any, // Type casting to avoid TypeScript errors
-        temperature: 0.7,
-        max_tokens: 800,
+    chatHistory: ChatHistory = [],
+    { signal, toolbox, ...context }: StreamOptions = {}
+  ): AsyncGenerator<string> {
+    const provider = this.getProvider(aiTeamMember);
+    const systemPrompt = await this.buildSystemPrompt(aiTeamMember, userPrompt, context);
+    const toolRounds: AiToolRound[] = [];
+    let replied = false;
+
+    for (let round = 1; ; round++) {
+      const stream = provider.stream({
+        member: aiTeamMember,
+        systemPrompt,
+        prompt: userPrompt,
+        history: chatHistory,
+        maxTokens: STREAM_MAX_TOKENS,
+        signal,
+        tools: toolbox?.tools,
+        toolRounds,
       });
-      
-      return response.choices[0].message.content || "I don't have a response for that.";
-    } catch (error: any) {
-      console.error("OpenAI API error:", error);
-      throw new Error(`Error generating response: ${error.message}`);
+
+      let text = "";
+      let next = await stream.next();
+      while (!next.done) {
+        // Keep what the member says around its tool calls apart
+        if (!text && replied) yield "\n\n";
+        text += next.value;
+        replied = true;
+        yield next.value;
+        next = await stream.next();
+      }
+
+      const calls = next.value || [];
+      if (!toolbox || calls.length === 0 || signal?.aborted) return;
+
+      const results: AiToolResult[] = [];
+      for (const call of calls) {
+        results.push(await toolbox.run(call));
+      }
+      if (round === MAX_TOOL_ROUNDS) return;
+      toolRounds.push({ text, calls, results });
+    }
+  }
+
+  public listProviders(): AiProviderInfo[] {
+    return this.providers.list();
+  }
+
+  public hasProvider(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  private getProvider(aiTeamMember: AiTeamMember): AiProvider {
+    const provider = this.providers.get(aiTeamMember.provider);
+    if (!provider) {
+      throw new Error(`Unsupported AI provider: ${aiTeamMember.provider}`);
     }
+
+    // If we're not using real APIs or the provider isn't set up, return mock data
+    if ((provider.remote && !this.useRealApi) || !provider.isConfigured()) {
+      return this.mock;
+    }
+    return provider;
   }
-  
-  private async generateAnthropicResponse(
+
+  // The member's instructions, the notes the user picked, then whatever
+  // else in their notes looks relevant to the message
+  private async buildSystemPrompt(
     aiTeamMember: AiTeamMember,
     userPrompt: string,
-    chatHistory: { content: string, isUserMessage: boolean }[] = []
+    { noteContext, scope, excludeNoteIds = [] }: ContextOptions
   ): Promise<string> {
-    if (!this.anthropic) throw new Error("Anthropic client is not initialized");
-    
-    // Convert chat history to Anthropic message format
-    const typedMessages: Array<{role: "user" | "assistant", content: string}> = [];
-    
-    // Convert chat history to properly typed messages
-    chatHistory.forEach(msg => {
-      typedMessages.push({
-        role: msg.isUserMessage ? "user" : "assistant",
-        content: msg.content
-      });
-    });
-    
-    // Add the current user prompt
-    typedMessages.push({ role: "user", content: userPrompt });
-    
-    try {
-      // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-      const response = await this.anthropic.messages.create({
-        model: aiTeamMember.model,
-        system: aiTeamMember.systemPrompt,
-        messages: typedMessages,
-        max_tokens: 800,
-        temperature: 0.7,
-      });
-      
-      // Extract text from content
-      let responseText = "I don't have a response for that.";
-      if (response.content && response.content.length > 0) {
-        const firstContent = response.content[0];
-        if ('text' in firstContent) {
-          responseText = firstContent.text;
+    const parts = [aiTeamMember.systemPrompt];
+    if (noteContext) parts.push(noteContext);
+
+    if (scope && this.retriever) {
+      try {
+        const matches = await this.retriever.findChunks(scope, userPrompt, RETRIEVED_CHUNKS + excludeNoteIds.length);
+        const passages = matches
+          .filter(match => match.similarity >= MIN_RETRIEVAL_SIMILARITY && !excludeNoteIds.includes(match.note.id))
+          .slice(0, RETRIEVED_CHUNKS)
+          .map(match => `### ${match.note.title || "Untitled"} (note ${match.note.id})\n${match.content}`);
+
+        if (passages.length) {
+          parts.push(`Passages from the user's notes that may be relevant:\n\n${passages.join("\n\n")}`);
         }
+      } catch (error) {
+        // The member can still answer without them
+        console.error("Error retrieving note passages:", error);
       }
-      
-      return responseText;
-    } catch (error: any) {
-      console.error("Anthropic API error:", error);
-      throw new Error(`Error generating response: ${error.message}`);
     }
-  }
-  
-  private generateMockResponse(model: string): string {
-    const availableResponses = MOCK_RESPONSES[model] || MOCK_RESPONSES["gpt-4o"];
-    const randomIndex = Math.floor(Math.random() * availableResponses.length);
-    return availableResponses[randomIndex];
+
+    return parts.join("\n\n");
   }
 }
 
@@ -156,6 +191,6 @@ export class AiService {
 export const aiService = new AiService({ useRealApi: false });
 
 // Export function to reinitialize the service with real APIs
-export function initializeAiService(useRealApi: boolean = true): void {
-  Object.assign(aiService, new AiService({ useRealApi }));
-}
\ No newline at end of file
+export function initializeAiService(useRealApi: boolean = true, retriever?: NoteRetriever): void {
+  Object.assign(aiService, new AiService({ useRealApi, retriever }));
+}
@@ -2,8 +2,9 @@ import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
 import { Strategy as FacebookStrategy } from "passport-facebook";
-import { Express } from "express";
+import { Express, type Request, type RequestHandler, type Response } from "express";
 import session from "express-session";
+import type { IncomingMessage } from "http";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
@@ -21,6 +22,9 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
+// Kept for requests that don't go through Express, like WebSocket upgrades
+let sessionParser: RequestHandler | undefined;
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
@@ -78,7 +82,8 @@ export function setupAuth(app: Express) {
   };
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  sessionParser = session(sessionSettings);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -329,4 +334,25 @@ export function setupAuth(app: Express) {
     
     res.json(userWithoutPassword);
   });
-}
\ No newline at end of file
+}
+
+/**
+ * The signed-in user behind a request that skipped the Express middleware,
+ * such as a WebSocket upgrade, from its session cookie
+ */
+export function getSessionUser(req: IncomingMessage): Promise<SelectUser | undefined> {
+  return new Promise((resolve, reject) => {
+    if (!sessionParser) return resolve(undefined);
+
+    sessionParser(req as Request, {} as Response, async (error?: unknown) => {
+      if (error) return reject(error);
+      try {
+        // Where passport.serializeUser put the user's id
+        const { passport } = (req as Request).session as session.Session & { passport?: { user?: number } };
+        resolve(passport?.user !== undefined ? await storage.getUser(passport.user) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
@@ -0,0 +1,60 @@
+import { createHash } from "crypto";
+
+// Upper bound for a chunk's text, about 400 tokens
+export const MAX_CHUNK_CHARS = 1600;
+
+export interface NoteChunk {
+  content: string; // the chunk's own text
+  text: string; // what gets embedded: the note title, then the chunk
+  hash: string; // of text, to tell which chunks changed
+}
+
+// A paragraph too long for one chunk, cut at whitespace where possible
+function splitLong(paragraph: string): string[] {
+  const pieces: string[] = [];
+  let rest = paragraph;
+  while (rest.length > MAX_CHUNK_CHARS) {
+    const cut = rest.lastIndexOf(" ", MAX_CHUNK_CHARS);
+    const end = cut > MAX_CHUNK_CHARS / 2 ? cut : MAX_CHUNK_CHARS;
+    pieces.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+// Paragraphs packed into chunks, in order
+function packSection(section: string): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const paragraph of section.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+    for (const piece of splitLong(paragraph)) {
+      if (current && current.length + piece.length + 2 > MAX_CHUNK_CHARS) {
+        chunks.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Splits a note into chunks for embedding. Chunks never cross a Markdown
+ * heading, so an edit only changes the chunks of its own section and the
+ * rest of the note keeps its embeddings.
+ */
+export function chunkNote(title: string, content: string): NoteChunk[] {
+  const sections = content.split(/\n(?=#{1,6}\s)/);
+  const chunks = sections.reduce<string[]>((all, section) => all.concat(packSection(section)), []);
+
+  // A note with only a title is still worth finding
+  if (chunks.length === 0 && title.trim()) chunks.push("");
+
+  return chunks.map(chunk => {
+    const text = title.trim() ? `${title.trim()}\n\n${chunk}`.trim() : chunk;
+    return { content: chunk, text, hash: createHash("sha256").update(text).digest("hex") };
+  });
+}
@@ -0,0 +1,43 @@
+import { LocalEmbeddingProvider } from "./local";
+import { OpenAiEmbeddingProvider } from "./openai";
+import type { EmbeddingProvider } from "./types";
+
+export type { EmbeddingProvider } from "./types";
+export { LocalEmbeddingProvider } from "./local";
+export { OpenAiEmbeddingProvider } from "./openai";
+export { chunkNote, type NoteChunk } from "./chunks";
+
+const DEFAULT_OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+
+/**
+ * The embedding provider configured in the environment. EMBEDDING_PROVIDER
+ * picks "openai", "openai-compatible" (the server at
+ * OPENAI_COMPATIBLE_BASE_URL) or "local"; EMBEDDING_MODEL names the model.
+ * Without a choice, OpenAI is used when there's a key and local otherwise.
+ */
+export function createEmbeddingProvider(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider {
+  const choice = env.EMBEDDING_PROVIDER || (env.OPENAI_API_KEY ? "openai" : "local");
+
+  switch (choice) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) break;
+      return new OpenAiEmbeddingProvider({
+        name: "openai",
+        model: env.EMBEDDING_MODEL || DEFAULT_OPENAI_EMBEDDING_MODEL,
+        apiKey: env.OPENAI_API_KEY,
+      });
+    case "openai-compatible":
+      if (!env.OPENAI_COMPATIBLE_BASE_URL || !env.EMBEDDING_MODEL) break;
+      return new OpenAiEmbeddingProvider({
+        name: "openai-compatible",
+        model: env.EMBEDDING_MODEL,
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+        baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+      });
+    case "local":
+      return new LocalEmbeddingProvider();
+  }
+
+  console.warn(`Embedding provider "${choice}" isn't configured, using local embeddings`);
+  return new LocalEmbeddingProvider();
+}
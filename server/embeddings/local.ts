@@ -0,0 +1,71 @@
+import { EMBEDDING_DIMENSIONS } from "@shared/schema";
+import type { EmbeddingProvider } from "./types";
+
+// Too common to say anything about what a text is about
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have", "i", "if", "in",
+  "into", "is", "it", "its", "me", "my", "no", "not", "of", "on", "or", "our", "so", "that", "the", "their",
+  "them", "then", "there", "these", "they", "this", "to", "was", "we", "were", "what", "when", "which",
+  "who", "will", "with", "you", "your",
+]);
+
+const BIGRAM_WEIGHT = 0.5;
+
+// Folds plurals and common verb endings together, so "meetings" finds "meeting"
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9À-ɏ]+/g) || [];
+  return words.filter(word => !STOP_WORDS.has(word)).map(stem);
+}
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Embeddings computed in-process, with no model or network: words and word
+ * pairs are hashed into the vector. It matches on shared vocabulary rather
+ * than meaning, which is still a good deal better than nothing.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model = "local:hash-v1";
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(text);
+    tokens.forEach((token, i) => {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+      if (i > 0) {
+        const bigram = `${tokens[i - 1]} ${token}`;
+        counts.set(bigram, (counts.get(bigram) ?? 0) + BIGRAM_WEIGHT);
+      }
+    });
+
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    counts.forEach((count, feature) => {
+      const h = hash(feature);
+      // A second bit of the hash picks the sign, so collisions tend to cancel out
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % EMBEDDING_DIMENSIONS] += sign * (1 + Math.log(count));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
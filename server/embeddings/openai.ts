@@ -0,0 +1,50 @@
+import OpenAI from "openai";
+import { EMBEDDING_DIMENSIONS } from "@shared/schema";
+import type { EmbeddingProvider } from "./types";
+
+// Inputs per request
+const BATCH_SIZE = 96;
+
+interface OpenAiEmbeddingOptions {
+  name: string; // prefixes the stored model name
+  model: string;
+  apiKey?: string;
+  baseURL?: string; // any server speaking the OpenAI embeddings API
+}
+
+/**
+ * Embeddings from OpenAI, or from an OpenAI-compatible server given its base
+ * URL. The model has to be able to return EMBEDDING_DIMENSIONS dimensions.
+ */
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  private client: OpenAI;
+  private modelName: string;
+
+  constructor({ name, model, apiKey, baseURL }: OpenAiEmbeddingOptions) {
+    this.model = `${name}:${model}`;
+    this.modelName = model;
+    this.client = new OpenAI({ apiKey: apiKey || "not-needed", baseURL });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.modelName,
+        input: texts.slice(start, start + BATCH_SIZE),
+        dimensions: EMBEDDING_DIMENSIONS,
+      });
+
+      for (const item of response.data.sort((a, b) => a.index - b.index)) {
+        if (item.embedding.length !== EMBEDDING_DIMENSIONS) {
+          throw new Error(`${this.model} returned ${item.embedding.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+        }
+        vectors.push(item.embedding);
+      }
+    }
+
+    return vectors;
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Turns text into vectors of EMBEDDING_DIMENSIONS numbers, close together
+ * for texts that mean similar things
+ */
+export interface EmbeddingProvider {
+  // Stored with each embedding; vectors from different models aren't compared
+  readonly model: string;
+
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,161 @@
+import fs from "fs";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { isAllowedMimeType, saveFile, MAX_FILE_SIZE } from "./upload-handler";
+import { detectImportFormat, parseImport, type ImportedNote } from "./importers";
+import { normalizeTag, MAX_TAG_LENGTH, MAX_TAGS_PER_NOTE } from "@shared/tags";
+import type { ImportFormat, ImportJob } from "@shared/import";
+import type { Note, User } from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Finished jobs are kept this long so their report can still be fetched
+const JOB_RETENTION_MS = 24 * HOUR_MS;
+
+interface ImportRequest {
+  user: User;
+  filePath: string; // the uploaded file, removed once the import is over
+  fileName: string;
+  format?: ImportFormat; // detected from the upload when not given
+  baseUrl: string; // for the URLs of imported attachments
+}
+
+/**
+ * Service that runs imports in the background and keeps their progress and
+ * reports in memory
+ */
+export class ImportService {
+  private jobs = new Map<string, { userId: number; job: ImportJob }>();
+
+  /**
+   * Queue an import and return its job straight away
+   */
+  start(request: ImportRequest): ImportJob {
+    this.pruneJobs();
+
+    const job: ImportJob = {
+      id: randomUUID(),
+      fileName: request.fileName,
+      format: request.format ?? null,
+      status: "pending",
+      total: 0,
+      processed: 0,
+      imported: 0,
+      noteIds: [],
+      skipped: [],
+      error: null,
+      createdAt: new Date().toISOString(),
+      finishedAt: null,
+    };
+    this.jobs.set(job.id, { userId: request.user.id, job });
+
+    // Not awaited: progress is read through getJob
+    void this.run(job, request);
+
+    return job;
+  }
+
+  getJob(userId: number, id: string): ImportJob | undefined {
+    const entry = this.jobs.get(id);
+    return entry && entry.userId === userId ? entry.job : undefined;
+  }
+
+  private pruneJobs(): void {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+    this.jobs.forEach(({ job }, id) => {
+      if (job.finishedAt && new Date(job.finishedAt).getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+
+  private async run(job: ImportJob, request: ImportRequest): Promise<void> {
+    job.status = "running";
+
+    try {
+      const upload = { fileName: request.fileName, data: await fs.promises.readFile(request.filePath) };
+      const format = request.format ?? detectImportFormat(upload);
+      if (!format) {
+        throw new Error("This file doesn't look like an export we can import");
+      }
+      job.format = format;
+
+      const { notes, skipped } = parseImport(upload, format);
+      job.skipped.push(...skipped);
+      job.total = notes.length;
+
+      for (const note of notes) {
+        try {
+          const created = await this.saveNote(job, note, request);
+          job.noteIds.push(created.id);
+          job.imported++;
+        } catch (error) {
+          console.error(`Error importing ${note.source}:`, error);
+          job.skipped.push({ source: note.source, reason: "Could not be saved" });
+        }
+        job.processed++;
+      }
+
+      job.status = "completed";
+    } catch (error) {
+      console.error("Error running import:", error);
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : "Import failed";
+    } finally {
+      job.finishedAt = new Date().toISOString();
+      fs.promises.unlink(request.filePath).catch((error) => {
+        console.warn("Could not delete import upload:", error);
+      });
+    }
+  }
+
+  private async saveNote(job: ImportJob, note: ImportedNote, request: ImportRequest): Promise<Note> {
+    let content = note.content;
+    const attachmentUrls: string[] = [];
+
+    for (const attachment of note.attachments) {
+      let reason: string | null = null;
+      if (!isAllowedMimeType(attachment.mimeType)) {
+        reason = `Unsupported file type (${attachment.mimeType})`;
+      } else if (attachment.data.length > MAX_FILE_SIZE) {
+        reason = "Larger than the 10 MB attachment limit";
+      }
+
+      if (reason) {
+        job.skipped.push({ source: `${attachment.name} (in ${note.source})`, reason });
+        // Leave the link text in place of the missing file
+        content = content.replace(
+          new RegExp(`!?\\[([^\\]]*)\\]\\(<${attachment.ref}>\\)`, "g"),
+          (_match, label: string) => label || attachment.name
+        );
+        continue;
+      }
+
+      const url = await saveFile(request.baseUrl, attachment.data, attachment.name, attachment.mimeType);
+      attachmentUrls.push(url);
+      content = content.split(`<${attachment.ref}>`).join(url);
+    }
+
+    const tags = Array.from(new Set(note.tags.map(normalizeTag)))
+      .filter(tag => tag && tag.length <= MAX_TAG_LENGTH)
+      .slice(0, MAX_TAGS_PER_NOTE);
+    const now = new Date().toISOString();
+    const createdAt = note.createdAt ?? note.updatedAt ?? now;
+
+    return await storage.createNote({
+      userId: request.user.id,
+      title: note.title,
+      content,
+      color: note.color ?? "yellow",
+      isPinned: note.isPinned ?? false,
+      isArchived: note.isArchived ?? false,
+      tags,
+      attachments: attachmentUrls,
+      drawingData: note.drawingData ?? "",
+      createdAt,
+      updatedAt: note.updatedAt ?? createdAt,
+    });
+  }
+}
+
+export const importService = new ImportService();
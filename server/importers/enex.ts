@@ -0,0 +1,112 @@
+import { createHash } from "crypto";
+import { htmlToMarkdown } from "./html-to-markdown";
+import { attachmentMarkdown, createAttachmentRefs, toIsoDate } from "./files";
+import type { ImportedAttachment, ImportedNote, ImportParseResult } from "./types";
+
+// Evernote exports (.enex) are XML: one <note> per note, its body as ENML
+// (XHTML) inside <content>, and images and files as base64 <resource>s that
+// the body embeds with <en-media hash="md5 of the data">.
+
+const NOTE_PATTERN = /<note>([\s\S]*?)<\/note>/g;
+const RESOURCE_PATTERN = /<resource>([\s\S]*?)<\/resource>/g;
+
+// A character reference's character; ones past the last code point are left as written
+function decodeCharReference(reference: string, codePoint: number): string {
+  return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+}
+
+function decodeXmlText(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (match, hex: string) => decodeCharReference(match, parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (match, decimal: string) => decodeCharReference(match, parseInt(decimal, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function getElement(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match ? decodeXmlText(match[1]) : undefined;
+}
+
+function getElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "g");
+  return Array.from(xml.matchAll(pattern)).map(match => decodeXmlText(match[1]));
+}
+
+// Evernote dates look like 20240131T093000Z
+function parseEnexDate(value: string | undefined): string | undefined {
+  const match = value?.trim().match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return toIsoDate(value);
+  const [, year, month, day, hour, minute, second] = match;
+  return toIsoDate(`${year}-${month}-${day}T${hour}:${minute}:${second}Z`);
+}
+
+/**
+ * Read the notes of an Evernote export
+ */
+export function parseEnex(xml: string, fileName: string): ImportParseResult {
+  const result: ImportParseResult = { notes: [], skipped: [] };
+
+  if (!xml.includes("<en-export")) {
+    result.skipped.push({ source: fileName, reason: "Not an Evernote export" });
+    return result;
+  }
+
+  const createAttachment = createAttachmentRefs();
+
+  for (const [, noteXml] of Array.from(xml.matchAll(NOTE_PATTERN))) {
+    const title = (getElement(noteXml, "title") ?? "").trim();
+    const source = title || `Untitled note in ${fileName}`;
+
+    if (getElement(noteXml, "content") === undefined) {
+      result.skipped.push({ source, reason: "The note has no content" });
+      continue;
+    }
+
+    // Resources are matched to <en-media> by the MD5 of their data
+    const resources = new Map<string, ImportedAttachment>();
+    for (const [, resourceXml] of Array.from(noteXml.matchAll(RESOURCE_PATTERN))) {
+      const data = Buffer.from((getElement(resourceXml, "data") ?? "").replace(/\s+/g, ""), "base64");
+      if (data.length === 0) continue;
+
+      const mimeType = (getElement(resourceXml, "mime") ?? "application/octet-stream").trim();
+      const name = (getElement(resourceXml, "file-name") ?? "").trim() || `attachment-${resources.size + 1}`;
+      resources.set(createHash("md5").update(data).digest("hex"), createAttachment(name, mimeType, data));
+    }
+
+    const used = new Set<ImportedAttachment>();
+    let content = htmlToMarkdown(getElement(noteXml, "content") ?? "", {
+      media: (element) => {
+        const attachment = resources.get(String(element.properties?.hash ?? "").toLowerCase());
+        if (!attachment) return undefined;
+        used.add(attachment);
+        return attachmentMarkdown(attachment);
+      },
+    });
+
+    // Files that the body doesn't show are listed at the end
+    const unused = Array.from(resources.values()).filter(attachment => !used.has(attachment));
+    if (unused.length > 0) {
+      content += `\n\n${unused.map(attachment => attachmentMarkdown(attachment)).join("\n\n")}`;
+    }
+
+    const note: ImportedNote = {
+      source,
+      title,
+      content,
+      tags: getElements(noteXml, "tag"),
+      createdAt: parseEnexDate(getElement(noteXml, "created")),
+      updatedAt: parseEnexDate(getElement(noteXml, "updated")),
+      attachments: Array.from(resources.values()),
+    };
+    result.notes.push(note);
+  }
+
+  return result;
+}
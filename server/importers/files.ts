@@ -0,0 +1,65 @@
+import path from "path";
+import { MAX_FILE_SIZE } from "../upload-handler";
+import type { ImportedAttachment, ImportParseResult } from "./types";
+
+// Markdown and Keep JSON files bigger than this are skipped without being read
+export const MAX_NOTE_FILE_SIZE = 2 * 1024 * 1024;
+
+// Mime types for files found inside archives, by extension
+const MIME_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+  ".doc": "application/msword",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+};
+
+export function getMimeType(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] || "application/octet-stream";
+}
+
+/**
+ * Hands out attachment refs that can't clash with anything in a note
+ */
+export function createAttachmentRefs() {
+  let count = 0;
+  return (name: string, mimeType: string, data: Buffer): ImportedAttachment => ({
+    ref: `import-attachment-${++count}`,
+    name,
+    mimeType,
+    data,
+  });
+}
+
+/**
+ * Whether a file is small enough to become an attachment. If not, it is
+ * noted in the report and should be left unread.
+ */
+export function checkAttachmentSize(file: { name: string; size: number }, noteSource: string, result: ImportParseResult): boolean {
+  if (file.size <= MAX_FILE_SIZE) return true;
+  result.skipped.push({ source: `${path.posix.basename(file.name)} (in ${noteSource})`, reason: "Larger than the 10 MB attachment limit" });
+  return false;
+}
+
+// Markdown for an attachment: an inline image, or a link to the file
+export function attachmentMarkdown(attachment: ImportedAttachment, label: string = attachment.name): string {
+  const target = `<${attachment.ref}>`;
+  return attachment.mimeType.startsWith("image/") ? `![${label}](${target})` : `[${label}](${target})`;
+}
+
+/**
+ * ISO string for a date, or undefined when it doesn't parse
+ */
+export function toIsoDate(value: string | number | Date | undefined | null): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -0,0 +1,169 @@
+import { unified } from "unified";
+import rehypeRaw from "rehype-raw";
+import { toText } from "hast-util-to-text";
+import type { Element, ElementContent, Root, RootContent } from "hast";
+
+// Converts note HTML from other apps (Evernote's ENML in particular) to
+// Markdown. The HTML is parsed by rehype-raw, the same parser that reads
+// inline HTML in our own notes.
+
+export interface HtmlToMarkdownOptions {
+  // Markdown for an embedded resource (Evernote's <en-media>); dropped when undefined
+  media?: (element: Element) => string | undefined;
+}
+
+const parser = unified().use(rehypeRaw).freeze();
+
+// An HTML parser doesn't know these are empty, and would nest what follows inside them
+const SELF_CLOSING_CUSTOM_TAGS = /<(en-todo|en-media|en-crypt)\b([^>]*?)\s*\/>/gi;
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "header", "footer", "main", "aside", "center",
+  "address", "figure", "figcaption", "dl", "dt", "dd", "en-note", "html", "body",
+]);
+const SKIPPED_TAGS = new Set(["head", "title", "meta", "link", "script", "style", "en-crypt"]);
+const HEADING_TAGS: Record<string, number> = { h1: 1, h2: 2, h3: 3, h4: 4, h5: 5, h6: 6 };
+
+function block(text: string): string {
+  const trimmed = text.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : "\n\n";
+}
+
+function tidy(markdown: string): string {
+  return markdown.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+function prefixLines(text: string, first: string, rest: string): string {
+  return text.split("\n").map((line, index) => (index === 0 ? first : rest) + line).join("\n");
+}
+
+// Emphasis markers have to hug the text, so surrounding spaces move outside them
+function wrap(text: string, marker: string, closing: string = marker): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${closing}${match[3]}` : text;
+}
+
+class MarkdownConverter {
+  constructor(private options: HtmlToMarkdownOptions) {}
+
+  children(parent: Root | Element): string {
+    return (parent.children as Array<RootContent | ElementContent>).map(child => this.node(child)).join("");
+  }
+
+  node(node: RootContent | ElementContent): string {
+    if (node.type === "text") return node.value.replace(/\s+/g, " ");
+    if (node.type !== "element") return "";
+
+    const tag = node.tagName;
+    if (tag in HEADING_TAGS) {
+      return block(`${"#".repeat(HEADING_TAGS[tag])} ${this.children(node).replace(/\s+/g, " ").trim()}`);
+    }
+    if (BLOCK_TAGS.has(tag)) return block(this.children(node));
+    if (SKIPPED_TAGS.has(tag)) return "";
+
+    switch (tag) {
+      case "br":
+        return "\n";
+      case "strong":
+      case "b":
+        return wrap(this.children(node), "**");
+      case "em":
+      case "i":
+        return wrap(this.children(node), "*");
+      case "s":
+      case "strike":
+      case "del":
+        return wrap(this.children(node), "~~");
+      case "u":
+        return wrap(this.children(node), "<u>", "</u>");
+      case "code":
+        return `\`${toText(node)}\``;
+      case "pre":
+        return `\n\n\`\`\`\n${toText(node, { whitespace: "pre" }).replace(/\n$/, "")}\n\`\`\`\n\n`;
+      case "a": {
+        const href = String(node.properties?.href ?? "");
+        const label = this.children(node).trim();
+        if (!href || /^javascript:/i.test(href)) return label;
+        return label ? `[${label}](${href})` : `<${href}>`;
+      }
+      case "img": {
+        const src = String(node.properties?.src ?? "");
+        return /^https?:\/\//i.test(src) ? `![${String(node.properties?.alt ?? "")}](${src})` : "";
+      }
+      case "en-media":
+        return this.options.media?.(node) ?? "";
+      case "en-todo":
+        return String(node.properties?.checked) === "true" ? "[x] " : "[ ] ";
+      case "ul":
+      case "ol":
+        return this.list(node, tag === "ol");
+      case "li":
+        return block(this.children(node));
+      case "blockquote":
+        return block(prefixLines(tidy(this.children(node)), "> ", "> "));
+      case "hr":
+        return "\n\n---\n\n";
+      case "table":
+        return this.table(node);
+      default:
+        return this.children(node);
+    }
+  }
+
+  private list(list: Element, ordered: boolean): string {
+    const start = Number(list.properties?.start) || 1;
+    const items = list.children.filter((child): child is Element => child.type === "element" && child.tagName === "li");
+
+    const lines = items.map((item, index) => {
+      const marker = ordered ? `${start + index}.` : "-";
+      return prefixLines(tidy(this.children(item)), `${marker} `, " ".repeat(marker.length + 1));
+    });
+
+    return block(lines.join("\n"));
+  }
+
+  private table(table: Element): string {
+    const rows: string[][] = [];
+    const collectRows = (parent: Element) => {
+      for (const child of parent.children) {
+        if (child.type !== "element") continue;
+        if (child.tagName === "tr") {
+          rows.push(
+            child.children
+              .filter((cell): cell is Element => cell.type === "element" && (cell.tagName === "td" || cell.tagName === "th"))
+              .map(cell => this.children(cell).replace(/\s+/g, " ").trim().replace(/\|/g, "\\|"))
+          );
+        } else {
+          collectRows(child); // thead, tbody, tfoot
+        }
+      }
+    };
+    collectRows(table);
+    if (rows.length === 0) return "";
+
+    const columns = Math.max(...rows.map(row => row.length));
+    const line = (cells: string[]) =>
+      `| ${Array.from({ length: columns }, (_, index) => cells[index] ?? "").join(" | ")} |`;
+
+    return block([
+      line(rows[0]),
+      line(Array.from({ length: columns }, () => "---")),
+      ...rows.slice(1).map(line),
+    ].join("\n"));
+  }
+}
+
+/**
+ * Convert an HTML fragment or document to Markdown
+ */
+export function htmlToMarkdown(html: string, options: HtmlToMarkdownOptions = {}): string {
+  const tree = parser.runSync({
+    type: "root",
+    children: [{ type: "raw", value: html.replace(SELF_CLOSING_CUSTOM_TAGS, "<$1$2></$1>") }],
+  } as Root) as Root;
+
+  const markdown = tidy(new MarkdownConverter(options).children(tree));
+
+  // Evernote checkboxes start a line; make them Markdown checklist items
+  return markdown.replace(/^\[([ x])\] /gm, "- [$1] ");
+}
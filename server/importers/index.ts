@@ -0,0 +1,74 @@
+import path from "path";
+import { readZip, type ZipFileEntry } from "../zip";
+import { MAX_FILE_SIZE } from "../upload-handler";
+import type { ImportFormat } from "@shared/import";
+import { parseEnex } from "./enex";
+import { isKeepTakeout, parseKeepTakeout } from "./keep";
+import { isMarkdownFile, isSystemFile, parseMarkdownFiles } from "./markdown";
+import type { ImportParseResult } from "./types";
+
+export type { ImportedAttachment, ImportedNote, ImportParseResult } from "./types";
+
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+// Most an archive may unpack to. No file in it may be bigger than an upload,
+// and everything read is held in memory until the notes are saved.
+const MAX_UNPACKED_SIZE = 200 * 1024 * 1024;
+
+interface ImportUpload {
+  fileName: string;
+  data: Buffer;
+}
+
+function isZip(data: Buffer): boolean {
+  return data.subarray(0, 4).equals(ZIP_SIGNATURE);
+}
+
+function isEnexFile(name: string): boolean {
+  return path.extname(name).toLowerCase() === ".enex";
+}
+
+// A lone file is treated like an archive holding just that file
+function asEntries(upload: ImportUpload): ZipFileEntry[] {
+  return isZip(upload.data)
+    ? readZip(upload.data, { maxFileSize: MAX_FILE_SIZE, maxTotalSize: MAX_UNPACKED_SIZE })
+    : [{ name: upload.fileName, size: upload.data.length, modifiedAt: new Date(), read: () => upload.data }];
+}
+
+/**
+ * Work out which app an upload came from, or null if it isn't one we read
+ */
+export function detectImportFormat(upload: ImportUpload): ImportFormat | null {
+  const entries = asEntries(upload).filter(entry => !entry.name.split("/").includes("__MACOSX"));
+
+  if (entries.some(entry => isEnexFile(entry.name))) return "enex";
+  if (isKeepTakeout(entries)) return "keep";
+  if (entries.some(entry => entry.name.split("/").includes(".obsidian"))) return "obsidian";
+  if (entries.some(entry => isMarkdownFile(entry.name) && !isSystemFile(entry.name))) return "markdown";
+  return null;
+}
+
+/**
+ * Read the notes out of an upload in the given format
+ */
+export function parseImport(upload: ImportUpload, format: ImportFormat): ImportParseResult {
+  const entries = asEntries(upload);
+
+  switch (format) {
+    case "enex": {
+      const result: ImportParseResult = { notes: [], skipped: [] };
+      for (const entry of entries.filter(entry => isEnexFile(entry.name) && !isSystemFile(entry.name))) {
+        const parsed = parseEnex(entry.read().toString("utf8"), path.posix.basename(entry.name));
+        result.notes.push(...parsed.notes);
+        result.skipped.push(...parsed.skipped);
+      }
+      return result;
+    }
+    case "keep":
+      return parseKeepTakeout(entries);
+    case "obsidian":
+      return parseMarkdownFiles(entries, { obsidian: true });
+    case "markdown":
+      return parseMarkdownFiles(entries);
+  }
+}
@@ -0,0 +1,136 @@
+import path from "path";
+import type { ZipFileEntry } from "../zip";
+import { attachmentMarkdown, checkAttachmentSize, createAttachmentRefs, getMimeType, MAX_NOTE_FILE_SIZE, toIsoDate } from "./files";
+import type { ImportedAttachment, ImportParseResult, NoteColor } from "./types";
+
+// Google Takeout exports Keep as Takeout/Keep/, with one JSON file per note
+// and its images alongside.
+
+interface KeepNote {
+  title?: string;
+  textContent?: string;
+  listContent?: Array<{ text?: string; isChecked?: boolean }>;
+  labels?: Array<{ name?: string }>;
+  annotations?: Array<{ url?: string; title?: string }>;
+  attachments?: Array<{ filePath?: string; mimetype?: string }>;
+  color?: string;
+  isPinned?: boolean;
+  isArchived?: boolean;
+  isTrashed?: boolean;
+  createdTimestampUsec?: number;
+  userEditedTimestampUsec?: number;
+}
+
+// Keep has twelve colors to our six
+const KEEP_COLORS: Record<string, NoteColor> = {
+  DEFAULT: "yellow",
+  YELLOW: "yellow",
+  RED: "pink",
+  PINK: "pink",
+  ORANGE: "orange",
+  BROWN: "orange",
+  GREEN: "green",
+  TEAL: "green",
+  BLUE: "blue",
+  CERULEAN: "blue",
+  DARK_BLUE: "blue",
+  PURPLE: "purple",
+  GRAY: "blue",
+};
+
+export function isKeepTakeout(entries: ZipFileEntry[]): boolean {
+  return entries.some(entry => /(^|\/)Keep\/[^/]+\.json$/.test(entry.name));
+}
+
+function fromMicroseconds(value: number | undefined): string | undefined {
+  return typeof value === "number" && value > 0 ? toIsoDate(Math.floor(value / 1000)) : undefined;
+}
+
+/**
+ * Read the notes of a Keep Takeout archive
+ */
+export function parseKeepTakeout(entries: ZipFileEntry[]): ImportParseResult {
+  const result: ImportParseResult = { notes: [], skipped: [] };
+  const createAttachment = createAttachmentRefs();
+  const files = new Map(entries.map(entry => [entry.name, entry]));
+
+  // Takeout sometimes names an image .jpeg while the note says .jpg, so fall back to the name without extension
+  const findFile = (name: string): ZipFileEntry | undefined => {
+    if (files.has(name)) return files.get(name);
+    const stem = name.slice(0, name.length - path.posix.extname(name).length);
+    return entries.find(entry => entry.name.slice(0, entry.name.length - path.posix.extname(entry.name).length) === stem);
+  };
+
+  for (const entry of entries) {
+    if (!/(^|\/)Keep\/[^/]+\.json$/.test(entry.name)) continue;
+    const source = path.posix.basename(entry.name);
+    if (entry.size > MAX_NOTE_FILE_SIZE) {
+      result.skipped.push({ source, reason: "Too large to import" });
+      continue;
+    }
+
+    // Read outside the try, so going over the archive's limits fails the import
+    const text = entry.read().toString("utf8");
+    let keepNote: KeepNote;
+    try {
+      keepNote = JSON.parse(text);
+    } catch {
+      result.skipped.push({ source, reason: "Not valid JSON" });
+      continue;
+    }
+
+    if (typeof keepNote !== "object" || keepNote === null || (keepNote.textContent === undefined && !keepNote.listContent)) {
+      result.skipped.push({ source, reason: "Not a Keep note" });
+      continue;
+    }
+    if (keepNote.isTrashed) {
+      result.skipped.push({ source: keepNote.title || source, reason: "In the Keep trash" });
+      continue;
+    }
+
+    const parts: string[] = [];
+    if (keepNote.listContent) {
+      parts.push(keepNote.listContent.map(item => `- [${item.isChecked ? "x" : " "}] ${item.text ?? ""}`).join("\n"));
+    } else if (keepNote.textContent) {
+      parts.push(keepNote.textContent);
+    }
+
+    for (const annotation of keepNote.annotations || []) {
+      if (annotation.url) parts.push(`[${annotation.title || annotation.url}](${annotation.url})`);
+    }
+
+    const attachments: ImportedAttachment[] = [];
+    for (const keepAttachment of keepNote.attachments || []) {
+      if (!keepAttachment.filePath) continue;
+      const file = findFile(path.posix.join(path.posix.dirname(entry.name), keepAttachment.filePath));
+      if (!file) {
+        result.skipped.push({ source: `${keepAttachment.filePath} (in ${keepNote.title || source})`, reason: "File missing from the archive" });
+        continue;
+      }
+      if (!checkAttachmentSize(file, keepNote.title || source, result)) continue;
+
+      const attachment = createAttachment(
+        path.posix.basename(file.name),
+        keepAttachment.mimetype || getMimeType(file.name),
+        file.read()
+      );
+      attachments.push(attachment);
+      parts.push(attachmentMarkdown(attachment));
+    }
+
+    result.notes.push({
+      source: keepNote.title || source,
+      title: keepNote.title || "",
+      content: parts.join("\n\n"),
+      tags: (keepNote.labels || []).map(label => label.name ?? ""),
+      color: KEEP_COLORS[keepNote.color ?? "DEFAULT"] ?? "yellow",
+      isPinned: !!keepNote.isPinned,
+      isArchived: !!keepNote.isArchived,
+      createdAt: fromMicroseconds(keepNote.createdTimestampUsec),
+      updatedAt: fromMicroseconds(keepNote.userEditedTimestampUsec),
+      attachments,
+    });
+  }
+
+  return result;
+}
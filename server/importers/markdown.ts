@@ -0,0 +1,242 @@
+import path from "path";
+import type { ZipFileEntry } from "../zip";
+import { attachmentMarkdown, checkAttachmentSize, createAttachmentRefs, getMimeType, MAX_NOTE_FILE_SIZE, toIsoDate } from "./files";
+import type { ImportedAttachment, ImportedNote, ImportParseResult, NoteColor } from "./types";
+
+// Folders of Markdown files, Obsidian vaults and our own exports. Front-matter
+// supplies the title, tags, color and dates where present; images and files
+// the notes link to become attachments, and links between the notes become
+// [[wiki links]].
+
+type FrontMatterValue = string | boolean | string[];
+
+const MARKDOWN_EXTENSIONS = [".md", ".markdown"];
+const NOTE_COLORS: NoteColor[] = ["yellow", "green", "pink", "blue", "purple", "orange"];
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const MARKDOWN_LINK_PATTERN = /(!?)\[([^\]\n]*)\]\(\s*<?([^)>\s]+)>?(?:\s+(?:"[^"\n]*"|'[^'\n]*'))?\s*\)/g;
+const OBSIDIAN_EMBED_PATTERN = /!\[\[([^\]|#\n]+)(?:#[^\]|\n]*)?(?:\|([^\]\n]*))?\]\]/g;
+const INLINE_TAG_PATTERN = /(?:^|\s)#([A-Za-z0-9_\-\/\u00C0-\uFFFF]+)/g;
+const CODE_PATTERN = /```[\s\S]*?```|`[^`\n]*`/g;
+
+export function isMarkdownFile(name: string): boolean {
+  return MARKDOWN_EXTENSIONS.includes(path.posix.extname(name).toLowerCase());
+}
+
+// Folders and files that belong to the tool rather than the notes
+export function isSystemFile(name: string): boolean {
+  return name.split("/").some(part => part.startsWith(".") || part === "__MACOSX");
+}
+
+function parseScalar(raw: string): string | boolean {
+  const value = raw.trim();
+  if (value === "true" || value === "false") return value === "true";
+  if (value.startsWith("\"")) {
+    try {
+      return String(JSON.parse(value));
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'")) return value.slice(1, -1).replace(/''/g, "'");
+  return value;
+}
+
+/**
+ * Split YAML front-matter from a note. Only the plain `key: value`, inline
+ * `[a, b]` list and `- item` list forms are understood, which covers what
+ * note apps write.
+ */
+export function parseFrontMatter(text: string): { data: Record<string, FrontMatterValue>; body: string } {
+  const match = text.match(FRONT_MATTER_PATTERN);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.*)$|^-\s+(.*)$/);
+    if (item && listKey) {
+      const list = Array.isArray(data[listKey]) ? data[listKey] as string[] : [];
+      list.push(String(parseScalar(item[1] ?? item[2])));
+      data[listKey] = list;
+      continue;
+    }
+
+    const field = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!field) continue;
+
+    const [, key, value] = field;
+    listKey = value.trim() === "" ? key : null;
+    if (value.trim().startsWith("[") && value.trim().endsWith("]")) {
+      const items = value.trim().slice(1, -1).match(/"(?:[^"\\]|\\.)*"|'[^']*'|[^,]+/g) || [];
+      data[key] = items.map(part => String(parseScalar(part))).filter(Boolean);
+    } else if (value.trim() !== "") {
+      data[key] = parseScalar(value);
+    }
+  }
+
+  return { data, body: text.slice(match[0].length) };
+}
+
+function getString(data: Record<string, FrontMatterValue>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = data[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+function getTags(data: Record<string, FrontMatterValue>): string[] {
+  const value = data.tags ?? data.tag;
+  if (Array.isArray(value)) return value;
+  return typeof value === "string" ? value.split(/[,\s]+/).filter(Boolean) : [];
+}
+
+// #tags written in the text, as Obsidian uses them (not in code, not all digits)
+function getInlineTags(body: string): string[] {
+  const text = body.replace(CODE_PATTERN, " ");
+  return Array.from(text.matchAll(INLINE_TAG_PATTERN))
+    .map(match => match[1].replace(/\/+$/, ""))
+    .filter(tag => tag && !/^\d+$/.test(tag));
+}
+
+function stripExtension(name: string): string {
+  return path.posix.basename(name, path.posix.extname(name));
+}
+
+function decodeLinkTarget(target: string): string {
+  try {
+    return decodeURI(target);
+  } catch {
+    return target;
+  }
+}
+
+/**
+ * Read the notes in a set of Markdown files. With `obsidian`, #tags in the
+ * text become note tags as well.
+ */
+export function parseMarkdownFiles(entries: ZipFileEntry[], options: { obsidian?: boolean } = {}): ImportParseResult {
+  const result: ImportParseResult = { notes: [], skipped: [] };
+  const createAttachment = createAttachmentRefs();
+  const files = entries.filter(entry => !isSystemFile(entry.name));
+  const byPath = new Map(files.map(entry => [entry.name, entry]));
+  const usedFiles = new Set<string>();
+
+  // Links are relative to the note, or to the archive root, or (in Obsidian)
+  // just a file name that is unique in the vault
+  const resolveFile = (fromDir: string, target: string): ZipFileEntry | undefined => {
+    const decoded = decodeLinkTarget(target).replace(/^\/+/, "");
+    const candidates = [path.posix.normalize(path.posix.join(fromDir, decoded)), path.posix.normalize(decoded)];
+    for (const candidate of candidates) {
+      const entry = byPath.get(candidate) ?? byPath.get(`${candidate}.md`);
+      if (entry) return entry;
+    }
+
+    const baseName = path.posix.basename(decoded).toLowerCase();
+    const matches = files.filter(entry => {
+      const name = path.posix.basename(entry.name).toLowerCase();
+      return name === baseName || name === `${baseName}.md`;
+    });
+    return matches.length === 1 ? matches[0] : undefined;
+  };
+
+  for (const entry of files) {
+    if (!isMarkdownFile(entry.name)) continue;
+    if (entry.size > MAX_NOTE_FILE_SIZE) {
+      result.skipped.push({ source: entry.name, reason: "Too large to import" });
+      continue;
+    }
+
+    const { data, body } = parseFrontMatter(entry.read().toString("utf8").replace(/^\uFEFF/, ""));
+    const fromDir = path.posix.dirname(entry.name);
+    const attachments = new Map<string, ImportedAttachment>();
+
+    const tooLarge = new Set<string>();
+
+    // Undefined for a file too large to attach, which the report then lists
+    const attach = (file: ZipFileEntry): ImportedAttachment | undefined => {
+      let attachment = attachments.get(file.name);
+      if (!attachment && !tooLarge.has(file.name)) {
+        usedFiles.add(file.name);
+        if (!checkAttachmentSize(file, entry.name, result)) {
+          tooLarge.add(file.name);
+          return undefined;
+        }
+        attachment = createAttachment(path.posix.basename(file.name), getMimeType(file.name), file.read());
+        attachments.set(file.name, attachment);
+      }
+      return attachment;
+    };
+
+    let content = body.replace(MARKDOWN_LINK_PATTERN, (link: string, bang: string, label: string, target: string) => {
+      if (/^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith("#")) return link;
+
+      const file = resolveFile(fromDir, target);
+      if (!file) return link;
+      if (isMarkdownFile(file.name)) {
+        const title = stripExtension(file.name);
+        return !label || label === title ? `[[${title}]]` : `[[${title}|${label}]]`;
+      }
+      const attachment = attach(file);
+      if (!attachment) return label || path.posix.basename(file.name);
+      return attachmentMarkdown(attachment, label || (bang ? "" : path.posix.basename(file.name)));
+    });
+
+    content = content.replace(OBSIDIAN_EMBED_PATTERN, (embed: string, target: string) => {
+      const file = resolveFile(fromDir, target.trim());
+      if (!file) return embed;
+      // An embedded note can't be shown inline here; link to it instead
+      if (isMarkdownFile(file.name)) return `[[${stripExtension(file.name)}]]`;
+      const attachment = attach(file);
+      return attachment ? attachmentMarkdown(attachment, path.posix.basename(file.name)) : path.posix.basename(file.name);
+    });
+
+    // Attachments listed in front-matter (as our exports do) that the text doesn't show
+    const listed = data.attachments;
+    for (const target of Array.isArray(listed) ? listed : []) {
+      const file = resolveFile(fromDir, target);
+      if (!file) {
+        result.skipped.push({ source: `${target} (in ${entry.name})`, reason: "File missing from the archive" });
+      } else if (!attachments.has(file.name)) {
+        const attachment = attach(file);
+        if (attachment) content += `\n\n${attachmentMarkdown(attachment)}`;
+      }
+    }
+
+    let drawingData: string | undefined;
+    const drawingPath = getString(data, "drawing");
+    if (drawingPath) {
+      const file = resolveFile(fromDir, drawingPath);
+      if (file) {
+        drawingData = file.read().toString("utf8");
+        usedFiles.add(file.name);
+      }
+    }
+
+    const color = getString(data, "color");
+    const note: ImportedNote = {
+      source: entry.name,
+      title: getString(data, "title") ?? stripExtension(entry.name),
+      content: content.replace(/^\s*\n/, ""),
+      tags: [...getTags(data), ...(options.obsidian ? getInlineTags(body) : [])],
+      color: NOTE_COLORS.includes(color as NoteColor) ? color as NoteColor : undefined,
+      isPinned: data.pinned === true,
+      isArchived: data.archived === true,
+      createdAt: toIsoDate(getString(data, "created", "date", "created_at")),
+      updatedAt: toIsoDate(getString(data, "updated", "modified", "updated_at")) ?? entry.modifiedAt.toISOString(),
+      drawingData,
+      attachments: Array.from(attachments.values()),
+    };
+    result.notes.push(note);
+  }
+
+  // Anything else in the folder that no note used
+  for (const entry of files) {
+    if (!isMarkdownFile(entry.name) && !usedFiles.has(entry.name) && path.posix.basename(entry.name) !== "manifest.json") {
+      result.skipped.push({ source: entry.name, reason: "Not a note, and no note links to it" });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,33 @@
+import type { InsertNote } from "@shared/schema";
+import type { ImportSkip } from "@shared/import";
+
+export type NoteColor = NonNullable<InsertNote["color"]>;
+
+// A file to store as an attachment. The note's content links to it as <ref>,
+// which is swapped for the stored file's URL once it has been saved.
+export interface ImportedAttachment {
+  ref: string;
+  name: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+// A note read from a foreign format, before it is saved
+export interface ImportedNote {
+  source: string; // file or note name, for the import report
+  title: string;
+  content: string;
+  tags: string[];
+  color?: NoteColor;
+  isPinned?: boolean;
+  isArchived?: boolean;
+  createdAt?: string; // ISO date strings
+  updatedAt?: string;
+  drawingData?: string;
+  attachments: ImportedAttachment[];
+}
+
+export interface ImportParseResult {
+  notes: ImportedNote[];
+  skipped: ImportSkip[];
+}
@@ -2,9 +2,11 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { initializeAiService } from "./ai-service";
+import { trashService } from "./trash-service";
+import { noteEmbeddings } from "./note-embeddings";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "2mb" })); // room for SVG drawings on notes
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -39,15 +41,21 @@ app.use((req, res, next) => {
 
 (async () => {
   // Initialize AI services if API keys are available
-  if (process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY) {
+  if (process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || process.env.OPENAI_COMPATIBLE_BASE_URL) {
     console.log("Initializing AI services with API keys");
-    initializeAiService(true);
+    initializeAiService(true, noteEmbeddings);
   } else {
     console.log("AI API keys not found, using mock responses");
-    initializeAiService(false);
+    initializeAiService(false, noteEmbeddings);
   }
   
   const server = await registerRoutes(app);
+  
+  // Permanently remove notes that have been in the trash past the retention window
+  trashService.start();
+
+  // Embed notes for semantic search as they change, and any not yet embedded
+  noteEmbeddings.start();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
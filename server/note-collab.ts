@@ -0,0 +1,326 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { randomBytes } from "crypto";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { z } from "zod";
+import { storage } from "./storage";
+import { getSessionUser } from "./auth";
+import {
+  COLLAB_CLOSE_NO_ACCESS,
+  COLLAB_PATH_PREFIX,
+  CollabDocument,
+  getPresenceColor,
+  mergeText,
+  type CollabCursor,
+  type CollabOp,
+  type CollabPeer,
+  type CollabServerMessage,
+} from "@shared/collab";
+import { hasWorkspacePermission, type WorkspaceRole } from "@shared/workspaces";
+import type { Note } from "@shared/schema";
+
+const SAVE_DELAY_MS = 2000;
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+const SERVER_SITE = "server";
+
+const charIdSchema = z.tuple([z.string().min(1).max(64), z.number().int().positive()]);
+
+const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("ops"),
+    ops: z.array(z.discriminatedUnion("type", [
+      z.object({ type: z.literal("insert"), id: charIdSchema, after: charIdSchema.nullable(), value: z.string().length(1) }),
+      z.object({ type: z.literal("delete"), id: charIdSchema }),
+    ])).max(100000),
+  }),
+  z.object({
+    type: z.literal("cursor"),
+    cursor: z.object({ anchor: charIdSchema.nullable(), head: charIdSchema.nullable() }).nullable(),
+  }),
+]);
+
+// Which sessions to check again; leaving both out means every session
+interface SessionFilter {
+  userId?: number;
+  noteIds?: number[];
+}
+
+interface CollabSession {
+  peer: CollabPeer;
+  socket: WebSocket;
+}
+
+// Everyone with one note open, and the note's shared text
+interface CollabRoom {
+  noteId: number;
+  doc: CollabDocument;
+  sessions: Map<string, CollabSession>;
+  savedContent: string;
+  saveTimer: NodeJS.Timeout | null;
+  lastEditorId: number | null; // whose edit the next save is credited to
+}
+
+/**
+ * Live co-editing of note content over WebSocket. Each open note gets a
+ * room holding the CRDT document; edits are relayed to the room and the
+ * text is saved to the note shortly after it changes and when the last
+ * person leaves.
+ */
+export class NoteCollaborationService {
+  private wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  private rooms = new Map<number, CollabRoom>();
+
+  /**
+   * Take over WebSocket upgrades for note paths; other upgrades (such as
+   * the dev server's hot reload) are left alone
+   */
+  attach(server: Server): void {
+    server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (!url.pathname.startsWith(COLLAB_PATH_PREFIX)) return;
+
+      const noteId = parseInt(url.pathname.slice(COLLAB_PATH_PREFIX.length));
+      this.handleUpgrade(req, socket, head, noteId).catch((error) => {
+        console.error("Error opening collaboration session:", error);
+        rejectUpgrade(socket, 500, "Internal Server Error");
+      });
+    });
+  }
+
+  /**
+   * Bring an open note's shared text in line with content saved some other
+   * way (a restored revision, a rewritten link), for everyone editing it
+   */
+  syncContent(note: Note): void {
+    const room = this.rooms.get(note.id);
+    if (!room) return;
+
+    room.savedContent = note.content;
+    if (room.doc.getText() === note.content) return;
+
+    const ops = room.doc.replaceText(note.content);
+    this.broadcast(room, { type: "ops", ops });
+  }
+
+  /**
+   * Whether someone has the note open for live editing
+   */
+  isOpen(noteId: number): boolean {
+    return this.rooms.has(noteId);
+  }
+
+  /**
+   * Merge content edited apart from the live session, starting from `base`,
+   * into an open note's shared text as if it had been typed there; the room
+   * saves the result. Returns the merged text, or undefined when nobody has
+   * the note open.
+   */
+  mergeContent(noteId: number, base: string, content: string, userId: number): string | undefined {
+    const room = this.rooms.get(noteId);
+    if (!room) return undefined;
+
+    const ops = room.doc.replaceLines(mergeText(base, content, room.doc.getText()));
+    if (ops.length) {
+      room.lastEditorId = userId;
+      this.broadcast(room, { type: "ops", ops });
+      this.scheduleSave(room);
+    }
+    return room.doc.getText();
+  }
+
+  /**
+   * Check again what the people in matching sessions may do, after their
+   * role changed, they left a workspace or a note moved to or from the trash.
+   * Sessions that lost access to the note are closed; the rest are told when
+   * they can no longer edit it, or now can.
+   */
+  refreshAccess(filter: SessionFilter = {}): void {
+    this.checkSessions(filter).catch((error) => {
+      console.error("Error refreshing collaboration access:", error);
+    });
+  }
+
+  private async checkSessions(filter: SessionFilter) {
+    for (const room of Array.from(this.rooms.values())) {
+      if (filter.noteIds && !filter.noteIds.includes(room.noteId)) continue;
+
+      let changed = false;
+      for (const session of Array.from(room.sessions.values())) {
+        const { peer, socket } = session;
+        if (filter.userId !== undefined && peer.userId !== filter.userId) continue;
+
+        const access = await storage.getNoteAccess(peer.userId, room.noteId);
+        if (!access) {
+          socket.close(COLLAB_CLOSE_NO_ACCESS, "No access to this note");
+          continue;
+        }
+
+        const canEdit = canEditNote(access.note, access.scope.role);
+        if (canEdit !== peer.canEdit) {
+          peer.canEdit = canEdit;
+          send(socket, { type: "access", canEdit });
+          changed = true;
+        }
+      }
+
+      if (changed) this.broadcast(room, { type: "presence", peers: this.getPeers(room) });
+    }
+  }
+
+  private async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer, noteId: number) {
+    const user = await getSessionUser(req);
+    if (!user) {
+      return rejectUpgrade(socket, 401, "Unauthorized");
+    }
+
+    const access = isNaN(noteId) ? undefined : await storage.getNoteAccess(user.id, noteId);
+    if (!access) {
+      return rejectUpgrade(socket, 404, "Not Found");
+    }
+
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      const peer: CollabPeer = {
+        sessionId: randomBytes(6).toString("base64url"),
+        userId: user.id,
+        username: user.username,
+        color: getPresenceColor(user.id),
+        canEdit: canEditNote(access.note, access.scope.role),
+        cursor: null,
+      };
+      this.join(access.note, { peer, socket: ws });
+    });
+  }
+
+  private join(note: Note, session: CollabSession) {
+    const { peer, socket } = session;
+    const room = this.getRoom(note);
+
+    room.sessions.set(peer.sessionId, session);
+    send(socket, {
+      type: "init",
+      sessionId: peer.sessionId,
+      canEdit: peer.canEdit,
+      state: room.doc.getState(),
+      peers: this.getPeers(room),
+    });
+    this.broadcast(room, { type: "presence", peers: this.getPeers(room) }, peer.sessionId);
+
+    socket.on("message", (data: RawData) => this.handleMessage(room, session, data));
+    socket.on("close", () => this.leave(room, session));
+    socket.on("error", (error) => console.error("Collaboration socket error:", error));
+  }
+
+  private handleMessage(room: CollabRoom, session: CollabSession, data: RawData) {
+    const { peer, socket } = session;
+
+    let message: z.infer<typeof clientMessageSchema>;
+    try {
+      message = clientMessageSchema.parse(JSON.parse(data.toString()));
+    } catch {
+      return send(socket, { type: "error", message: "Invalid message" });
+    }
+
+    if (message.type === "cursor") {
+      peer.cursor = message.cursor as CollabCursor | null;
+      return this.broadcast(room, { type: "cursor", sessionId: peer.sessionId, cursor: peer.cursor }, peer.sessionId);
+    }
+
+    if (!peer.canEdit) {
+      return send(socket, { type: "error", message: "You don't have permission to edit this note" });
+    }
+
+    const ops = message.ops as CollabOp[];
+    // Sessions can only type characters under their own id
+    if (ops.some(op => op.type === "insert" && op.id[0] !== peer.sessionId)) {
+      return send(socket, { type: "error", message: "Invalid character id" });
+    }
+
+    try {
+      room.doc.applyOps(ops);
+    } catch (error) {
+      return send(socket, { type: "error", message: (error as Error).message });
+    }
+
+    room.lastEditorId = peer.userId;
+    this.broadcast(room, { type: "ops", ops }, peer.sessionId);
+    this.scheduleSave(room);
+  }
+
+  private leave(room: CollabRoom, session: CollabSession) {
+    room.sessions.delete(session.peer.sessionId);
+
+    if (room.sessions.size > 0) {
+      this.broadcast(room, { type: "presence", peers: this.getPeers(room) });
+      return;
+    }
+
+    // Last one out saves and closes the room; the next visitor starts from the saved note
+    this.rooms.delete(room.noteId);
+    this.save(room);
+  }
+
+  // The note's open room, or a new one starting from the note as just loaded
+  private getRoom(note: Note): CollabRoom {
+    let room = this.rooms.get(note.id);
+    if (!room) {
+      room = {
+        noteId: note.id,
+        doc: CollabDocument.fromText(SERVER_SITE, note.content),
+        sessions: new Map(),
+        savedContent: note.content,
+        saveTimer: null,
+        lastEditorId: null,
+      };
+      this.rooms.set(note.id, room);
+    }
+    return room;
+  }
+
+  private getPeers(room: CollabRoom): CollabPeer[] {
+    return Array.from(room.sessions.values()).map(session => session.peer);
+  }
+
+  private scheduleSave(room: CollabRoom) {
+    if (room.saveTimer) clearTimeout(room.saveTimer);
+    room.saveTimer = setTimeout(() => this.save(room), SAVE_DELAY_MS);
+  }
+
+  private save(room: CollabRoom) {
+    if (room.saveTimer) {
+      clearTimeout(room.saveTimer);
+      room.saveTimer = null;
+    }
+
+    const content = room.doc.getText();
+    if (content === room.savedContent) return;
+
+    room.savedContent = content;
+    storage.updateNoteProps(room.noteId, { content }, { userId: room.lastEditorId ?? undefined }).catch((error) => {
+      console.error("Error saving collaborative note:", error);
+    });
+  }
+
+  private broadcast(room: CollabRoom, message: CollabServerMessage, exceptSessionId?: string) {
+    for (const { peer, socket } of Array.from(room.sessions.values())) {
+      if (peer.sessionId !== exceptSessionId) send(socket, message);
+    }
+  }
+}
+
+// Notes in the trash are read-only for everyone
+function canEditNote(note: Note, role: WorkspaceRole): boolean {
+  return !note.deletedAt && hasWorkspacePermission(role, "edit");
+}
+
+function send(socket: WebSocket, message: CollabServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+export const noteCollaboration = new NoteCollaborationService();
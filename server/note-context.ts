@@ -0,0 +1,87 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { getFilePathFromUrl } from "./upload-handler";
+import type { Note } from "@shared/schema";
+
+// How much of the prompt notes may take, in tokens
+export const NOTE_CONTEXT_TOKEN_BUDGET = 6000;
+// Rough, but close enough for English text with any of the providers' tokenizers
+const CHARS_PER_TOKEN = 4;
+const TEXT_ATTACHMENT_EXTENSIONS = [".txt", ".csv", ".md", ".markdown", ".json"];
+// Attachments bigger than this aren't read, only listed
+const MAX_ATTACHMENT_READ_BYTES = 256 * 1024;
+const TRUNCATION_MARKER = "\n[...truncated]";
+
+/**
+ * Loads the notes a chat message refers to, as the user can see them, or
+ * undefined if any of them can't be found
+ */
+export async function loadContextNotes(userId: number, noteIds: number[]): Promise<Note[] | undefined> {
+  const notes: Note[] = [];
+  for (const noteId of Array.from(new Set(noteIds))) {
+    const note = await storage.getNoteById(userId, noteId);
+    if (!note) return undefined;
+    notes.push(note);
+  }
+  return notes;
+}
+
+// The text of an attachment the model can read, or null for images, PDFs and the like
+async function readAttachmentText(fileUrl: string): Promise<string | null> {
+  const filePath = getFilePathFromUrl(fileUrl);
+  if (!TEXT_ATTACHMENT_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) return null;
+
+  try {
+    const { size } = await fs.promises.stat(filePath);
+    if (size > MAX_ATTACHMENT_READ_BYTES) return null;
+    return await fs.promises.readFile(filePath, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+async function describeNote(note: Note): Promise<{ heading: string; body: string }> {
+  // The id lets members point their note tools at it
+  const lines = [`## ${note.title || "Untitled"} (note ${note.id})`];
+  if (note.tags?.length) lines.push(`Tags: ${note.tags.join(", ")}`);
+
+  let body = note.content;
+  for (const fileUrl of note.attachments || []) {
+    const name = path.basename(new URL(fileUrl, "http://localhost").pathname);
+    const text = await readAttachmentText(fileUrl);
+    body += text === null ? `\n\n[Attachment: ${name}]` : `\n\n### Attachment: ${name}\n${text.trim()}`;
+  }
+  return { heading: lines.join("\n"), body };
+}
+
+// The text cut down to maxChars, marker included; nothing if not even the marker fits
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  if (maxChars <= TRUNCATION_MARKER.length) return "";
+  return text.slice(0, maxChars - TRUNCATION_MARKER.length) + TRUNCATION_MARKER;
+}
+
+/**
+ * The notes as a block for the system prompt, within the token budget. Each
+ * note keeps its title and tags; the budget for the text is shared out so
+ * that short notes fit whole and the long ones split what's left.
+ */
+export async function buildNoteContext(notes: Note[], tokenBudget: number = NOTE_CONTEXT_TOKEN_BUDGET): Promise<string> {
+  if (notes.length === 0) return "";
+
+  const sections = await Promise.all(notes.map(describeNote));
+  let remaining = Math.max(0, tokenBudget * CHARS_PER_TOKEN - sections.reduce((sum, { heading }) => sum + heading.length + 2, 0));
+
+  // Shortest first, so what a short note doesn't use goes to the longer ones
+  const bodies: string[] = new Array(sections.length);
+  const order = sections.map((_, i) => i).sort((a, b) => sections[a].body.length - sections[b].body.length);
+  order.forEach((index, position) => {
+    const share = Math.floor(remaining / (order.length - position));
+    bodies[index] = truncate(sections[index].body, share);
+    remaining = Math.max(0, remaining - bodies[index].length);
+  });
+
+  const blocks = sections.map(({ heading }, i) => bodies[i] ? `${heading}\n\n${bodies[i]}` : heading);
+  return `The user is asking about the following notes.\n\n${blocks.join("\n\n")}`;
+}
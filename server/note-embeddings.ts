@@ -0,0 +1,180 @@
+import { storage, type NoteChunkMatch } from "./storage";
+import { chunkNote, createEmbeddingProvider, type EmbeddingProvider } from "./embeddings";
+import type { InsertNoteEmbedding, Note } from "@shared/schema";
+import type { NoteScope } from "@shared/workspaces";
+
+// Saves come in bursts while someone types; embed once they pause
+const REFRESH_DELAY_MS = 10000;
+const BACKFILL_BATCH_SIZE = 20;
+const MINUTE_MS = 60 * 1000;
+
+export interface SemanticSearchResult extends Note {
+  similarity: number;
+  snippet: string; // the best matching chunk
+}
+
+/**
+ * Keeps note_embeddings in step with the notes and answers semantic queries.
+ * A note is re-chunked after its content or title is saved, and only chunks
+ * whose text changed are sent to the embedding provider. Notes without
+ * embeddings from the current model (older notes, or all of them after a
+ * switch of provider) are filled in in the background.
+ */
+export class NoteEmbeddingIndex {
+  private pending = new Map<number, { note: Note; timer: NodeJS.Timeout }>();
+  // Refreshes run one at a time
+  private queue: Promise<void> = Promise.resolve();
+  private backfillTimer: NodeJS.Timeout | null = null;
+  private backfilling = false;
+
+  constructor(private provider: EmbeddingProvider, private backfillIntervalMinutes: number) {}
+
+  /**
+   * Follow note changes, and fill in missing embeddings now and on an interval
+   */
+  start(): void {
+    if (this.backfillTimer) return;
+
+    storage.onNoteContentChange(note => this.schedule(note));
+
+    const runBackfill = () => {
+      this.backfill().catch((error) => {
+        console.error("Error backfilling note embeddings:", error);
+      });
+    };
+
+    runBackfill();
+    this.backfillTimer = setInterval(runBackfill, this.backfillIntervalMinutes * MINUTE_MS);
+    // Don't keep the process alive just for the backfill job
+    this.backfillTimer.unref();
+  }
+
+  stop(): void {
+    if (this.backfillTimer) {
+      clearInterval(this.backfillTimer);
+      this.backfillTimer = null;
+    }
+    this.pending.forEach(({ timer }) => clearTimeout(timer));
+    this.pending.clear();
+  }
+
+  /**
+   * Re-embed a note shortly, once it stops changing
+   */
+  schedule(note: Note): void {
+    const existing = this.pending.get(note.id);
+    if (existing) clearTimeout(existing.timer);
+
+    const timer = setTimeout(() => {
+      this.pending.delete(note.id);
+      this.enqueue(note).catch((error) => {
+        console.error(`Error embedding note ${note.id}:`, error);
+      });
+    }, REFRESH_DELAY_MS);
+    timer.unref();
+    this.pending.set(note.id, { note, timer });
+  }
+
+  /**
+   * Bring a note's embeddings up to date with its saved text now. Resolves
+   * to whether anything had to change.
+   */
+  refresh(note: Note): Promise<boolean> {
+    return this.enqueue(note);
+  }
+
+  /**
+   * The notes closest in meaning to the query, each with its best chunk
+   */
+  async search(scope: NoteScope, query: string, limit: number): Promise<SemanticSearchResult[]> {
+    // Several chunks of one note can come up, so look a little further
+    const matches = await this.findChunks(scope, query, limit * 3);
+    const results: SemanticSearchResult[] = [];
+
+    for (const match of matches) {
+      if (results.some(result => result.id === match.note.id)) continue;
+      results.push({ ...match.note, similarity: match.similarity, snippet: match.content });
+      if (results.length === limit) break;
+    }
+    return results;
+  }
+
+  /**
+   * The chunks closest in meaning to the query, best first
+   */
+  async findChunks(scope: NoteScope, query: string, limit: number): Promise<NoteChunkMatch[]> {
+    if (!query.trim()) return [];
+
+    const [embedding] = await this.provider.embed([query]);
+    return await storage.searchNoteEmbeddings(scope, embedding, this.provider.model, limit);
+  }
+
+  private enqueue(note: Note): Promise<boolean> {
+    const run = this.queue.then(() => this.embedNote(note));
+    this.queue = run.then(() => {}, () => {});
+    return run;
+  }
+
+  private async embedNote(note: Note): Promise<boolean> {
+    const chunks = chunkNote(note.title || "", note.content);
+    const existing = await storage.getNoteEmbeddings(note.id);
+
+    // Embeddings already made for the same text by the same model are kept
+    const known = new Map<string, number[]>();
+    for (const row of existing) {
+      if (row.model === this.provider.model) known.set(row.contentHash, row.embedding);
+    }
+
+    const unchanged = existing.length === chunks.length &&
+      chunks.every((chunk, i) => existing[i].contentHash === chunk.hash && existing[i].model === this.provider.model);
+    if (unchanged) return false;
+
+    const toEmbed = chunks.filter(chunk => !known.has(chunk.hash));
+    const vectors = toEmbed.length ? await this.provider.embed(toEmbed.map(chunk => chunk.text)) : [];
+    toEmbed.forEach((chunk, i) => known.set(chunk.hash, vectors[i]));
+
+    const now = new Date().toISOString();
+    const rows: InsertNoteEmbedding[] = chunks.map((chunk, chunkIndex) => ({
+      noteId: note.id,
+      chunkIndex,
+      content: chunk.content,
+      contentHash: chunk.hash,
+      model: this.provider.model,
+      embedding: known.get(chunk.hash)!,
+      updatedAt: now,
+    }));
+    await storage.replaceNoteEmbeddings(note.id, rows);
+    return true;
+  }
+
+  // One pass over the notes lacking embeddings from the current model
+  private async backfill(): Promise<void> {
+    if (this.backfilling) return;
+    this.backfilling = true;
+
+    try {
+      let afterId = 0;
+      let embedded = 0;
+      while (true) {
+        const notes = await storage.getNotesNeedingEmbeddings(this.provider.model, afterId, BACKFILL_BATCH_SIZE);
+        if (notes.length === 0) break;
+
+        for (const note of notes) {
+          if (await this.refresh(note)) embedded++;
+        }
+        afterId = notes[notes.length - 1].id;
+      }
+
+      if (embedded > 0) {
+        console.log(`Embedded ${embedded} note(s) with ${this.provider.model}`);
+      }
+    } finally {
+      this.backfilling = false;
+    }
+  }
+}
+
+export const noteEmbeddings = new NoteEmbeddingIndex(
+  createEmbeddingProvider(),
+  Number(process.env.EMBEDDING_BACKFILL_INTERVAL_MINUTES) || 60
+);
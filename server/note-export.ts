@@ -0,0 +1,249 @@
+import fs from "fs";
+import path from "path";
+import { Writable } from "stream";
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { getFilePathFromUrl } from "./upload-handler";
+import { renderPdf } from "./pdf";
+import { ZipWriter } from "./zip";
+import { renderMarkdown } from "@shared/markdown";
+import { getPersonalScope } from "@shared/workspaces";
+import type { Note, Notebook, User } from "@shared/schema";
+
+export const NOTE_EXPORT_FORMATS = ["md", "html", "pdf"] as const;
+export type NoteExportFormat = typeof NOTE_EXPORT_FORMATS[number];
+
+// Bump when the layout of the account ZIP changes, so importers can tell
+export const EXPORT_MANIFEST_VERSION = 1;
+
+interface NoteFrontMatter {
+  notebook?: string; // "Parent/Child" path of the note's notebook
+  attachments?: string[]; // paths inside the export
+  drawing?: string;
+}
+
+// Characters that are unsafe in file names on common file systems
+const UNSAFE_FILENAME_CHARS = /[<>:"/\\|?*\u0000-\u001f]+/g;
+const MAX_FILENAME_LENGTH = 80;
+
+/**
+ * A file name for the note, from its title, without the extension
+ */
+export function getNoteFileBaseName(note: Pick<Note, "title">): string {
+  const name = (note.title || "")
+    .replace(UNSAFE_FILENAME_CHARS, "-")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+/, "")
+    .slice(0, MAX_FILENAME_LENGTH)
+    .trim();
+  return name || "Untitled";
+}
+
+// Strings go out JSON-quoted, which YAML reads as double-quoted scalars
+function yamlValue(value: string | boolean | string[]): string {
+  if (Array.isArray(value)) return `[${value.map(item => JSON.stringify(item)).join(", ")}]`;
+  return typeof value === "boolean" ? String(value) : JSON.stringify(value);
+}
+
+/**
+ * The note as Markdown with YAML front-matter for its title, color, tags,
+ * flags and timestamps
+ */
+export function noteToMarkdown(note: Note, extra: NoteFrontMatter = {}, content: string = note.content): string {
+  const fields: Array<[string, string | boolean | string[] | undefined]> = [
+    ["title", note.title || ""],
+    ["color", note.color || "yellow"],
+    ["tags", note.tags || []],
+    ["pinned", !!note.isPinned],
+    ["archived", !!note.isArchived],
+    ["notebook", extra.notebook],
+    ["daily_date", note.dailyDate || undefined],
+    ["attachments", extra.attachments?.length ? extra.attachments : undefined],
+    ["drawing", extra.drawing],
+    ["created", note.createdAt],
+    ["updated", note.updatedAt],
+  ];
+
+  const frontMatter = fields
+    .filter((field): field is [string, string | boolean | string[]] => field[1] !== undefined)
+    .map(([key, value]) => `${key}: ${yamlValue(value)}`);
+
+  return `---\n${frontMatter.join("\n")}\n---\n\n${content}${content.endsWith("\n") ? "" : "\n"}`;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Standalone page styles; math falls back to the MathML that KaTeX emits
+// alongside its HTML, so no KaTeX stylesheet or fonts are needed
+const HTML_PAGE_STYLES = `
+body { max-width: 760px; margin: 40px auto; padding: 0 20px; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; line-height: 1.6; color: #1f2937; }
+h1.note-title { margin-bottom: 4px; }
+.note-meta { color: #6b7280; font-size: 0.85rem; margin-bottom: 24px; }
+pre { background: #1f2937; color: #e5e7eb; padding: 12px; border-radius: 6px; overflow-x: auto; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; }
+blockquote { border-left: 4px solid #e5e7eb; margin-left: 0; padding-left: 16px; color: #4b5563; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #e5e7eb; padding: 4px 8px; }
+img { max-width: 100%; }
+.katex-html, .code-copy-button { display: none; }
+`;
+
+function getNoteSubtitle(note: Note): string {
+  const parts = [`Updated ${format(new Date(note.updatedAt), "MMMM d, yyyy")}`];
+  if (note.tags?.length) parts.push(note.tags.map(tag => `#${tag}`).join(" "));
+  return parts.join(" · ");
+}
+
+/**
+ * A complete HTML page around the given body markup
+ */
+export function renderHtmlPage(title: string, body: string, extraStyles: string = ""): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_PAGE_STYLES}${extraStyles}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * The note's title, details and content, rendered the same way as in the app
+ */
+export function renderNoteBody(note: Note): string {
+  return `<h1 class="note-title">${escapeHtml(note.title || "Untitled")}</h1>
+<div class="note-meta">${escapeHtml(getNoteSubtitle(note))}</div>
+${renderMarkdown(note.content)}`;
+}
+
+/**
+ * The note as a standalone HTML page
+ */
+export function noteToHtml(note: Note): string {
+  return renderHtmlPage(note.title || "Untitled", renderNoteBody(note));
+}
+
+export function noteToPdf(note: Note): Buffer {
+  return renderPdf({ title: note.title || "Untitled", subtitle: getNoteSubtitle(note), markdown: note.content });
+}
+
+function getNotebookPath(notebooks: Map<number, Notebook>, id: number): string {
+  const names: string[] = [];
+  const seen = new Set<number>();
+  let current = notebooks.get(id);
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = current.parentId !== null ? notebooks.get(current.parentId) : undefined;
+  }
+
+  return names.join("/");
+}
+
+// "Name.md", then "Name (2).md" and so on for notes that share a title
+function claimFileName(used: Set<string>, baseName: string, extension: string): string {
+  let fileName = `${baseName}${extension}`;
+  for (let n = 2; used.has(fileName.toLowerCase()); n++) {
+    fileName = `${baseName} (${n})${extension}`;
+  }
+  used.add(fileName.toLowerCase());
+  return fileName;
+}
+
+/**
+ * Stream every note (not the trash) of a user as a ZIP: notes/*.md with
+ * front-matter, attachments/ with the uploaded files and drawings, and a
+ * manifest.json describing it all
+ */
+export async function writeAccountExport(user: User, output: Writable): Promise<void> {
+  const zip = new ZipWriter(output);
+  const notes = await storage.getAllNotesByUserId(user.id);
+  const notebookList = await storage.getNotebooks(getPersonalScope(user.id));
+  const notebooks = new Map<number, Notebook>(notebookList.map(notebook => [notebook.id, notebook]));
+
+  const noteFileNames = new Set<string>();
+  const addedAttachments = new Map<string, string>(); // file on disk -> path in the ZIP
+  const manifestNotes = [];
+
+  for (const note of notes) {
+    const fileName = claimFileName(noteFileNames, getNoteFileBaseName(note), ".md");
+    const attachments: string[] = [];
+    let content = note.content;
+
+    for (const fileUrl of note.attachments || []) {
+      const filePath = getFilePathFromUrl(fileUrl);
+      let exportPath = addedAttachments.get(filePath);
+
+      if (!exportPath) {
+        if (!fs.existsSync(filePath)) {
+          console.warn(`Skipping missing attachment ${fileUrl} of note ${note.id}`);
+          continue;
+        }
+        const folder = path.basename(path.dirname(filePath)); // images or files
+        exportPath = `attachments/${folder}/${path.basename(filePath)}`;
+        await zip.addFile(exportPath, await fs.promises.readFile(filePath), new Date(note.updatedAt));
+        addedAttachments.set(filePath, exportPath);
+      }
+
+      attachments.push(exportPath);
+      // Links to the upload now point at the copy next to the notes
+      const relativePath = `../${exportPath}`;
+      content = content.split(fileUrl).join(relativePath);
+      content = content.split(new URL(fileUrl, "http://localhost").pathname).join(relativePath);
+    }
+
+    let drawing: string | undefined;
+    if (note.drawingData) {
+      drawing = `attachments/drawings/note-${note.id}.svg`;
+      await zip.addFile(drawing, note.drawingData, new Date(note.updatedAt));
+    }
+
+    const notebook = note.notebookId !== null ? getNotebookPath(notebooks, note.notebookId) : "";
+    await zip.addFile(
+      `notes/${fileName}`,
+      noteToMarkdown(note, { notebook: notebook || undefined, attachments, drawing }, content),
+      new Date(note.updatedAt)
+    );
+
+    manifestNotes.push({
+      id: note.id,
+      file: `notes/${fileName}`,
+      title: note.title || "",
+      notebookId: note.notebookId,
+      attachments,
+      drawing: drawing ?? null,
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+    });
+  }
+
+  const manifest = {
+    version: EXPORT_MANIFEST_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: { username: user.username, email: user.email ?? null },
+    notebooks: notebookList.map(notebook => ({
+      id: notebook.id,
+      parentId: notebook.parentId,
+      name: notebook.name,
+      path: getNotebookPath(notebooks, notebook.id),
+    })),
+    notes: manifestNotes,
+  };
+  await zip.addFile("manifest.json", JSON.stringify(manifest, null, 2));
+
+  await zip.finish();
+}
@@ -0,0 +1,124 @@
+import { type Note } from "@shared/schema";
+import { normalizeTag } from "@shared/tags";
+
+const NOTE_COLORS = ["yellow", "green", "pink", "blue", "purple", "orange"] as const;
+type NoteColor = typeof NOTE_COLORS[number];
+
+// Markers placed around matches by ts_headline. They are control characters so
+// they can't collide with note text, and are swapped for <mark> tags after the
+// rest of the snippet has been HTML-escaped.
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_STOP = "\u0003";
+
+export interface NoteSearchQuery {
+  text: string; // free text, passed to websearch_to_tsquery
+  tags: string[];
+  color?: NoteColor;
+  pinned?: boolean;
+  before?: string; // ISO date string, compared against updatedAt
+  after?: string; // ISO date string, compared against updatedAt
+}
+
+export type NoteSearchResult = Note & {
+  rank: number;
+  titleHighlight: string; // HTML with matches wrapped in <mark>
+  snippet: string; // HTML with matches wrapped in <mark>
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseBoolean(value: string): boolean | undefined {
+  if (["true", "yes", "1"].includes(value)) return true;
+  if (["false", "no", "0"].includes(value)) return false;
+  return undefined;
+}
+
+// Dates may be given as YYYY-MM-DD (whole day) or as a full ISO timestamp
+function parseDate(value: string, endOfDay: boolean): string | undefined {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(date.getTime() + DAY_MS).toISOString();
+  }
+
+  return date.toISOString();
+}
+
+/**
+ * Split a search string into operators and free text.
+ * Supported operators: tag:, color:, pinned:, before: and after:.
+ * Anything that isn't a recognised operator is kept as free text, so
+ * websearch syntax ("exact phrase", -exclude, OR) still works.
+ */
+export function parseSearchQuery(q: string): NoteSearchQuery {
+  const query: NoteSearchQuery = { text: "", tags: [] };
+  const textParts: string[] = [];
+
+  // Operator values may be quoted to include spaces, e.g. tag:"client work"
+  const tokens = q.match(/(\w+):"[^"]*"|"[^"]*"|\S+/g) || [];
+
+  for (const token of tokens) {
+    const operatorMatch = token.match(/^(tag|color|pinned|before|after):(.+)$/i);
+    if (!operatorMatch) {
+      textParts.push(token);
+      continue;
+    }
+
+    const operator = operatorMatch[1].toLowerCase();
+    const value = operatorMatch[2].replace(/^"(.*)"$/, "$1");
+
+    switch (operator) {
+      case "tag": {
+        const tag = normalizeTag(value);
+        if (tag) query.tags.push(tag);
+        else textParts.push(token);
+        break;
+      }
+      case "color":
+        if ((NOTE_COLORS as readonly string[]).includes(value.toLowerCase())) {
+          query.color = value.toLowerCase() as NoteColor;
+        } else {
+          textParts.push(token);
+        }
+        break;
+      case "pinned": {
+        const pinned = parseBoolean(value.toLowerCase());
+        if (pinned === undefined) textParts.push(token);
+        else query.pinned = pinned;
+        break;
+      }
+      case "before": {
+        const before = parseDate(value, false);
+        if (before === undefined) textParts.push(token);
+        else query.before = before;
+        break;
+      }
+      case "after": {
+        const after = parseDate(value, true);
+        if (after === undefined) textParts.push(token);
+        else query.after = after;
+        break;
+      }
+    }
+  }
+
+  query.text = textParts.join(" ").trim();
+  return query;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Escape a ts_headline result and turn its markers into <mark> tags
+export function renderHighlight(headline: string): string {
+  return escapeHtml(headline)
+    .split(HIGHLIGHT_START).join("<mark>")
+    .split(HIGHLIGHT_STOP).join("</mark>");
+}
@@ -0,0 +1,150 @@
+import path from "path";
+import { escapeHtml, renderHtmlPage, renderNoteBody } from "./note-export";
+import { getSignedToken } from "./signed-tokens";
+import type { Note, NoteShare, NoteShareWithNote } from "@shared/schema";
+
+export const SHARE_PATH_PREFIX = "/s/";
+
+// Shared pages run no scripts and only load images; the password form posts back to itself
+export const SHARE_PAGE_CSP =
+  "default-src 'none'; img-src * data:; style-src 'unsafe-inline'; form-action 'self'; base-uri 'none'; frame-ancestors 'none'";
+
+// Wrong passwords a link, or one visitor across links, may get in a row
+// before having to wait out the window
+const MAX_PASSWORD_FAILURES_PER_SHARE = 5;
+const MAX_PASSWORD_FAILURES_PER_IP = 20;
+const PASSWORD_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+export interface NoteShareSummary {
+  id: number;
+  noteId: number;
+  noteTitle: string;
+  url: string;
+  expiresAt: string | null;
+  hasPassword: boolean;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+export function isShareExpired(share: NoteShare, now: Date = new Date()): boolean {
+  return !!share.expiresAt && new Date(share.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Counts wrong passwords for share links in memory, so that nobody holding
+ * a link can guess its password by trying one after another. Failures are
+ * counted for the link and for the visitor's IP; once either reaches its
+ * limit, the password isn't checked again until the window has passed.
+ */
+export class SharePasswordLimiter {
+  private failures = new Map<string, { count: number; since: number }>();
+
+  /**
+   * Milliseconds until this visitor may try the link's password again, or 0
+   */
+  retryAfter(shareId: number, ip: string, now: number = Date.now()): number {
+    return Math.max(
+      this.lockedFor(`share:${shareId}`, MAX_PASSWORD_FAILURES_PER_SHARE, now),
+      this.lockedFor(`ip:${ip}`, MAX_PASSWORD_FAILURES_PER_IP, now)
+    );
+  }
+
+  recordFailure(shareId: number, ip: string, now: number = Date.now()): void {
+    this.prune(now);
+    for (const key of [`share:${shareId}`, `ip:${ip}`]) {
+      const entry = this.failures.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        this.failures.set(key, { count: 1, since: now });
+      }
+    }
+  }
+
+  private lockedFor(key: string, limit: number, now: number): number {
+    const entry = this.failures.get(key);
+    if (!entry || entry.count < limit) return 0;
+    return Math.max(entry.since + PASSWORD_FAILURE_WINDOW_MS - now, 0);
+  }
+
+  private prune(now: number) {
+    this.failures.forEach((entry, key) => {
+      if (entry.since + PASSWORD_FAILURE_WINDOW_MS <= now) this.failures.delete(key);
+    });
+  }
+}
+
+export const sharePasswordLimiter = new SharePasswordLimiter();
+
+/**
+ * What the owner sees of a share; never includes the password hash
+ */
+export function toShareSummary(share: NoteShareWithNote, baseUrl: string): NoteShareSummary {
+  return {
+    id: share.id,
+    noteId: share.noteId,
+    noteTitle: share.noteTitle || "Untitled",
+    url: `${baseUrl}${SHARE_PATH_PREFIX}${getSignedToken("share", share.tokenId)}`,
+    expiresAt: share.expiresAt,
+    hasPassword: !!share.passwordHash,
+    viewCount: share.viewCount,
+    lastViewedAt: share.lastViewedAt,
+    createdAt: share.createdAt,
+  };
+}
+
+const SHARE_PAGE_STYLES = `
+.shared-drawing { margin-top: 24px; border: 1px solid #e5e7eb; border-radius: 6px; }
+.shared-attachments { margin-top: 24px; padding-top: 12px; border-top: 1px solid #e5e7eb; }
+.shared-attachments h2 { font-size: 1rem; }
+.shared-footer { margin-top: 40px; color: #9ca3af; font-size: 0.8rem; }
+.shared-form input { padding: 6px 8px; border: 1px solid #d1d5db; border-radius: 4px; font-size: 1rem; }
+.shared-form button { padding: 6px 12px; border: 0; border-radius: 4px; background: #1f2937; color: #fff; font-size: 1rem; }
+.shared-error { color: #dc2626; }
+`;
+
+const SHARE_FOOTER = `<p class="shared-footer">Shared read-only from MagicNotebook</p>`;
+
+/**
+ * The read-only page for a shared note: its content, drawing and attachments
+ */
+export function renderSharedNotePage(note: Note): string {
+  const parts = [renderNoteBody(note)];
+
+  if (note.drawingData) {
+    // As an image, so the SVG's own markup is never part of the page
+    const drawing = Buffer.from(note.drawingData).toString("base64");
+    parts.push(`<img class="shared-drawing" src="data:image/svg+xml;base64,${drawing}" alt="Drawing">`);
+  }
+
+  if (note.attachments?.length) {
+    const items = note.attachments.map(url => {
+      const name = path.posix.basename(new URL(url, "http://localhost").pathname);
+      return `<li><a href="${escapeHtml(url)}" rel="noopener noreferrer">${escapeHtml(name)}</a></li>`;
+    });
+    parts.push(`<div class="shared-attachments"><h2>Attachments</h2><ul>${items.join("")}</ul></div>`);
+  }
+
+  parts.push(SHARE_FOOTER);
+  return renderHtmlPage(note.title || "Untitled", parts.join("\n"), SHARE_PAGE_STYLES);
+}
+
+/**
+ * The form asking for a password-protected link's password
+ */
+export function renderSharePasswordPage(error?: string): string {
+  return renderHtmlPage("Password required", `<h1>This note is password protected</h1>
+${error ? `<p class="shared-error">${escapeHtml(error)}</p>` : "<p>Enter the password to view it.</p>"}
+<form class="shared-form" method="post">
+<input type="password" name="password" autofocus required>
+<button type="submit">View note</button>
+</form>
+${SHARE_FOOTER}`, SHARE_PAGE_STYLES);
+}
+
+export function renderShareUnavailablePage(): string {
+  return renderHtmlPage("Link unavailable", `<h1>This link isn't available</h1>
+<p>It may have expired or been revoked by the note's owner.</p>
+${SHARE_FOOTER}`, SHARE_PAGE_STYLES);
+}
@@ -0,0 +1,110 @@
+import type { InsertNote, NoteTemplate, User } from "@shared/schema";
+import { getTemplatePrompts, renderTemplate } from "@shared/templates";
+
+type NoteColor = NonNullable<InsertNote["color"]>;
+
+// Built-in templates are addressed by these ids, user templates by number
+export const BUILT_IN_TEMPLATE_IDS = ["welcome", "meeting-notes", "daily-log", "checklist"] as const;
+export type BuiltInTemplateId = typeof BUILT_IN_TEMPLATE_IDS[number];
+
+interface TemplateSource {
+  name: string;
+  title: string;
+  content: string;
+  color: NoteColor;
+  tags: string[];
+}
+
+const BUILT_IN_TEMPLATES: Record<BuiltInTemplateId, TemplateSource> = {
+  "welcome": {
+    name: "Welcome",
+    title: "Welcome to Magic Notebook",
+    content: "# Welcome to Magic Notebook\n\nStart typing your notes here. Use the formatting options to style your content.\n\nYou can:\n- Take notes with rich formatting\n- Generate trials using commands (with a package)\n- Store all your important ideas in one place\n\nTo use advanced features, select a package below.",
+    color: "yellow",
+    tags: [],
+  },
+  "meeting-notes": {
+    name: "Meeting notes",
+    title: "Meeting with {{prompt:Who}} – {{date}}",
+    content: "# Meeting with {{prompt:Who}}\n\n**Date:** {{weekday}}, {{date}} {{time}}\n**Topic:** {{prompt:Topic}}\n\n## Attendees\n- {{user.username}}\n- {{prompt:Who}}\n\n## Notes\n\n\n## Decisions\n\n\n## Action items\n- [ ] ",
+    color: "blue",
+    tags: ["meetings"],
+  },
+  "daily-log": {
+    name: "Daily log",
+    title: "Daily log – {{date}}",
+    content: "# {{weekday}}, {{date}}\n\n## Plan\n- [ ] \n\n## Log\n- {{time}} \n\n## Wins\n\n\n## Tomorrow\n",
+    color: "green",
+    tags: ["journal"],
+  },
+  "checklist": {
+    name: "Checklist",
+    title: "{{prompt:Checklist name}}",
+    content: "# {{prompt:Checklist name}}\n\n- [ ] \n- [ ] \n- [ ] \n",
+    color: "yellow",
+    tags: [],
+  },
+};
+
+export interface NoteTemplateSummary extends TemplateSource {
+  id: BuiltInTemplateId | number;
+  builtIn: boolean;
+  prompts: string[]; // labels of the {{prompt:...}} placeholders
+}
+
+function summarize(id: BuiltInTemplateId | number, source: TemplateSource, builtIn: boolean): NoteTemplateSummary {
+  return { id, ...source, builtIn, prompts: getTemplatePrompts(source.title, source.content) };
+}
+
+export function getBuiltInTemplate(id: BuiltInTemplateId): NoteTemplateSummary {
+  return summarize(id, BUILT_IN_TEMPLATES[id], true);
+}
+
+export function getUserTemplate(template: NoteTemplate): NoteTemplateSummary {
+  return summarize(template.id, {
+    name: template.name,
+    title: template.title ?? "",
+    content: template.content,
+    color: (template.color ?? "yellow") as NoteColor,
+    tags: template.tags ?? [],
+  }, false);
+}
+
+// Built-ins first, then the user's own templates
+export function listNoteTemplates(userTemplates: NoteTemplate[]): NoteTemplateSummary[] {
+  return [
+    ...BUILT_IN_TEMPLATE_IDS.map(getBuiltInTemplate),
+    ...userTemplates.map(getUserTemplate),
+  ];
+}
+
+/**
+ * The note fields for a new note made from a template, with its
+ * placeholders filled in.
+ */
+export function renderNoteTemplate(
+  template: NoteTemplateSummary,
+  user: Pick<User, "id" | "username" | "email">,
+  options: { prompts?: Record<string, string>; timeZone?: string; date?: string } = {}
+): InsertNote {
+  const now = new Date();
+  const context = {
+    now,
+    timeZone: options.timeZone,
+    date: options.date,
+    user,
+    prompts: options.prompts ?? {},
+  };
+
+  return {
+    userId: user.id,
+    title: renderTemplate(template.title, context),
+    content: renderTemplate(template.content, context),
+    color: template.color,
+    tags: template.tags,
+    isPinned: false,
+    isArchived: false,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
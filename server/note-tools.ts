@@ -0,0 +1,351 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "./storage";
+import { parseSearchQuery } from "./note-search";
+import type { AiTool, AiToolCall, AiToolResult } from "./ai-providers";
+import type { AiToolbox } from "./ai-service";
+import type { AiNoteChange, AiTeamMember, AiToolInvocation, Note } from "@shared/schema";
+import { diffLines, type DiffLine } from "@shared/diff";
+import { noteTagsSchema } from "@shared/tags";
+import { hasWorkspacePermission, type NoteScope } from "@shared/workspaces";
+
+const NOTE_COLORS = ["yellow", "green", "pink", "blue", "purple", "orange"] as const;
+const MAX_SEARCH_RESULTS = 10;
+const SEARCH_PREVIEW_CHARS = 200;
+
+// What a member hears back after proposing a change
+const PROPOSED_RESULT = "Proposed to the user, who will review the change before it is applied.";
+
+// A tool invocation as the client shows it: with the change to the note's text as a diff
+export type AiToolInvocationView = AiToolInvocation & {
+  diff: DiffLine[] | null;
+};
+
+const noteIdProperty = { type: "integer", description: "The note's id, as given in the note context or search results" };
+
+export const NOTE_TOOLS: AiTool[] = [
+  {
+    name: "search_notes",
+    description: "Search the user's notes. Supports tag:, color:, pinned:, before: and after: operators alongside free text. Returns each note's id, title, tags and the start of its text.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string" },
+        limit: { type: "integer", minimum: 1, maximum: MAX_SEARCH_RESULTS },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "create_note",
+    description: "Propose a new note. The user reviews it before it is created.",
+    parameters: {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        content: { type: "string", description: "Markdown" },
+        tags: { type: "array", items: { type: "string" } },
+        color: { type: "string", enum: NOTE_COLORS },
+      },
+      required: ["title", "content"],
+    },
+  },
+  {
+    name: "append_to_note",
+    description: "Propose adding text to the end of a note. The user reviews it before it is applied.",
+    parameters: {
+      type: "object",
+      properties: {
+        noteId: noteIdProperty,
+        text: { type: "string", description: "Markdown" },
+      },
+      required: ["noteId", "text"],
+    },
+  },
+  {
+    name: "replace_section",
+    description: "Propose new text for the section under a Markdown heading of a note, up to the next heading of the same or a higher level. The heading itself stays. The user reviews it before it is applied.",
+    parameters: {
+      type: "object",
+      properties: {
+        noteId: noteIdProperty,
+        heading: { type: "string", description: "The heading's text, without the #s" },
+        content: { type: "string", description: "Markdown" },
+      },
+      required: ["noteId", "heading", "content"],
+    },
+  },
+  {
+    name: "add_tags",
+    description: "Propose adding tags to a note. The user reviews it before it is applied.",
+    parameters: {
+      type: "object",
+      properties: {
+        noteId: noteIdProperty,
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["noteId", "tags"],
+    },
+  },
+  {
+    name: "set_color",
+    description: "Propose a new color for a note. The user reviews it before it is applied.",
+    parameters: {
+      type: "object",
+      properties: {
+        noteId: noteIdProperty,
+        color: { type: "string", enum: NOTE_COLORS },
+      },
+      required: ["noteId", "color"],
+    },
+  },
+  {
+    name: "pin_note",
+    description: "Propose pinning or unpinning a note. The user reviews it before it is applied.",
+    parameters: {
+      type: "object",
+      properties: {
+        noteId: noteIdProperty,
+        pinned: { type: "boolean" },
+      },
+      required: ["noteId", "pinned"],
+    },
+  },
+  {
+    name: "archive_note",
+    description: "Propose archiving or unarchiving a note. The user reviews it before it is applied.",
+    parameters: {
+      type: "object",
+      properties: {
+        noteId: noteIdProperty,
+        archived: { type: "boolean" },
+      },
+      required: ["noteId", "archived"],
+    },
+  },
+];
+
+const noteIdSchema = z.number().int().positive();
+
+const searchNotesSchema = z.object({
+  query: z.string(),
+  limit: z.number().int().min(1).max(MAX_SEARCH_RESULTS).default(MAX_SEARCH_RESULTS),
+});
+const createNoteSchema = z.object({
+  title: z.string().trim().min(1),
+  content: z.string(),
+  tags: noteTagsSchema.default([]),
+  color: z.enum(NOTE_COLORS).default("yellow"),
+});
+const appendToNoteSchema = z.object({ noteId: noteIdSchema, text: z.string().trim().min(1) });
+const replaceSectionSchema = z.object({ noteId: noteIdSchema, heading: z.string().trim().min(1), content: z.string() });
+const addTagsSchema = z.object({ noteId: noteIdSchema, tags: noteTagsSchema });
+const setColorSchema = z.object({ noteId: noteIdSchema, color: z.enum(NOTE_COLORS) });
+const pinNoteSchema = z.object({ noteId: noteIdSchema, pinned: z.boolean() });
+const archiveNoteSchema = z.object({ noteId: noteIdSchema, archived: z.boolean() });
+
+// How a call turned out, before it's logged
+interface ToolOutcome {
+  status: "executed" | "pending" | "failed";
+  result: string;
+  noteId?: number;
+  before?: AiNoteChange;
+  after?: AiNoteChange;
+}
+
+function failed(result: string): ToolOutcome {
+  return { status: "failed", result };
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+/**
+ * Swaps the text under a Markdown heading, up to the next heading of the
+ * same or a higher level, for new text. Undefined if there's no such heading.
+ */
+export function replaceSection(content: string, heading: string, body: string): string | undefined {
+  const lines = content.split("\n");
+  const wanted = heading.replace(/^#+\s*/, "").trim().toLowerCase();
+
+  const start = lines.findIndex(line => HEADING_PATTERN.exec(line)?.[2].toLowerCase() === wanted);
+  if (start === -1) return undefined;
+
+  const level = HEADING_PATTERN.exec(lines[start])![1].length;
+  let end = start + 1;
+  while (end < lines.length) {
+    const match = HEADING_PATTERN.exec(lines[end]);
+    if (match && match[1].length <= level) break;
+    end++;
+  }
+
+  const section = body.trim() ? ["", ...body.trim().split("\n")] : [];
+  const rest = lines.slice(end);
+  return [...lines.slice(0, start + 1), ...section, ...(rest.length ? ["", ...rest] : [])].join("\n");
+}
+
+function appendText(content: string, text: string): string {
+  const existing = content.trimEnd();
+  return existing ? `${existing}\n\n${text.trim()}` : text.trim();
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// The note's current values for the fields a change touches
+function currentFields(note: Note, change: AiNoteChange): AiNoteChange {
+  const fields: Record<string, unknown> = {};
+  for (const key of Object.keys(change)) {
+    fields[key] = note[key as keyof AiNoteChange];
+  }
+  return fields as AiNoteChange;
+}
+
+/**
+ * Whether the fields a proposal changes still hold what they did when it was
+ * made. If not, applying it would throw away the edits made since.
+ */
+export function isNoteUnchangedSince(note: Note, invocation: AiToolInvocation): boolean {
+  const before: Record<string, unknown> = invocation.before ?? {};
+  return Object.keys(invocation.after ?? {}).every(key => sameValue(note[key as keyof AiNoteChange], before[key]));
+}
+
+export function toInvocationView(invocation: AiToolInvocation): AiToolInvocationView {
+  const content = invocation.after?.content;
+  return {
+    ...invocation,
+    diff: content === undefined ? null : diffLines(invocation.before?.content ?? "", content),
+  };
+}
+
+/**
+ * The note tools for one chat reply. Searching runs straight away; changes
+ * are checked against what the user may edit and saved as proposals for the
+ * user to approve. Every call is logged to ai_tool_invocations.
+ */
+export class NoteToolbox implements AiToolbox {
+  readonly tools = NOTE_TOOLS;
+
+  constructor(
+    private userId: number,
+    private member: AiTeamMember,
+    private scope: NoteScope,
+    private onInvocation?: (invocation: AiToolInvocationView) => void
+  ) {}
+
+  async run(call: AiToolCall): Promise<AiToolResult> {
+    let outcome: ToolOutcome;
+    try {
+      outcome = await this.runTool(call);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        outcome = failed(`Invalid input: ${fromZodError(error).message}`);
+      } else {
+        console.error(`Error running AI tool ${call.name}:`, error);
+        outcome = failed("Something went wrong running this tool.");
+      }
+    }
+
+    const invocation = await storage.createAiToolInvocation({
+      userId: this.userId,
+      aiTeamMemberId: this.member.id,
+      workspaceId: this.scope.workspaceId,
+      noteId: outcome.noteId ?? null,
+      tool: call.name,
+      input: call.input ?? null,
+      status: outcome.status,
+      before: outcome.before ?? null,
+      after: outcome.after ?? null,
+      result: outcome.result,
+      createdAt: new Date().toISOString(),
+    });
+    this.onInvocation?.(toInvocationView(invocation));
+
+    return { content: outcome.result, isError: outcome.status === "failed" };
+  }
+
+  private async runTool({ name, input }: AiToolCall): Promise<ToolOutcome> {
+    switch (name) {
+      case "search_notes": {
+        const { query, limit } = searchNotesSchema.parse(input);
+        return await this.searchNotes(query, limit);
+      }
+      case "create_note": {
+        const { title, content, tags, color } = createNoteSchema.parse(input);
+        if (!hasWorkspacePermission(this.scope.role, "edit")) {
+          return failed("The user can't add notes here.");
+        }
+        return { status: "pending", result: PROPOSED_RESULT, after: { title, content, tags, color } };
+      }
+      case "append_to_note": {
+        const { noteId, text } = appendToNoteSchema.parse(input);
+        return await this.proposeChange(noteId, note => ({ content: appendText(note.content, text) }));
+      }
+      case "replace_section": {
+        const { noteId, heading, content } = replaceSectionSchema.parse(input);
+        return await this.proposeChange(noteId, note => {
+          const updated = replaceSection(note.content, heading, content);
+          return updated === undefined ? `The note has no heading "${heading}".` : { content: updated };
+        });
+      }
+      case "add_tags": {
+        const { noteId, tags } = addTagsSchema.parse(input);
+        return await this.proposeChange(noteId, note => ({
+          tags: Array.from(new Set([...(note.tags ?? []), ...tags])),
+        }));
+      }
+      case "set_color": {
+        const { noteId, color } = setColorSchema.parse(input);
+        return await this.proposeChange(noteId, () => ({ color }));
+      }
+      case "pin_note": {
+        const { noteId, pinned } = pinNoteSchema.parse(input);
+        return await this.proposeChange(noteId, () => ({ isPinned: pinned }));
+      }
+      case "archive_note": {
+        const { noteId, archived } = archiveNoteSchema.parse(input);
+        return await this.proposeChange(noteId, () => ({ isArchived: archived }));
+      }
+      default:
+        return failed(`Unknown tool: ${name}`);
+    }
+  }
+
+  private async searchNotes(query: string, limit: number): Promise<ToolOutcome> {
+    const results = await storage.searchNotes(this.scope, parseSearchQuery(query), limit);
+    if (results.length === 0) {
+      return { status: "executed", result: "No notes matched." };
+    }
+
+    const lines = results.map(note => {
+      const tags = note.tags?.length ? ` [tags: ${note.tags.join(", ")}]` : "";
+      const preview = note.content.slice(0, SEARCH_PREVIEW_CHARS).replace(/\s+/g, " ").trim();
+      return `- Note ${note.id}: ${note.title || "Untitled"}${tags}\n  ${preview}`;
+    });
+    return { status: "executed", result: lines.join("\n") };
+  }
+
+  // A change to a note the user can edit, or why it can't be made
+  private async proposeChange(noteId: number, change: (note: Note) => AiNoteChange | string): Promise<ToolOutcome> {
+    const access = await storage.getNoteAccess(this.userId, noteId);
+    if (!access || access.note.deletedAt) {
+      return failed(`Note ${noteId} not found.`);
+    }
+    if (!hasWorkspacePermission(access.scope.role, "edit")) {
+      return failed(`The user can't edit note ${noteId}.`);
+    }
+
+    const after = change(access.note);
+    if (typeof after === "string") {
+      return { ...failed(after), noteId };
+    }
+
+    const before = currentFields(access.note, after);
+    if (Object.keys(after).every(key => sameValue(after[key as keyof AiNoteChange], before[key as keyof AiNoteChange]))) {
+      return { status: "executed", result: "Nothing to change; the note is already like that.", noteId };
+    }
+
+    // The title is kept so the proposal can say which note it's for
+    return { status: "pending", result: PROPOSED_RESULT, noteId, before: { title: access.note.title ?? "", ...before }, after };
+  }
+}
@@ -0,0 +1,507 @@
+import { deflateSync } from "zlib";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import type { List, PhrasingContent, RootContent } from "mdast";
+
+// A small PDF writer for note exports. Text is set in the standard Helvetica
+// and Courier fonts that every PDF reader has built in, so no fonts are
+// embedded and no outside renderer is needed. Images are named by their alt
+// text rather than drawn.
+
+const PAGE_WIDTH = 595; // A4, in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_HEIGHT = 20;
+
+const TITLE_SIZE = 22;
+const BODY_SIZE = 11;
+const CODE_SIZE = 9.5;
+const HEADING_SIZES = [18, 15, 13, 12, 11, 11];
+const LINE_SPACING = 1.35;
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+const MUTED_GRAY = 0.4;
+
+type FontName = "regular" | "bold" | "italic" | "code";
+
+const FONTS: Record<FontName, { id: string; baseFont: string }> = {
+  regular: { id: "F1", baseFont: "Helvetica" },
+  bold: { id: "F2", baseFont: "Helvetica-Bold" },
+  italic: { id: "F3", baseFont: "Helvetica-Oblique" },
+  code: { id: "F4", baseFont: "Courier" },
+};
+
+// Glyph widths (per 1000 units of font size) for characters 32-126, from the
+// standard Helvetica metrics. The oblique face shares the regular widths and
+// Courier is monospaced at 600.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const COURIER_WIDTH = 600;
+const DEFAULT_WIDTH = 556; // accented letters and other Latin-1 characters
+
+// Characters that WinAnsiEncoding places in 128-159; Latin-1 covers 160-255
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 128, "‚": 130, "„": 132, "…": 133, "‘": 145, "’": 146,
+  "“": 147, "”": 148, "•": 149, "–": 150, "—": 151, "™": 153,
+};
+
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkMath).freeze();
+
+interface Run {
+  text: string; // already in WinAnsi, one char per byte
+  font: FontName;
+}
+
+interface Block {
+  runs: Run[];
+  size: number;
+  indent: number;
+  spaceBefore: number;
+  gray?: number;
+  marker?: string; // list bullet or number, set to the left of the first line
+  preformatted?: boolean;
+  rule?: boolean;
+}
+
+interface Segment {
+  x: number;
+  text: string;
+  font: FontName;
+}
+
+export interface PdfDocument {
+  title: string;
+  subtitle?: string;
+  markdown: string;
+}
+
+// Characters outside WinAnsi become "?"; tabs become spaces
+function toWinAnsi(text: string): string {
+  let result = "";
+  for (const char of Array.from(text)) {
+    const code = char.charCodeAt(0);
+    if (char === "\t") {
+      result += "    ";
+    } else if (char === "\n" || (code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      result += char;
+    } else if (char in WIN_ANSI_EXTRAS) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else if (code >= 32) {
+      result += "?";
+    }
+  }
+  return result;
+}
+
+function textWidth(text: string, font: FontName, size: number): number {
+  let units = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (font === "code") {
+      units += COURIER_WIDTH;
+    } else if (code >= 32 && code <= 126) {
+      units += (font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+    } else {
+      units += DEFAULT_WIDTH;
+    }
+  }
+  return (units * size) / 1000;
+}
+
+// Literal strings keep the file ASCII: bytes outside it are octal escapes
+function escapePdfString(text: string): string {
+  let result = "";
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (text[i] === "\\" || text[i] === "(" || text[i] === ")") {
+      result += `\\${text[i]}`;
+    } else if (code < 32 || code > 126) {
+      result += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      result += text[i];
+    }
+  }
+  return result;
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(2)));
+}
+
+function plainText(nodes: PhrasingContent[]): string {
+  return inlineRuns(nodes).map(run => run.text).join("");
+}
+
+function inlineRuns(nodes: PhrasingContent[], font: FontName = "regular"): Run[] {
+  const runs: Run[] = [];
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        runs.push({ text: toWinAnsi(node.value), font });
+        break;
+      case "strong":
+        runs.push(...inlineRuns(node.children, "bold"));
+        break;
+      case "emphasis":
+        runs.push(...inlineRuns(node.children, font === "bold" ? "bold" : "italic"));
+        break;
+      case "inlineCode":
+      case "inlineMath":
+        runs.push({ text: toWinAnsi(node.value), font: "code" });
+        break;
+      case "break":
+        runs.push({ text: "\n", font });
+        break;
+      case "link": {
+        runs.push(...inlineRuns(node.children, font));
+        // Spell out the target, since the PDF has no clickable links
+        if (node.url && !node.url.startsWith("#") && node.url !== plainText(node.children)) {
+          runs.push({ text: toWinAnsi(` (${node.url})`), font });
+        }
+        break;
+      }
+      case "image":
+        runs.push({ text: toWinAnsi(`[Image: ${node.alt || node.url}]`), font: "italic" });
+        break;
+      case "html":
+        runs.push({ text: toWinAnsi(node.value.replace(/<[^>]*>/g, "")), font });
+        break;
+      default:
+        if ("children" in node) {
+          runs.push(...inlineRuns(node.children as PhrasingContent[], font));
+        } else if ("value" in node && typeof node.value === "string") {
+          runs.push({ text: toWinAnsi(node.value), font });
+        }
+    }
+  }
+
+  return runs;
+}
+
+function collectListBlocks(list: List, indent: number, blocks: Block[]) {
+  list.children.forEach((item, index) => {
+    let marker = list.ordered ? `${(list.start ?? 1) + index}.` : "•";
+    if (typeof item.checked === "boolean") {
+      marker = item.checked ? "[x]" : "[ ]";
+    }
+
+    const itemBlocks: Block[] = [];
+    collectBlocks(item.children, indent + LIST_INDENT, itemBlocks);
+    if (itemBlocks.length === 0 || itemBlocks[0].marker || itemBlocks[0].rule) {
+      itemBlocks.unshift({ runs: [], size: BODY_SIZE, indent: indent + LIST_INDENT, spaceBefore: 0 });
+    }
+
+    itemBlocks[0].marker = toWinAnsi(marker);
+    if (!list.spread) itemBlocks[0].spaceBefore = 2;
+    blocks.push(...itemBlocks);
+  });
+}
+
+function collectBlocks(nodes: RootContent[], indent: number, blocks: Block[]) {
+  for (const node of nodes) {
+    switch (node.type) {
+      case "heading":
+        blocks.push({
+          runs: inlineRuns(node.children, "bold"),
+          size: HEADING_SIZES[node.depth - 1],
+          indent,
+          spaceBefore: 14,
+        });
+        break;
+      case "paragraph":
+        blocks.push({ runs: inlineRuns(node.children), size: BODY_SIZE, indent, spaceBefore: 6 });
+        break;
+      case "list":
+        collectListBlocks(node, indent, blocks);
+        break;
+      case "blockquote": {
+        const quoteBlocks: Block[] = [];
+        collectBlocks(node.children, indent + QUOTE_INDENT, quoteBlocks);
+        blocks.push(...quoteBlocks.map(block => ({ ...block, gray: MUTED_GRAY })));
+        break;
+      }
+      case "code":
+      case "math":
+        blocks.push({
+          runs: [{ text: toWinAnsi(node.value), font: "code" }],
+          size: CODE_SIZE,
+          indent: indent + 8,
+          spaceBefore: 6,
+          preformatted: true,
+        });
+        break;
+      case "thematicBreak":
+        blocks.push({ runs: [], size: BODY_SIZE, indent, spaceBefore: 6, rule: true });
+        break;
+      case "table":
+        node.children.forEach((row, rowIndex) => {
+          const runs: Run[] = [];
+          row.children.forEach((cell, cellIndex) => {
+            if (cellIndex > 0) runs.push({ text: "  |  ", font: "regular" });
+            runs.push(...inlineRuns(cell.children, rowIndex === 0 ? "bold" : "regular"));
+          });
+          blocks.push({ runs, size: BODY_SIZE, indent, spaceBefore: rowIndex === 0 ? 6 : 2 });
+        });
+        break;
+      case "html": {
+        const text = node.value.replace(/<[^>]*>/g, "").trim();
+        if (text) blocks.push({ runs: [{ text: toWinAnsi(text), font: "regular" }], size: BODY_SIZE, indent, spaceBefore: 6 });
+        break;
+      }
+      default:
+        if ("children" in node) {
+          collectBlocks(node.children as RootContent[], indent, blocks);
+        }
+    }
+  }
+}
+
+// Break runs into lines that fit the width, at spaces where possible
+function wrapRuns(runs: Run[], size: number, width: number): Segment[][] {
+  const lines: Segment[][] = [];
+  let line: Segment[] = [];
+  let x = 0;
+
+  const endLine = () => {
+    lines.push(line);
+    line = [];
+    x = 0;
+  };
+  const place = (text: string, font: FontName) => {
+    const last = line[line.length - 1];
+    if (last && last.font === font) {
+      last.text += text;
+    } else {
+      line.push({ x, text, font });
+    }
+    x += textWidth(text, font, size);
+  };
+
+  for (const run of runs) {
+    for (const piece of run.text.match(/\n| +|[^ \n]+/g) || []) {
+      if (piece === "\n") {
+        endLine();
+      } else if (piece.startsWith(" ")) {
+        if (line.length > 0) place(piece, run.font);
+      } else if (x + textWidth(piece, run.font, size) <= width) {
+        place(piece, run.font);
+      } else {
+        if (line.length > 0) endLine();
+        // A word wider than the whole line is split wherever it runs out
+        let rest = piece;
+        while (textWidth(rest, run.font, size) > width) {
+          let fit = 1;
+          while (fit < rest.length && textWidth(rest.slice(0, fit + 1), run.font, size) <= width) fit++;
+          place(rest.slice(0, fit), run.font);
+          endLine();
+          rest = rest.slice(fit);
+        }
+        if (rest) place(rest, run.font);
+      }
+    }
+  }
+
+  if (line.length > 0 || lines.length === 0) lines.push(line);
+  return lines;
+}
+
+// Code keeps its spacing; long lines wrap at the column limit
+function wrapPreformatted(run: Run, size: number, width: number): Segment[][] {
+  const columns = Math.max(1, Math.floor(width / ((COURIER_WIDTH * size) / 1000)));
+  const lines: Segment[][] = [];
+
+  for (const sourceLine of run.text.split("\n")) {
+    for (let start = 0; start === 0 || start < sourceLine.length; start += columns) {
+      lines.push([{ x: 0, text: sourceLine.slice(start, start + columns), font: run.font }]);
+    }
+  }
+
+  return lines;
+}
+
+class PageLayout {
+  pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  private newPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  // Move down by height, starting a new page if it doesn't fit
+  private advance(height: number) {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT && this.ops.length > 0) {
+      this.newPage();
+    }
+    this.y -= height;
+  }
+
+  text(x: number, y: number, text: string, font: FontName, size: number, gray = 0) {
+    if (!text) return;
+    this.ops.push(
+      `BT /${FONTS[font].id} ${formatNumber(size)} Tf ${formatNumber(gray)} g ` +
+      `1 0 0 1 ${formatNumber(x)} ${formatNumber(y)} Tm (${escapePdfString(text)}) Tj ET`
+    );
+  }
+
+  addBlock(block: Block, isFirst: boolean) {
+    if (!isFirst) this.y -= block.spaceBefore;
+    const left = MARGIN + block.indent;
+    const width = CONTENT_WIDTH - block.indent;
+
+    if (block.rule) {
+      this.advance(8);
+      this.ops.push(`0.75 G 0.5 w ${left} ${formatNumber(this.y)} m ${MARGIN + CONTENT_WIDTH} ${formatNumber(this.y)} l S`);
+      this.y -= 4;
+      return;
+    }
+
+    const lines = block.preformatted
+      ? wrapPreformatted(block.runs[0], block.size, width)
+      : wrapRuns(block.runs, block.size, width);
+    const lineHeight = block.size * LINE_SPACING;
+
+    lines.forEach((line, index) => {
+      this.advance(lineHeight);
+      if (index === 0 && block.marker) {
+        const markerWidth = textWidth(block.marker, "regular", block.size);
+        this.text(left - markerWidth - 6, this.y, block.marker, "regular", block.size, block.gray);
+      }
+      for (const segment of line) {
+        this.text(left + segment.x, this.y, segment.text, segment.font, block.size, block.gray);
+      }
+    });
+  }
+
+  // "n / total" centred at the foot of every page
+  addPageNumbers() {
+    this.pages.forEach((ops, index) => {
+      const label = `${index + 1} / ${this.pages.length}`;
+      const x = (PAGE_WIDTH - textWidth(label, "regular", 9)) / 2;
+      ops.push(`BT /${FONTS.regular.id} 9 Tf ${MUTED_GRAY} g 1 0 0 1 ${formatNumber(x)} ${MARGIN / 2} Tm (${label}) Tj ET`);
+    });
+  }
+}
+
+// PDF text strings outside ASCII are written as UTF-16BE with a byte order mark
+function encodeInfoString(text: string): string {
+  const utf16 = Buffer.from(text, "utf16le").swap16();
+  return `<FEFF${utf16.toString("hex").toUpperCase()}>`;
+}
+
+function assemblePdf(pages: string[][], title: string): Buffer {
+  const objects: Buffer[] = [];
+  const addObject = (body: string | Buffer) => {
+    objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body);
+    return objects.length;
+  };
+
+  const fontNames = Object.keys(FONTS) as FontName[];
+  const catalogId = addObject("<< /Type /Catalog /Pages 2 0 R >>");
+  const pagesId = addObject(""); // filled in once the pages exist
+  const fontIds = fontNames.map(name =>
+    addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[name].baseFont} /Encoding /WinAnsiEncoding >>`)
+  );
+  const infoId = addObject(`<< /Title ${encodeInfoString(title)} /Producer (MagicNotebook) >>`);
+  const fontResources = fontNames.map((name, index) => `/${FONTS[name].id} ${fontIds[index]} 0 R`).join(" ");
+
+  const pageIds = pages.map(ops => {
+    const content = deflateSync(Buffer.from(ops.join("\n"), "latin1"));
+    const contentId = addObject(Buffer.concat([
+      Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+      content,
+      Buffer.from("\nendstream", "latin1"),
+    ]));
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`
+    );
+  });
+  objects[pagesId - 1] = Buffer.from(
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+    "latin1"
+  );
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n", "latin1")];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((body, index) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+      body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+    "",
+  ].join("\n");
+  chunks.push(Buffer.from(xref, "latin1"));
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Lay out a Markdown document on A4 pages and return the PDF file
+ */
+export function renderPdf(document: PdfDocument): Buffer {
+  const blocks: Block[] = [
+    { runs: [{ text: toWinAnsi(document.title || "Untitled"), font: "bold" }], size: TITLE_SIZE, indent: 0, spaceBefore: 0 },
+  ];
+  if (document.subtitle) {
+    blocks.push({
+      runs: [{ text: toWinAnsi(document.subtitle), font: "regular" }],
+      size: 9,
+      indent: 0,
+      spaceBefore: 4,
+      gray: MUTED_GRAY,
+    });
+  }
+  blocks.push({ runs: [], size: BODY_SIZE, indent: 0, spaceBefore: 4, rule: true });
+  collectBlocks(parser.parse(document.markdown).children, 0, blocks);
+
+  const layout = new PageLayout();
+  blocks.forEach((block, index) => layout.addBlock(block, index === 0));
+  layout.addPageNumbers();
+
+  return assemblePdf(layout.pages, document.title || "Untitled");
+}
@@ -1,16 +1,34 @@
 import express, { type Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, decodeNoteCursor } from "./storage";
 import { 
   insertNoteSchema, 
   insertCommandExecutionSchema,
   insertAiTeamMemberSchema,
   insertAiChatMessageSchema,
   users,
-  userPackages as userPackagesSchema
+  userPackages as userPackagesSchema,
+  type Note
 } from "@shared/schema";
 import * as schema from "@shared/schema";
+import { mergeText } from "@shared/collab";
+import { diffLines } from "@shared/diff";
+import { isReactionEmoji } from "@shared/reactions";
+import { tagSchema, noteTagsSchema } from "@shared/tags";
+import { NOTEBOOK_DELETE_MODES, wouldCreateNotebookCycle } from "@shared/notebooks";
+import {
+  INVITABLE_ROLES,
+  WORKSPACE_HEADER,
+  WORKSPACE_ROLES,
+  getPersonalScope,
+  hasWorkspacePermission,
+  type NoteScope,
+  type WorkspacePermission
+} from "@shared/workspaces";
 import { aiService, initializeAiService } from "./ai-service";
+import { buildNoteContext, loadContextNotes } from "./note-context";
+import { noteEmbeddings } from "./note-embeddings";
+import { NoteToolbox, isNoteUnchangedSince, toInvocationView } from "./note-tools";
 import { z } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { setupAuth } from "./auth";
@@ -19,12 +37,37 @@ import { promisify } from "util";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
 import { paymentService } from "./payment-verification";
-import { upload, processImage, getFileUrl } from "./upload-handler";
+import { upload, processImage, getFileUrl, deleteUploadedFile } from "./upload-handler";
+import { parseSearchQuery } from "./note-search";
+import { BUILT_IN_TEMPLATE_IDS, getBuiltInTemplate, getUserTemplate, listNoteTemplates, renderNoteTemplate } from "./note-templates";
+import { isValidTimeZone } from "@shared/templates";
+import { dailyDateSchema, getTodayInTimeZone, shiftDailyDate } from "@shared/daily-notes";
+import { importService } from "./import-service";
+import { IMPORT_FORMATS } from "@shared/import";
+import { NOTE_EXPORT_FORMATS, getNoteFileBaseName, noteToHtml, noteToMarkdown, noteToPdf, writeAccountExport } from "./note-export";
+import {
+  SHARE_PAGE_CSP,
+  SHARE_PATH_PREFIX,
+  isShareExpired,
+  renderSharePasswordPage,
+  renderSharedNotePage,
+  renderShareUnavailablePage,
+  sharePasswordLimiter,
+  toShareSummary
+} from "./note-shares";
+import { createSignedToken, getSignedToken, verifySignedToken } from "./signed-tokens";
+import { noteCollaboration } from "./note-collab";
 import path from "path";
 import fs from "fs";
 
 const scryptAsync = promisify(scrypt);
 
+// Upper bound for a note's drawingData (SVG markup)
+const MAX_DRAWING_SIZE = 1024 * 1024;
+
+// Notes that can be picked as context for one AI chat message
+const MAX_CONTEXT_NOTES = 10;
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
@@ -52,6 +95,11 @@ async function comparePasswords(supplied: string, stored: string) {
   }
 }
 
+// One Server-Sent Events message
+function writeEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Register all API routes (prefixed with /api)
   
@@ -122,6 +170,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return res.status(401).json({ message: "Not authenticated" });
   };
 
+  const PERMISSION_DENIED_MESSAGES: Record<WorkspacePermission, string> = {
+    view: "You don't have access to this workspace",
+    comment: "Your role in this workspace doesn't allow reacting to notes",
+    edit: "Your role in this workspace doesn't allow changing notes",
+    manage: "Only the workspace's owners can do that",
+  };
+
+  // Scope middleware for routes that list or create notes, notebooks and
+  // tags: the workspace named by the X-Workspace-Id header, or the user's own
+  // notes without it. Exposed to the handler as res.locals.scope once the
+  // user's role there allows the given permission.
+  const requireNoteScope = (permission: WorkspacePermission = "view") => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const header = req.get(WORKSPACE_HEADER);
+        const workspaceId = header ? parseInt(header) : null;
+        const scope: NoteScope | undefined = workspaceId === null
+          ? getPersonalScope(req.user!.id)
+          : isNaN(workspaceId) ? undefined : await storage.getWorkspaceScope(req.user!.id, workspaceId);
+        
+        if (!scope) {
+          return res.status(404).json({ message: "Workspace not found" });
+        }
+        if (!hasWorkspacePermission(scope.role, permission)) {
+          return res.status(403).json({ message: PERMISSION_DENIED_MESSAGES[permission] });
+        }
+        
+        res.locals.scope = scope;
+        next();
+      } catch (error) {
+        console.error("Error resolving workspace:", error);
+        res.status(500).json({ message: "Failed to resolve workspace" });
+      }
+    };
+  };
+
+  // Access middleware for per-note routes: loads the note named by the given
+  // route parameter if the user can see it (their own, or in one of their
+  // workspaces) and their role allows the permission. The handler gets it as
+  // res.locals.note, and the note's scope as res.locals.scope. Notes in the
+  // trash are read-only: editing one is refused unless allowTrashed is set
+  // (restoring it, or trashing it again).
+  const requireNoteAccess = (
+    permission: WorkspacePermission = "view",
+    param: string = "id",
+    { allowTrashed = false }: { allowTrashed?: boolean } = {}
+  ) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const noteId = parseInt(req.params[param]);
+        const access = isNaN(noteId) ? undefined : await storage.getNoteAccess(req.user!.id, noteId);
+        
+        if (!access) {
+          return res.status(404).json({ message: "Note not found or you don't have permission to edit it" });
+        }
+        if (!hasWorkspacePermission(access.scope.role, permission)) {
+          return res.status(403).json({ message: PERMISSION_DENIED_MESSAGES[permission] });
+        }
+        // Notes in the trash are read-only: no edits, comments or reactions
+        if (access.note.deletedAt && permission !== "view" && !allowTrashed) {
+          return res.status(400).json({ message: "Notes in the trash can't be changed. Restore the note first." });
+        }
+        
+        res.locals.note = access.note;
+        res.locals.scope = access.scope;
+        next();
+      } catch (error) {
+        console.error("Error verifying note access:", error);
+        res.status(500).json({ message: "Failed to verify note access" });
+      }
+    };
+  };
+
+  // Loads the notebook named by the route parameter from res.locals.scope
+  // (so it follows requireNoteScope) as res.locals.notebook
+  const requireNotebookAccess = (param: string = "id") => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const notebookId = parseInt(req.params[param]);
+        const notebook = isNaN(notebookId) ? undefined : await storage.getNotebook(res.locals.scope, notebookId);
+        
+        if (!notebook) {
+          return res.status(404).json({ message: "Notebook not found or you don't have permission to edit it" });
+        }
+        
+        res.locals.notebook = notebook;
+        next();
+      } catch (error) {
+        console.error("Error verifying notebook access:", error);
+        res.status(500).json({ message: "Failed to verify notebook access" });
+      }
+    };
+  };
+  
+  // Notebook ids sent in request bodies must be in the same scope as the
+  // notes they're for (null means no notebook)
+  const isNotebookInScope = async (scope: NoteScope, notebookId: number | null | undefined) => {
+    return notebookId === null || notebookId === undefined || !!await storage.getNotebook(scope, notebookId);
+  };
+  
+  const notebookIdSchema = z.number().int().positive().nullable();
+  
+  // Built-in templates go by name, the user's own by id
+  const templateIdSchema = z.union([z.enum(BUILT_IN_TEMPLATE_IDS), z.coerce.number().int().positive()]);
+
   // Get all packages (public route, no authentication required)
   app.get("/api/packages", async (req: Request, res: Response) => {
     const packages = await storage.getPackages();
@@ -175,6 +328,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Update the user's note settings (daily note time zone and template)
+  app.patch("/api/user/settings", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const settingsSchema = z.object({
+        timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").nullable().optional(),
+        dailyNoteTemplate: z.union([templateIdSchema.transform(String), z.null()]).optional(),
+      });
+      const settings = settingsSchema.parse(req.body);
+      
+      if (settings.dailyNoteTemplate && /^\d+$/.test(settings.dailyNoteTemplate) &&
+          !await storage.getNoteTemplate(req.user!.id, Number(settings.dailyNoteTemplate))) {
+        return res.status(400).json({ message: "Template not found" });
+      }
+      
+      const { password, ...updatedUser } = await storage.updateUserSettings(req.user!.id, settings);
+      
+      res.json(updatedUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating user settings:", error);
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+  
   // Update user profile
   app.patch("/api/user/profile", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -347,79 +526,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get default user's note (legacy endpoint for backward compatibility)
+  // Get the note the main editor opens; it's saved by id like any other
   app.get("/api/notes", isAuthenticated, async (req: Request, res: Response) => {
-    const note = await storage.getNoteByUserId(req.user!.id);
-    
-    if (!note) {
-      // Create a default note if none exists
-      const defaultNote = await storage.createNote({
-        userId: req.user!.id,
-        title: "Welcome to Magic Notebook",
-        content: "# Welcome to Magic Notebook\n\nStart typing your notes here. Use the formatting options to style your content.\n\nYou can:\n- Take notes with rich formatting\n- Generate trials using commands (with a package)\n- Store all your important ideas in one place\n\nTo use advanced features, select a package below.",
-        color: "yellow",
-        isPinned: false,
-        isArchived: false,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      });
+    try {
+      const note = await storage.getDefaultNote(req.user!.id);
       
-      return res.json(defaultNote);
+      if (!note) {
+        // Create a default note if none exists
+        const defaultNote = await storage.createNote(renderNoteTemplate(getBuiltInTemplate("welcome"), req.user!));
+        
+        return res.json(defaultNote);
+      }
+      
+      res.json(note);
+    } catch (error) {
+      console.error("Error fetching default note:", error);
+      res.status(500).json({ message: "Failed to fetch note" });
     }
-    
-    res.json(note);
   });
   
-  // Get all user's notes
-  app.get("/api/notes/all", isAuthenticated, async (req: Request, res: Response) => {
+  // Get user's notes a page at a time, with sorting and filters
+  app.get("/api/notes/all", isAuthenticated, requireNoteScope(), async (req: Request, res: Response) => {
     try {
-      const notes = await storage.getAllNotesByUserId(req.user!.id);
+      const query = schema.noteListQuerySchema.parse(req.query);
+      const scope: NoteScope = res.locals.scope;
       
-      // If no notes exist, create a default one
-      if (notes.length === 0) {
-        const defaultNote = await storage.createNote({
-          userId: req.user!.id,
-          title: "Welcome to Magic Notebook",
-          content: "# Welcome to Magic Notebook\n\nStart typing your notes here. Use the formatting options to style your content.\n\nYou can:\n- Take notes with rich formatting\n- Generate trials using commands (with a package)\n- Store all your important ideas in one place\n\nTo use advanced features, select a package below.",
-          color: "yellow",
-          isPinned: false,
-          isArchived: false,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        });
+      if (query.cursor && !decodeNoteCursor(query.cursor, query.sort)) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      
+      const page = await storage.listNotes(scope, query);
+      
+      // If the user has no notes of their own at all, create a default one
+      if (page.notes.length === 0 && !query.cursor && scope.workspaceId === null && !await storage.getDefaultNote(req.user!.id)) {
+        const defaultNote = await storage.createNote(renderNoteTemplate(getBuiltInTemplate("welcome"), req.user!));
         
-        return res.json([defaultNote]);
+        return res.json({ notes: [defaultNote], nextCursor: null });
       }
       
-      res.json(notes);
+      res.json(page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error fetching notes:", error);
       res.status(500).json({ message: "An error occurred while fetching notes" });
     }
   });
 
-  // Update user's note content
-  app.post("/api/notes", isAuthenticated, async (req: Request, res: Response) => {
+  // Full-text search over the user's (or the workspace's) notes
+  // Supports tag:, color:, pinned:, before: and after: operators alongside free text
+  app.get("/api/notes/search", isAuthenticated, requireNoteScope(), async (req: Request, res: Response) => {
+    try {
+      const searchSchema = z.object({
+        q: z.string().default(""),
+        limit: z.coerce.number().int().min(1).max(100).default(50)
+      });
+      
+      const { q, limit } = searchSchema.parse(req.query);
+      const results = await storage.searchNotes(res.locals.scope, parseSearchQuery(q), limit);
+      
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error searching notes:", error);
+      res.status(500).json({ message: "An error occurred while searching notes" });
+    }
+  });
+
+  // Notes closest in meaning to the query, whatever words they use
+  app.get("/api/notes/semantic", isAuthenticated, requireNoteScope(), async (req: Request, res: Response) => {
+    try {
+      const semanticSchema = z.object({
+        q: z.string().default(""),
+        limit: z.coerce.number().int().min(1).max(50).default(20)
+      });
+      
+      const { q, limit } = semanticSchema.parse(req.query);
+      const results = await noteEmbeddings.search(res.locals.scope, q, limit);
+      
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error in semantic note search:", error);
+      res.status(500).json({ message: "An error occurred while searching notes" });
+    }
+  });
+
+  // Resolve a [[Note Title]] link to the note it points at
+  app.get("/api/notes/lookup", isAuthenticated, requireNoteScope(), async (req: Request, res: Response) => {
     try {
-      const contentSchema = z.object({ content: z.string() });
-      const { content } = contentSchema.parse(req.body);
+      const lookupSchema = z.object({ title: z.string().trim().min(1) });
+      const { title } = lookupSchema.parse(req.query);
       
-      let note = await storage.getNoteByUserId(req.user!.id);
+      const note = await storage.getNoteByTitle(res.locals.scope, title);
       
       if (!note) {
-        // Create new note
-        note = await storage.createNote({
-          userId: req.user!.id,
-          title: "New Note",
-          content,
-          color: "yellow",
-          isPinned: false,
-          isArchived: false,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        });
-      } else {
-        // Update existing note
-        note = await storage.updateNote(note.id, content);
+        return res.status(404).json({ message: "Note not found" });
       }
       
       res.json(note);
@@ -427,32 +634,197 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
       }
-      res.status(500).json({ message: "An error occurred while saving the note" });
+      console.error("Error looking up note:", error);
+      res.status(500).json({ message: "An error occurred while looking up the note" });
+    }
+  });
+
+  // Days with a daily note between from and to (inclusive), for the calendar
+  app.get("/api/notes/daily", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const rangeSchema = z.object({ from: dailyDateSchema, to: dailyDateSchema })
+        .refine(({ from, to }) => from <= to && to <= shiftDailyDate(from, 366), "Range must be at most a year");
+      const { from, to } = rangeSchema.parse(req.query);
+      
+      const days = await storage.getDailyNoteDays(req.user!.id, from, to);
+      
+      res.json(days);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error fetching daily notes:", error);
+      res.status(500).json({ message: "Failed to fetch daily notes" });
     }
   });
   
-  // Update note properties (title, color, isPinned, isArchived)
-  app.patch("/api/notes/:id", isAuthenticated, async (req: Request, res: Response) => {
+  // The daily note for a date ("today" is resolved in the user's time zone).
+  // It is created from the user's daily template the first time it's opened.
+  app.get("/api/notes/daily/:date", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const user = req.user!;
+      const timeZone = user.timeZone ?? "UTC";
+      const date = req.params.date === "today"
+        ? getTodayInTimeZone(timeZone)
+        : dailyDateSchema.parse(req.params.date);
+      
+      const existingNote = await storage.getDailyNote(user.id, date);
+      if (existingNote && !existingNote.deletedAt) {
+        return res.json(existingNote);
+      }
+      
+      // A trashed daily note gives up its date so the day can start afresh
+      if (existingNote) {
+        await storage.updateNoteProps(existingNote.id, { dailyDate: null });
+      }
+      
+      // Fall back to the daily log when the chosen template was deleted
+      const templateId = templateIdSchema.safeParse(user.dailyNoteTemplate ?? "daily-log");
+      const userTemplate = templateId.success && typeof templateId.data === "number"
+        ? await storage.getNoteTemplate(user.id, templateId.data)
+        : undefined;
+      const template = userTemplate
+        ? getUserTemplate(userTemplate)
+        : getBuiltInTemplate(templateId.success && typeof templateId.data === "string" ? templateId.data : "daily-log");
+      
+      const note = await storage.createDailyNote({
+        ...renderNoteTemplate(template, user, { timeZone, date }),
+        dailyDate: date
+      });
+      
+      res.json(note);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error opening daily note:", error);
+      res.status(500).json({ message: "Failed to open daily note" });
+    }
+  });
+
+  // Get the trashed notes of the user (or the workspace)
+  app.get("/api/notes/trash", isAuthenticated, requireNoteScope(), async (req: Request, res: Response) => {
+    try {
+      const notes = await storage.getDeletedNotes(res.locals.scope);
+      res.json(notes);
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ message: "An error occurred while fetching the trash" });
+    }
+  });
+
+  // Get a single note (used to follow [[#id]] links)
+  app.get("/api/notes/:id", isAuthenticated, requireNoteAccess(), async (req: Request, res: Response) => {
+    res.json(res.locals.note);
+  });
+
+  // Notes whose content links to this note
+  app.get("/api/notes/:id/backlinks", isAuthenticated, requireNoteAccess(), async (req: Request, res: Response) => {
+    try {
+      const note: Note = res.locals.note;
+      const backlinks = await storage.getBacklinks(res.locals.scope, note);
+      
+      res.json(backlinks);
+    } catch (error) {
+      console.error("Error fetching backlinks:", error);
+      res.status(500).json({ message: "Failed to fetch backlinks" });
+    }
+  });
+
+  // Download a note as Markdown (with front-matter), a standalone HTML page or a PDF
+  app.get("/api/notes/:id/export", isAuthenticated, requireNoteAccess(), async (req: Request, res: Response) => {
+    try {
+      const exportSchema = z.object({ format: z.enum(NOTE_EXPORT_FORMATS).default("md") });
+      const { format } = exportSchema.parse(req.query);
+      const note: Note = res.locals.note;
+      
+      res.attachment(`${getNoteFileBaseName(note)}.${format}`);
+      if (format === "pdf") {
+        res.send(noteToPdf(note));
+      } else {
+        res.send(format === "html" ? noteToHtml(note) : noteToMarkdown(note));
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error exporting note:", error);
+      res.status(500).json({ message: "Failed to export note" });
+    }
+  });
+
+  // Create a public, read-only link to the note, optionally expiring and/or password protected
+  app.post("/api/notes/:id/share", isAuthenticated, requireNoteAccess("edit"), async (req: Request, res: Response) => {
+    try {
+      const shareSchema = z.object({
+        expiresAt: z.string().datetime().nullable().optional()
+          .refine(value => !value || new Date(value).getTime() > Date.now(), { message: "Expiry must be in the future" }),
+        password: z.string().min(4).max(200).nullable().optional(),
+      });
+      const { expiresAt, password } = shareSchema.parse(req.body ?? {});
+      const note: Note = res.locals.note;
+      
+      const { tokenId } = createSignedToken("share");
+      const share = await storage.createNoteShare({
+        noteId: note.id,
+        userId: req.user!.id,
+        tokenId,
+        passwordHash: password ? await hashPassword(password) : null,
+        expiresAt: expiresAt ?? null,
+        createdAt: new Date().toISOString()
+      });
+      
+      res.status(201).json(toShareSummary({ ...share, noteTitle: note.title ?? "" }, `${req.protocol}://${req.get('host')}`));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error sharing note:", error);
+      res.status(500).json({ message: "Failed to share note" });
+    }
+  });
+
+  // After a rename, point [[Old Title]] links in the note's neighbours at the note's current title
+  app.post("/api/notes/:id/rewrite-references", isAuthenticated, requireNoteAccess("edit"), async (req: Request, res: Response) => {
+    try {
+      const rewriteSchema = z.object({ fromTitle: z.string().trim().min(1) });
+      
+      const note: Note = res.locals.note;
+      const { fromTitle } = rewriteSchema.parse(req.body);
+      
+      if (!note.title?.trim()) {
+        return res.status(400).json({ message: "Note has no title to point links at" });
+      }
+      
+      const updatedNotes = await storage.rewriteNoteReferences(res.locals.scope, fromTitle, note.title);
+      updatedNotes.forEach(updatedNote => noteCollaboration.syncContent(updatedNote));
+      
+      res.json({ updated: updatedNotes.length, notes: updatedNotes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error rewriting note references:", error);
+      res.status(500).json({ message: "Failed to update links to the note" });
+    }
+  });
+
+  // Update note properties (title, color, isPinned, isArchived, tags)
+  app.patch("/api/notes/:id", isAuthenticated, requireNoteAccess("edit"), async (req: Request, res: Response) => {
     try {
       const notePropsSchema = z.object({
         title: z.string().optional(),
         color: z.enum(["yellow", "green", "pink", "blue", "purple", "orange"]).optional(),
         isPinned: z.boolean().optional(),
         isArchived: z.boolean().optional(),
+        tags: noteTagsSchema.optional(),
       });
       
-      const noteId = parseInt(req.params.id);
+      const note: Note = res.locals.note;
       const props = notePropsSchema.parse(req.body);
       
-      // Get the note to verify ownership
-      const note = await storage.getNoteByUserId(req.user!.id);
-      
-      if (!note || note.id !== noteId) {
-        return res.status(404).json({ message: "Note not found or you don't have permission to edit it" });
-      }
-      
       // Update the note properties
-      const updatedNote = await storage.updateNoteProps(noteId, props);
+      const updatedNote = await storage.updateNoteProps(note.id, props, { userId: req.user!.id });
       
       res.json(updatedNote);
     } catch (error) {
@@ -463,21 +835,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Create a new note
-  app.post("/api/notes/new", isAuthenticated, async (req: Request, res: Response) => {
+  // Create a new note. With ?templateId= the note is made from a template
+  // instead, and the body carries the answers to its {{prompt:...}} placeholders.
+  app.post("/api/notes/new", isAuthenticated, requireNoteScope("edit"), async (req: Request, res: Response) => {
     try {
+      const scope: NoteScope = res.locals.scope;
+      
+      if (req.query.templateId !== undefined) {
+        const templateId = templateIdSchema.parse(req.query.templateId);
+        const fromTemplateSchema = z.object({
+          prompts: z.record(z.string().max(1000)).default({}),
+          timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+          notebookId: notebookIdSchema.default(null),
+        });
+        const { prompts, timeZone, notebookId } = fromTemplateSchema.parse(req.body ?? {});
+        
+        const userTemplate = typeof templateId === "number"
+          ? await storage.getNoteTemplate(req.user!.id, templateId)
+          : undefined;
+        const template = typeof templateId === "number"
+          ? userTemplate && getUserTemplate(userTemplate)
+          : getBuiltInTemplate(templateId);
+        
+        if (!template) {
+          return res.status(404).json({ message: "Template not found" });
+        }
+        if (!await isNotebookInScope(scope, notebookId)) {
+          return res.status(400).json({ message: "Notebook not found" });
+        }
+        
+        const note = await storage.createNote({
+          ...renderNoteTemplate(template, req.user!, { prompts, timeZone }),
+          workspaceId: scope.workspaceId,
+          notebookId
+        });
+        
+        return res.status(201).json(note);
+      }
+      
       const newNoteSchema = z.object({
         title: z.string().default("New Note"),
         content: z.string().default(""),
         color: z.enum(["yellow", "green", "pink", "blue", "purple", "orange"]).default("yellow"),
         isPinned: z.boolean().default(false),
         isArchived: z.boolean().default(false),
+        tags: noteTagsSchema.default([]),
+        notebookId: notebookIdSchema.default(null),
       });
       
       const noteData = newNoteSchema.parse(req.body);
       
+      if (!await isNotebookInScope(scope, noteData.notebookId)) {
+        return res.status(400).json({ message: "Notebook not found" });
+      }
+      
       const note = await storage.createNote({
         userId: req.user!.id,
+        workspaceId: scope.workspaceId,
         ...noteData,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
@@ -493,29 +907,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Enhanced note update with all properties
-  app.patch("/api/notes/:id/enhanced", isAuthenticated, async (req: Request, res: Response) => {
+  app.patch("/api/notes/:id/enhanced", isAuthenticated, requireNoteAccess("edit"), async (req: Request, res: Response) => {
     try {
       const enhancedNoteSchema = z.object({
         title: z.string().optional(),
         content: z.string().optional(),
+        // The content the edit started from, so that it can be merged with
+        // what others changed since instead of overwriting it
+        baseContent: z.string().optional(),
         color: z.enum(["yellow", "green", "pink", "blue", "purple", "orange"]).optional(),
         backgroundColor: z.string().optional(),
         textAlign: z.enum(["left", "center", "right"]).optional(),
         fontSize: z.enum(["small", "normal", "large"]).optional(),
         isPinned: z.boolean().optional(),
         isArchived: z.boolean().optional(),
-        tags: z.array(z.string()).optional(),
-        emojis: z.string().optional(),
-        drawingData: z.string().optional(),
+        tags: noteTagsSchema.optional(),
+        // Sketches from the drawing canvas, stored as an SVG document ("" clears it)
+        drawingData: z.string()
+          .max(MAX_DRAWING_SIZE, "Drawing is too large")
+          .refine(value => value === "" || /^<svg[\s>]/.test(value.trimStart()), "Drawing must be an SVG document")
+          .optional(),
       });
       
-      const noteId = parseInt(req.params.id);
-      const props = enhancedNoteSchema.parse(req.body);
+      const note: Note = res.locals.note;
+      const { baseContent, ...props } = enhancedNoteSchema.parse(req.body);
+      let liveContent: string | undefined;
       
-      // Verify note ownership
-      const note = await storage.getNoteByUserId(req.user!.id);
-      if (!note || note.id !== noteId) {
-        return res.status(404).json({ message: "Note not found or you don't have permission to edit it" });
+      if (props.content !== undefined) {
+        if (baseContent === undefined) {
+          // Saving the whole text would undo what's being typed live
+          if (noteCollaboration.isOpen(note.id)) {
+            return res.status(409).json({ message: "This note is being edited live; reload it to see the latest changes" });
+          }
+        } else {
+          liveContent = noteCollaboration.mergeContent(note.id, baseContent, props.content, req.user!.id);
+          if (liveContent !== undefined) {
+            // The live session saves it
+            delete props.content;
+          } else {
+            props.content = mergeText(baseContent, props.content, note.content);
+          }
+        }
       }
       
       // Add updated timestamp
@@ -525,9 +957,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       // Update the note with all the enhanced properties
-      const updatedNote = await storage.updateNoteProps(noteId, updatedProps);
+      const updatedNote = await storage.updateNoteProps(note.id, updatedProps, { userId: req.user!.id });
       
-      res.json(updatedNote);
+      // Pass the text on to anyone who started a live session meanwhile
+      if (props.content !== undefined) {
+        noteCollaboration.syncContent(updatedNote);
+      }
+      
+      res.json(liveContent === undefined ? updatedNote : { ...updatedNote, content: liveContent });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
@@ -537,21 +974,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // File upload for note attachments
-  app.post("/api/notes/:id/upload", isAuthenticated, upload.single('file'), processImage, async (req: Request, res: Response) => {
+  // Add the current user's reaction to a note (reacting twice is a no-op)
+  app.post("/api/notes/:id/reactions/:emoji", isAuthenticated, requireNoteAccess("comment"), async (req: Request, res: Response) => {
     try {
-      const noteId = parseInt(req.params.id);
+      const note: Note = res.locals.note;
+      const { emoji } = req.params;
       
-      // Verify note ownership
-      const note = await storage.getNoteByUserId(req.user!.id);
-      if (!note || note.id !== noteId) {
-        // Clean up any uploaded file if note doesn't exist
-        if (req.file && fs.existsSync(req.file.path)) {
-          fs.unlinkSync(req.file.path);
-        }
-        return res.status(404).json({ message: "Note not found or you don't have permission to edit it" });
+      if (!isReactionEmoji(emoji)) {
+        return res.status(400).json({ message: "Reaction must be a single emoji" });
+      }
+      
+      const updatedNote = await storage.addNoteReaction(note.id, req.user!.id, emoji);
+      
+      res.json(updatedNote);
+    } catch (error) {
+      console.error("Error adding reaction:", error);
+      res.status(500).json({ message: "Failed to add reaction" });
+    }
+  });
+  
+  // Remove the current user's reaction from a note
+  app.delete("/api/notes/:id/reactions/:emoji", isAuthenticated, requireNoteAccess("comment"), async (req: Request, res: Response) => {
+    try {
+      const note: Note = res.locals.note;
+      const { emoji } = req.params;
+      
+      if (!isReactionEmoji(emoji)) {
+        return res.status(400).json({ message: "Reaction must be a single emoji" });
+      }
+      
+      const updatedNote = await storage.removeNoteReaction(note.id, req.user!.id, emoji);
+      
+      res.json(updatedNote);
+    } catch (error) {
+      console.error("Error removing reaction:", error);
+      res.status(500).json({ message: "Failed to remove reaction" });
+    }
+  });
+  
+  // Move a note into a notebook, or out of all notebooks with notebookId: null
+  app.post("/api/notes/:id/move", isAuthenticated, requireNoteAccess("edit"), async (req: Request, res: Response) => {
+    try {
+      const moveSchema = z.object({ notebookId: notebookIdSchema });
+      const { notebookId } = moveSchema.parse(req.body);
+      const note: Note = res.locals.note;
+      
+      if (!await isNotebookInScope(res.locals.scope, notebookId)) {
+        return res.status(400).json({ message: "Notebook not found" });
+      }
+      
+      const movedNote = await storage.updateNoteProps(note.id, { notebookId });
+      
+      res.json(movedNote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error moving note:", error);
+      res.status(500).json({ message: "Failed to move note" });
+    }
+  });
+  
+  // Copy a note, into its own notebook unless another one is given
+  app.post("/api/notes/:id/copy", isAuthenticated, requireNoteAccess("edit"), async (req: Request, res: Response) => {
+    try {
+      const copySchema = z.object({ notebookId: notebookIdSchema.optional() });
+      const note: Note = res.locals.note;
+      const { notebookId = note.notebookId } = copySchema.parse(req.body ?? {});
+      
+      if (!await isNotebookInScope(res.locals.scope, notebookId)) {
+        return res.status(400).json({ message: "Notebook not found" });
+      }
+      
+      const copiedNote = await storage.copyNote(note, notebookId, req.user!.id);
+      
+      res.status(201).json(copiedNote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error copying note:", error);
+      res.status(500).json({ message: "Failed to copy note" });
+    }
+  });
+  
+  // Move a note to the trash (it is purged for good after the retention window)
+  app.delete("/api/notes/:id", isAuthenticated, requireNoteAccess("edit", "id", { allowTrashed: true }), async (req: Request, res: Response) => {
+    try {
+      const note: Note = res.locals.note;
+      const deletedNote = await storage.softDeleteNote(note.id);
+      noteCollaboration.refreshAccess({ noteIds: [note.id] });
+      
+      res.json(deletedNote);
+    } catch (error) {
+      console.error("Error deleting note:", error);
+      res.status(500).json({ message: "Failed to delete note" });
+    }
+  });
+  
+  // Restore a note from the trash
+  app.post("/api/notes/:id/restore", isAuthenticated, requireNoteAccess("edit", "id", { allowTrashed: true }), async (req: Request, res: Response) => {
+    try {
+      const note: Note = res.locals.note;
+      
+      if (!note.deletedAt) {
+        return res.status(400).json({ message: "Note is not in the trash" });
       }
       
+      const restoredNote = await storage.restoreNote(note.id);
+      noteCollaboration.refreshAccess({ noteIds: [note.id] });
+      
+      res.json(restoredNote);
+    } catch (error) {
+      console.error("Error restoring note:", error);
+      res.status(500).json({ message: "Failed to restore note" });
+    }
+  });
+  
+  // File upload for note attachments
+  // Access is checked before multer runs so files are never written for foreign notes
+  app.post("/api/notes/:id/upload", isAuthenticated, requireNoteAccess("edit"), upload.single('file'), processImage, async (req: Request, res: Response) => {
+    try {
+      const note: Note = res.locals.note;
+      
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
@@ -564,7 +1109,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const newAttachments = [...existingAttachments, fileUrl];
       
       // Update note with new attachment
-      const updatedNote = await storage.updateNoteProps(noteId, {
+      const updatedNote = await storage.updateNoteProps(note.id, {
         attachments: newAttachments,
         updatedAt: new Date().toISOString()
       });
@@ -587,17 +1132,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Delete attachment from note
-  app.delete("/api/notes/:noteId/attachments/:filename", isAuthenticated, async (req: Request, res: Response) => {
+  app.delete("/api/notes/:noteId/attachments/:filename", isAuthenticated, requireNoteAccess("edit", "noteId"), async (req: Request, res: Response) => {
     try {
-      const noteId = parseInt(req.params.noteId);
+      const note: Note = res.locals.note;
       const filename = req.params.filename;
       
-      // Verify note ownership
-      const note = await storage.getNoteByUserId(req.user!.id);
-      if (!note || note.id !== noteId) {
-        return res.status(404).json({ message: "Note not found or you don't have permission to edit it" });
-      }
-      
       // Find the file URL to remove
       const attachments = note.attachments || [];
       const fileUrl = attachments.find(url => url.includes(filename));
@@ -610,26 +1149,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const newAttachments = attachments.filter(url => url !== fileUrl);
       
       // Update note without the attachment
-      const updatedNote = await storage.updateNoteProps(noteId, {
+      const updatedNote = await storage.updateNoteProps(note.id, {
         attachments: newAttachments,
         updatedAt: new Date().toISOString()
       });
       
       // Try to delete the physical file (ignoring errors if it doesn't exist)
-      try {
-        const isImage = fileUrl.includes('/images/');
-        const filePath = path.join(
-          process.cwd(),
-          'uploads',
-          isImage ? 'images' : 'files',
-          filename
-        );
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
-        }
-      } catch (err) {
-        console.warn("Could not delete physical file:", err);
-      }
+      deleteUploadedFile(fileUrl);
       
       res.json({
         message: "Attachment deleted successfully",
@@ -641,6 +1167,742 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List a note's revision history, newest first
+  app.get("/api/notes/:id/revisions", isAuthenticated, requireNoteAccess(), async (req: Request, res: Response) => {
+    try {
+      const note: Note = res.locals.note;
+      const revisions = await storage.getNoteRevisions(note.id);
+      
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching note revisions:", error);
+      res.status(500).json({ message: "Failed to fetch note revisions" });
+    }
+  });
+  
+  // Line-level diff between two revisions of a note
+  app.get("/api/notes/:id/revisions/diff", isAuthenticated, requireNoteAccess(), async (req: Request, res: Response) => {
+    try {
+      const diffQuerySchema = z.object({
+        from: z.coerce.number().int(),
+        to: z.coerce.number().int()
+      });
+      
+      const note: Note = res.locals.note;
+      const { from, to } = diffQuerySchema.parse(req.query);
+      
+      const fromRevision = await storage.getNoteRevision(note.id, from);
+      const toRevision = await storage.getNoteRevision(note.id, to);
+      
+      if (!fromRevision || !toRevision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      res.json({
+        from: fromRevision,
+        to: toRevision,
+        titleChanged: fromRevision.title !== toRevision.title,
+        lines: diffLines(fromRevision.content, toRevision.content)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error diffing note revisions:", error);
+      res.status(500).json({ message: "Failed to diff note revisions" });
+    }
+  });
+  
+  // Restore a note to an earlier revision (the restore itself becomes a new revision)
+  app.post("/api/notes/:id/revisions/:revisionId/restore", isAuthenticated, requireNoteAccess("edit"), async (req: Request, res: Response) => {
+    try {
+      const note: Note = res.locals.note;
+      const revision = await storage.getNoteRevision(note.id, parseInt(req.params.revisionId));
+      
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      const updatedNote = await storage.updateNoteProps(note.id, {
+        title: revision.title ?? "",
+        content: revision.content
+      }, { userId: req.user!.id, newRevision: true });
+      noteCollaboration.syncContent(updatedNote);
+      
+      res.json(updatedNote);
+    } catch (error) {
+      console.error("Error restoring note revision:", error);
+      res.status(500).json({ message: "Failed to restore note revision" });
+    }
+  });
+
+  // Tags in use, with the number of notes carrying each one
+  app.get("/api/tags", isAuthenticated, requireNoteScope(), async (req: Request, res: Response) => {
+    try {
+      const tags = await storage.getTagCounts(res.locals.scope);
+      res.json(tags);
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  // Rename a tag across all notes; tags nested under it move with it, and
+  // renaming onto an existing tag merges them
+  app.post("/api/tags/rename", isAuthenticated, requireNoteScope("edit"), async (req: Request, res: Response) => {
+    try {
+      const renameSchema = z.object({ from: tagSchema, to: tagSchema });
+      const { from, to } = renameSchema.parse(req.body);
+      
+      const updated = await storage.renameTag(res.locals.scope, from, to);
+      
+      res.json({ updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error renaming tag:", error);
+      res.status(500).json({ message: "Failed to rename tag" });
+    }
+  });
+
+  // Merge several tags into one
+  app.post("/api/tags/merge", isAuthenticated, requireNoteScope("edit"), async (req: Request, res: Response) => {
+    try {
+      const mergeSchema = z.object({
+        sources: z.array(tagSchema).min(1),
+        target: tagSchema,
+      });
+      const { sources, target } = mergeSchema.parse(req.body);
+      
+      const updated = await storage.mergeTags(res.locals.scope, sources, target);
+      
+      res.json({ updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error merging tags:", error);
+      res.status(500).json({ message: "Failed to merge tags" });
+    }
+  });
+
+  // Remove a tag (and the tags nested under it) from all notes
+  // The tag is URL-encoded, so nested tags arrive as a single segment
+  app.delete("/api/tags/:tag", isAuthenticated, requireNoteScope("edit"), async (req: Request, res: Response) => {
+    try {
+      const tag = tagSchema.parse(req.params.tag);
+      const updated = await storage.deleteTag(res.locals.scope, tag);
+      
+      res.json({ updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error deleting tag:", error);
+      res.status(500).json({ message: "Failed to delete tag" });
+    }
+  });
+
+  // The user's (or the workspace's) notebooks as a flat list; the client builds the tree from parentId
+  app.get("/api/notebooks", isAuthenticated, requireNoteScope(), async (req: Request, res: Response) => {
+    try {
+      const notebooks = await storage.getNotebooks(res.locals.scope);
+      res.json(notebooks);
+    } catch (error) {
+      console.error("Error fetching notebooks:", error);
+      res.status(500).json({ message: "Failed to fetch notebooks" });
+    }
+  });
+
+  // Create a notebook, at the top level or inside parentId
+  app.post("/api/notebooks", isAuthenticated, requireNoteScope("edit"), async (req: Request, res: Response) => {
+    try {
+      const notebookSchema = z.object({
+        name: z.string().trim().min(1).max(100),
+        parentId: notebookIdSchema.default(null),
+      });
+      const { name, parentId } = notebookSchema.parse(req.body);
+      const scope: NoteScope = res.locals.scope;
+      
+      if (!await isNotebookInScope(scope, parentId)) {
+        return res.status(400).json({ message: "Parent notebook not found" });
+      }
+      
+      const notebook = await storage.createNotebook({
+        userId: req.user!.id,
+        workspaceId: scope.workspaceId,
+        name,
+        parentId,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      });
+      
+      res.status(201).json(notebook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating notebook:", error);
+      res.status(500).json({ message: "Failed to create notebook" });
+    }
+  });
+
+  // Rename a notebook or move it under another parent
+  app.patch("/api/notebooks/:id", isAuthenticated, requireNoteScope("edit"), requireNotebookAccess(), async (req: Request, res: Response) => {
+    try {
+      const notebookPropsSchema = z.object({
+        name: z.string().trim().min(1).max(100).optional(),
+        parentId: notebookIdSchema.optional(),
+      });
+      const props = notebookPropsSchema.parse(req.body);
+      const notebook: schema.Notebook = res.locals.notebook;
+      
+      if (props.parentId !== undefined) {
+        if (!await isNotebookInScope(res.locals.scope, props.parentId)) {
+          return res.status(400).json({ message: "Parent notebook not found" });
+        }
+        
+        const notebooks = await storage.getNotebooks(res.locals.scope);
+        if (wouldCreateNotebookCycle(notebooks, notebook.id, props.parentId)) {
+          return res.status(400).json({ message: "A notebook can't be moved inside itself" });
+        }
+      }
+      
+      const updatedNotebook = await storage.updateNotebook(notebook.id, props);
+      
+      res.json(updatedNotebook);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating notebook:", error);
+      res.status(500).json({ message: "Failed to update notebook" });
+    }
+  });
+
+  // Delete a notebook. ?mode=move (the default) hands its notes and child
+  // notebooks to the parent; ?mode=trash trashes every note in the subtree.
+  app.delete("/api/notebooks/:id", isAuthenticated, requireNoteScope("edit"), requireNotebookAccess(), async (req: Request, res: Response) => {
+    try {
+      const mode = z.enum(NOTEBOOK_DELETE_MODES).default("move").parse(req.query.mode);
+      const notebook: schema.Notebook = res.locals.notebook;
+      
+      const updated = await storage.deleteNotebook(notebook, mode);
+      if (mode === "trash") {
+        // Which notes were in the subtree isn't returned, so check every open one
+        noteCollaboration.refreshAccess();
+      }
+      
+      res.json({ updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error deleting notebook:", error);
+      res.status(500).json({ message: "Failed to delete notebook" });
+    }
+  });
+
+  // Loads the workspace named by the :id route parameter if the user is a
+  // member whose role allows the permission (res.locals.workspace and
+  // res.locals.scope)
+  const requireWorkspaceAccess = (permission: WorkspacePermission = "view") => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const workspaceId = parseInt(req.params.id);
+        const scope = isNaN(workspaceId) ? undefined : await storage.getWorkspaceScope(req.user!.id, workspaceId);
+        const workspace = scope ? await storage.getWorkspace(workspaceId) : undefined;
+        
+        if (!scope || !workspace) {
+          return res.status(404).json({ message: "Workspace not found" });
+        }
+        if (!hasWorkspacePermission(scope.role, permission)) {
+          return res.status(403).json({ message: PERMISSION_DENIED_MESSAGES[permission] });
+        }
+        
+        res.locals.workspace = workspace;
+        res.locals.scope = scope;
+        next();
+      } catch (error) {
+        console.error("Error verifying workspace access:", error);
+        res.status(500).json({ message: "Failed to verify workspace access" });
+      }
+    };
+  };
+  
+  const workspaceNameSchema = z.object({ name: z.string().trim().min(1).max(100) });
+  
+  // What owners see of an invitation: the link to send, not the stored tokenId
+  const toInvitationSummary = (invitation: schema.WorkspaceInvitation, req: Request) => ({
+    id: invitation.id,
+    role: invitation.role,
+    url: `${req.protocol}://${req.get('host')}/invite/${getSignedToken("invitation", invitation.tokenId)}`,
+    expiresAt: invitation.expiresAt,
+    createdAt: invitation.createdAt,
+  });
+  
+  // A workspace must always keep at least one owner
+  const isLastOwner = async (workspaceId: number, member: schema.WorkspaceMember) => {
+    if (member.role !== "owner") return false;
+    const members = await storage.getWorkspaceMembers(workspaceId);
+    return members.filter(other => other.role === "owner").length <= 1;
+  };
+
+  // Workspaces the user belongs to, with their role in each
+  app.get("/api/workspaces", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const workspaces = await storage.getWorkspaces(req.user!.id);
+      res.json(workspaces);
+    } catch (error) {
+      console.error("Error fetching workspaces:", error);
+      res.status(500).json({ message: "Failed to fetch workspaces" });
+    }
+  });
+
+  // Create a workspace; the user becomes its owner
+  app.post("/api/workspaces", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { name } = workspaceNameSchema.parse(req.body);
+      const now = new Date().toISOString();
+      
+      const workspace = await storage.createWorkspace({
+        name,
+        createdBy: req.user!.id,
+        createdAt: now,
+        updatedAt: now
+      });
+      
+      res.status(201).json({ ...workspace, role: "owner", memberCount: 1 });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating workspace:", error);
+      res.status(500).json({ message: "Failed to create workspace" });
+    }
+  });
+
+  // Rename a workspace
+  app.patch("/api/workspaces/:id", isAuthenticated, requireWorkspaceAccess("manage"), async (req: Request, res: Response) => {
+    try {
+      const { name } = workspaceNameSchema.parse(req.body);
+      const workspace = await storage.updateWorkspace(res.locals.workspace.id, { name });
+      
+      res.json(workspace);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error renaming workspace:", error);
+      res.status(500).json({ message: "Failed to rename workspace" });
+    }
+  });
+
+  // Delete a workspace for everyone, with all of its notes and notebooks
+  app.delete("/api/workspaces/:id", isAuthenticated, requireWorkspaceAccess("manage"), async (req: Request, res: Response) => {
+    try {
+      const deletedNotes = await storage.deleteWorkspace(res.locals.workspace.id);
+      noteCollaboration.refreshAccess({ noteIds: deletedNotes.map(note => note.id) });
+      
+      for (const note of deletedNotes) {
+        for (const fileUrl of note.attachments || []) {
+          deleteUploadedFile(fileUrl);
+        }
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting workspace:", error);
+      res.status(500).json({ message: "Failed to delete workspace" });
+    }
+  });
+
+  // Members of a workspace and their roles
+  app.get("/api/workspaces/:id/members", isAuthenticated, requireWorkspaceAccess(), async (req: Request, res: Response) => {
+    try {
+      const members = await storage.getWorkspaceMembers(res.locals.workspace.id);
+      res.json(members);
+    } catch (error) {
+      console.error("Error fetching workspace members:", error);
+      res.status(500).json({ message: "Failed to fetch workspace members" });
+    }
+  });
+
+  // Change a member's role
+  app.patch("/api/workspaces/:id/members/:userId", isAuthenticated, requireWorkspaceAccess("manage"), async (req: Request, res: Response) => {
+    try {
+      const roleSchema = z.object({ role: z.enum(WORKSPACE_ROLES) });
+      const { role } = roleSchema.parse(req.body);
+      const workspaceId: number = res.locals.workspace.id;
+      
+      const userId = parseInt(req.params.userId);
+      const member = isNaN(userId) ? undefined : await storage.getWorkspaceMember(workspaceId, userId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (role !== "owner" && await isLastOwner(workspaceId, member)) {
+        return res.status(400).json({ message: "A workspace needs at least one owner" });
+      }
+      
+      const updatedMember = await storage.updateWorkspaceMemberRole(member.id, role);
+      noteCollaboration.refreshAccess({ userId: member.userId });
+      
+      res.json(updatedMember);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error changing member role:", error);
+      res.status(500).json({ message: "Failed to change member role" });
+    }
+  });
+
+  // Remove a member. Owners can remove anyone; everyone can leave.
+  app.delete("/api/workspaces/:id/members/:userId", isAuthenticated, requireWorkspaceAccess(), async (req: Request, res: Response) => {
+    try {
+      const scope: NoteScope = res.locals.scope;
+      const workspaceId: number = res.locals.workspace.id;
+      const userId = parseInt(req.params.userId);
+      
+      if (userId !== req.user!.id && !hasWorkspacePermission(scope.role, "manage")) {
+        return res.status(403).json({ message: PERMISSION_DENIED_MESSAGES.manage });
+      }
+      
+      const member = isNaN(userId) ? undefined : await storage.getWorkspaceMember(workspaceId, userId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (await isLastOwner(workspaceId, member)) {
+        return res.status(400).json({ message: "A workspace needs at least one owner; delete it instead" });
+      }
+      
+      await storage.removeWorkspaceMember(member.id);
+      noteCollaboration.refreshAccess({ userId: member.userId });
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error removing workspace member:", error);
+      res.status(500).json({ message: "Failed to remove workspace member" });
+    }
+  });
+
+  // Invitations that haven't been used yet
+  app.get("/api/workspaces/:id/invitations", isAuthenticated, requireWorkspaceAccess("manage"), async (req: Request, res: Response) => {
+    try {
+      const invitations = await storage.getWorkspaceInvitations(res.locals.workspace.id);
+      res.json(invitations.map(invitation => toInvitationSummary(invitation, req)));
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  // Create an invitation link for a role. Anyone signed in who opens it can
+  // join, once, until it expires.
+  app.post("/api/workspaces/:id/invitations", isAuthenticated, requireWorkspaceAccess("manage"), async (req: Request, res: Response) => {
+    try {
+      const invitationSchema = z.object({
+        role: z.enum(INVITABLE_ROLES),
+        expiresInDays: z.number().int().min(1).max(30).default(7),
+      });
+      const { role, expiresInDays } = invitationSchema.parse(req.body);
+      
+      const { tokenId } = createSignedToken("invitation");
+      const invitation = await storage.createWorkspaceInvitation({
+        workspaceId: res.locals.workspace.id,
+        tokenId,
+        role,
+        invitedBy: req.user!.id,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+        createdAt: new Date().toISOString()
+      });
+      
+      res.status(201).json(toInvitationSummary(invitation, req));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating invitation:", error);
+      res.status(500).json({ message: "Failed to create invitation" });
+    }
+  });
+
+  // Withdraw an invitation
+  app.delete("/api/workspaces/:id/invitations/:invitationId", isAuthenticated, requireWorkspaceAccess("manage"), async (req: Request, res: Response) => {
+    try {
+      const invitationId = parseInt(req.params.invitationId);
+      const invitation = isNaN(invitationId)
+        ? undefined
+        : await storage.getWorkspaceInvitation(res.locals.workspace.id, invitationId);
+      
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      await storage.deleteWorkspaceInvitation(invitation.id);
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting invitation:", error);
+      res.status(500).json({ message: "Failed to delete invitation" });
+    }
+  });
+
+  // Invitation links are checked for a valid signature, then for being unused and unexpired
+  const findInvitation = async (token: string) => {
+    const tokenId = verifySignedToken("invitation", token);
+    const invitation = tokenId ? await storage.getWorkspaceInvitationByTokenId(tokenId) : undefined;
+    return invitation && new Date(invitation.expiresAt).getTime() > Date.now() ? invitation : undefined;
+  };
+
+  // What an invitation link is for, so it can be shown before joining
+  app.get("/api/invitations/:token", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const invitation = await findInvitation(req.params.token);
+      const workspace = invitation ? await storage.getWorkspace(invitation.workspaceId) : undefined;
+      
+      if (!invitation || !workspace) {
+        return res.status(404).json({ message: "This invitation has expired or was already used" });
+      }
+      
+      const inviter = await storage.getUser(invitation.invitedBy);
+      const member = await storage.getWorkspaceMember(workspace.id, req.user!.id);
+      
+      res.json({
+        workspace: { id: workspace.id, name: workspace.name },
+        role: invitation.role,
+        invitedBy: inviter?.username ?? null,
+        expiresAt: invitation.expiresAt,
+        memberRole: member?.role ?? null
+      });
+    } catch (error) {
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  // Join the workspace an invitation is for
+  app.post("/api/invitations/:token/accept", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const invitation = await findInvitation(req.params.token);
+      const member = invitation ? await storage.acceptWorkspaceInvitation(invitation, req.user!.id) : undefined;
+      
+      if (!member) {
+        return res.status(404).json({ message: "This invitation has expired or was already used" });
+      }
+      
+      const workspaces = await storage.getWorkspaces(req.user!.id);
+      
+      res.json(workspaces.find(workspace => workspace.id === member.workspaceId));
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  // Templates for new notes: the built-ins followed by the user's own
+  app.get("/api/templates", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userTemplates = await storage.getNoteTemplates(req.user!.id);
+      res.json(listNoteTemplates(userTemplates));
+    } catch (error) {
+      console.error("Error fetching templates:", error);
+      res.status(500).json({ message: "Failed to fetch templates" });
+    }
+  });
+
+  // Save a note as a template. Placeholders in it are kept as they are.
+  app.post("/api/templates", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const templateSchema = z.object({
+        name: z.string().trim().min(1).max(100),
+        noteId: z.number().int().positive(),
+      });
+      const { name, noteId } = templateSchema.parse(req.body);
+      
+      const note = await storage.getNoteById(req.user!.id, noteId);
+      if (!note) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      
+      const template = await storage.createNoteTemplate({
+        userId: req.user!.id,
+        name,
+        title: note.title ?? "",
+        content: note.content,
+        color: (note.color ?? "yellow") as schema.InsertNoteTemplate["color"],
+        tags: note.tags ?? [],
+        createdAt: new Date().toISOString()
+      });
+      
+      res.status(201).json(getUserTemplate(template));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error saving template:", error);
+      res.status(500).json({ message: "Failed to save template" });
+    }
+  });
+
+  // Delete one of the user's templates (built-ins can't be deleted)
+  app.delete("/api/templates/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      const template = isNaN(templateId) ? undefined : await storage.getNoteTemplate(req.user!.id, templateId);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      await storage.deleteNoteTemplate(template.id);
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting template:", error);
+      res.status(500).json({ message: "Failed to delete template" });
+    }
+  });
+
+  // Download every note, attachment and drawing as a ZIP, streamed as it is built
+  app.get("/api/export", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      res.attachment(`magicnotebook-export-${new Date().toISOString().slice(0, 10)}.zip`);
+      await writeAccountExport(req.user!, res);
+    } catch (error) {
+      console.error("Error exporting notes:", error);
+      // Once the ZIP has started there's no way to report the error but to cut it short
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.status(500).json({ message: "Failed to export notes" });
+      }
+    }
+  });
+
+  // Import notes from another app's export. The import runs in the background;
+  // poll GET /api/import/:id for its progress and report.
+  app.post("/api/import", isAuthenticated, upload.single('file'), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      
+      const importSchema = z.object({ format: z.enum(IMPORT_FORMATS).optional() });
+      const parsed = importSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const job = importService.start({
+        user: req.user!,
+        filePath: req.file.path,
+        fileName: req.file.originalname,
+        format: parsed.data.format,
+        baseUrl: `${req.protocol}://${req.get('host')}`,
+      });
+      
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error starting import:", error);
+      res.status(500).json({ message: "Failed to start import" });
+    }
+  });
+
+  // Progress of an import, and once it's done, what was imported and skipped
+  app.get("/api/import/:id", isAuthenticated, async (req: Request, res: Response) => {
+    const job = importService.getJob(req.user!.id, req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Import not found" });
+    }
+    
+    res.json(job);
+  });
+
+  // The user's share links, with how often each has been viewed
+  app.get("/api/shares", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const shares = await storage.getNoteShares(req.user!.id);
+      const baseUrl = `${req.protocol}://${req.get('host')}`;
+      res.json(shares.map(share => toShareSummary(share, baseUrl)));
+    } catch (error) {
+      console.error("Error fetching shares:", error);
+      res.status(500).json({ message: "Failed to fetch shared links" });
+    }
+  });
+
+  // Revoke a share link; the link stops working straight away
+  app.delete("/api/shares/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const shareId = parseInt(req.params.id);
+      const share = isNaN(shareId) ? undefined : await storage.getNoteShare(req.user!.id, shareId);
+      
+      if (!share) {
+        return res.status(404).json({ message: "Shared link not found" });
+      }
+      
+      await storage.deleteNoteShare(share.id);
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error revoking share:", error);
+      res.status(500).json({ message: "Failed to revoke shared link" });
+    }
+  });
+
+  // Public page for a share link. No login; password-protected links show a
+  // form that posts the password back here.
+  const viewSharedNote = async (req: Request, res: Response) => {
+    res.set({
+      "Content-Security-Policy": SHARE_PAGE_CSP,
+      "Cache-Control": "no-store",
+      "X-Robots-Tag": "noindex",
+      "Referrer-Policy": "no-referrer",
+    });
+    
+    try {
+      const tokenId = verifySignedToken("share", req.params.token);
+      const share = tokenId ? await storage.getNoteShareByTokenId(tokenId) : undefined;
+      const note = share && !isShareExpired(share) ? await storage.getNoteById(share.userId, share.noteId) : undefined;
+      
+      if (!share || !note || note.deletedAt) {
+        return res.status(404).type("html").send(renderShareUnavailablePage());
+      }
+      
+      if (share.passwordHash) {
+        const password = req.method === "POST" && typeof req.body?.password === "string" ? req.body.password : "";
+        if (!password) {
+          return res.status(401).type("html").send(renderSharePasswordPage());
+        }
+        
+        const ip = req.ip ?? "unknown";
+        const retryAfter = sharePasswordLimiter.retryAfter(share.id, ip);
+        if (retryAfter > 0) {
+          const minutes = Math.ceil(retryAfter / 60000);
+          res.set("Retry-After", String(Math.ceil(retryAfter / 1000)));
+          return res.status(429).type("html").send(renderSharePasswordPage(
+            `Too many wrong passwords. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`
+          ));
+        }
+        if (!await comparePasswords(password, share.passwordHash)) {
+          sharePasswordLimiter.recordFailure(share.id, ip);
+          return res.status(401).type("html").send(renderSharePasswordPage("That password isn't right."));
+        }
+      }
+      
+      await storage.recordNoteShareView(share.id);
+      
+      res.type("html").send(renderSharedNotePage(note));
+    } catch (error) {
+      console.error("Error showing shared note:", error);
+      res.status(500).type("html").send(renderShareUnavailablePage());
+    }
+  };
+  app.get(`${SHARE_PATH_PREFIX}:token`, viewSharedNote);
+  app.post(`${SHARE_PATH_PREFIX}:token`, viewSharedNote);
+
   // Execute command
   app.post("/api/commands/execute", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -742,6 +2004,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // The last 10 messages with a member, oldest first; about a note, only that conversation
+  const getChatHistory = async (userId: number, memberId: number, noteId?: number) => {
+    const recentMessages = noteId === undefined
+      ? await storage.getAiChatMessages(memberId, 10)
+      : (await storage.getAiChatMessagesForNote(userId, noteId))
+          .filter(msg => msg.aiTeamMemberId === memberId)
+          .slice(0, 10);
+    return recentMessages.reverse().map(msg => ({
+      content: msg.content,
+      isUserMessage: msg.isUserMessage
+    }));
+  };
+  
+  const providerSchema = z.string().refine(id => aiService.hasProvider(id), {
+    message: "Unknown AI provider"
+  });
+  
   // Get all AI team members for the current user
   app.get("/api/ai-team/members", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -778,10 +2057,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // The providers AI team members can use
+  app.get("/api/ai-team/providers", isAuthenticated, async (req: Request, res: Response) => {
+    res.json(aiService.listProviders());
+  });
+  
   // Create a new AI team member
   app.post("/api/ai-team/members", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const newMemberSchema = insertAiTeamMemberSchema.extend({
+        provider: providerSchema,
         avatarColor: z.enum(["blue", "green", "pink", "purple", "orange", "yellow"]).default("blue")
       });
       
@@ -818,7 +2103,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         name: z.string().optional(),
         role: z.string().optional(),
         model: z.string().optional(),
-        provider: z.string().optional(),
+        provider: providerSchema.optional(),
         avatarColor: z.enum(["blue", "green", "pink", "purple", "orange", "yellow"]).optional(),
         systemPrompt: z.string().optional(),
         isActive: z.boolean().optional()
@@ -861,6 +2146,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // The user's conversations with the AI team about a note, optionally with one member
+  app.get("/api/notes/:id/ai-chat", isAuthenticated, requireNoteAccess(), async (req: Request, res: Response) => {
+    try {
+      const memberId = req.query.memberId ? parseInt(req.query.memberId as string) : undefined;
+      const messages = await storage.getAiChatMessagesForNote(req.user!.id, res.locals.note.id);
+      
+      res.json(memberId === undefined ? messages : messages.filter(msg => msg.aiTeamMemberId === memberId));
+    } catch (error) {
+      console.error("Error fetching note chat history:", error);
+      res.status(500).json({ message: "Failed to fetch chat history" });
+    }
+  });
+  
   // Get chat history for an AI team member
   app.get("/api/ai-team/chat/:memberId", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -881,8 +2179,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Send a message to an AI team member
-  app.post("/api/ai-team/chat/:memberId", isAuthenticated, async (req: Request, res: Response) => {
+  // Send a message to an AI team member and stream the reply as Server-Sent
+  // Events: "user" (the saved message), "token"s, then "done" (the saved
+  // reply) or "error". Closing the connection stops the reply where it is.
+  app.post("/api/ai-team/chat/:memberId/stream", isAuthenticated, requireNoteScope(), async (req: Request, res: Response) => {
     try {
       const memberId = parseInt(req.params.memberId);
       const member = await storage.getAiTeamMember(memberId);
@@ -892,13 +2192,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const messageSchema = z.object({
-        content: z.string(),
-        noteId: z.number().optional()
+        content: z.string().min(1),
+        noteId: z.number().optional(),
+        contextNoteIds: z.array(z.number()).max(MAX_CONTEXT_NOTES).optional()
       });
       
-      const { content, noteId } = messageSchema.parse(req.body);
+      const { content, noteId, contextNoteIds = [] } = messageSchema.parse(req.body);
+      
+      const contextNotes = await loadContextNotes(req.user!.id, noteId !== undefined ? [noteId, ...contextNoteIds] : contextNoteIds);
+      if (!contextNotes) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      const noteContext = await buildNoteContext(contextNotes);
+      
+      // History is read before saving the new message, which is sent as the prompt
+      const chatHistory = await getChatHistory(req.user!.id, memberId, noteId);
       
-      // Save user message
       const userMessage = await storage.createAiChatMessage({
         userId: req.user!.id,
         aiTeamMemberId: memberId,
@@ -908,57 +2217,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
         noteId
       });
       
-      // Get recent chat history (last 10 messages)
-      const recentMessages = await storage.getAiChatMessages(memberId, 10);
-      const chatHistory = recentMessages.reverse().map(msg => ({
-        content: msg.content,
-        isUserMessage: msg.isUserMessage
-      }));
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no"
+      });
+      writeEvent(res, "user", userMessage);
+      
+      const abortController = new AbortController();
+      res.on("close", () => {
+        if (!res.writableEnded) abortController.abort();
+      });
       
-      // Generate AI response using our service
-      // For now, we'll use mock responses since we may not have API keys
+      let reply = "";
       try {
-        const aiResponse = await aiService.generateResponse(member, content, chatHistory);
-        
-        // Save AI response
-        const botMessage = await storage.createAiChatMessage({
-          userId: req.user!.id,
-          aiTeamMemberId: memberId,
-          content: aiResponse,
-          isUserMessage: false,
-          timestamp: new Date().toISOString(),
-          noteId
-        });
-        
-        // Return both messages
-        res.json({
-          userMessage,
-          botMessage
-        });
+        for await (const token of aiService.streamResponse(member, content, chatHistory, {
+          signal: abortController.signal,
+          noteContext,
+          scope: res.locals.scope,
+          excludeNoteIds: contextNotes.map(note => note.id),
+          // Tool calls are reported as they happen; changes wait for approval
+          toolbox: new NoteToolbox(req.user!.id, member, res.locals.scope, invocation => writeEvent(res, "tool", invocation))
+        })) {
+          reply += token;
+          writeEvent(res, "token", { text: token });
+        }
       } catch (error) {
-        console.error("Error generating AI response:", error);
-        
-        // If AI generation fails, still save a fallback message
-        const errorMessage = await storage.createAiChatMessage({
+        console.error("Error streaming AI response:", error);
+        if (!reply) {
+          reply = "I'm sorry, I encountered an error processing your message. Please try again later.";
+        }
+        writeEvent(res, "error", { message: "Failed to generate AI response" });
+      }
+      
+      // Whatever was written is kept, including a reply stopped part way
+      if (reply) {
+        const botMessage = await storage.createAiChatMessage({
           userId: req.user!.id,
           aiTeamMemberId: memberId,
-          content: "I'm sorry, I encountered an error processing your message. Please try again later.",
+          content: reply,
           isUserMessage: false,
           timestamp: new Date().toISOString(),
           noteId
         });
-        
-        res.status(500).json({
-          userMessage,
-          botMessage: errorMessage,
-          error: "Failed to generate AI response"
-        });
+        writeEvent(res, "done", botMessage);
       }
+      res.end();
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: fromZodError(error).message });
       }
-      console.error("Error sending message to AI team member:", error);
+      console.error("Error streaming message to AI team member:", error);
+      if (res.headersSent) {
+        return res.end();
+      }
       res.status(500).json({ message: "Failed to send message" });
     }
   });
@@ -986,7 +2299,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Tools AI team members have called, newest first. ?status=pending lists
+  // the changes waiting for the user's approval.
+  app.get("/api/ai-team/tool-calls", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const toolCallsSchema = z.object({
+        status: z.enum(["executed", "pending", "applied", "rejected", "failed"]).optional(),
+        noteId: z.coerce.number().int().optional(),
+        memberId: z.coerce.number().int().optional(),
+        limit: z.coerce.number().int().min(1).max(200).default(50)
+      });
+      
+      const { status, noteId, memberId, limit } = toolCallsSchema.parse(req.query);
+      const invocations = await storage.getAiToolInvocations(req.user!.id, { status, noteId, aiTeamMemberId: memberId }, limit);
+      
+      res.json(invocations.map(toInvocationView));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error fetching AI tool calls:", error);
+      res.status(500).json({ message: "Failed to fetch AI tool calls" });
+    }
+  });
+
+  // Apply a change an AI team member proposed. It's checked again against
+  // what the user may edit, and refused if the note changed in the meantime.
+  app.post("/api/ai-team/tool-calls/:id/approve", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const invocationId = parseInt(req.params.id);
+      const invocation = isNaN(invocationId) ? undefined : await storage.getAiToolInvocation(req.user!.id, invocationId);
+      
+      if (!invocation || !invocation.after) {
+        return res.status(404).json({ message: "Proposed change not found" });
+      }
+      if (invocation.status !== "pending") {
+        return res.status(409).json({ message: "This change has already been dealt with" });
+      }
+      
+      const fail = async (status: number, message: string) => {
+        await storage.resolveAiToolInvocation(invocation.id, { status: "failed", result: message });
+        res.status(status).json({ message });
+      };
+      
+      const change = invocation.after;
+      const access = invocation.noteId === null ? undefined : await storage.getNoteAccess(req.user!.id, invocation.noteId);
+      
+      if (invocation.noteId === null) {
+        const scope = invocation.workspaceId === null
+          ? getPersonalScope(req.user!.id)
+          : await storage.getWorkspaceScope(req.user!.id, invocation.workspaceId);
+        if (!scope || !hasWorkspacePermission(scope.role, "edit")) {
+          return await fail(403, "You can no longer add notes there");
+        }
+      } else if (!access || access.note.deletedAt || !hasWorkspacePermission(access.scope.role, "edit")) {
+        return await fail(404, "The note is gone or you can no longer edit it");
+      } else if (!isNoteUnchangedSince(access.note, invocation)) {
+        return await fail(409, "The note has changed since this was proposed");
+      }
+      
+      // Settled before it's applied, so it can only be applied once
+      const applied = await storage.resolveAiToolInvocation(invocation.id, { status: "applied", result: "Approved by the user" });
+      if (!applied) {
+        return res.status(409).json({ message: "This change has already been dealt with" });
+      }
+      
+      try {
+        const now = new Date().toISOString();
+        let note: Note;
+        
+        if (!access) {
+          note = await storage.createNote({
+            userId: req.user!.id,
+            workspaceId: invocation.workspaceId,
+            title: change.title ?? "New Note",
+            content: change.content ?? "",
+            tags: change.tags ?? [],
+            color: change.color ?? "yellow",
+            createdAt: now,
+            updatedAt: now
+          });
+          await storage.updateAiToolInvocation(invocation.id, { noteId: note.id });
+        } else {
+          const { content, ...props } = change;
+          // Merged into a live session rather than overwriting what's been typed since
+          const liveContent = content === undefined
+            ? undefined
+            : noteCollaboration.mergeContent(access.note.id, invocation.before?.content ?? "", content, req.user!.id);
+          note = await storage.updateNoteProps(
+            access.note.id,
+            { ...props, ...(content !== undefined && liveContent === undefined ? { content } : {}), updatedAt: now },
+            { userId: req.user!.id }
+          );
+          if (liveContent !== undefined) {
+            note = { ...note, content: liveContent };
+          } else if (content !== undefined) {
+            noteCollaboration.syncContent(note);
+          }
+        }
+        
+        res.json({ invocation: toInvocationView({ ...applied, noteId: note.id }), note });
+      } catch (error) {
+        await storage.updateAiToolInvocation(invocation.id, { status: "failed", result: "The change couldn't be applied" });
+        throw error;
+      }
+    } catch (error) {
+      console.error("Error applying AI tool call:", error);
+      res.status(500).json({ message: "Failed to apply the change" });
+    }
+  });
+
+  // Turn down a change an AI team member proposed
+  app.post("/api/ai-team/tool-calls/:id/reject", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const invocationId = parseInt(req.params.id);
+      const invocation = isNaN(invocationId) ? undefined : await storage.getAiToolInvocation(req.user!.id, invocationId);
+      
+      if (!invocation) {
+        return res.status(404).json({ message: "Proposed change not found" });
+      }
+      
+      const rejected = await storage.resolveAiToolInvocation(invocation.id, { status: "rejected", result: "Rejected by the user" });
+      if (!rejected) {
+        return res.status(409).json({ message: "This change has already been dealt with" });
+      }
+      
+      res.json(toInvocationView(rejected));
+    } catch (error) {
+      console.error("Error rejecting AI tool call:", error);
+      res.status(500).json({ message: "Failed to reject the change" });
+    }
+  });
+
   const httpServer = createServer(app);
+  
+  // Live co-editing of notes, on /ws/notes/:id
+  noteCollaboration.attach(httpServer);
 
   return httpServer;
 }
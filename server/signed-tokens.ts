@@ -0,0 +1,46 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Tokens handed out in links (note shares, workspace invitations) are
+// `<tokenId>.<signature>`. Only the tokenId is stored, so a leaked database
+// doesn't hand out working links, and a guessed or edited token is turned
+// away before the database is asked. The purpose is part of what's signed,
+// so a token made for one kind of link is no good for another.
+
+export type SignedTokenPurpose = "share" | "invitation";
+
+const TOKEN_SECRET = process.env.SHARE_TOKEN_SECRET || process.env.SESSION_SECRET || "magic-notebook-secret";
+const SIGNATURE_LENGTH = 22; // base64url characters, 128 bits of the HMAC
+
+function sign(purpose: SignedTokenPurpose, tokenId: string): string {
+  return createHmac("sha256", TOKEN_SECRET)
+    .update(`${purpose}:${tokenId}`)
+    .digest("base64url")
+    .slice(0, SIGNATURE_LENGTH);
+}
+
+/**
+ * A new token, and the id to store for it
+ */
+export function createSignedToken(purpose: SignedTokenPurpose): { tokenId: string; token: string } {
+  const tokenId = randomBytes(12).toString("base64url");
+  return { tokenId, token: getSignedToken(purpose, tokenId) };
+}
+
+/**
+ * The full token for a stored tokenId
+ */
+export function getSignedToken(purpose: SignedTokenPurpose, tokenId: string): string {
+  return `${tokenId}.${sign(purpose, tokenId)}`;
+}
+
+/**
+ * The tokenId of a token, or null if the signature doesn't match
+ */
+export function verifySignedToken(purpose: SignedTokenPurpose, token: string): string | null {
+  const [tokenId, signature, ...rest] = token.split(".");
+  if (!tokenId || !signature || rest.length) return null;
+
+  const expected = Buffer.from(sign(purpose, tokenId));
+  const supplied = Buffer.from(signature);
+  return supplied.length === expected.length && timingSafeEqual(supplied, expected) ? tokenId : null;
+}
@@ -7,6 +7,26 @@ import {
   type InsertUserPackage, 
   type Note, 
   type InsertNote, 
+  type NoteRevision,
+  type Notebook,
+  type InsertNotebook,
+  type NotebookWithCount,
+  type NoteTemplate,
+  type InsertNoteTemplate,
+  type NoteShare,
+  type InsertNoteShare,
+  type NoteShareWithNote,
+  type Workspace,
+  type InsertWorkspace,
+  type WorkspaceWithRole,
+  type WorkspaceMember,
+  type InsertWorkspaceMember,
+  type WorkspaceMemberWithUser,
+  type WorkspaceInvitation,
+  type InsertWorkspaceInvitation,
+  type NoteListQuery,
+  type NoteSortField,
+  type NotePage,
   type CommandExecution, 
   type InsertCommandExecution,
   type PackageResponse,
@@ -17,11 +37,112 @@ import {
   type AiChatMessage,
   type InsertAiChatMessage,
   type AiTeamMemberResponse,
-  type AiChatMessageResponse
+  type AiChatMessageResponse,
+  type NoteEmbedding,
+  type InsertNoteEmbedding,
+  type AiToolInvocation,
+  type InsertAiToolInvocation
 } from "@shared/schema";
 import * as schema from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, or, asc, desc, isNull, isNotNull, lt, gt, inArray, sql, cosineDistance, type SQL } from "drizzle-orm";
+import { type NoteSearchQuery, type NoteSearchResult, HIGHLIGHT_START, HIGHLIGHT_STOP, renderHighlight } from "./note-search";
+import { extractWikiLinks, rewriteWikiLinks } from "@shared/markdown";
+import { type TagCount, TAG_SEPARATOR, normalizeTag, isTagOrDescendant, renameTagPath } from "@shared/tags";
+import { type NotebookDeleteMode, getNotebookSubtreeIds } from "@shared/notebooks";
+import { type DailyNoteDay } from "@shared/daily-notes";
+import { type NoteScope, type WorkspaceRole } from "@shared/workspaces";
+
+// Saves by one user with less than this between them share a revision
+const REVISION_MERGE_WINDOW_MS = 5 * 60 * 1000;
+
+// Expressions each note sort orders by; the note id is always appended as a tiebreaker
+const NOTE_SORT_EXPRESSIONS: Record<NoteSortField, SQL[]> = {
+  updatedAt: [sql`${schema.notes.updatedAt}`],
+  createdAt: [sql`${schema.notes.createdAt}`],
+  title: [sql`lower(coalesce(${schema.notes.title}, ''))`],
+  pinned: [sql`coalesce(${schema.notes.isPinned}, false)`, sql`${schema.notes.updatedAt}`],
+};
+
+// What type each of those expressions has, so a cursor can be checked before
+// its values are bound into the query
+const NOTE_SORT_KEY_TYPES: Record<NoteSortField, Array<"string" | "boolean">> = {
+  updatedAt: ["string"],
+  createdAt: ["string"],
+  title: ["string"],
+  pinned: ["boolean", "string"],
+};
+
+// Notes carrying a tag or any tag nested under it ("work" matches "work/clienta")
+function hasTagCondition(tag: string): SQL {
+  const normalized = normalizeTag(tag);
+  return sql`exists (
+    select 1 from unnest(${schema.notes.tags}) as t(tag)
+    where lower(t.tag) = ${normalized} or starts_with(lower(t.tag), ${normalized + TAG_SEPARATOR})
+  )`;
+}
+
+// Notes in a scope: the user's own notes, or all of a workspace's
+function noteScopeCondition(scope: Pick<NoteScope, "userId" | "workspaceId">): SQL {
+  return scope.workspaceId === null
+    ? sql`${schema.notes.userId} = ${scope.userId} and ${schema.notes.workspaceId} is null`
+    : sql`${schema.notes.workspaceId} = ${scope.workspaceId}`;
+}
+
+function notebookScopeCondition(scope: Pick<NoteScope, "userId" | "workspaceId">): SQL {
+  return scope.workspaceId === null
+    ? sql`${schema.notebooks.userId} = ${scope.userId} and ${schema.notebooks.workspaceId} is null`
+    : sql`${schema.notebooks.workspaceId} = ${scope.workspaceId}`;
+}
+
+// Cursors are the sort key values of the last note on a page, base64url-encoded
+function encodeNoteCursor(sortKeys: unknown[]): string {
+  return Buffer.from(JSON.stringify(sortKeys)).toString("base64url");
+}
+
+// The cursor's sort key values, or undefined unless they match the sort's
+// expressions one for one (and end with a note id)
+export function decodeNoteCursor(cursor: string, sort: NoteSortField): unknown[] | undefined {
+  let sortKeys: unknown;
+  try {
+    sortKeys = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    return undefined;
+  }
+
+  const types = NOTE_SORT_KEY_TYPES[sort];
+  if (!Array.isArray(sortKeys) || sortKeys.length !== types.length + 1) return undefined;
+  if (types.some((type, i) => typeof sortKeys[i] !== type)) return undefined;
+
+  const id = sortKeys[types.length];
+  return Number.isSafeInteger(id) ? sortKeys : undefined;
+}
+
+// Who saved a note, for its revision history
+export interface NoteSaveOptions {
+  userId?: number; // who made the change; the note's owner if not given
+  newRevision?: boolean; // never merge into the user's last revision (restores)
+}
+
+// A note the user can see, and where it lives
+export interface NoteAccess {
+  note: Note;
+  scope: NoteScope;
+}
+
+// A chunk of a note that came up in a semantic search
+export interface NoteChunkMatch {
+  note: Note;
+  chunkIndex: number;
+  content: string;
+  similarity: number; // cosine similarity to the query, 1 at best
+}
+
+export interface AiToolInvocationFilter {
+  status?: string;
+  noteId?: number;
+  aiTeamMemberId?: number;
+}
 
 export interface IStorage {
   // User operations
@@ -30,6 +151,7 @@ export interface IStorage {
   getUserByGoogleId(googleId: string): Promise<User | undefined>;
   getUserByFacebookId(facebookId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserSettings(id: number, settings: Partial<Pick<User, 'timeZone' | 'dailyNoteTemplate'>>): Promise<User>;
   
   // Package operations
   getPackages(): Promise<Package[]>;
@@ -43,12 +165,95 @@ export interface IStorage {
   resetTrialsUsedInCycle(id: number): Promise<UserPackage>;
   updateUserPackageTransaction(id: number, transactionId: string): Promise<UserPackage>;
   
-  // Note operations
-  getNoteByUserId(userId: number): Promise<Note | undefined>;
+  // Note operations. Notes are looked up within a NoteScope or, by id, among
+  // the notes the user can see; callers check the scope's role before writing.
+  getDefaultNote(userId: number): Promise<Note | undefined>;
+  getNoteById(userId: number, noteId: number): Promise<Note | undefined>;
+  getNoteAccess(userId: number, noteId: number): Promise<NoteAccess | undefined>;
+  getNoteByTitle(scope: NoteScope, title: string): Promise<Note | undefined>;
   getAllNotesByUserId(userId: number): Promise<Note[]>;
+  listNotes(scope: NoteScope, query: NoteListQuery): Promise<NotePage>;
+  searchNotes(scope: NoteScope, query: NoteSearchQuery, limit?: number): Promise<NoteSearchResult[]>;
   createNote(note: InsertNote): Promise<Note>;
-  updateNote(id: number, content: string): Promise<Note>;
-  updateNoteProps(id: number, props: Partial<Omit<InsertNote, 'userId'>>): Promise<Note>;
+  updateNote(id: number, content: string, options?: NoteSaveOptions): Promise<Note>;
+  updateNoteProps(id: number, props: Partial<Omit<InsertNote, 'userId' | 'workspaceId'>>, options?: NoteSaveOptions): Promise<Note>;
+  copyNote(note: Note, notebookId: number | null, userId: number): Promise<Note>;
+  // Called with the note whenever a note's content or title is saved
+  onNoteContentChange(listener: (note: Note) => void): void;
+  
+  // Note embedding operations
+  getNoteEmbeddings(noteId: number): Promise<NoteEmbedding[]>;
+  replaceNoteEmbeddings(noteId: number, embeddings: InsertNoteEmbedding[]): Promise<void>;
+  getNotesNeedingEmbeddings(model: string, afterId: number, limit: number): Promise<Note[]>;
+  searchNoteEmbeddings(scope: NoteScope, embedding: number[], model: string, limit: number): Promise<NoteChunkMatch[]>;
+  
+  // Daily note operations
+  getDailyNote(userId: number, date: string): Promise<Note | undefined>;
+  getDailyNoteDays(userId: number, from: string, to: string): Promise<DailyNoteDay[]>;
+  createDailyNote(note: InsertNote): Promise<Note>;
+  
+  // Notebook operations
+  getNotebooks(scope: NoteScope): Promise<NotebookWithCount[]>;
+  getNotebook(scope: NoteScope, id: number): Promise<Notebook | undefined>;
+  createNotebook(notebook: InsertNotebook): Promise<Notebook>;
+  updateNotebook(id: number, props: Partial<Pick<InsertNotebook, 'name' | 'parentId'>>): Promise<Notebook>;
+  deleteNotebook(notebook: Notebook, mode: NotebookDeleteMode): Promise<number>;
+  
+  // Note template operations
+  getNoteTemplates(userId: number): Promise<NoteTemplate[]>;
+  getNoteTemplate(userId: number, id: number): Promise<NoteTemplate | undefined>;
+  createNoteTemplate(template: InsertNoteTemplate): Promise<NoteTemplate>;
+  deleteNoteTemplate(id: number): Promise<boolean>;
+  
+  // Workspace operations
+  getWorkspaces(userId: number): Promise<WorkspaceWithRole[]>;
+  getWorkspace(id: number): Promise<Workspace | undefined>;
+  getWorkspaceScope(userId: number, workspaceId: number): Promise<NoteScope | undefined>;
+  createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
+  updateWorkspace(id: number, props: Pick<InsertWorkspace, 'name'>): Promise<Workspace>;
+  deleteWorkspace(id: number): Promise<Note[]>;
+  getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberWithUser[]>;
+  getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined>;
+  updateWorkspaceMemberRole(id: number, role: WorkspaceRole): Promise<WorkspaceMember>;
+  removeWorkspaceMember(id: number): Promise<boolean>;
+  getWorkspaceInvitations(workspaceId: number): Promise<WorkspaceInvitation[]>;
+  getWorkspaceInvitation(workspaceId: number, id: number): Promise<WorkspaceInvitation | undefined>;
+  getWorkspaceInvitationByTokenId(tokenId: string): Promise<WorkspaceInvitation | undefined>;
+  createWorkspaceInvitation(invitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitation>;
+  deleteWorkspaceInvitation(id: number): Promise<boolean>;
+  acceptWorkspaceInvitation(invitation: WorkspaceInvitation, userId: number): Promise<WorkspaceMember | undefined>;
+  
+  // Note share operations
+  getNoteShares(userId: number): Promise<NoteShareWithNote[]>;
+  getNoteShare(userId: number, id: number): Promise<NoteShare | undefined>;
+  getNoteShareByTokenId(tokenId: string): Promise<NoteShare | undefined>;
+  createNoteShare(share: InsertNoteShare): Promise<NoteShare>;
+  deleteNoteShare(id: number): Promise<boolean>;
+  recordNoteShareView(id: number): Promise<void>;
+  
+  // Note revision operations
+  getNoteRevisions(noteId: number): Promise<NoteRevision[]>;
+  getNoteRevision(noteId: number, revisionId: number): Promise<NoteRevision | undefined>;
+  
+  // Trash operations
+  getDeletedNotes(scope: NoteScope): Promise<Note[]>;
+  softDeleteNote(id: number): Promise<Note>;
+  restoreNote(id: number): Promise<Note>;
+  purgeDeletedNotes(deletedBefore: string): Promise<Note[]>;
+  
+  // Tag operations
+  getTagCounts(scope: NoteScope): Promise<TagCount[]>;
+  renameTag(scope: NoteScope, from: string, to: string): Promise<number>;
+  mergeTags(scope: NoteScope, sources: string[], target: string): Promise<number>;
+  deleteTag(scope: NoteScope, tag: string): Promise<number>;
+  
+  // Note reaction operations
+  addNoteReaction(noteId: number, userId: number, emoji: string): Promise<Note>;
+  removeNoteReaction(noteId: number, userId: number, emoji: string): Promise<Note>;
+  
+  // Note link operations
+  getBacklinks(scope: NoteScope, note: Note): Promise<Note[]>;
+  rewriteNoteReferences(scope: NoteScope, fromTitle: string, toTitle: string): Promise<Note[]>;
   
   // Command operations
   executeCommand(command: InsertCommandExecution): Promise<CommandExecution>;
@@ -63,12 +268,21 @@ export interface IStorage {
   
   // AI Chat operations
   getAiChatMessages(aiTeamMemberId: number, limit?: number): Promise<AiChatMessage[]>;
-  getAiChatMessagesForNote(noteId: number): Promise<AiChatMessage[]>;
+  getAiChatMessagesForNote(userId: number, noteId: number): Promise<AiChatMessage[]>;
   createAiChatMessage(message: InsertAiChatMessage): Promise<AiChatMessage>;
   deleteAiChatHistory(aiTeamMemberId: number): Promise<boolean>;
+  
+  // AI tool operations
+  getAiToolInvocations(userId: number, filter: AiToolInvocationFilter, limit?: number): Promise<AiToolInvocation[]>;
+  getAiToolInvocation(userId: number, id: number): Promise<AiToolInvocation | undefined>;
+  createAiToolInvocation(invocation: InsertAiToolInvocation): Promise<AiToolInvocation>;
+  resolveAiToolInvocation(id: number, props: Pick<AiToolInvocation, 'status' | 'result'>): Promise<AiToolInvocation | undefined>;
+  updateAiToolInvocation(id: number, props: Partial<Pick<AiToolInvocation, 'status' | 'result' | 'noteId'>>): Promise<AiToolInvocation>;
 }
 
 export class DatabaseStorage implements IStorage {
+  private noteContentListeners: ((note: Note) => void)[] = [];
+  
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     const users = await db.select().from(schema.users).where(eq(schema.users.id, id));
@@ -95,6 +309,20 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
   
+  async updateUserSettings(id: number, settings: Partial<Pick<User, 'timeZone' | 'dailyNoteTemplate'>>): Promise<User> {
+    const [updatedUser] = await db
+      .update(schema.users)
+      .set(settings)
+      .where(eq(schema.users.id, id))
+      .returning();
+    
+    if (!updatedUser) {
+      throw new Error('User not found');
+    }
+    
+    return updatedUser;
+  }
+  
   // Package operations
   async getPackages(): Promise<Package[]> {
     return await db.select().from(schema.packages);
@@ -258,30 +486,228 @@ export class DatabaseStorage implements IStorage {
   }
   
   // Note operations
-  async getNoteByUserId(userId: number): Promise<Note | undefined> {
+  
+  // The note the main editor opens: the user's oldest personal note that
+  // isn't in the trash, so it stays the same from one visit to the next
+  async getDefaultNote(userId: number): Promise<Note | undefined> {
     const notes = await db
       .select()
       .from(schema.notes)
-      .where(eq(schema.notes.userId, userId))
+      .where(
+        and(
+          eq(schema.notes.userId, userId),
+          isNull(schema.notes.workspaceId),
+          isNull(schema.notes.deletedAt)
+        )
+      )
+      .orderBy(asc(schema.notes.id))
       .limit(1);
     
     return notes.length ? notes[0] : undefined;
   }
   
+  async getNoteById(userId: number, noteId: number): Promise<Note | undefined> {
+    return (await this.getNoteAccess(userId, noteId))?.note;
+  }
+  
+  // The user's own note, or a note in one of their workspaces along with their role there
+  async getNoteAccess(userId: number, noteId: number): Promise<NoteAccess | undefined> {
+    const rows = await db
+      .select({ note: schema.notes, role: schema.workspaceMembers.role })
+      .from(schema.notes)
+      .leftJoin(
+        schema.workspaceMembers,
+        and(
+          eq(schema.workspaceMembers.workspaceId, schema.notes.workspaceId),
+          eq(schema.workspaceMembers.userId, userId)
+        )
+      )
+      .where(
+        and(
+          eq(schema.notes.id, noteId),
+          or(
+            and(isNull(schema.notes.workspaceId), eq(schema.notes.userId, userId)),
+            isNotNull(schema.workspaceMembers.id)
+          )
+        )
+      );
+    
+    if (!rows.length) {
+      return undefined;
+    }
+    
+    const { note, role } = rows[0];
+    return {
+      note,
+      scope: { userId, workspaceId: note.workspaceId, role: note.workspaceId === null ? "owner" : role! }
+    };
+  }
+  
+  // Resolve a [[Title]] link: case-insensitive, most recently updated note wins
+  async getNoteByTitle(scope: NoteScope, title: string): Promise<Note | undefined> {
+    const notes = await db
+      .select()
+      .from(schema.notes)
+      .where(
+        and(
+          noteScopeCondition(scope),
+          isNull(schema.notes.deletedAt),
+          sql`lower(${schema.notes.title}) = lower(${title.trim()})`
+        )
+      )
+      .orderBy(desc(schema.notes.updatedAt))
+      .limit(1);
+    
+    return notes.length ? notes[0] : undefined;
+  }
+  
+  // The user's own notes, outside the trash (not those in workspaces)
   async getAllNotesByUserId(userId: number): Promise<Note[]> {
     return await db
       .select()
       .from(schema.notes)
-      .where(eq(schema.notes.userId, userId))
+      .where(
+        and(
+          eq(schema.notes.userId, userId),
+          isNull(schema.notes.workspaceId),
+          isNull(schema.notes.deletedAt)
+        )
+      )
       .orderBy(desc(schema.notes.isPinned), desc(schema.notes.updatedAt));
   }
   
+  async listNotes(scope: NoteScope, query: NoteListQuery): Promise<NotePage> {
+    const sortKeys = [...NOTE_SORT_EXPRESSIONS[query.sort], sql`${schema.notes.id}`];
+    const order = query.order ?? (query.sort === "title" ? "asc" : "desc");
+    
+    const conditions: SQL[] = [
+      noteScopeCondition(scope),
+      isNull(schema.notes.deletedAt)
+    ];
+    
+    if (query.archived !== undefined) {
+      conditions.push(sql`coalesce(${schema.notes.isArchived}, false) = ${query.archived}`);
+    }
+    if (query.pinned !== undefined) {
+      conditions.push(sql`coalesce(${schema.notes.isPinned}, false) = ${query.pinned}`);
+    }
+    if (query.color) {
+      conditions.push(eq(schema.notes.color, query.color));
+    }
+    if (query.tag) {
+      conditions.push(hasTagCondition(query.tag));
+    }
+    if (query.notebookId !== undefined) {
+      conditions.push(query.notebookId === "none"
+        ? isNull(schema.notes.notebookId)
+        : eq(schema.notes.notebookId, query.notebookId));
+    }
+    
+    // Keyset pagination: continue strictly after the last row of the previous page
+    const cursorKeys = query.cursor ? decodeNoteCursor(query.cursor, query.sort) : undefined;
+    if (cursorKeys) {
+      const comparison = order === "asc" ? sql`>` : sql`<`;
+      conditions.push(sql`(${sql.join(sortKeys, sql`, `)}) ${comparison} (${sql.join(cursorKeys.map(key => sql`${key}`), sql`, `)})`);
+    }
+    
+    const rows = await db
+      .select({
+        note: schema.notes,
+        sortKeys: sql<unknown[]>`json_build_array(${sql.join(sortKeys, sql`, `)})`
+      })
+      .from(schema.notes)
+      .where(and(...conditions))
+      .orderBy(...sortKeys.map(key => order === "asc" ? asc(key) : desc(key)))
+      .limit(query.limit + 1);
+    
+    // One extra row was fetched to know whether another page exists
+    const hasMore = rows.length > query.limit;
+    const pageRows = hasMore ? rows.slice(0, query.limit) : rows;
+    
+    return {
+      notes: pageRows.map(row => row.note),
+      nextCursor: hasMore ? encodeNoteCursor(pageRows[pageRows.length - 1].sortKeys) : null
+    };
+  }
+  
+  async searchNotes(scope: NoteScope, query: NoteSearchQuery, limit: number = 50): Promise<NoteSearchResult[]> {
+    const conditions: SQL[] = [
+      noteScopeCondition(scope),
+      isNull(schema.notes.deletedAt)
+    ];
+    
+    for (const tag of query.tags) {
+      conditions.push(hasTagCondition(tag));
+    }
+    if (query.color) {
+      conditions.push(eq(schema.notes.color, query.color));
+    }
+    if (query.pinned !== undefined) {
+      conditions.push(eq(schema.notes.isPinned, query.pinned));
+    }
+    if (query.before) {
+      conditions.push(lt(schema.notes.updatedAt, query.before));
+    }
+    if (query.after) {
+      conditions.push(gt(schema.notes.updatedAt, query.after));
+    }
+    
+    // Without free text there is nothing to rank, so fall back to recency
+    if (!query.text) {
+      const notes = await db
+        .select()
+        .from(schema.notes)
+        .where(and(...conditions))
+        .orderBy(desc(schema.notes.isPinned), desc(schema.notes.updatedAt))
+        .limit(limit);
+      
+      return notes.map(note => ({
+        ...note,
+        rank: 0,
+        titleHighlight: renderHighlight(note.title || ""),
+        snippet: renderHighlight(note.content.slice(0, 200))
+      }));
+    }
+    
+    // Title matches weigh most, then tags, then body text (see note_search_vector
+    // in scripts/migrate.ts). The expression matches notes_search_idx, so
+    // Postgres can find the matches through the index.
+    const searchVector = sql`note_search_vector(${schema.notes.title}, ${schema.notes.tags}, ${schema.notes.content})`;
+    const tsQuery = sql`websearch_to_tsquery('english', ${query.text})`;
+    const headlineOptions = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=false, MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" … "`;
+    const titleHeadlineOptions = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=true`;
+    const rank = sql<number>`ts_rank_cd(${searchVector}, ${tsQuery})`;
+    
+    const rows = await db
+      .select({
+        note: schema.notes,
+        rank,
+        titleHeadline: sql<string>`ts_headline('english', coalesce(${schema.notes.title}, ''), ${tsQuery}, ${titleHeadlineOptions})`,
+        contentHeadline: sql<string>`ts_headline('english', ${schema.notes.content}, ${tsQuery}, ${headlineOptions})`
+      })
+      .from(schema.notes)
+      .where(and(...conditions, sql`${searchVector} @@ ${tsQuery}`))
+      .orderBy(desc(rank), desc(schema.notes.updatedAt))
+      .limit(limit);
+    
+    return rows.map(row => ({
+      ...row.note,
+      rank: Number(row.rank),
+      titleHighlight: renderHighlight(row.titleHeadline),
+      snippet: renderHighlight(row.contentHeadline)
+    }));
+  }
+  
   async createNote(insertNote: InsertNote): Promise<Note> {
     const [note] = await db.insert(schema.notes).values(insertNote).returning();
+    await this.syncNoteLinks(note);
+    this.notifyNoteContentChange(note);
     return note;
   }
   
-  async updateNote(id: number, content: string): Promise<Note> {
+  async updateNote(id: number, content: string, options: NoteSaveOptions = {}): Promise<Note> {
+    const baselineRecorded = await this.ensureBaselineRevision(id);
+    
     const [updatedNote] = await db
       .update(schema.notes)
       .set({ 
@@ -295,10 +721,22 @@ export class DatabaseStorage implements IStorage {
       throw new Error('Note not found');
     }
     
+    await this.recordNoteRevision(updatedNote, options.userId ?? updatedNote.userId, !baselineRecorded && !options.newRevision);
+    await this.syncNoteLinks(updatedNote);
+    this.notifyNoteContentChange(updatedNote);
+    
     return updatedNote;
   }
   
-  async updateNoteProps(id: number, props: Partial<Omit<InsertNote, 'userId'>>): Promise<Note> {
+  async updateNoteProps(
+    id: number,
+    props: Partial<Omit<InsertNote, 'userId' | 'workspaceId'>>,
+    options: NoteSaveOptions = {}
+  ): Promise<Note> {
+    const baselineRecorded = props.content !== undefined || props.title !== undefined
+      ? await this.ensureBaselineRevision(id)
+      : false;
+    
     // Always include the updated timestamp when updating note properties
     const updateData = {
       ...props,
@@ -315,9 +753,1021 @@ export class DatabaseStorage implements IStorage {
       throw new Error('Note not found');
     }
     
+    // Only content and title changes are worth a revision, not pins or colors
+    if (props.content !== undefined || props.title !== undefined) {
+      await this.recordNoteRevision(updatedNote, options.userId ?? updatedNote.userId, !baselineRecorded && !options.newRevision);
+    }
+    
+    if (props.content !== undefined) {
+      await this.syncNoteLinks(updatedNote);
+    }
+    if (props.content !== undefined || props.title !== undefined) {
+      this.notifyNoteContentChange(updatedNote);
+    }
+    
     return updatedNote;
   }
   
+  onNoteContentChange(listener: (note: Note) => void): void {
+    this.noteContentListeners.push(listener);
+  }
+  
+  private notifyNoteContentChange(note: Note): void {
+    for (const listener of this.noteContentListeners) {
+      listener(note);
+    }
+  }
+  
+  // A new note with the same content and formatting, in the same place and
+  // by the given user. Attachments and reactions stay with the original.
+  async copyNote(note: Note, notebookId: number | null, userId: number): Promise<Note> {
+    const now = new Date().toISOString();
+    
+    return await this.createNote({
+      userId,
+      workspaceId: note.workspaceId,
+      title: note.title ? `${note.title} (copy)` : "",
+      content: note.content,
+      color: note.color as InsertNote["color"],
+      backgroundColor: note.backgroundColor ?? "",
+      textAlign: note.textAlign as InsertNote["textAlign"],
+      fontSize: note.fontSize as InsertNote["fontSize"],
+      isPinned: false,
+      isArchived: note.isArchived ?? false,
+      drawingData: note.drawingData ?? "",
+      tags: note.tags ?? [],
+      notebookId,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+  
+  // Daily note operations
+  async getDailyNote(userId: number, date: string): Promise<Note | undefined> {
+    const notes = await db
+      .select()
+      .from(schema.notes)
+      .where(
+        and(
+          eq(schema.notes.userId, userId),
+          eq(schema.notes.dailyDate, date)
+        )
+      );
+    
+    return notes.length ? notes[0] : undefined;
+  }
+  
+  // Days in [from, to] that have a daily note outside the trash
+  async getDailyNoteDays(userId: number, from: string, to: string): Promise<DailyNoteDay[]> {
+    const rows = await db
+      .select({
+        date: schema.notes.dailyDate,
+        noteId: schema.notes.id,
+        title: schema.notes.title
+      })
+      .from(schema.notes)
+      .where(
+        and(
+          eq(schema.notes.userId, userId),
+          isNull(schema.notes.deletedAt),
+          sql`${schema.notes.dailyDate} between ${from} and ${to}`
+        )
+      )
+      .orderBy(asc(schema.notes.dailyDate));
+    
+    return rows.map(row => ({ date: row.date!, noteId: row.noteId, title: row.title ?? "" }));
+  }
+  
+  // Two tabs opening the same day at once must end up on one note, so a
+  // conflicting insert returns the note that won
+  async createDailyNote(insertNote: InsertNote): Promise<Note> {
+    const [note] = await db
+      .insert(schema.notes)
+      .values(insertNote)
+      .onConflictDoNothing({ target: [schema.notes.userId, schema.notes.dailyDate] })
+      .returning();
+    
+    if (!note) {
+      const existingNote = await this.getDailyNote(insertNote.userId, insertNote.dailyDate!);
+      if (!existingNote) {
+        throw new Error('Daily note not found');
+      }
+      return existingNote;
+    }
+    
+    await this.syncNoteLinks(note);
+    this.notifyNoteContentChange(note);
+    return note;
+  }
+  
+  // Notebook operations
+  async getNotebooks(scope: NoteScope): Promise<NotebookWithCount[]> {
+    const rows = await db
+      .select({
+        notebook: schema.notebooks,
+        noteCount: sql<number>`(
+          select count(*) from ${schema.notes}
+          where ${schema.notes.notebookId} = ${schema.notebooks.id} and ${schema.notes.deletedAt} is null
+        )::int`
+      })
+      .from(schema.notebooks)
+      .where(notebookScopeCondition(scope))
+      .orderBy(asc(sql`lower(${schema.notebooks.name})`), asc(schema.notebooks.id));
+    
+    return rows.map(row => ({ ...row.notebook, noteCount: row.noteCount }));
+  }
+  
+  async getNotebook(scope: NoteScope, id: number): Promise<Notebook | undefined> {
+    const notebooks = await db
+      .select()
+      .from(schema.notebooks)
+      .where(
+        and(
+          eq(schema.notebooks.id, id),
+          notebookScopeCondition(scope)
+        )
+      );
+    
+    return notebooks.length ? notebooks[0] : undefined;
+  }
+  
+  async createNotebook(insertNotebook: InsertNotebook): Promise<Notebook> {
+    const [notebook] = await db.insert(schema.notebooks).values(insertNotebook).returning();
+    return notebook;
+  }
+  
+  async updateNotebook(id: number, props: Partial<Pick<InsertNotebook, 'name' | 'parentId'>>): Promise<Notebook> {
+    const [updatedNotebook] = await db
+      .update(schema.notebooks)
+      .set({ ...props, updatedAt: new Date().toISOString() })
+      .where(eq(schema.notebooks.id, id))
+      .returning();
+    
+    if (!updatedNotebook) {
+      throw new Error('Notebook not found');
+    }
+    
+    return updatedNotebook;
+  }
+  
+  // Delete a notebook. "move" hands its notes and child notebooks to its
+  // parent; "trash" deletes the whole subtree and moves every note in it to
+  // the trash, outside any notebook so they can be restored. Returns the
+  // number of notes moved or trashed.
+  async deleteNotebook(notebook: Notebook, mode: NotebookDeleteMode): Promise<number> {
+    return await db.transaction(async (tx) => {
+      if (mode === "move") {
+        await tx
+          .update(schema.notebooks)
+          .set({ parentId: notebook.parentId })
+          .where(eq(schema.notebooks.parentId, notebook.id));
+        
+        const movedNotes = await tx
+          .update(schema.notes)
+          .set({ notebookId: notebook.parentId })
+          .where(eq(schema.notes.notebookId, notebook.id))
+          .returning({ id: schema.notes.id, deletedAt: schema.notes.deletedAt });
+        
+        await tx.delete(schema.notebooks).where(eq(schema.notebooks.id, notebook.id));
+        
+        return movedNotes.filter(note => !note.deletedAt).length;
+      }
+      
+      const scopeNotebooks = await tx
+        .select()
+        .from(schema.notebooks)
+        .where(notebookScopeCondition(notebook))
+        .for("update");
+      const subtreeIds = Array.from(getNotebookSubtreeIds(scopeNotebooks, notebook.id));
+      
+      const trashedNotes = await tx
+        .update(schema.notes)
+        .set({ deletedAt: new Date().toISOString() })
+        .where(
+          and(
+            inArray(schema.notes.notebookId, subtreeIds),
+            isNull(schema.notes.deletedAt)
+          )
+        )
+        .returning({ id: schema.notes.id });
+      
+      // Notes already in the trash lose their notebook too
+      await tx
+        .update(schema.notes)
+        .set({ notebookId: null })
+        .where(inArray(schema.notes.notebookId, subtreeIds));
+      
+      await tx.delete(schema.notebooks).where(inArray(schema.notebooks.id, subtreeIds));
+      
+      return trashedNotes.length;
+    });
+  }
+  
+  // Note template operations
+  async getNoteTemplates(userId: number): Promise<NoteTemplate[]> {
+    return await db
+      .select()
+      .from(schema.noteTemplates)
+      .where(eq(schema.noteTemplates.userId, userId))
+      .orderBy(asc(sql`lower(${schema.noteTemplates.name})`), asc(schema.noteTemplates.id));
+  }
+  
+  async getNoteTemplate(userId: number, id: number): Promise<NoteTemplate | undefined> {
+    const templates = await db
+      .select()
+      .from(schema.noteTemplates)
+      .where(
+        and(
+          eq(schema.noteTemplates.id, id),
+          eq(schema.noteTemplates.userId, userId)
+        )
+      );
+    
+    return templates.length ? templates[0] : undefined;
+  }
+  
+  async createNoteTemplate(insertTemplate: InsertNoteTemplate): Promise<NoteTemplate> {
+    const [template] = await db.insert(schema.noteTemplates).values(insertTemplate).returning();
+    return template;
+  }
+  
+  async deleteNoteTemplate(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(schema.noteTemplates)
+      .where(eq(schema.noteTemplates.id, id))
+      .returning();
+    
+    return deleted.length > 0;
+  }
+  
+  // Workspace operations
+  async getWorkspaces(userId: number): Promise<WorkspaceWithRole[]> {
+    const rows = await db
+      .select({
+        workspace: schema.workspaces,
+        role: schema.workspaceMembers.role,
+        memberCount: sql<number>`(
+          select count(*) from ${schema.workspaceMembers} as members
+          where members.workspace_id = ${schema.workspaces.id}
+        )::int`
+      })
+      .from(schema.workspaces)
+      .innerJoin(schema.workspaceMembers, eq(schema.workspaceMembers.workspaceId, schema.workspaces.id))
+      .where(eq(schema.workspaceMembers.userId, userId))
+      .orderBy(asc(sql`lower(${schema.workspaces.name})`), asc(schema.workspaces.id));
+    
+    return rows.map(row => ({ ...row.workspace, role: row.role, memberCount: row.memberCount }));
+  }
+  
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    const workspaces = await db.select().from(schema.workspaces).where(eq(schema.workspaces.id, id));
+    return workspaces.length ? workspaces[0] : undefined;
+  }
+  
+  // The scope for acting in a workspace, or undefined if the user isn't a member
+  async getWorkspaceScope(userId: number, workspaceId: number): Promise<NoteScope | undefined> {
+    const member = await this.getWorkspaceMember(workspaceId, userId);
+    return member ? { userId, workspaceId, role: member.role } : undefined;
+  }
+  
+  // The creator becomes the workspace's first owner
+  async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    return await db.transaction(async (tx) => {
+      const [workspace] = await tx.insert(schema.workspaces).values(insertWorkspace).returning();
+      
+      await tx.insert(schema.workspaceMembers).values({
+        workspaceId: workspace.id,
+        userId: workspace.createdBy,
+        role: "owner",
+        createdAt: workspace.createdAt
+      });
+      
+      return workspace;
+    });
+  }
+  
+  async updateWorkspace(id: number, props: Pick<InsertWorkspace, 'name'>): Promise<Workspace> {
+    const [updatedWorkspace] = await db
+      .update(schema.workspaces)
+      .set({ ...props, updatedAt: new Date().toISOString() })
+      .where(eq(schema.workspaces.id, id))
+      .returning();
+    
+    if (!updatedWorkspace) {
+      throw new Error('Workspace not found');
+    }
+    
+    return updatedWorkspace;
+  }
+  
+  // Delete a workspace with all of its notes (trash included), notebooks,
+  // members and invitations. Returns the deleted notes so the caller can
+  // remove their attachment files.
+  async deleteWorkspace(id: number): Promise<Note[]> {
+    return await db.transaction(async (tx) => {
+      const deletedNotes = await tx
+        .delete(schema.notes)
+        .where(eq(schema.notes.workspaceId, id))
+        .returning();
+      
+      if (deletedNotes.length > 0) {
+        const deletedIds = deletedNotes.map(note => note.id);
+        
+        await tx.delete(schema.noteRevisions).where(inArray(schema.noteRevisions.noteId, deletedIds));
+        await tx.delete(schema.noteLinks).where(inArray(schema.noteLinks.sourceNoteId, deletedIds));
+        await tx.delete(schema.noteShares).where(inArray(schema.noteShares.noteId, deletedIds));
+        await tx.delete(schema.noteEmbeddings).where(inArray(schema.noteEmbeddings.noteId, deletedIds));
+        await tx.delete(schema.aiChatMessages).where(inArray(schema.aiChatMessages.noteId, deletedIds));
+        await tx.delete(schema.aiToolInvocations).where(inArray(schema.aiToolInvocations.noteId, deletedIds));
+        // Links into the workspace from elsewhere go back to matching by title
+        await tx.update(schema.noteLinks).set({ targetNoteId: null }).where(inArray(schema.noteLinks.targetNoteId, deletedIds));
+      }
+      
+      // Proposed notes that were never created
+      await tx.delete(schema.aiToolInvocations).where(eq(schema.aiToolInvocations.workspaceId, id));
+      await tx.delete(schema.notebooks).where(eq(schema.notebooks.workspaceId, id));
+      await tx.delete(schema.workspaceInvitations).where(eq(schema.workspaceInvitations.workspaceId, id));
+      await tx.delete(schema.workspaceMembers).where(eq(schema.workspaceMembers.workspaceId, id));
+      await tx.delete(schema.workspaces).where(eq(schema.workspaces.id, id));
+      
+      return deletedNotes;
+    });
+  }
+  
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberWithUser[]> {
+    const rows = await db
+      .select({
+        member: schema.workspaceMembers,
+        username: schema.users.username,
+        email: schema.users.email,
+      })
+      .from(schema.workspaceMembers)
+      .innerJoin(schema.users, eq(schema.users.id, schema.workspaceMembers.userId))
+      .where(eq(schema.workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(schema.workspaceMembers.createdAt), asc(schema.workspaceMembers.id));
+    
+    return rows.map(row => ({ ...row.member, username: row.username, email: row.email }));
+  }
+  
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    const members = await db
+      .select()
+      .from(schema.workspaceMembers)
+      .where(
+        and(
+          eq(schema.workspaceMembers.workspaceId, workspaceId),
+          eq(schema.workspaceMembers.userId, userId)
+        )
+      );
+    
+    return members.length ? members[0] : undefined;
+  }
+  
+  async updateWorkspaceMemberRole(id: number, role: WorkspaceRole): Promise<WorkspaceMember> {
+    const [updatedMember] = await db
+      .update(schema.workspaceMembers)
+      .set({ role })
+      .where(eq(schema.workspaceMembers.id, id))
+      .returning();
+    
+    if (!updatedMember) {
+      throw new Error('Workspace member not found');
+    }
+    
+    return updatedMember;
+  }
+  
+  async removeWorkspaceMember(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(schema.workspaceMembers)
+      .where(eq(schema.workspaceMembers.id, id))
+      .returning();
+    
+    return deleted.length > 0;
+  }
+  
+  async getWorkspaceInvitations(workspaceId: number): Promise<WorkspaceInvitation[]> {
+    return await db
+      .select()
+      .from(schema.workspaceInvitations)
+      .where(eq(schema.workspaceInvitations.workspaceId, workspaceId))
+      .orderBy(desc(schema.workspaceInvitations.createdAt));
+  }
+  
+  async getWorkspaceInvitation(workspaceId: number, id: number): Promise<WorkspaceInvitation | undefined> {
+    const invitations = await db
+      .select()
+      .from(schema.workspaceInvitations)
+      .where(
+        and(
+          eq(schema.workspaceInvitations.id, id),
+          eq(schema.workspaceInvitations.workspaceId, workspaceId)
+        )
+      );
+    
+    return invitations.length ? invitations[0] : undefined;
+  }
+  
+  async getWorkspaceInvitationByTokenId(tokenId: string): Promise<WorkspaceInvitation | undefined> {
+    const invitations = await db
+      .select()
+      .from(schema.workspaceInvitations)
+      .where(eq(schema.workspaceInvitations.tokenId, tokenId));
+    
+    return invitations.length ? invitations[0] : undefined;
+  }
+  
+  async createWorkspaceInvitation(insertInvitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitation> {
+    const [invitation] = await db.insert(schema.workspaceInvitations).values(insertInvitation).returning();
+    return invitation;
+  }
+  
+  async deleteWorkspaceInvitation(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(schema.workspaceInvitations)
+      .where(eq(schema.workspaceInvitations.id, id))
+      .returning();
+    
+    return deleted.length > 0;
+  }
+  
+  // Use up an invitation and add the user to its workspace. Members who
+  // follow an invitation keep the role they have. Returns undefined if the
+  // invitation was already used.
+  async acceptWorkspaceInvitation(invitation: WorkspaceInvitation, userId: number): Promise<WorkspaceMember | undefined> {
+    return await db.transaction(async (tx) => {
+      const used = await tx
+        .delete(schema.workspaceInvitations)
+        .where(eq(schema.workspaceInvitations.id, invitation.id))
+        .returning();
+      
+      if (used.length === 0) {
+        return undefined;
+      }
+      
+      await tx
+        .insert(schema.workspaceMembers)
+        .values({
+          workspaceId: invitation.workspaceId,
+          userId,
+          role: invitation.role,
+          createdAt: new Date().toISOString()
+        })
+        .onConflictDoNothing({ target: [schema.workspaceMembers.workspaceId, schema.workspaceMembers.userId] });
+      
+      const [member] = await tx
+        .select()
+        .from(schema.workspaceMembers)
+        .where(
+          and(
+            eq(schema.workspaceMembers.workspaceId, invitation.workspaceId),
+            eq(schema.workspaceMembers.userId, userId)
+          )
+        );
+      
+      return member;
+    });
+  }
+  
+  // Note share operations
+  async getNoteShares(userId: number): Promise<NoteShareWithNote[]> {
+    const rows = await db
+      .select({
+        share: schema.noteShares,
+        noteTitle: schema.notes.title,
+      })
+      .from(schema.noteShares)
+      .innerJoin(schema.notes, eq(schema.notes.id, schema.noteShares.noteId))
+      .where(eq(schema.noteShares.userId, userId))
+      .orderBy(desc(schema.noteShares.createdAt));
+    
+    return rows.map(row => ({ ...row.share, noteTitle: row.noteTitle ?? "" }));
+  }
+  
+  async getNoteShare(userId: number, id: number): Promise<NoteShare | undefined> {
+    const shares = await db
+      .select()
+      .from(schema.noteShares)
+      .where(
+        and(
+          eq(schema.noteShares.id, id),
+          eq(schema.noteShares.userId, userId)
+        )
+      );
+    
+    return shares.length ? shares[0] : undefined;
+  }
+  
+  async getNoteShareByTokenId(tokenId: string): Promise<NoteShare | undefined> {
+    const shares = await db
+      .select()
+      .from(schema.noteShares)
+      .where(eq(schema.noteShares.tokenId, tokenId));
+    
+    return shares.length ? shares[0] : undefined;
+  }
+  
+  async createNoteShare(insertShare: InsertNoteShare): Promise<NoteShare> {
+    const [share] = await db.insert(schema.noteShares).values(insertShare).returning();
+    return share;
+  }
+  
+  async deleteNoteShare(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(schema.noteShares)
+      .where(eq(schema.noteShares.id, id))
+      .returning();
+    
+    return deleted.length > 0;
+  }
+  
+  // Counted in the database so simultaneous views aren't lost
+  async recordNoteShareView(id: number): Promise<void> {
+    await db
+      .update(schema.noteShares)
+      .set({
+        viewCount: sql`${schema.noteShares.viewCount} + 1`,
+        lastViewedAt: new Date().toISOString()
+      })
+      .where(eq(schema.noteShares.id, id));
+  }
+  
+  // Note revision operations
+  async getNoteRevisions(noteId: number): Promise<NoteRevision[]> {
+    return await db
+      .select()
+      .from(schema.noteRevisions)
+      .where(eq(schema.noteRevisions.noteId, noteId))
+      .orderBy(desc(schema.noteRevisions.createdAt), desc(schema.noteRevisions.id));
+  }
+  
+  async getNoteRevision(noteId: number, revisionId: number): Promise<NoteRevision | undefined> {
+    const revisions = await db
+      .select()
+      .from(schema.noteRevisions)
+      .where(
+        and(
+          eq(schema.noteRevisions.id, revisionId),
+          eq(schema.noteRevisions.noteId, noteId)
+        )
+      );
+    
+    return revisions.length ? revisions[0] : undefined;
+  }
+  
+  // Trash operations
+  async getDeletedNotes(scope: NoteScope): Promise<Note[]> {
+    return await db
+      .select()
+      .from(schema.notes)
+      .where(
+        and(
+          noteScopeCondition(scope),
+          isNotNull(schema.notes.deletedAt)
+        )
+      )
+      .orderBy(desc(schema.notes.deletedAt));
+  }
+  
+  async softDeleteNote(id: number): Promise<Note> {
+    const [deletedNote] = await db
+      .update(schema.notes)
+      .set({ deletedAt: new Date().toISOString() })
+      .where(eq(schema.notes.id, id))
+      .returning();
+    
+    if (!deletedNote) {
+      throw new Error('Note not found');
+    }
+    
+    return deletedNote;
+  }
+  
+  async restoreNote(id: number): Promise<Note> {
+    const [restoredNote] = await db
+      .update(schema.notes)
+      .set({ deletedAt: null })
+      .where(eq(schema.notes.id, id))
+      .returning();
+    
+    if (!restoredNote) {
+      throw new Error('Note not found');
+    }
+    
+    return restoredNote;
+  }
+  
+  // Hard-delete notes that have been in the trash since before the given date,
+  // along with their revision history. Returns the purged notes so the caller
+  // can remove their attachment files.
+  async purgeDeletedNotes(deletedBefore: string): Promise<Note[]> {
+    return await db.transaction(async (tx) => {
+      const purgedNotes = await tx
+        .delete(schema.notes)
+        .where(
+          and(
+            isNotNull(schema.notes.deletedAt),
+            lt(schema.notes.deletedAt, deletedBefore)
+          )
+        )
+        .returning();
+      
+      if (purgedNotes.length > 0) {
+        const purgedIds = purgedNotes.map(note => note.id);
+        
+        await tx
+          .delete(schema.noteRevisions)
+          .where(inArray(schema.noteRevisions.noteId, purgedIds));
+        
+        await tx
+          .delete(schema.noteLinks)
+          .where(inArray(schema.noteLinks.sourceNoteId, purgedIds));
+        
+        await tx
+          .delete(schema.noteShares)
+          .where(inArray(schema.noteShares.noteId, purgedIds));
+        
+        await tx
+          .delete(schema.noteEmbeddings)
+          .where(inArray(schema.noteEmbeddings.noteId, purgedIds));
+        
+        await tx
+          .delete(schema.aiChatMessages)
+          .where(inArray(schema.aiChatMessages.noteId, purgedIds));
+        
+        await tx
+          .delete(schema.aiToolInvocations)
+          .where(inArray(schema.aiToolInvocations.noteId, purgedIds));
+        
+        // Links to a purged note go back to matching by title
+        await tx
+          .update(schema.noteLinks)
+          .set({ targetNoteId: null })
+          .where(inArray(schema.noteLinks.targetNoteId, purgedIds));
+      }
+      
+      return purgedNotes;
+    });
+  }
+  
+  // Note embedding operations
+  async getNoteEmbeddings(noteId: number): Promise<NoteEmbedding[]> {
+    return await db
+      .select()
+      .from(schema.noteEmbeddings)
+      .where(eq(schema.noteEmbeddings.noteId, noteId))
+      .orderBy(asc(schema.noteEmbeddings.chunkIndex));
+  }
+  
+  async replaceNoteEmbeddings(noteId: number, embeddings: InsertNoteEmbedding[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(schema.noteEmbeddings).where(eq(schema.noteEmbeddings.noteId, noteId));
+      
+      if (embeddings.length > 0) {
+        await tx.insert(schema.noteEmbeddings).values(embeddings);
+      }
+    });
+  }
+  
+  // Notes with no embeddings from the given model, a page at a time by id
+  async getNotesNeedingEmbeddings(model: string, afterId: number, limit: number): Promise<Note[]> {
+    return await db
+      .select()
+      .from(schema.notes)
+      .where(
+        and(
+          gt(schema.notes.id, afterId),
+          sql`not exists (
+            select 1 from ${schema.noteEmbeddings}
+            where ${schema.noteEmbeddings.noteId} = ${schema.notes.id} and ${schema.noteEmbeddings.model} = ${model}
+          )`
+        )
+      )
+      .orderBy(asc(schema.notes.id))
+      .limit(limit);
+  }
+  
+  // The chunks nearest to an embedding among the scope's notes outside the trash.
+  // The HNSW index only hands over its ef_search nearest chunks of all users,
+  // and the filters come after; an iterative scan (pgvector 0.8 and up) keeps
+  // going through the index until enough chunks pass them.
+  async searchNoteEmbeddings(scope: NoteScope, embedding: number[], model: string, limit: number): Promise<NoteChunkMatch[]> {
+    const distance = cosineDistance(schema.noteEmbeddings.embedding, embedding);
+    
+    const rows = await db.transaction(async (tx) => {
+      await tx.execute(sql`SET LOCAL hnsw.iterative_scan = strict_order`);
+      
+      return await tx
+        .select({
+          note: schema.notes,
+          chunkIndex: schema.noteEmbeddings.chunkIndex,
+          content: schema.noteEmbeddings.content,
+          distance: sql<number>`${distance}`
+        })
+        .from(schema.noteEmbeddings)
+        .innerJoin(schema.notes, eq(schema.notes.id, schema.noteEmbeddings.noteId))
+        .where(
+          and(
+            noteScopeCondition(scope),
+            isNull(schema.notes.deletedAt),
+            eq(schema.noteEmbeddings.model, model)
+          )
+        )
+        .orderBy(distance)
+        .limit(limit);
+    });
+    
+    return rows.map(row => ({
+      note: row.note,
+      chunkIndex: row.chunkIndex,
+      content: row.content,
+      similarity: 1 - Number(row.distance)
+    }));
+  }
+  
+  // Tag operations
+  
+  // Every tag in use, parents of nested tags included, with the number of
+  // notes (outside the trash) under it. A note tagged "work/clienta" counts
+  // towards both "work" and "work/clienta".
+  async getTagCounts(scope: NoteScope): Promise<TagCount[]> {
+    const result = await db.execute(sql`
+      select array_to_string(t.levels[1:depth.n], ${TAG_SEPARATOR}) as tag,
+        count(distinct ${schema.notes.id})::int as count
+      from ${schema.notes}
+        cross join lateral (
+          select string_to_array(lower(tag), ${TAG_SEPARATOR}) as levels
+          from unnest(${schema.notes.tags}) as tag
+        ) as t
+        cross join lateral generate_series(1, cardinality(t.levels)) as depth(n)
+      where ${noteScopeCondition(scope)} and ${schema.notes.deletedAt} is null
+      group by 1
+      order by 1
+    `);
+    
+    return result.rows as unknown as TagCount[];
+  }
+  
+  // Renaming onto an existing tag merges the two. Nested tags move along.
+  // Returns the number of notes changed.
+  async renameTag(scope: NoteScope, from: string, to: string): Promise<number> {
+    return await this.rewriteNoteTags(scope, [from], tag => renameTagPath(tag, from, to));
+  }
+  
+  async mergeTags(scope: NoteScope, sources: string[], target: string): Promise<number> {
+    return await this.rewriteNoteTags(scope, sources, (tag) => {
+      const source = sources.find(source => isTagOrDescendant(tag, source));
+      return source ? renameTagPath(tag, source, target) : tag;
+    });
+  }
+  
+  // Removes the tag and every tag nested under it
+  async deleteTag(scope: NoteScope, tag: string): Promise<number> {
+    return await this.rewriteNoteTags(scope, [tag], current => isTagOrDescendant(current, tag) ? null : current);
+  }
+  
+  // Apply a tag rewrite (null drops the tag) to every note in the scope that
+  // carries one of the given tags, in one transaction. Trashed notes are
+  // included so restoring them doesn't bring old tags back.
+  private async rewriteNoteTags(
+    scope: NoteScope,
+    matchTags: string[],
+    rewrite: (tag: string) => string | null
+  ): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const affectedNotes = await tx
+        .select()
+        .from(schema.notes)
+        .where(
+          and(
+            noteScopeCondition(scope),
+            or(...matchTags.map(hasTagCondition))
+          )
+        )
+        .for("update");
+      
+      for (const note of affectedNotes) {
+        const tags = (note.tags ?? [])
+          .map(tag => rewrite(normalizeTag(tag)))
+          .filter((tag): tag is string => !!tag);
+        
+        await tx
+          .update(schema.notes)
+          .set({ tags: Array.from(new Set(tags)) })
+          .where(eq(schema.notes.id, note.id));
+      }
+      
+      return affectedNotes.length;
+    });
+  }
+  
+  // Note reaction operations
+  
+  // Reactions are changed with a single UPDATE that reads the row it writes,
+  // so concurrent reactions on the same note are applied one after the other
+  // instead of overwriting each other. updatedAt is left alone: reacting
+  // isn't editing.
+  async addNoteReaction(noteId: number, userId: number, emoji: string): Promise<Note> {
+    const reactions = this.noteReactionsJson();
+    
+    const [updatedNote] = await db
+      .update(schema.notes)
+      .set({
+        emojis: sql`jsonb_set(
+          ${reactions},
+          ARRAY[${emoji}]::text[],
+          (
+            SELECT jsonb_agg(DISTINCT user_id ORDER BY user_id)
+            FROM jsonb_array_elements(coalesce(${reactions} -> ${emoji}::text, '[]'::jsonb) || to_jsonb(${userId}::int)) AS reacted(user_id)
+          )
+        )::text`
+      })
+      .where(eq(schema.notes.id, noteId))
+      .returning();
+    
+    if (!updatedNote) {
+      throw new Error('Note not found');
+    }
+    
+    return updatedNote;
+  }
+  
+  async removeNoteReaction(noteId: number, userId: number, emoji: string): Promise<Note> {
+    const reactions = this.noteReactionsJson();
+    
+    // The emoji's key is dropped once nobody is left reacting with it
+    const [updatedNote] = await db
+      .update(schema.notes)
+      .set({
+        emojis: sql`(
+          SELECT (
+            CASE WHEN remaining.user_ids IS NULL
+              THEN ${reactions} - ${emoji}::text
+              ELSE jsonb_set(${reactions}, ARRAY[${emoji}]::text[], remaining.user_ids)
+            END
+          )::text
+          FROM (
+            SELECT jsonb_agg(user_id) AS user_ids
+            FROM jsonb_array_elements(coalesce(${reactions} -> ${emoji}::text, '[]'::jsonb)) AS reacted(user_id)
+            WHERE user_id <> to_jsonb(${userId}::int)
+          ) AS remaining
+        )`
+      })
+      .where(eq(schema.notes.id, noteId))
+      .returning();
+    
+    if (!updatedNote) {
+      throw new Error('Note not found');
+    }
+    
+    return updatedNote;
+  }
+  
+  // The stored reactions as jsonb, read the way parseNoteReactions reads
+  // them: anything malformed counts as none (note_reactions, see migrate.ts)
+  private noteReactionsJson(): SQL {
+    return sql`note_reactions(${schema.notes.emojis})`;
+  }
+  
+  // Note link operations
+  
+  // Notes (outside the trash) that link to the given note by id or by its current title
+  async getBacklinks(scope: NoteScope, note: Note): Promise<Note[]> {
+    const title = (note.title ?? "").trim();
+    const linksToNote = title
+      ? sql`(${schema.noteLinks.targetNoteId} = ${note.id} OR lower(${schema.noteLinks.targetTitle}) = lower(${title}))`
+      : sql`${schema.noteLinks.targetNoteId} = ${note.id}`;
+    
+    // Links are recorded under each note's author, so in a workspace they
+    // come from several users; the scope is applied to the linking notes
+    const sourceIds = db
+      .select({ id: schema.noteLinks.sourceNoteId })
+      .from(schema.noteLinks)
+      .where(linksToNote);
+    
+    return await db
+      .select()
+      .from(schema.notes)
+      .where(
+        and(
+          noteScopeCondition(scope),
+          isNull(schema.notes.deletedAt),
+          inArray(schema.notes.id, sourceIds),
+          sql`${schema.notes.id} <> ${note.id}`
+        )
+      )
+      .orderBy(desc(schema.notes.updatedAt));
+  }
+  
+  // Point [[fromTitle]] links in the scope's notes at toTitle after a rename.
+  // Returns the notes that were changed.
+  async rewriteNoteReferences(scope: NoteScope, fromTitle: string, toTitle: string): Promise<Note[]> {
+    if (!fromTitle.trim() || !toTitle.trim()) {
+      return [];
+    }
+    
+    const sourceIds = db
+      .select({ id: schema.noteLinks.sourceNoteId })
+      .from(schema.noteLinks)
+      .where(sql`lower(${schema.noteLinks.targetTitle}) = lower(${fromTitle.trim()})`);
+    
+    const sourceNotes = await db
+      .select()
+      .from(schema.notes)
+      .where(
+        and(
+          noteScopeCondition(scope),
+          isNull(schema.notes.deletedAt),
+          inArray(schema.notes.id, sourceIds)
+        )
+      );
+    
+    const updatedNotes: Note[] = [];
+    for (const sourceNote of sourceNotes) {
+      const content = rewriteWikiLinks(sourceNote.content, fromTitle, toTitle.trim());
+      if (content !== sourceNote.content) {
+        updatedNotes.push(await this.updateNote(sourceNote.id, content, { userId: scope.userId }));
+      }
+    }
+    
+    return updatedNotes;
+  }
+  
+  // Rebuild the link rows for a note from its saved content
+  private async syncNoteLinks(note: Note): Promise<void> {
+    const links = extractWikiLinks(note.content);
+    
+    await db.transaction(async (tx) => {
+      await tx.delete(schema.noteLinks).where(eq(schema.noteLinks.sourceNoteId, note.id));
+      
+      if (links.length > 0) {
+        await tx.insert(schema.noteLinks).values(
+          links.map(link => ({
+            userId: note.userId,
+            sourceNoteId: note.id,
+            targetNoteId: link.targetNoteId,
+            targetTitle: link.targetTitle
+          }))
+        );
+      }
+    });
+  }
+  
+  private async getLatestNoteRevision(noteId: number): Promise<NoteRevision | undefined> {
+    const revisions = await db
+      .select()
+      .from(schema.noteRevisions)
+      .where(eq(schema.noteRevisions.noteId, noteId))
+      .orderBy(desc(schema.noteRevisions.id))
+      .limit(1);
+    
+    return revisions.length ? revisions[0] : undefined;
+  }
+  
+  // Notes written before revision history existed (and new notes) get their
+  // current state recorded before the first edit, so that state can still be
+  // restored. Returns whether it recorded one.
+  private async ensureBaselineRevision(noteId: number): Promise<boolean> {
+    if (await this.getLatestNoteRevision(noteId)) {
+      return false;
+    }
+    
+    const [note] = await db.select().from(schema.notes).where(eq(schema.notes.id, noteId));
+    if (note) {
+      await this.recordNoteRevision(note, note.userId, false);
+    }
+    return !!note;
+  }
+  
+  // Snapshot the saved state of a note, skipping saves that changed nothing.
+  // The editor autosaves every couple of seconds, so a save by the same user
+  // within REVISION_MERGE_WINDOW_MS of the start of their last revision
+  // updates that one instead: a burst of editing ends up as a single revision,
+  // and a long session as one every few minutes.
+  private async recordNoteRevision(note: Note, userId: number, merge: boolean): Promise<void> {
+    const latest = await this.getLatestNoteRevision(note.id);
+    
+    if (latest && latest.content === note.content && latest.title === note.title) {
+      return;
+    }
+    
+    const snapshot = {
+      title: note.title ?? "",
+      content: note.content,
+      createdAt: note.updatedAt
+    };
+    
+    if (merge && latest && latest.userId === userId &&
+        new Date(note.updatedAt).getTime() - new Date(latest.startedAt ?? latest.createdAt).getTime() < REVISION_MERGE_WINDOW_MS) {
+      await db.update(schema.noteRevisions)
+        .set({ ...snapshot, startedAt: latest.startedAt ?? latest.createdAt })
+        .where(eq(schema.noteRevisions.id, latest.id));
+      return;
+    }
+    
+    await db.insert(schema.noteRevisions).values({ noteId: note.id, userId, ...snapshot, startedAt: note.updatedAt });
+  }
+  
   // Command operations
   async executeCommand(insertCommand: InsertCommandExecution): Promise<CommandExecution> {
     const [command] = await db.insert(schema.commandExecutions).values(insertCommand).returning();
@@ -397,11 +1847,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(schema.aiChatMessages.timestamp));
   }
   
-  async getAiChatMessagesForNote(noteId: number): Promise<AiChatMessage[]> {
+  // One user's conversations about a note; in a workspace, others' stay private
+  async getAiChatMessagesForNote(userId: number, noteId: number): Promise<AiChatMessage[]> {
     return await db
       .select()
       .from(schema.aiChatMessages)
-      .where(eq(schema.aiChatMessages.noteId, noteId))
+      .where(and(
+        eq(schema.aiChatMessages.userId, userId),
+        eq(schema.aiChatMessages.noteId, noteId)
+      ))
       .orderBy(desc(schema.aiChatMessages.timestamp));
   }
   
@@ -419,6 +1873,60 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
   
+  // AI tool operations
+  async getAiToolInvocations(userId: number, filter: AiToolInvocationFilter, limit: number = 50): Promise<AiToolInvocation[]> {
+    const conditions = [eq(schema.aiToolInvocations.userId, userId)];
+    if (filter.status !== undefined) conditions.push(eq(schema.aiToolInvocations.status, filter.status));
+    if (filter.noteId !== undefined) conditions.push(eq(schema.aiToolInvocations.noteId, filter.noteId));
+    if (filter.aiTeamMemberId !== undefined) conditions.push(eq(schema.aiToolInvocations.aiTeamMemberId, filter.aiTeamMemberId));
+    
+    return await db
+      .select()
+      .from(schema.aiToolInvocations)
+      .where(and(...conditions))
+      .orderBy(desc(schema.aiToolInvocations.id))
+      .limit(limit);
+  }
+  
+  async getAiToolInvocation(userId: number, id: number): Promise<AiToolInvocation | undefined> {
+    const [invocation] = await db
+      .select()
+      .from(schema.aiToolInvocations)
+      .where(and(
+        eq(schema.aiToolInvocations.id, id),
+        eq(schema.aiToolInvocations.userId, userId)
+      ));
+    return invocation;
+  }
+  
+  async createAiToolInvocation(insertInvocation: InsertAiToolInvocation): Promise<AiToolInvocation> {
+    const [invocation] = await db.insert(schema.aiToolInvocations).values(insertInvocation).returning();
+    return invocation;
+  }
+  
+  // Settles a pending proposal; undefined if it was already settled, so
+  // approving twice can't apply a change twice
+  async resolveAiToolInvocation(id: number, props: Pick<AiToolInvocation, 'status' | 'result'>): Promise<AiToolInvocation | undefined> {
+    const [invocation] = await db
+      .update(schema.aiToolInvocations)
+      .set({ ...props, resolvedAt: new Date().toISOString() })
+      .where(and(
+        eq(schema.aiToolInvocations.id, id),
+        eq(schema.aiToolInvocations.status, "pending")
+      ))
+      .returning();
+    return invocation;
+  }
+  
+  async updateAiToolInvocation(id: number, props: Partial<Pick<AiToolInvocation, 'status' | 'result' | 'noteId'>>): Promise<AiToolInvocation> {
+    const [invocation] = await db
+      .update(schema.aiToolInvocations)
+      .set(props)
+      .where(eq(schema.aiToolInvocations.id, id))
+      .returning();
+    return invocation;
+  }
+  
   // Initialize database with default packages
   async initializePackages(): Promise<void> {
     const existingPackages = await this.getPackages();
@@ -0,0 +1,77 @@
+import { storage } from "./storage";
+import { deleteUploadedFile } from "./upload-handler";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+interface TrashServiceOptions {
+  retentionDays: number;
+  purgeIntervalMinutes: number;
+}
+
+/**
+ * Service that permanently removes notes once they have been in the trash
+ * longer than the configured retention window
+ */
+export class TrashService {
+  readonly retentionDays: number;
+  private purgeIntervalMinutes: number;
+  private timer: NodeJS.Timeout | null = null;
+  
+  constructor(options: TrashServiceOptions) {
+    this.retentionDays = options.retentionDays;
+    this.purgeIntervalMinutes = options.purgeIntervalMinutes;
+  }
+  
+  /**
+   * Hard-delete expired notes and their attachment files
+   * Returns the number of notes purged
+   */
+  async purgeExpiredNotes(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.retentionDays * DAY_MS).toISOString();
+    const purgedNotes = await storage.purgeDeletedNotes(cutoff);
+    
+    for (const note of purgedNotes) {
+      for (const fileUrl of note.attachments || []) {
+        deleteUploadedFile(fileUrl);
+      }
+    }
+    
+    if (purgedNotes.length > 0) {
+      console.log(`Purged ${purgedNotes.length} note(s) from the trash`);
+    }
+    
+    return purgedNotes.length;
+  }
+  
+  /**
+   * Run the purge now and then on a fixed interval
+   */
+  start(): void {
+    if (this.timer) return;
+    
+    const runPurge = () => {
+      this.purgeExpiredNotes().catch((error) => {
+        console.error("Error purging trash:", error);
+      });
+    };
+    
+    runPurge();
+    this.timer = setInterval(runPurge, this.purgeIntervalMinutes * MINUTE_MS);
+    // Don't keep the process alive just for the purge job
+    this.timer.unref();
+  }
+  
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+// Retention window and purge frequency can be configured through the environment
+export const trashService = new TrashService({
+  retentionDays: Number(process.env.TRASH_RETENTION_DAYS) || 30,
+  purgeIntervalMinutes: Number(process.env.TRASH_PURGE_INTERVAL_MINUTES) || 60,
+});
@@ -4,6 +4,7 @@ import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import sharp from 'sharp';
 import { Request, Response, NextFunction } from 'express';
+import { IMPORT_FILE_EXTENSIONS } from '@shared/import';
 
 // Create upload directories if they don't exist
 const uploadsDir = path.join(process.cwd(), 'uploads');
@@ -20,6 +21,8 @@ if (!fs.existsSync(filesDir)) {
   fs.mkdirSync(filesDir);
 }
 
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
 // Storage configuration
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -32,21 +35,26 @@ const storage = multer.diskStorage({
   }
 });
 
-// File filter
+// Allowed file types
+const allowedMimeTypes = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/svg+xml', 'image/webp',
+  'application/pdf',
+  'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain', 'text/csv'
+];
+
+export const isAllowedMimeType = (mimetype: string): boolean => allowedMimeTypes.includes(mimetype);
+
+// File filter. Import files (ZIP, Markdown, ENEX) are recognised by extension,
+// since browsers report all sorts of types for them.
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  // Allowed file types
-  const allowedMimeTypes = [
-    'image/jpeg', 'image/png', 'image/gif', 'image/svg+xml', 'image/webp',
-    'application/pdf',
-    'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'text/plain', 'text/csv'
-  ];
+  const isImportFile = IMPORT_FILE_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase());
 
-  if (allowedMimeTypes.includes(file.mimetype)) {
+  if (isAllowedMimeType(file.mimetype) || isImportFile) {
     cb(null, true);
   } else {
-    cb(new Error('Invalid file type. Only images, PDFs, Office documents, and text files are allowed.'));
+    cb(new Error('Invalid file type. Only images, PDFs, Office documents, text files and note exports are allowed.'));
   }
 };
 
@@ -55,7 +63,7 @@ export const upload = multer({
   storage,
   fileFilter,
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB max file size
+    fileSize: MAX_FILE_SIZE,
   }
 });
 
@@ -92,4 +100,31 @@ export const processImage = async (req: Request, res: Response, next: NextFuncti
 export const getFileUrl = (req: Request, filename: string): string => {
   const baseUrl = `${req.protocol}://${req.get('host')}`;
   return `${baseUrl}/uploads/${filename.startsWith('processed_') ? 'images' : 'files'}/${filename}`;
-};
\ No newline at end of file
+};
+
+// Store a file that didn't come through multer (e.g. from an import) and return its URL
+export const saveFile = async (baseUrl: string, data: Buffer, originalName: string, mimetype: string): Promise<string> => {
+  const folder = mimetype.startsWith('image/') ? 'images' : 'files';
+  const filename = `${uuidv4()}${path.extname(originalName).toLowerCase()}`;
+  await fs.promises.writeFile(path.join(folder === 'images' ? imagesDir : filesDir, filename), data);
+  return `${baseUrl}/uploads/${folder}/${filename}`;
+};
+
+// Resolve an attachment URL back to its location on disk
+export const getFilePathFromUrl = (fileUrl: string): string => {
+  const filename = path.basename(new URL(fileUrl, 'http://localhost').pathname);
+  const isImage = fileUrl.includes('/images/');
+  return path.join(isImage ? imagesDir : filesDir, filename);
+};
+
+// Delete an uploaded file, ignoring files that are already gone
+export const deleteUploadedFile = (fileUrl: string): void => {
+  try {
+    const filePath = getFilePathFromUrl(fileUrl);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  } catch (err) {
+    console.warn("Could not delete physical file:", err);
+  }
+};
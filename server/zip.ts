@@ -0,0 +1,266 @@
+import { Writable } from "stream";
+import { crc32, deflateRaw, inflateRawSync } from "zlib";
+import { promisify } from "util";
+
+const deflateRawAsync = promisify(deflateRaw);
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8_NAMES = 0x0800;
+const ZIP_VERSION = 20; // 2.0: deflate and folders
+
+// Without Zip64 an archive is limited to 65535 entries and 4 GB
+const MAX_ENTRIES = 0xffff;
+const MAX_OFFSET = 0xffffffff;
+
+interface ZipEntry {
+  name: Buffer;
+  method: number;
+  time: number;
+  date: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+export interface ZipFileEntry {
+  name: string; // path inside the archive, "/"-separated
+  size: number;
+  modifiedAt: Date;
+  read(): Buffer; // inflates on demand, so unused files cost nothing
+}
+
+// Bounds on what reading an archive may unpack, so a small upload can't
+// expand into gigabytes of memory (a "zip bomb")
+export interface ZipReadLimits {
+  maxFileSize?: number; // for any one file
+  maxTotalSize?: number; // for all files read from the archive
+}
+
+// MS-DOS time and date fields, in local time as unzip tools expect
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KB
+  const earliest = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= earliest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error("Not a ZIP file");
+}
+
+/**
+ * List the files in a ZIP archive held in memory. Folders are left out;
+ * each file's content is only inflated when read. Reading a file throws if
+ * it would go over the limits, checked against the size the archive declares
+ * before anything is inflated.
+ */
+export function readZip(archive: Buffer, limits: ZipReadLimits = {}): ZipFileEntry[] {
+  const { maxFileSize = Infinity, maxTotalSize = Infinity } = limits;
+  const end = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const entries: ZipFileEntry[] = [];
+  let unpacked = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const time = archive.readUInt16LE(offset + 12);
+    const date = archive.readUInt16LE(offset + 14);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString(flags & FLAG_UTF8_NAMES ? "utf8" : "latin1", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & FLAG_ENCRYPTED) {
+      throw new Error("Encrypted ZIP files are not supported");
+    }
+
+    entries.push({
+      name,
+      size,
+      modifiedAt: fromDosDateTime(time, date),
+      read: () => {
+        if (size > maxFileSize) {
+          throw new Error(`${name} is too large to unpack`);
+        }
+        if (unpacked + size > maxTotalSize) {
+          throw new Error("The archive unpacks to more than we can import at once");
+        }
+        unpacked += size;
+
+        // The local header repeats the name and may have its own extra field
+        const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+        const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === METHOD_STORE) {
+          if (data.length !== size) throw new Error(`Corrupt ZIP entry: ${name}`);
+          return data;
+        }
+        if (method === METHOD_DEFLATE) {
+          // Inflating stops at the declared size, so a lying header can't get past the limits
+          try {
+            return inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+          } catch {
+            throw new Error(`Corrupt ZIP entry: ${name}`);
+          }
+        }
+        throw new Error(`Unsupported compression in ${name}`);
+      },
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Writes a ZIP archive to a stream one file at a time, so a whole account can
+ * be exported without holding the archive in memory. Each file is deflated
+ * unless that doesn't make it smaller (images, PDFs).
+ */
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private names = new Set<string>();
+  private offset = 0;
+
+  constructor(private output: Writable) {}
+
+  /**
+   * Add a file; folders are implied by "/" in the name
+   */
+  async addFile(name: string, data: Buffer | string, modifiedAt: Date = new Date()): Promise<void> {
+    if (this.names.has(name)) {
+      throw new Error(`Duplicate ZIP entry: ${name}`);
+    }
+    if (this.entries.length >= MAX_ENTRIES) {
+      throw new Error("Too many files for a ZIP archive");
+    }
+
+    const content = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+    const deflated = await deflateRawAsync(content);
+    const useDeflate = deflated.length < content.length;
+    const stored = useDeflate ? deflated : content;
+    const { time, date } = toDosDateTime(modifiedAt);
+
+    const entry: ZipEntry = {
+      name: Buffer.from(name, "utf8"),
+      method: useDeflate ? METHOD_DEFLATE : METHOD_STORE,
+      time,
+      date,
+      crc: crc32(content),
+      compressedSize: stored.length,
+      size: content.length,
+      offset: this.offset,
+    };
+
+    if (entry.offset + 30 + entry.name.length + stored.length > MAX_OFFSET) {
+      throw new Error("Archive is too large for a ZIP file");
+    }
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(FLAG_UTF8_NAMES, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(entry.time, 10);
+    header.writeUInt16LE(entry.date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28); // extra field length
+
+    this.names.add(name);
+    this.entries.push(entry);
+    await this.write(Buffer.concat([header, entry.name]));
+    await this.write(stored);
+  }
+
+  /**
+   * Write the central directory and end the output stream
+   */
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4); // version made by
+      header.writeUInt16LE(ZIP_VERSION, 6); // version needed
+      header.writeUInt16LE(FLAG_UTF8_NAMES, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      // extra field, comment, disk number and file attributes stay zero
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+
+    await new Promise<void>(resolve => this.output.end(resolve));
+  }
+
+  // Respect backpressure, and stop if the reader has gone away
+  private async write(chunk: Buffer): Promise<void> {
+    if (this.output.destroyed) {
+      throw new Error("ZIP output was closed");
+    }
+
+    this.offset += chunk.length;
+    if (!this.output.write(chunk)) {
+      await new Promise<void>(resolve => {
+        const done = () => {
+          this.output.off("drain", done);
+          this.output.off("close", done);
+          resolve();
+        };
+        this.output.on("drain", done);
+        this.output.on("close", done);
+      });
+    }
+  }
+}
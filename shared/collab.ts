@@ -0,0 +1,352 @@
+// Live co-editing of a note's content. Every replica (each browser tab and
+// the server) holds the text as a sequence CRDT (RGA): each character has a
+// unique id and is inserted after the character its author saw before it,
+// deleted characters stay behind as tombstones, and concurrent inserts at
+// the same spot are ordered by id. Replicas that have applied the same
+// operations hold the same text, whatever order they arrived in, as long as
+// an operation never arrives before the ones it refers to. The server relays
+// operations in the order it applies them, which guarantees that.
+
+export const COLLAB_PATH_PREFIX = "/ws/notes/";
+// Close code for a session whose user can no longer see the note; the
+// client shouldn't try to reconnect
+export const COLLAB_CLOSE_NO_ACCESS = 4403;
+
+// A character id: the session that typed it and its Lamport clock
+export type CharId = [site: string, clock: number];
+
+export interface CollabInsert {
+  type: "insert";
+  id: CharId;
+  after: CharId | null; // null inserts at the start
+  value: string; // one UTF-16 code unit
+}
+
+export interface CollabDelete {
+  type: "delete";
+  id: CharId;
+}
+
+export type CollabOp = CollabInsert | CollabDelete;
+
+// The whole document for a joining replica, as runs of characters typed one
+// after another by the same session: [site, first clock, text, deleted (0/1)]
+export type CollabRun = [site: string, clock: number, text: string, deleted: 0 | 1];
+export type CollabState = CollabRun[];
+
+// A cursor or selection, as the characters just before its two ends (null
+// for the start of the note), so it stays put while others edit elsewhere
+export interface CollabCursor {
+  anchor: CharId | null;
+  head: CharId | null;
+}
+
+export interface CollabPeer {
+  sessionId: string;
+  userId: number;
+  username: string;
+  color: string;
+  canEdit: boolean;
+  cursor: CollabCursor | null;
+}
+
+export type CollabClientMessage =
+  | { type: "ops"; ops: CollabOp[] }
+  | { type: "cursor"; cursor: CollabCursor | null };
+
+export type CollabServerMessage =
+  | { type: "init"; sessionId: string; canEdit: boolean; state: CollabState; peers: CollabPeer[] }
+  | { type: "ops"; ops: CollabOp[] }
+  | { type: "presence"; peers: CollabPeer[] }
+  | { type: "cursor"; sessionId: string; cursor: CollabCursor | null }
+  | { type: "access"; canEdit: boolean }
+  | { type: "error"; message: string };
+
+// Each user keeps one color wherever they show up
+const PRESENCE_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#9333ea", "#0891b2", "#db2777", "#65a30d"];
+
+export function getPresenceColor(userId: number): string {
+  return PRESENCE_COLORS[Math.abs(userId) % PRESENCE_COLORS.length];
+}
+
+interface CollabChar {
+  id: CharId;
+  value: string;
+  deleted: boolean;
+}
+
+const idKey = (id: CharId) => `${id[0]}:${id[1]}`;
+
+// Most LCS table cells replaceLines may use; bigger changes fall back to replaceText
+const MAX_LINE_DIFF_CELLS = 1_000_000;
+
+// A text's lines, each with its line break, so that joining them gives the text back
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+// Later clocks sort first among characters inserted at the same spot
+function compareIds(a: CharId, b: CharId): number {
+  if (a[1] !== b[1]) return a[1] - b[1];
+  return a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0;
+}
+
+export class CollabDocument {
+  private chars: CollabChar[] = [];
+  private byId = new Map<string, CollabChar>();
+  private clock = 0;
+
+  constructor(readonly site: string, state: CollabState = []) {
+    for (const [site, clock, text, deleted] of state) {
+      for (let i = 0; i < text.length; i++) {
+        this.append({ id: [site, clock + i], value: text[i], deleted: deleted === 1 });
+      }
+    }
+  }
+
+  static fromText(site: string, text: string): CollabDocument {
+    return new CollabDocument(site, text ? [[site, 1, text, 0]] : []);
+  }
+
+  getText(): string {
+    let text = "";
+    for (const char of this.chars) {
+      if (!char.deleted) text += char.value;
+    }
+    return text;
+  }
+
+  getState(): CollabState {
+    const runs: CollabState = [];
+    let last: CollabChar | undefined;
+    for (const char of this.chars) {
+      const run = runs[runs.length - 1];
+      const continuesRun = !!last && !!run && char.id[0] === last.id[0] && char.id[1] === last.id[1] + 1 &&
+        char.deleted === last.deleted;
+      if (continuesRun) {
+        run[2] += char.value;
+      } else {
+        runs.push([char.id[0], char.id[1], char.value, char.deleted ? 1 : 0]);
+      }
+      last = char;
+    }
+    return runs;
+  }
+
+  /**
+   * Applies operations from another replica. Operations already applied are
+   * skipped. A batch referring to unknown characters is rejected whole.
+   */
+  applyOps(ops: CollabOp[]): void {
+    const batchIds = new Set<string>();
+    for (const op of ops) {
+      const ref = op.type === "insert" ? op.after : op.id;
+      if (ref && !this.byId.has(idKey(ref)) && !batchIds.has(idKey(ref))) {
+        throw new Error("Operation refers to an unknown character");
+      }
+      if (op.type === "insert") batchIds.add(idKey(op.id));
+    }
+
+    for (const op of ops) {
+      if (op.type === "insert") {
+        this.integrateInsert(op);
+      } else {
+        this.byId.get(idKey(op.id))!.deleted = true;
+      }
+    }
+  }
+
+  /**
+   * Turns the text into newText with the smallest single-range edit, and
+   * returns the operations that make it on the other replicas
+   */
+  replaceText(newText: string): CollabOp[] {
+    const oldText = this.getText();
+    let start = 0;
+    while (start < oldText.length && start < newText.length && oldText[start] === newText[start]) start++;
+    let oldEnd = oldText.length;
+    let newEnd = newText.length;
+    while (oldEnd > start && newEnd > start && oldText[oldEnd - 1] === newText[newEnd - 1]) {
+      oldEnd--;
+      newEnd--;
+    }
+
+    const ops: CollabOp[] = [];
+    const visible = this.chars.filter(char => !char.deleted);
+    for (let i = start; i < oldEnd; i++) {
+      visible[i].deleted = true;
+      ops.push({ type: "delete", id: visible[i].id });
+    }
+
+    let after = start > 0 ? visible[start - 1].id : null;
+    for (let i = start; i < newEnd; i++) {
+      const insert: CollabInsert = { type: "insert", id: [this.site, ++this.clock], after, value: newText[i] };
+      this.integrateInsert(insert);
+      ops.push(insert);
+      after = insert.id;
+    }
+    return ops;
+  }
+
+  /**
+   * Like replaceText, but only replaces the lines that differ, so that
+   * edits elsewhere in between survive when the result is merged
+   */
+  replaceLines(newText: string): CollabOp[] {
+    const a = splitLines(this.getText());
+    const b = splitLines(newText);
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+      endA--;
+      endB--;
+    }
+    if ((endA - start) * (endB - start) > MAX_LINE_DIFF_CELLS) return this.replaceText(newText);
+
+    // lcs[i][j] = length of the longest common subsequence of a[start + i..endA) and b[start + j..endB)
+    const rows = endA - start;
+    const cols = endB - start;
+    const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[i][j] = a[start + i] === b[start + j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const visible = this.chars.filter(char => !char.deleted);
+    let position = a.slice(0, start).join("").length;
+    let after = position > 0 ? visible[position - 1].id : null;
+    const ops: CollabOp[] = [];
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && a[start + i] === b[start + j]) {
+        position += a[start + i].length;
+        after = visible[position - 1].id;
+        i++;
+        j++;
+      } else if (i < rows && (j >= cols || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        for (let k = 0; k < a[start + i].length; k++) {
+          visible[position + k].deleted = true;
+          ops.push({ type: "delete", id: visible[position + k].id });
+        }
+        position += a[start + i].length;
+        i++;
+      } else {
+        for (const value of b[start + j]) {
+          const insert: CollabInsert = { type: "insert", id: [this.site, ++this.clock], after, value };
+          this.integrateInsert(insert);
+          ops.push(insert);
+          after = insert.id;
+        }
+        j++;
+      }
+    }
+    return ops;
+  }
+
+  /**
+   * Takes over what a replica that has since lost its connection typed or
+   * deleted without the server seeing it, as this site's own operations.
+   * Returns null if this replica doesn't share the other's history (the
+   * server started the note afresh meanwhile).
+   */
+  rebase(previous: CollabDocument): CollabOp[] | null {
+    for (const char of previous.chars) {
+      const known = this.byId.get(idKey(char.id));
+      // Only the lost replica's own characters may be missing here
+      if (known ? known.value !== char.value : char.id[0] !== previous.site) return null;
+    }
+
+    const ops: CollabOp[] = [];
+    let after: CharId | null = null;
+    for (const char of previous.chars) {
+      const known = this.byId.get(idKey(char.id));
+      if (known) {
+        if (char.deleted && !known.deleted) {
+          known.deleted = true;
+          ops.push({ type: "delete", id: known.id });
+        }
+        after = known.id;
+      } else if (!char.deleted) {
+        const insert: CollabInsert = { type: "insert", id: [this.site, ++this.clock], after, value: char.value };
+        this.integrateInsert(insert);
+        ops.push(insert);
+        after = insert.id;
+      }
+    }
+    return ops;
+  }
+
+  /**
+   * The character just before a position in the text, to track it by
+   */
+  idAt(position: number): CharId | null {
+    if (position <= 0) return null;
+    let seen = 0;
+    for (const char of this.chars) {
+      if (!char.deleted && ++seen === position) return char.id;
+    }
+    return this.chars.length ? this.chars[this.chars.length - 1].id : null;
+  }
+
+  /**
+   * Where a tracked position is now: just after its character, or where that
+   * character was if it's been deleted
+   */
+  positionOf(id: CharId | null): number {
+    if (!id) return 0;
+    const target = this.byId.get(idKey(id));
+    if (!target) return 0;
+    let position = 0;
+    for (const char of this.chars) {
+      if (!char.deleted) position++;
+      if (char === target) return position;
+    }
+    return position;
+  }
+
+  private append(char: CollabChar) {
+    this.chars.push(char);
+    this.byId.set(idKey(char.id), char);
+    this.clock = Math.max(this.clock, char.id[1]);
+  }
+
+  private integrateInsert(op: CollabInsert) {
+    if (this.byId.has(idKey(op.id))) return;
+
+    let index = 0;
+    if (op.after) {
+      const after = this.byId.get(idKey(op.after));
+      index = this.chars.indexOf(after!) + 1;
+    }
+    // Skip past later inserts at the same spot, and everything typed after them
+    while (index < this.chars.length && compareIds(this.chars[index].id, op.id) > 0) index++;
+
+    const char: CollabChar = { id: op.id, value: op.value, deleted: false };
+    this.chars.splice(index, 0, char);
+    this.byId.set(idKey(op.id), char);
+    this.clock = Math.max(this.clock, op.id[1]);
+  }
+}
+
+/**
+ * Merges two texts edited apart from the same base, line by line: lines
+ * either side changed take that side's version, and where both changed the
+ * same lines both versions are kept
+ */
+export function mergeText(base: string, ours: string, theirs: string): string {
+  if (ours === base) return theirs;
+  if (theirs === base || theirs === ours) return ours;
+
+  const state: CollabState = base ? [["base", 1, base, 0]] : [];
+  const merged = new CollabDocument("ours", state);
+  merged.replaceLines(ours);
+  const other = new CollabDocument("theirs", state);
+  merged.applyOps(other.replaceLines(theirs));
+  return merged.getText();
+}
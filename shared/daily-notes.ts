@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+// Daily notes are keyed by a calendar date, "YYYY-MM-DD", in the user's
+// time zone. Dates are shifted with UTC arithmetic so DST never skips a day.
+
+const DAILY_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export function isValidDailyDate(date: string): boolean {
+  const match = DAILY_DATE_PATTERN.exec(date);
+  if (!match) return false;
+
+  const [, year, month, day] = match.map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+}
+
+export const dailyDateSchema = z.string().refine(isValidDailyDate, "Date must be a valid YYYY-MM-DD date");
+
+function toDailyDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Today's date in the given time zone
+ */
+export function getTodayInTimeZone(timeZone: string = "UTC", now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(now);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+export function shiftDailyDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return toDailyDate(shifted);
+}
+
+// The date as a Date at midnight local time, for date pickers and formatting
+export function dailyDateToLocalDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function localDateToDailyDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export interface DailyNoteDay {
+  date: string;
+  noteId: number;
+  title: string;
+}
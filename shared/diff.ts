@@ -0,0 +1,89 @@
+// Line-level diff used for note revision history
+export type DiffLineType = "added" | "removed" | "unchanged";
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLine?: number; // 1-based line number in the old text
+  newLine?: number; // 1-based line number in the new text
+}
+
+// Most LCS table cells a diff may use (about 8 MB); larger changes aren't aligned line by line
+const MAX_DIFF_CELLS = 1_000_000;
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split("\n");
+  const b = newText.split("\n");
+  
+  // Strip the common prefix and suffix so the LCS table only covers the changed region
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  
+  const result: DiffLine[] = [];
+  
+  for (let k = 0; k < start; k++) {
+    result.push({ type: "unchanged", content: a[k], oldLine: k + 1, newLine: k + 1 });
+  }
+  
+  // The table below is quadratic in the changed region; past the cap the
+  // whole region is shown as removed, then added
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    midA.forEach((content, i) => result.push({ type: "removed", content, oldLine: start + i + 1 }));
+    midB.forEach((content, j) => result.push({ type: "added", content, newLine: start + j + 1 }));
+    pushSuffix(result, a, endA, endB);
+    return result;
+  }
+  
+  // lcs[i][j] = length of the longest common subsequence of midA[i..] and midB[j..]
+  const lcs: number[][] = Array.from({ length: midA.length + 1 }, () => new Array(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      result.push({ type: "unchanged", content: midA[i], oldLine: start + i + 1, newLine: start + j + 1 });
+      i++;
+      j++;
+    } else if (i < midA.length && (j >= midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push({ type: "removed", content: midA[i], oldLine: start + i + 1 });
+      i++;
+    } else {
+      result.push({ type: "added", content: midB[j], newLine: start + j + 1 });
+      j++;
+    }
+  }
+  
+  pushSuffix(result, a, endA, endB);
+  return result;
+}
+
+// The common suffix, which starts at endA in the old text and endB in the new
+function pushSuffix(result: DiffLine[], a: string[], endA: number, endB: number) {
+  for (let k = 0; k < a.length - endA; k++) {
+    result.push({
+      type: "unchanged",
+      content: a[endA + k],
+      oldLine: endA + k + 1,
+      newLine: endB + k + 1
+    });
+  }
+}
@@ -0,0 +1,39 @@
+// Importing notes from other apps. An upload becomes a background job whose
+// progress and final report are polled from GET /api/import/:id.
+
+export const IMPORT_FORMATS = ["markdown", "obsidian", "keep", "enex"] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  markdown: "Markdown files",
+  obsidian: "Obsidian vault",
+  keep: "Google Keep (Takeout)",
+  enex: "Evernote (.enex)",
+};
+
+// File types the import upload accepts: a single note or export file, or a
+// ZIP of a folder, vault or Takeout archive
+export const IMPORT_FILE_EXTENSIONS = [".zip", ".md", ".markdown", ".enex"];
+
+export type ImportJobStatus = "pending" | "running" | "completed" | "failed";
+
+// Something that was left out of the import, and why
+export interface ImportSkip {
+  source: string; // file or note name in the import
+  reason: string;
+}
+
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  format: ImportFormat | null; // null until detected
+  status: ImportJobStatus;
+  total: number; // notes found in the upload
+  processed: number;
+  imported: number;
+  noteIds: number[];
+  skipped: ImportSkip[];
+  error: string | null; // why a failed job stopped
+  createdAt: string;
+  finishedAt: string | null;
+}
@@ -0,0 +1,365 @@
+// Markdown rendering shared by the client (previews) and the server (exports, sharing)
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import remarkRehype from "remark-rehype";
+import rehypeRaw from "rehype-raw";
+import rehypeSanitize, { defaultSchema, type Options as SanitizeSchema } from "rehype-sanitize";
+import rehypeKatex from "rehype-katex";
+import rehypeStringify from "rehype-stringify";
+import { visit, SKIP } from "unist-util-visit";
+import { toText } from "hast-util-to-text";
+import { createLowlight, common } from "lowlight";
+import type { Root, RootContent, Element, ElementContent } from "hast";
+import type { Root as MdastRoot, ListItem, Text } from "mdast";
+
+// Element ids are prefixed to stop notes from clobbering globals such as
+// window.name through DOM ids
+const ID_PREFIX = "user-content-";
+
+// Highlighting covers the common languages; anything else stays plain text
+const lowlight = createLowlight(common);
+
+// GitHub's allow-list, plus <u> which the editor toolbar uses for underline
+// and the source line of checklist items
+export const sanitizeSchema: SanitizeSchema = {
+  ...defaultSchema,
+  clobberPrefix: ID_PREFIX,
+  tagNames: [...(defaultSchema.tagNames || []), "u"],
+  attributes: {
+    ...defaultSchema.attributes,
+    li: [...(defaultSchema.attributes?.li || []), "dataTaskLine"],
+  },
+};
+
+export interface RenderMarkdownOptions {
+  // Leave checklist checkboxes enabled so clicks can be mapped back to the source
+  interactiveTasks?: boolean;
+}
+
+export interface TaskProgress {
+  done: number;
+  total: number;
+}
+
+// A [[Note Title]] or [[#id]] reference, optionally with a label: [[Note Title|label]]
+export interface WikiLink {
+  targetNoteId: number | null;
+  targetTitle: string | null;
+  label: string;
+}
+
+const WIKI_LINK_PATTERN = /\[\[([^\[\]|\n]+?)(?:\|([^\[\]\n]+?))?\]\]/g;
+
+function parseWikiLink(target: string, label?: string): WikiLink | undefined {
+  const trimmedTarget = target.trim();
+  if (!trimmedTarget) return undefined;
+
+  const idMatch = trimmedTarget.match(/^#(\d+)$/);
+  return {
+    targetNoteId: idMatch ? parseInt(idMatch[1]) : null,
+    targetTitle: idMatch ? null : trimmedTarget,
+    label: label?.trim() || trimmedTarget,
+  };
+}
+
+// Record the 1-based source line of every checklist item as data-task-line
+function remarkTaskLines() {
+  return (tree: MdastRoot) => {
+    visit(tree, "listItem", (node: ListItem) => {
+      if (typeof node.checked === "boolean" && node.position) {
+        node.data = {
+          ...node.data,
+          hProperties: { ...node.data?.hProperties, dataTaskLine: node.position.start.line },
+        };
+      }
+    });
+  };
+}
+
+// Checklist checkboxes come out of remark-rehype disabled; enable them when
+// the caller wants to handle clicks
+function rehypeInteractiveTasks(options: RenderMarkdownOptions) {
+  return (tree: Root) => {
+    if (!options.interactiveTasks) return;
+
+    visit(tree, "element", (node: Element) => {
+      if (node.tagName === "input" && node.properties?.type === "checkbox") {
+        delete node.properties.disabled;
+        node.properties.className = ["cursor-pointer"];
+      }
+    });
+  };
+}
+
+function getCodeLanguage(code: Element): string | undefined {
+  const className = code.properties?.className;
+  if (!Array.isArray(className)) return undefined;
+
+  const languageClass = className.find(name => String(name).startsWith("language-"));
+  return languageClass ? String(languageClass).slice("language-".length).toLowerCase() : undefined;
+}
+
+// Fenced code blocks: ```mermaid becomes a diagram placeholder that the client
+// renders, everything else is highlighted and gets a copy button. Runs after
+// the sanitizer, so the markup added here is trusted. A block that fails to
+// highlight is left as plain code rather than failing the whole note.
+function rehypeCodeBlocks() {
+  return (tree: Root) => {
+    visit(tree, "element", (node: Element, index, parent) => {
+      if (node.tagName !== "pre" || !parent || index === undefined) return;
+
+      const code = node.children.find(
+        (child): child is Element => child.type === "element" && child.tagName === "code"
+      );
+      if (!code) return;
+
+      const language = getCodeLanguage(code);
+      const source = toText(code, { whitespace: "pre" });
+
+      if (language === "mermaid") {
+        parent.children[index] = {
+          type: "element",
+          tagName: "pre",
+          properties: { className: ["mermaid-diagram"], dataMermaid: "" },
+          children: [{ type: "text", value: source }],
+        };
+        return SKIP;
+      }
+
+      if (language && lowlight.registered(language)) {
+        try {
+          const highlighted = lowlight.highlight(language, source);
+          code.children = highlighted.children as ElementContent[];
+        } catch (error) {
+          console.error(`Error highlighting ${language} code block:`, error);
+        }
+      }
+
+      parent.children[index] = {
+        type: "element",
+        tagName: "div",
+        properties: { className: ["code-block"] },
+        children: [
+          {
+            type: "element",
+            tagName: "button",
+            properties: { type: "button", className: ["code-copy-button"], dataCopyCode: "", title: "Copy code" },
+            children: [{ type: "text", value: "Copy" }],
+          },
+          node,
+        ],
+      };
+      return SKIP;
+    });
+  };
+}
+
+// Elements whose text is never scanned for [[links]]
+const WIKI_LINK_SKIP_TAGS = new Set(["a", "code", "pre", "script", "style", "textarea"]);
+
+// Turn [[links]] in text into in-app links. The app resolves them on click
+// from the data attributes; the href only keeps them focusable.
+function rehypeWikiLinks() {
+  const transform = (parent: Root | Element) => {
+    const children: RootContent[] = [];
+
+    for (const child of parent.children) {
+      if (child.type === "element") {
+        if (!WIKI_LINK_SKIP_TAGS.has(child.tagName)) transform(child);
+        children.push(child);
+        continue;
+      }
+
+      if (child.type !== "text" || !child.value.includes("[[")) {
+        children.push(child);
+        continue;
+      }
+
+      let lastIndex = 0;
+      for (const match of Array.from(child.value.matchAll(WIKI_LINK_PATTERN))) {
+        const link = parseWikiLink(match[1], match[2]);
+        if (!link) continue;
+
+        if (match.index! > lastIndex) {
+          children.push({ type: "text", value: child.value.slice(lastIndex, match.index) });
+        }
+        children.push({
+          type: "element",
+          tagName: "a",
+          properties: {
+            href: "#",
+            className: ["wiki-link"],
+            ...(link.targetNoteId !== null ? { dataNoteId: link.targetNoteId } : { dataNoteTitle: link.targetTitle }),
+          },
+          children: [{ type: "text", value: link.label }],
+        });
+        lastIndex = match.index! + match[0].length;
+      }
+
+      if (lastIndex < child.value.length) {
+        children.push({ type: "text", value: child.value.slice(lastIndex) });
+      }
+    }
+
+    parent.children = children as ElementContent[];
+  };
+
+  return (tree: Root) => transform(tree);
+}
+
+// The sanitizer prefixes ids but not the in-page links that point at them
+// (footnotes, anchors), so prefix those fragments to match
+function rehypePrefixFragmentLinks() {
+  return (tree: Root) => {
+    visit(tree, "element", (node: Element) => {
+      const href = node.properties?.href;
+      if (
+        node.tagName === "a" &&
+        typeof href === "string" &&
+        href.startsWith("#") &&
+        href !== "#" &&
+        !href.startsWith(`#${ID_PREFIX}`)
+      ) {
+        node.properties.href = `#${ID_PREFIX}${href.slice(1)}`;
+      }
+    });
+  };
+}
+
+// External links open in a new tab without handing over window.opener
+function rehypeExternalLinks() {
+  return (tree: Root) => {
+    visit(tree, "element", (node: Element) => {
+      const href = node.properties?.href;
+      if (node.tagName === "a" && typeof href === "string" && /^https?:\/\//i.test(href)) {
+        node.properties.target = "_blank";
+        node.properties.rel = ["noopener", "noreferrer"];
+      }
+    });
+  };
+}
+
+function createProcessor(options: RenderMarkdownOptions) {
+  return unified()
+    .use(remarkParse)
+    .use(remarkGfm) // tables, task lists, strikethrough, autolinks, footnotes
+    .use(remarkMath) // $inline$ and $$display$$ math
+    .use(remarkTaskLines)
+    .use(remarkRehype, { allowDangerousHtml: true, clobberPrefix: "" })
+    .use(rehypeRaw) // parse inline HTML so the sanitizer can filter it
+    .use(rehypeSanitize, sanitizeSchema)
+    .use(rehypeWikiLinks)
+    .use(rehypeKatex, { errorColor: "#dc2626" }) // a bad formula renders as an error in place
+    .use(rehypeCodeBlocks)
+    .use(rehypeInteractiveTasks, options)
+    .use(rehypePrefixFragmentLinks)
+    .use(rehypeExternalLinks)
+    .use(rehypeStringify)
+    .freeze();
+}
+
+const processor = createProcessor({});
+const interactiveProcessor = createProcessor({ interactiveTasks: true });
+const parser = unified().use(remarkParse).use(remarkGfm).use(remarkMath).freeze();
+
+/**
+ * Render note markdown (CommonMark + GFM, math, highlighted code) to sanitized HTML.
+ * Mermaid blocks come out as `pre[data-mermaid]` holding the diagram source.
+ */
+export function renderMarkdown(markdown: string, options: RenderMarkdownOptions = {}): string {
+  if (!markdown) return "";
+  const selected = options.interactiveTasks ? interactiveProcessor : processor;
+  return String(selected.processSync(markdown));
+}
+
+/**
+ * Count checklist items, ignoring anything that only looks like one (e.g. inside code blocks)
+ */
+export function getTaskProgress(markdown: string): TaskProgress {
+  const progress: TaskProgress = { done: 0, total: 0 };
+  if (!markdown) return progress;
+
+  visit(parser.parse(markdown), "listItem", (node: ListItem) => {
+    if (typeof node.checked === "boolean") {
+      progress.total++;
+      if (node.checked) progress.done++;
+    }
+  });
+
+  return progress;
+}
+
+/**
+ * Flip the checklist item on the given 1-based source line ("- [ ]" <-> "- [x]")
+ */
+export function toggleTaskAtLine(markdown: string, line: number): string {
+  const lines = markdown.split("\n");
+  const index = line - 1;
+  if (index < 0 || index >= lines.length) return markdown;
+
+  lines[index] = lines[index].replace(
+    /^(\s*(?:>\s*)*(?:[-+*]|\d+[.)])\s+\[)([ xX])(\])/,
+    (_match, before: string, mark: string, after: string) => `${before}${mark === " " ? "x" : " "}${after}`
+  );
+
+  return lines.join("\n");
+}
+
+// Text nodes are the only places [[links]] count; code spans and blocks are
+// separate node types, so they are skipped automatically
+function visitTextNodes(markdown: string, visitor: (node: Text) => void) {
+  visit(parser.parse(markdown), "text", visitor);
+}
+
+/**
+ * List the [[links]] in a note, in order of appearance
+ */
+export function extractWikiLinks(markdown: string): WikiLink[] {
+  const links: WikiLink[] = [];
+  if (!markdown) return links;
+
+  visitTextNodes(markdown, (node) => {
+    for (const match of Array.from(node.value.matchAll(WIKI_LINK_PATTERN))) {
+      const link = parseWikiLink(match[1], match[2]);
+      if (link) links.push(link);
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Point [[Old Title]] references (case-insensitively) at a new title, keeping
+ * any label. References inside code are left alone.
+ */
+export function rewriteWikiLinks(markdown: string, fromTitle: string, toTitle: string): string {
+  const from = fromTitle.trim().toLowerCase();
+  if (!markdown || !from) return markdown;
+
+  // Collect the source ranges of text nodes, then rewrite them back to front
+  // so earlier offsets stay valid
+  const ranges: Array<[number, number]> = [];
+  visitTextNodes(markdown, (node) => {
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (start !== undefined && end !== undefined && node.value.includes("[[")) {
+      ranges.push([start, end]);
+    }
+  });
+
+  let result = markdown;
+  for (const [start, end] of ranges.reverse()) {
+    const rewritten = result.slice(start, end).replace(
+      WIKI_LINK_PATTERN,
+      (match: string, target: string, label?: string) => {
+        if (target.trim().toLowerCase() !== from) return match;
+        return label !== undefined ? `[[${toTitle}|${label}]]` : `[[${toTitle}]]`;
+      }
+    );
+    result = result.slice(0, start) + rewritten + result.slice(end);
+  }
+
+  return result;
+}
@@ -0,0 +1,78 @@
+// Notebooks form a tree through parentId. These helpers work on the flat
+// list of a user's notebooks, as returned by GET /api/notebooks.
+
+export const NOTEBOOK_DELETE_MODES = ["move", "trash"] as const;
+export type NotebookDeleteMode = typeof NOTEBOOK_DELETE_MODES[number];
+
+interface NotebookNodeLike {
+  id: number;
+  parentId: number | null;
+}
+
+/**
+ * Ids of a notebook and every notebook nested under it, at any depth.
+ */
+export function getNotebookSubtreeIds(notebooks: NotebookNodeLike[], rootId: number): Set<number> {
+  const subtree = new Set<number>([rootId]);
+
+  // Keep sweeping until no new children are found; the list isn't ordered
+  let added = true;
+  while (added) {
+    added = false;
+    for (const notebook of notebooks) {
+      if (notebook.parentId !== null && subtree.has(notebook.parentId) && !subtree.has(notebook.id)) {
+        subtree.add(notebook.id);
+        added = true;
+      }
+    }
+  }
+
+  return subtree;
+}
+
+/**
+ * Whether moving a notebook under newParentId would put it inside itself.
+ */
+export function wouldCreateNotebookCycle(
+  notebooks: NotebookNodeLike[],
+  notebookId: number,
+  newParentId: number | null
+): boolean {
+  return newParentId !== null && getNotebookSubtreeIds(notebooks, notebookId).has(newParentId);
+}
+
+export type NotebookTreeNode<T extends NotebookNodeLike> = T & {
+  depth: number;
+  children: NotebookTreeNode<T>[];
+};
+
+/**
+ * Nest a flat notebook list by parentId, keeping the list's order among
+ * siblings. Notebooks whose parent is missing are shown at the top level.
+ */
+export function buildNotebookTree<T extends NotebookNodeLike>(notebooks: T[]): NotebookTreeNode<T>[] {
+  const ids = new Set(notebooks.map(notebook => notebook.id));
+  const childrenOf = new Map<number | null, T[]>();
+
+  for (const notebook of notebooks) {
+    const parentId = notebook.parentId !== null && ids.has(notebook.parentId) ? notebook.parentId : null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), notebook]);
+  }
+
+  const build = (parentId: number | null, depth: number): NotebookTreeNode<T>[] =>
+    (childrenOf.get(parentId) ?? []).map(notebook => ({
+      ...notebook,
+      depth,
+      children: build(notebook.id, depth + 1),
+    }));
+
+  return build(null, 0);
+}
+
+/**
+ * The tree in display order (each notebook followed by its children), for
+ * pickers that show it as an indented list.
+ */
+export function flattenNotebookTree<T extends NotebookNodeLike>(tree: NotebookTreeNode<T>[]): NotebookTreeNode<T>[] {
+  return tree.flatMap(node => [node, ...flattenNotebookTree(node.children)]);
+}
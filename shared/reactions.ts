@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+// Emoji reactions on a note, stored as JSON in notes.emojis:
+// each emoji maps to the ids of the users who reacted with it
+export const noteReactionsSchema = z.record(z.string(), z.array(z.number().int()));
+
+export type NoteReactions = z.infer<typeof noteReactionsSchema>;
+
+// A single emoji, including skin tones, ZWJ sequences, flags and keycaps
+const EMOJI_PATTERN = new RegExp(String.raw`^(?:\p{Regional_Indicator}{2}|[#*0-9]\u{FE0F}?\u20E3|\p{Extended_Pictographic}(?:\u{FE0F}|\p{Emoji_Modifier})*(?:\u200D\p{Extended_Pictographic}(?:\u{FE0F}|\p{Emoji_Modifier})*)*)$`, "u");
+
+export function isReactionEmoji(value: string): boolean {
+  return value.length <= 32 && EMOJI_PATTERN.test(value);
+}
+
+/**
+ * Read the reactions stored on a note. Malformed or legacy values are
+ * treated as no reactions.
+ */
+export function parseNoteReactions(emojis: string | null | undefined): NoteReactions {
+  if (!emojis) return {};
+
+  try {
+    const result = noteReactionsSchema.safeParse(JSON.parse(emojis));
+    return result.success ? result.data : {};
+  } catch {
+    return {};
+  }
+}
@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, uniqueIndex, index, vector } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { WORKSPACE_ROLES, INVITABLE_ROLES, type WorkspaceRole } from "./workspaces";
 
 // User schema
 export const users = pgTable("users", {
@@ -13,6 +15,8 @@ export const users = pgTable("users", {
   stripeSubscriptionId: text("stripe_subscription_id"),
   googleId: text("google_id"),
   facebookId: text("facebook_id"),
+  timeZone: text("time_zone"), // IANA zone for daily notes; UTC when unset
+  dailyNoteTemplate: text("daily_note_template"), // template id for daily notes; the daily log when unset
 });
 
 export const insertUserSchema = createInsertSchema(users, {
@@ -84,7 +88,8 @@ export type UserPackage = typeof userPackages.$inferSelect;
 // Note schema
 export const notes = pgTable("notes", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull(),
+  userId: integer("user_id").notNull(), // the owner, or in a workspace, the note's author
+  workspaceId: integer("workspace_id"), // null for the user's own notes
   title: text("title").default(""),
   content: text("content").notNull(),
   color: text("color").default("yellow"), // yellow, green, pink, blue, purple, orange
@@ -97,9 +102,17 @@ export const notes = pgTable("notes", {
   drawingData: text("drawing_data").default(""), // SVG or Canvas data for drawings
   emojis: text("emojis").default("{}"), // JSON string with emoji reactions
   tags: text("tags").array().default([]), // Array of tags
+  notebookId: integer("notebook_id"), // null for notes outside any notebook
+  dailyDate: text("daily_date"), // YYYY-MM-DD for the daily note of that day
   createdAt: text("created_at").notNull(), // ISO date string
   updatedAt: text("updated_at").notNull(), // ISO date string
-});
+  deletedAt: text("deleted_at"), // ISO date string, set while the note is in the trash
+}, (table) => [
+  // One daily note per user and day
+  uniqueIndex("notes_user_daily_date_idx").on(table.userId, table.dailyDate),
+  // Full-text search; note_search_vector is created by scripts/migrate.ts
+  index("notes_search_idx").using("gin", sql`note_search_vector(${table.title}, ${table.tags}, ${table.content})`),
+]);
 
 export const insertNoteSchema = createInsertSchema(notes, {
   title: z.string().optional(),
@@ -113,7 +126,11 @@ export const insertNoteSchema = createInsertSchema(notes, {
   drawingData: z.string().optional(),
   emojis: z.string().optional(),
   tags: z.array(z.string()).optional(),
+  workspaceId: z.number().optional().nullable(),
+  notebookId: z.number().optional().nullable(),
+  dailyDate: z.string().optional().nullable(),
   createdAt: z.string(),
+  deletedAt: z.string().optional().nullable(),
 }).omit({
   id: true,
 });
@@ -121,6 +138,257 @@ export const insertNoteSchema = createInsertSchema(notes, {
 export type InsertNote = z.infer<typeof insertNoteSchema>;
 export type Note = typeof notes.$inferSelect;
 
+// Query parameters for listing notes page by page
+export const noteSortFields = ["updatedAt", "createdAt", "title", "pinned"] as const;
+
+const booleanQueryParam = z.enum(["true", "false"]).transform(value => value === "true");
+
+export const noteListQuerySchema = z.object({
+  sort: z.enum(noteSortFields).default("pinned"),
+  order: z.enum(["asc", "desc"]).optional(), // defaults to asc for title, desc otherwise
+  archived: booleanQueryParam.optional(),
+  pinned: booleanQueryParam.optional(),
+  color: z.enum(["yellow", "green", "pink", "blue", "purple", "orange"]).optional(),
+  tag: z.string().optional(),
+  // Notes directly inside a notebook, or "none" for notes outside every notebook
+  notebookId: z.union([z.literal("none"), z.coerce.number().int().positive()]).optional(),
+  cursor: z.string().optional(), // opaque, taken from nextCursor of the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type NoteSortField = typeof noteSortFields[number];
+export type NoteListQuery = z.infer<typeof noteListQuerySchema>;
+export type NotePage = {
+  notes: Note[];
+  nextCursor: string | null;
+};
+
+// Notebook schema: notebooks nest through parentId (null at the top level)
+export const notebooks = pgTable("notebooks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  workspaceId: integer("workspace_id"), // null for the user's own notebooks
+  parentId: integer("parent_id"),
+  name: text("name").notNull(),
+  createdAt: text("created_at").notNull(), // ISO date string
+  updatedAt: text("updated_at").notNull(), // ISO date string
+});
+
+export const insertNotebookSchema = createInsertSchema(notebooks, {
+  name: z.string().trim().min(1).max(100),
+  workspaceId: z.number().optional().nullable(),
+  parentId: z.number().optional().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).omit({
+  id: true,
+});
+
+export type InsertNotebook = z.infer<typeof insertNotebookSchema>;
+export type Notebook = typeof notebooks.$inferSelect;
+export type NotebookWithCount = Notebook & {
+  noteCount: number; // notes directly inside, outside the trash
+};
+
+// Note template schema: a user's saved templates. The built-in ones live in
+// server/note-templates.ts.
+export const noteTemplates = pgTable("note_templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  title: text("title").default(""),
+  content: text("content").notNull(),
+  color: text("color").default("yellow"),
+  tags: text("tags").array().default([]),
+  createdAt: text("created_at").notNull(), // ISO date string
+});
+
+export const insertNoteTemplateSchema = createInsertSchema(noteTemplates, {
+  name: z.string().trim().min(1).max(100),
+  title: z.string().optional(),
+  color: z.enum(["yellow", "green", "pink", "blue", "purple", "orange"]).optional(),
+  tags: z.array(z.string()).optional(),
+  createdAt: z.string(),
+}).omit({
+  id: true,
+});
+
+export type InsertNoteTemplate = z.infer<typeof insertNoteTemplateSchema>;
+export type NoteTemplate = typeof noteTemplates.$inferSelect;
+
+// Note share schema: public read-only links to notes. The link's token is
+// the tokenId plus a signature, so only the id is stored.
+export const noteShares = pgTable("note_shares", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  userId: integer("user_id").notNull(),
+  tokenId: text("token_id").notNull().unique(),
+  passwordHash: text("password_hash"), // null for links without a password
+  expiresAt: text("expires_at"), // ISO date string, null for links that don't expire
+  viewCount: integer("view_count").notNull().default(0),
+  lastViewedAt: text("last_viewed_at"), // ISO date string
+  createdAt: text("created_at").notNull(), // ISO date string
+});
+
+export const insertNoteShareSchema = createInsertSchema(noteShares, {
+  passwordHash: z.string().optional().nullable(),
+  expiresAt: z.string().optional().nullable(),
+  createdAt: z.string(),
+}).omit({
+  id: true,
+  viewCount: true,
+  lastViewedAt: true,
+});
+
+export type InsertNoteShare = z.infer<typeof insertNoteShareSchema>;
+export type NoteShare = typeof noteShares.$inferSelect;
+
+export type NoteShareWithNote = NoteShare & {
+  noteTitle: string;
+};
+
+// Workspace schema: notes and notebooks shared by a group of users. Roles
+// and what they allow are in shared/workspaces.ts.
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  createdBy: integer("created_by").notNull(),
+  createdAt: text("created_at").notNull(), // ISO date string
+  updatedAt: text("updated_at").notNull(), // ISO date string
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces, {
+  name: z.string().trim().min(1).max(100),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).omit({
+  id: true,
+});
+
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceWithRole = Workspace & {
+  role: WorkspaceRole; // the current user's role
+  memberCount: number;
+};
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull(),
+  userId: integer("user_id").notNull(),
+  role: text("role").notNull().$type<WorkspaceRole>(),
+  createdAt: text("created_at").notNull(), // ISO date string
+}, (table) => [
+  uniqueIndex("workspace_members_workspace_user_idx").on(table.workspaceId, table.userId),
+]);
+
+export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers, {
+  role: z.enum(WORKSPACE_ROLES),
+  createdAt: z.string(),
+}).omit({
+  id: true,
+});
+
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type WorkspaceMemberWithUser = WorkspaceMember & {
+  username: string;
+  email: string | null;
+};
+
+// Invitation links. Like share links, the token is the tokenId plus a
+// signature, so only the id is stored; accepting an invitation uses it up.
+export const workspaceInvitations = pgTable("workspace_invitations", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull(),
+  tokenId: text("token_id").notNull().unique(),
+  role: text("role").notNull().$type<WorkspaceRole>(),
+  invitedBy: integer("invited_by").notNull(),
+  expiresAt: text("expires_at").notNull(), // ISO date string
+  createdAt: text("created_at").notNull(), // ISO date string
+});
+
+export const insertWorkspaceInvitationSchema = createInsertSchema(workspaceInvitations, {
+  role: z.enum(INVITABLE_ROLES),
+  expiresAt: z.string(),
+  createdAt: z.string(),
+}).omit({
+  id: true,
+});
+
+export type InsertWorkspaceInvitation = z.infer<typeof insertWorkspaceInvitationSchema>;
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
+
+// Note revision schema
+export const noteRevisions = pgTable("note_revisions", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  userId: integer("user_id").notNull(),
+  title: text("title").default(""),
+  content: text("content").notNull(),
+  createdAt: text("created_at").notNull(), // ISO date string
+  startedAt: text("started_at"), // ISO date string of the first save merged into it; null for older revisions
+});
+
+export const insertNoteRevisionSchema = createInsertSchema(noteRevisions, {
+  title: z.string().optional(),
+  createdAt: z.string(),
+}).omit({
+  id: true,
+});
+
+export type InsertNoteRevision = z.infer<typeof insertNoteRevisionSchema>;
+export type NoteRevision = typeof noteRevisions.$inferSelect;
+
+// Note link schema: one row per [[link]] in a note's content, rebuilt on every save.
+// Links by id ([[#12]]) set targetNoteId, links by title set targetTitle.
+export const noteLinks = pgTable("note_links", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  sourceNoteId: integer("source_note_id").notNull(),
+  targetNoteId: integer("target_note_id"),
+  targetTitle: text("target_title"),
+});
+
+export const insertNoteLinkSchema = createInsertSchema(noteLinks, {
+  targetNoteId: z.number().optional().nullable(),
+  targetTitle: z.string().optional().nullable(),
+}).omit({
+  id: true,
+});
+
+export type InsertNoteLink = z.infer<typeof insertNoteLinkSchema>;
+export type NoteLink = typeof noteLinks.$inferSelect;
+
+// Every embedding provider produces vectors of this size
+export const EMBEDDING_DIMENSIONS = 512;
+
+// Note embeddings schema: a note's text in chunks, each with its embedding
+// for semantic search (needs the pgvector extension)
+export const noteEmbeddings = pgTable("note_embeddings", {
+  id: serial("id").primaryKey(),
+  noteId: integer("note_id").notNull(),
+  chunkIndex: integer("chunk_index").notNull(),
+  content: text("content").notNull(), // the chunk's text, without the note title
+  contentHash: text("content_hash").notNull(), // of the text that was embedded
+  model: text("model").notNull(), // the embedding model, so a switch re-embeds
+  embedding: vector("embedding", { dimensions: EMBEDDING_DIMENSIONS }).notNull(),
+  updatedAt: text("updated_at").notNull(), // ISO date string
+}, (table) => [
+  uniqueIndex("note_embeddings_note_chunk_idx").on(table.noteId, table.chunkIndex),
+  index("note_embeddings_embedding_idx").using("hnsw", table.embedding.op("vector_cosine_ops")),
+]);
+
+export const insertNoteEmbeddingSchema = createInsertSchema(noteEmbeddings, {
+  embedding: z.array(z.number()).length(EMBEDDING_DIMENSIONS),
+  updatedAt: z.string(),
+}).omit({
+  id: true,
+});
+
+export type InsertNoteEmbedding = z.infer<typeof insertNoteEmbeddingSchema>;
+export type NoteEmbedding = typeof noteEmbeddings.$inferSelect;
+
 // Note response schema
 export const noteResponseSchema = z.object({
   id: z.number(),
@@ -136,8 +404,12 @@ export const noteResponseSchema = z.object({
   drawingData: z.string().optional(),
   emojis: z.string().optional(),
   tags: z.array(z.string()).optional(),
+  workspaceId: z.number().nullable().optional(),
+  notebookId: z.number().nullable().optional(),
+  dailyDate: z.string().nullable().optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
+  deletedAt: z.string().nullable().optional(),
 });
 
 // Command execution schema
@@ -239,6 +511,41 @@ export const insertAiChatMessageSchema = createInsertSchema(aiChatMessages, {
 export type InsertAiChatMessage = z.infer<typeof insertAiChatMessageSchema>;
 export type AiChatMessage = typeof aiChatMessages.$inferSelect;
 
+// The note fields AI team members can change through tools
+export type AiNoteChange = Partial<Pick<InsertNote, 'title' | 'content' | 'tags' | 'color' | 'isPinned' | 'isArchived'>>;
+
+// AI tool invocation schema: an audit log of every tool an AI team member
+// called. Changes to notes wait here as proposals until the user decides.
+export const aiToolInvocations = pgTable("ai_tool_invocations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  aiTeamMemberId: integer("ai_team_member_id").notNull(),
+  workspaceId: integer("workspace_id"), // where a new note goes, null for personal notes
+  noteId: integer("note_id"), // the note acted on; for create_note, set once it's created
+  tool: text("tool").notNull(),
+  input: jsonb("input"), // arguments as the member sent them, null if they weren't valid JSON
+  status: text("status").notNull(), // 'executed', 'pending', 'applied', 'rejected', 'failed'
+  before: jsonb("before").$type<AiNoteChange>(), // the note's fields when the change was proposed
+  after: jsonb("after").$type<AiNoteChange>(), // what the change would make them
+  result: text("result"), // what the member was told, or why it failed
+  createdAt: text("created_at").notNull(), // ISO date string
+  resolvedAt: text("resolved_at"), // ISO date string, when a proposal was approved or rejected
+}, (table) => [
+  index("ai_tool_invocations_user_status_idx").on(table.userId, table.status),
+]);
+
+export const insertAiToolInvocationSchema = createInsertSchema(aiToolInvocations, {
+  input: z.unknown(),
+  before: z.custom<AiNoteChange>().optional().nullable(),
+  after: z.custom<AiNoteChange>().optional().nullable(),
+  createdAt: z.string(),
+}).omit({
+  id: true,
+});
+
+export type InsertAiToolInvocation = z.infer<typeof insertAiToolInvocationSchema>;
+export type AiToolInvocation = typeof aiToolInvocations.$inferSelect;
+
 // Response schemas
 export const aiTeamMemberResponseSchema = z.object({
   id: z.number(),
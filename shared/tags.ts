@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+// Tags are stored lower-case with "/" separating levels, e.g. "work/clienta".
+// A tag implicitly belongs to each of its parents: "work" covers "work/clienta".
+export const TAG_SEPARATOR = "/";
+export const MAX_TAG_LENGTH = 64;
+export const MAX_TAGS_PER_NOTE = 50;
+
+export interface TagCount {
+  tag: string;
+  count: number; // notes carrying this tag or one nested under it
+}
+
+/**
+ * Canonical form of a tag as typed by a user: no leading #, trimmed levels,
+ * no empty levels, lower-case. Returns "" when nothing is left.
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, "")
+    .split(TAG_SEPARATOR)
+    .map(level => level.trim().replace(/\s+/g, " "))
+    .filter(Boolean)
+    .join(TAG_SEPARATOR)
+    .toLowerCase();
+}
+
+export const tagSchema = z.string()
+  .transform(normalizeTag)
+  .refine(tag => tag.length > 0, "Tag can't be empty")
+  .refine(tag => tag.length <= MAX_TAG_LENGTH, `Tags are limited to ${MAX_TAG_LENGTH} characters`);
+
+// A note's tags: normalized, de-duplicated, order kept
+export const noteTagsSchema = z.array(z.string())
+  .transform(tags => Array.from(new Set(tags.map(normalizeTag).filter(Boolean))))
+  .refine(tags => tags.every(tag => tag.length <= MAX_TAG_LENGTH), `Tags are limited to ${MAX_TAG_LENGTH} characters`)
+  .refine(tags => tags.length <= MAX_TAGS_PER_NOTE, `A note can have at most ${MAX_TAGS_PER_NOTE} tags`);
+
+export function isTagOrDescendant(tag: string, ancestor: string): boolean {
+  return tag === ancestor || tag.startsWith(ancestor + TAG_SEPARATOR);
+}
+
+/**
+ * Move a tag (and everything nested under it) from one place to another:
+ * renaming "work" to "jobs" turns "work/clienta" into "jobs/clienta".
+ * Tags outside `from` are returned unchanged.
+ */
+export function renameTagPath(tag: string, from: string, to: string): string {
+  if (!isTagOrDescendant(tag, from)) return tag;
+  return to + tag.slice(from.length);
+}
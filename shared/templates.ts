@@ -0,0 +1,87 @@
+// Note templates carry {{placeholders}} that are filled in when a note is
+// created from them:
+//   {{date}} {{time}} {{weekday}}     when the note is created
+//   {{user.username}} {{user.email}}  the current user
+//   {{prompt:Client name}}            asked for in a dialog before creating
+// Unknown placeholders are left as they are.
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const PROMPT_PREFIX = "prompt:";
+
+export interface TemplateContext {
+  now: Date;
+  timeZone?: string; // IANA zone the date placeholders are shown in; defaults to the server's
+  date?: string; // YYYY-MM-DD shown by {{date}} and {{weekday}} instead of today's, for daily notes
+  user: { username: string; email?: string | null };
+  prompts: Record<string, string>; // answers keyed by prompt label
+}
+
+/**
+ * Labels of the {{prompt:...}} placeholders in the given texts, in order of
+ * first appearance and without repeats.
+ */
+export function getTemplatePrompts(...texts: string[]): string[] {
+  const prompts: string[] = [];
+
+  for (const text of texts) {
+    for (const match of Array.from(text.matchAll(PLACEHOLDER_PATTERN))) {
+      const name = match[1];
+      if (name.startsWith(PROMPT_PREFIX)) {
+        const label = name.slice(PROMPT_PREFIX.length).trim();
+        if (label && !prompts.includes(label)) prompts.push(label);
+      }
+    }
+  }
+
+  return prompts;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Calendar parts of a moment in the given time zone
+function getDateParts(now: Date, timeZone?: string): Record<string, string> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "long",
+    hourCycle: "h23",
+  }).formatToParts(now);
+
+  return Object.fromEntries(parts.map(part => [part.type, part.value]));
+}
+
+/**
+ * Replace the placeholders in a template text. Prompts without an answer
+ * become empty.
+ */
+export function renderTemplate(text: string, context: TemplateContext): string {
+  const parts = getDateParts(context.now, context.timeZone);
+  // A fixed date is read back in UTC so it comes out as the same calendar day
+  const dateParts = context.date ? getDateParts(new Date(`${context.date}T00:00:00Z`), "UTC") : parts;
+
+  const values: Record<string, string> = {
+    "date": `${dateParts.year}-${dateParts.month}-${dateParts.day}`,
+    "time": `${parts.hour}:${parts.minute}`,
+    "weekday": dateParts.weekday,
+    "user.username": context.user.username,
+    "user.email": context.user.email ?? "",
+  };
+
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (name.startsWith(PROMPT_PREFIX)) {
+      return context.prompts[name.slice(PROMPT_PREFIX.length).trim()] ?? "";
+    }
+    return name in values ? values[name] : placeholder;
+  });
+}
@@ -0,0 +1,50 @@
+// Workspaces ("Covens") let several users keep notes and notebooks together.
+// Every note and notebook belongs either to one user (workspaceId null) or
+// to a workspace, where what a member may do depends on their role.
+
+export const WORKSPACE_ROLES = ["owner", "editor", "commenter", "viewer"] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+// Roles an invitation can grant; ownership is only ever handed over by an owner
+export const INVITABLE_ROLES = ["editor", "commenter", "viewer"] as const;
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  commenter: "Commenter",
+  viewer: "Viewer",
+};
+
+// view: read notes. comment: react to notes. edit: create, change and
+// delete notes, notebooks and tags. manage: rename the workspace and manage
+// its members and invitations.
+export type WorkspacePermission = "view" | "comment" | "edit" | "manage";
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, WorkspacePermission[]> = {
+  owner: ["view", "comment", "edit", "manage"],
+  editor: ["view", "comment", "edit"],
+  commenter: ["view", "comment"],
+  viewer: ["view"],
+};
+
+export function hasWorkspacePermission(role: WorkspaceRole, permission: WorkspacePermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Requests for notes, notebooks and tags act on the workspace named by this
+// header, or on the user's own notes without it
+export const WORKSPACE_HEADER = "X-Workspace-Id";
+
+/**
+ * Where a request's notes live, and the user's role there. On their own
+ * notes a user is always the owner.
+ */
+export interface NoteScope {
+  userId: number;
+  workspaceId: number | null;
+  role: WorkspaceRole;
+}
+
+export function getPersonalScope(userId: number): NoteScope {
+  return { userId, workspaceId: null, role: "owner" };
+}